@@ -8,6 +8,7 @@ import { firebaseAdmin } from "./src/services";
 import helmet from "helmet";
 import { createServer } from "http";
 import { socketService } from "./src/services/Chat/socket.service";
+import { PublicationExpiryService } from "./src/services/Publication/publicationExpiry.service";
 import {
   CorsMiddleware,
   errorHandler,
@@ -21,6 +22,9 @@ import userRoutes from "./src/routes/user/user.router";
 import authRoutes from "./src/routes/user/auth.router";
 import publicationRoutes from "./src/routes/publications/publications.router";
 import chatRoutes from "./src/routes/chat/chat.router";
+import centerRoutes from "./src/routes/center/center.router";
+import moderationRoutes from "./src/routes/moderation/moderation.router";
+import notificationRoutes from "./src/routes/notification/notification.router";
 
 class BackendServer {
   public app: Application;
@@ -39,6 +43,7 @@ class BackendServer {
     this.initializeSocketIO();
     this.initializeErrorHandling();
     this.initializeHealthChecks();
+    this.initializeJobs();
   }
 
   private initializeConfiguration(): void {
@@ -134,6 +139,9 @@ class BackendServer {
     this.app.use("/api/auth", authRoutes);
     this.app.use("/api/publications", publicationRoutes);
     this.app.use("/api/chat", chatRoutes);
+    this.app.use("/api/centers", centerRoutes);
+    this.app.use("/api/moderation", moderationRoutes);
+    this.app.use("/api/notifications", notificationRoutes);
 
     // Root endpoint
     this.app.get("/", (req: Request, res: Response) => {
@@ -232,6 +240,12 @@ class BackendServer {
     console.log("✅ Health checks initialized");
   }
 
+  private initializeJobs(): void {
+    if (PublicationExpiryService.start()) {
+      console.log("✅ Publication expiry job scheduled");
+    }
+  }
+
   private getMemoryHealth(): { status: string; usage: any } {
     const memoryUsage = process.memoryUsage();
     const usedMB = Math.round(memoryUsage.heapUsed / 1024 / 1024);
@@ -17,10 +17,34 @@ export const multerUpload = multer({
   },
 });
 
+const DOCUMENT_MIME_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+];
+
+export const multerDocumentUpload = multer({
+  storage: storage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max
+    files: 5,
+  },
+  fileFilter: (req, file, cb) => {
+    if (DOCUMENT_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only PDF and image files are allowed"));
+    }
+  },
+});
+
 export const multerConfig = {
   single: (fieldName: string) => multerUpload.single(fieldName),
   array: (fieldName: string, maxCount?: number) =>
     multerUpload.array(fieldName, maxCount),
   fields: (fields: multer.Field[]) => multerUpload.fields(fields),
   any: () => multerUpload.any(),
+  documents: (fieldName: string, maxCount?: number) =>
+    multerDocumentUpload.array(fieldName, maxCount),
 };
@@ -0,0 +1,104 @@
+import { ROLES } from "../models/schema/role";
+import type { Role } from "../models/types/role";
+
+export const permissions = {
+  user: {
+    read: "user:read",
+    write: "user:write",
+    delete: "user:delete",
+  },
+
+  content: {
+    create: "content:create",
+    read: "content:read",
+    update: "content:update",
+    delete: "content:delete",
+    moderate: "content:moderate",
+  },
+
+  requests: {
+    create: "requests:create", // donation requests
+  },
+
+  centers: {
+    review: "centers:review",
+  },
+
+  roles: {
+    manage: "roles:manage",
+  },
+
+  system: {
+    config: "system:config",
+    monitor: "system:monitor",
+    admin: "system:admin",
+  },
+} as const;
+
+const ALL_PERMISSIONS: string[] = Object.values(permissions).flatMap(
+  (group) => Object.values(group)
+);
+
+const USER_PERMISSIONS: string[] = [
+  permissions.user.read,
+  permissions.user.write,
+  permissions.user.delete,
+  permissions.content.create,
+  permissions.content.read,
+  permissions.content.update,
+  permissions.content.delete,
+];
+
+/**
+ * Permissions granted by each role. A user holding several roles gets the
+ * union of them.
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly string[]> = {
+  [ROLES.USER]: USER_PERMISSIONS,
+  [ROLES.DONATION_CENTER]: [...USER_PERMISSIONS, permissions.requests.create],
+  [ROLES.MODERATOR]: [...USER_PERMISSIONS, permissions.content.moderate],
+  [ROLES.ADMIN]: ALL_PERMISSIONS,
+};
+
+const isRole = (role: string): role is Role => role in ROLE_PERMISSIONS;
+
+/**
+ * Lists every role of a user: the account role plus the roles granted by an
+ * admin. Unknown roles are ignored.
+ *
+ * @param user - User with its account role and granted roles
+ * @returns Unique list of roles
+ */
+export function getUserRoles(user: {
+  role?: string;
+  roles?: readonly string[];
+}): Role[] {
+  const roles = [user.role || ROLES.USER, ...(user.roles ?? [])];
+  return [...new Set(roles)].filter(isRole);
+}
+
+/**
+ * Resolves the permissions granted by a set of roles.
+ *
+ * @param roles - Roles of a user
+ * @returns Unique list of permissions
+ */
+export function getRolePermissions(roles: readonly string[]): string[] {
+  const granted = roles
+    .filter(isRole)
+    .flatMap((role) => ROLE_PERMISSIONS[role]);
+  return [...new Set(granted)];
+}
+
+/**
+ * Resolves the permissions of a user from all of its roles.
+ *
+ * @param user - User with its account role and granted roles
+ * @returns Unique list of permissions
+ */
+export function getUserPermissions(user: {
+  role?: string;
+  roles?: readonly string[];
+}): string[] {
+  return getRolePermissions(getUserRoles(user));
+}
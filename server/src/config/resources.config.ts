@@ -0,0 +1,101 @@
+import { permissions } from "./permissions.config";
+import { PublicationService } from "../services/Publication/publication.service";
+import { PledgeService } from "../services/Publication/pledge.service";
+import { SavedSearchService } from "../services/Publication/savedSearch.service";
+import { ExchangeProposalService } from "../services/Publication/exchangeProposal.service";
+import { chatService } from "../services/Chat/chat.service";
+import { UserService } from "../services/User/User.service";
+
+/**
+ * Describes how `AuthMiddleware.requireOwnership` loads a resource and who
+ * owns it.
+ */
+export interface ResourceResolver<T = unknown> {
+  /** Name used in error messages ("Publication not found") */
+  label: string;
+  /** Loads the resource, null when it doesn't exist */
+  load: (id: string) => Promise<T | null>;
+  /** Users allowed to act on the resource */
+  getOwnerIds: (resource: T) => string[];
+  /** Permissions that skip the ownership check */
+  bypassPermissions?: string[];
+}
+
+const resourceResolvers = new Map<string, ResourceResolver<any>>();
+
+/**
+ * Registers (or replaces) the resolver of a resource type.
+ *
+ * @param resourceType - Name used in `requireOwnership(resourceType)`
+ * @param resolver - How to load the resource and find its owners
+ *
+ * @example
+ * registerResourceResolver<Interest>("interest", {
+ *   label: "Interest",
+ *   load: (id) => InterestService.getInterestById(id),
+ *   getOwnerIds: (interest) => [interest.userId],
+ * });
+ */
+export function registerResourceResolver<T>(
+  resourceType: string,
+  resolver: ResourceResolver<T>
+): void {
+  resourceResolvers.set(resourceType, resolver);
+}
+
+/**
+ * Gets the resolver of a resource type.
+ *
+ * @param resourceType - Registered resource type
+ * @returns Resolver or undefined if the type isn't registered
+ */
+export function getResourceResolver(
+  resourceType: string
+): ResourceResolver | undefined {
+  return resourceResolvers.get(resourceType);
+}
+
+registerResourceResolver("publication", {
+  label: "Publication",
+  load: (id) => PublicationService.getPublicationById(id),
+  getOwnerIds: (publication) => [publication.userId],
+});
+
+// Either side of a pledge can act on it (e.g. cancel)
+registerResourceResolver("pledge", {
+  label: "Pledge",
+  load: (id) => PledgeService.getPledgeById(id),
+  getOwnerIds: (pledge) => [pledge.donorId, pledge.centerId],
+});
+
+registerResourceResolver("savedSearch", {
+  label: "Saved search",
+  load: (id) => SavedSearchService.getSavedSearchById(id),
+  getOwnerIds: (savedSearch) => [savedSearch.userId],
+});
+
+// Both sides of a trade can see the proposal
+registerResourceResolver("exchangeProposal", {
+  label: "Proposal",
+  load: (id) => ExchangeProposalService.getProposalById(id),
+  getOwnerIds: (proposal) => [proposal.proposerId, proposal.targetOwnerId],
+});
+
+registerResourceResolver("conversation", {
+  label: "Conversation",
+  load: (id) => chatService.getConversation(id),
+  getOwnerIds: (conversation) => conversation.participants,
+});
+
+registerResourceResolver("message", {
+  label: "Message",
+  load: (id) => chatService.getMessage(id),
+  getOwnerIds: (message) => [message.senderId],
+});
+
+registerResourceResolver("user", {
+  label: "User",
+  load: (id) => UserService.getUserById(id),
+  getOwnerIds: (user) => [user.id],
+  bypassPermissions: [permissions.system.admin],
+});
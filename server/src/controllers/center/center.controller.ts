@@ -0,0 +1,260 @@
+import type { Request, Response } from "express";
+import { asyncHandler, AuthMiddleware } from "../../middleware";
+import type { UploadedFile } from "../../middleware/upload.middleware";
+import { CenterService } from "../../services/Center/center.service";
+
+export class CenterController {
+  /**
+   * Handles donation center registration request.
+   * Creates the center account and a pending application for admin review.
+   *
+   * @route POST /centers/register
+   * @returns AuthResponse and the pending center application
+   *
+   * @example
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "user": { "id": "user123", ... },
+   *     "token": { "accessToken": "eyJ...", ... },
+   *     "center": {
+   *       "id": "user123",
+   *       "organizationName": "Banco de Alimentos",
+   *       "status": "pending"
+   *       // ... other center fields
+   *     }
+   *   },
+   *   "message": "Donation center registered, pending approval"
+   * }
+   */
+  static register = asyncHandler(async (req: Request, res: Response) => {
+    const { auth, center } = await CenterService.registerCenter(
+      req.body,
+      AuthMiddleware.getSessionContext(req)
+    );
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...auth,
+        center,
+      },
+      message: "Donation center registered, pending approval",
+    });
+  });
+
+  /**
+   * Gets the current center's application, including its review status.
+   *
+   * @route GET /centers/me
+   * @returns Center application
+   */
+  static getMyCenter = asyncHandler(async (req: Request, res: Response) => {
+    const center = await CenterService.getCenterById(req.user!.id);
+    if (!center) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "CENTER_NOT_FOUND",
+          message: "Donation center not found",
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        center,
+      },
+    });
+  });
+
+  /**
+   * Handles updating the current center's organization details.
+   *
+   * @route PATCH /centers/me
+   * @returns Updated center application
+   */
+  static updateMyCenter = asyncHandler(async (req: Request, res: Response) => {
+    const center = await CenterService.updateCenter(req.user!.id, req.body);
+
+    res.json({
+      success: true,
+      data: {
+        center,
+      },
+      message: "Donation center updated successfully",
+    });
+  });
+
+  /**
+   * Handles uploading supporting documents for the current center.
+   *
+   * @route POST /centers/me/documents
+   * @returns Updated center application
+   */
+  static uploadDocuments = asyncHandler(
+    async (req: Request, res: Response) => {
+      const files = (req as any).files as UploadedFile[];
+
+      const center = await CenterService.addDocuments(req.user!.id, files);
+
+      res.json({
+        success: true,
+        data: {
+          center,
+        },
+        message: "Documents uploaded successfully",
+      });
+    }
+  );
+
+  /**
+   * Lists approved donation centers.
+   *
+   * @route GET /centers
+   * @returns Public profiles of approved centers
+   */
+  static getCenters = asyncHandler(async (req: Request, res: Response) => {
+    const centers = await CenterService.getApprovedCenters();
+
+    res.json({
+      success: true,
+      data: {
+        centers,
+        total: centers.length,
+      },
+    });
+  });
+
+  /**
+   * Gets the public profile of an approved donation center.
+   *
+   * @route GET /centers/:id
+   * @returns Public center profile
+   */
+  static getCenter = asyncHandler(async (req: Request, res: Response) => {
+    const centerId = req.params.id || "";
+
+    const center = await CenterService.getPublicCenter(centerId);
+    if (!center) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "CENTER_NOT_FOUND",
+          message: "Donation center not found",
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        center,
+      },
+    });
+  });
+
+  /**
+   * Lists center applications for admin review.
+   *
+   * @route GET /centers/admin/applications
+   * @query status - Application status (default: "pending")
+   * @returns Center applications
+   */
+  static getApplications = asyncHandler(
+    async (req: Request, res: Response) => {
+      const { status } = (req as any).validatedQuery || {};
+
+      const centers = await CenterService.getApplications(status);
+
+      res.json({
+        success: true,
+        data: {
+          centers,
+          total: centers.length,
+        },
+      });
+    }
+  );
+
+  /**
+   * Gets a center application with signed links to its documents.
+   *
+   * @route GET /centers/admin/applications/:id
+   * @returns Center application and document download URLs
+   */
+  static getApplication = asyncHandler(async (req: Request, res: Response) => {
+    const centerId = req.params.id || "";
+
+    const center = await CenterService.getCenterById(centerId);
+    if (!center) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "CENTER_NOT_FOUND",
+          message: "Donation center not found",
+        },
+      });
+    }
+
+    const documents = await CenterService.getDocumentUrls(center);
+
+    res.json({
+      success: true,
+      data: {
+        center,
+        documents,
+      },
+    });
+  });
+
+  /**
+   * Handles an admin approving a center application.
+   *
+   * @route POST /centers/admin/applications/:id/approve
+   * @returns Approved center
+   */
+  static approve = asyncHandler(async (req: Request, res: Response) => {
+    const centerId = req.params.id || "";
+
+    const center = await CenterService.approveCenter(
+      centerId,
+      req.user!.id,
+      req.body
+    );
+
+    res.json({
+      success: true,
+      data: {
+        center,
+      },
+      message: "Donation center approved",
+    });
+  });
+
+  /**
+   * Handles an admin rejecting a center application.
+   *
+   * @route POST /centers/admin/applications/:id/reject
+   * @returns Rejected center
+   */
+  static reject = asyncHandler(async (req: Request, res: Response) => {
+    const centerId = req.params.id || "";
+
+    const center = await CenterService.rejectCenter(
+      centerId,
+      req.user!.id,
+      req.body
+    );
+
+    res.json({
+      success: true,
+      data: {
+        center,
+      },
+      message: "Donation center rejected",
+    });
+  });
+}
@@ -1,10 +1,17 @@
 import type { Request, Response } from "express";
 import {
+  AttachmentUrlQuerySchema,
+  CreateAttachmentUploadSchema,
   CreateConversationSchema,
   CreateMessageSchema,
+  DeleteMessageQuerySchema,
+  EditMessageSchema,
+  MessageHistoryQuerySchema,
+  ReactionSchema,
 } from "../../models/schema/chat";
-import { parse } from "valibot";
+import { parse, safeParse } from "valibot";
 import { chatService } from "../../services/Chat/chat.service";
+import { attachmentService } from "../../services/Chat/attachment.service";
 
 export class ChatController {
   /**
@@ -141,7 +148,8 @@ export class ChatController {
         userId!,
         validateData.content,
         validateData.messageType as any,
-        validateData.metadata
+        validateData.metadata,
+        validateData.attachmentId
       );
 
       res.status(200).json({
@@ -159,22 +167,27 @@ export class ChatController {
   }
 
   /**
-   * Retrieves messages from a specific conversation with pagination support.
+   * Retrieves a page of a conversation's history, newest message first.
+   * Without a cursor it returns the latest messages; the before and after
+   * cursors of a page load the older and newer messages, and around jumps
+   * to a message with the messages surrounding it.
    *
    * @route GET /conversations/:conversationId/messages
    * @param {string} req.params.conversationId - The ID of the conversation to retrieve messages from
-   * @param {number} [req.query.limit=50] - Maximum number of messages to return (default: 50)
-   * @param {string} [req.query.startAfter] - Cursor for pagination (start after this message ID)
-   * @returns {Object} Response object containing messages array
+   * @param {string} [req.query.before] - Load the messages older than this message ID
+   * @param {string} [req.query.after] - Load the messages newer than this message ID
+   * @param {string} [req.query.around] - Load a window centered on this message ID
+   * @param {number} [req.query.limit=50] - Maximum number of messages to return (1-100)
+   * @returns {Object} Response object containing the page
    * @returns {boolean} success - Indicates if the request was successful
-   * @returns {Array} data - Array of message objects from the conversation
-   * @throws {400} Bad request if conversation ID is not provided
+   * @returns {Object} data - Messages, before/after cursors and hasOlder/hasNewer
+   * @throws {400} Bad request if the query is invalid
+   * @throws {404} Not found if a cursor message isn't in the conversation
    * @throws {500} Internal server error if message retrieval fails
    */
   async getMessages(req: Request, res: Response) {
     try {
       const { conversationId } = req.params;
-      const { limit = 50, startAfter } = req.query;
 
       if (!conversationId)
         return res.status(400).json({
@@ -182,19 +195,27 @@ export class ChatController {
           error: "Not conversation provided",
         });
 
-      const messages = await chatService.getConversationMessages(
+      const query = safeParse(MessageHistoryQuerySchema, req.query);
+      if (!query.success) {
+        return res.status(400).json({
+          success: false,
+          error: query.issues[0]?.message ?? "Invalid query",
+        });
+      }
+
+      const page = await chatService.getMessageHistory(
         conversationId,
-        Number(limit),
-        startAfter as any
+        query.output,
+        req.userId
       );
 
       res.json({
         success: true,
-        data: messages,
+        data: page,
       });
     } catch (error: any) {
       console.error("Get messages error:", error);
-      res.status(500).json({
+      res.status(error.message === "MESSAGE_NOT_FOUND" ? 404 : 500).json({
         success: false,
         error: error.message,
       });
@@ -271,6 +292,213 @@ export class ChatController {
     }
   }
 
+  /**
+   * Edits a text message the authenticated user sent, within the edit
+   * window.
+   *
+   * @route PATCH /messages/:messageId
+   * @body EditMessageSchema
+   * @param {string} req.userId - The authenticated user's ID (from middleware)
+   * @param {string} req.params.messageId - The ID of the message to edit
+   * @returns {Object} Response object containing the edited message
+   * @throws {400} Bad request if validation fails or the message can't be edited
+   */
+  async editMessage(req: Request, res: Response) {
+    try {
+      const userId = req.userId;
+      const { messageId } = req.params;
+      const { content } = parse(EditMessageSchema, req.body);
+
+      const message = await chatService.editMessage(
+        messageId!,
+        userId!,
+        content
+      );
+
+      res.json({
+        success: true,
+        data: message,
+        message: "Message edited successfully",
+      });
+    } catch (error: any) {
+      console.error("Edit message error:", error);
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Deletes a message for the authenticated user only (scope=me, default)
+   * or, for its sender, for everyone (scope=everyone).
+   *
+   * @route DELETE /messages/:messageId
+   * @param {string} req.userId - The authenticated user's ID (from middleware)
+   * @param {string} req.params.messageId - The ID of the message to delete
+   * @param {string} [req.query.scope=me] - "me" or "everyone"
+   * @returns {Object} Response object confirming the deletion
+   * @throws {400} Bad request if validation fails or the message can't be deleted
+   */
+  async deleteMessage(req: Request, res: Response) {
+    try {
+      const userId = req.userId;
+      const { messageId } = req.params;
+      const { scope } = parse(DeleteMessageQuerySchema, req.query);
+
+      await chatService.deleteMessage(messageId!, userId!, scope);
+
+      res.json({
+        success: true,
+        message: "Message deleted successfully",
+      });
+    } catch (error: any) {
+      console.error("Delete message error:", error);
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Adds the authenticated user's emoji reaction to a message.
+   *
+   * @route POST /messages/:messageId/reactions
+   * @body ReactionSchema
+   * @param {string} req.userId - The authenticated user's ID (from middleware)
+   * @param {string} req.params.messageId - The ID of the message
+   * @returns {Object} Response object confirming the reaction
+   * @throws {400} Bad request if validation fails or the reaction fails
+   */
+  async addReaction(req: Request, res: Response) {
+    try {
+      const userId = req.userId;
+      const { messageId } = req.params;
+      const { emoji } = parse(ReactionSchema, req.body);
+
+      await chatService.addReaction(messageId!, userId!, emoji);
+
+      res.status(201).json({
+        success: true,
+        message: "Reaction added successfully",
+      });
+    } catch (error: any) {
+      console.error("Add reaction error:", error);
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Prepares the upload of an image or file to a conversation. The client
+   * PUTs the file (and the image thumbnail, if declared) to the returned
+   * URLs, then sends a message with the attachment ID. Thumbnails are made
+   * by the client; an image declared without one never gets one.
+   *
+   * @route POST /conversations/:conversationId/attachments
+   * @body CreateAttachmentUploadSchema
+   * @param {string} req.userId - The authenticated user's ID (from middleware)
+   * @param {string} req.params.conversationId - The ID of the conversation
+   * @returns {Object} Response object containing the pending attachment and its upload URLs
+   * @throws {400} Bad request if validation fails or the upload can't be prepared
+   */
+  async createAttachmentUpload(req: Request, res: Response) {
+    try {
+      const userId = req.userId;
+      const { conversationId } = req.params;
+      const input = parse(CreateAttachmentUploadSchema, req.body);
+
+      const upload = await attachmentService.createUpload(
+        conversationId!,
+        userId!,
+        input
+      );
+
+      res.status(201).json({
+        success: true,
+        data: upload,
+        message: "Attachment upload ready",
+      });
+    } catch (error: any) {
+      console.error("Create attachment upload error:", error);
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Gets a short-lived download URL of an attachment or its thumbnail, for
+   * the participants of its conversation.
+   *
+   * @route GET /attachments/:attachmentId
+   * @param {string} req.userId - The authenticated user's ID (from middleware)
+   * @param {string} req.params.attachmentId - The ID of the attachment
+   * @param {string} [req.query.variant=original] - "original" or "thumbnail"
+   * @returns {Object} Response object containing the download URL
+   * @throws {400} Bad request if the query is invalid or the user isn't a participant
+   * @throws {404} Not found if the attachment doesn't exist or was removed
+   */
+  async getAttachmentUrl(req: Request, res: Response) {
+    try {
+      const userId = req.userId;
+      const { attachmentId } = req.params;
+      const { variant } = parse(AttachmentUrlQuerySchema, req.query);
+
+      const download = await attachmentService.getDownloadUrl(
+        attachmentId!,
+        userId!,
+        variant
+      );
+
+      res.json({
+        success: true,
+        data: download,
+      });
+    } catch (error: any) {
+      console.error("Get attachment URL error:", error);
+      res.status(error.message === "ATTACHMENT_NOT_FOUND" ? 404 : 400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Removes the authenticated user's emoji reaction from a message.
+   *
+   * @route DELETE /messages/:messageId/reactions/:emoji
+   * @param {string} req.userId - The authenticated user's ID (from middleware)
+   * @param {string} req.params.messageId - The ID of the message
+   * @param {string} req.params.emoji - The emoji of the reaction (URL encoded)
+   * @returns {Object} Response object confirming the removal
+   * @throws {400} Bad request if removing the reaction fails
+   */
+  async removeReaction(req: Request, res: Response) {
+    try {
+      const userId = req.userId;
+      const { messageId } = req.params;
+      const { emoji } = parse(ReactionSchema, { emoji: req.params.emoji });
+
+      await chatService.removeReaction(messageId!, userId!, emoji);
+
+      res.json({
+        success: true,
+        message: "Reaction removed successfully",
+      });
+    } catch (error: any) {
+      console.error("Remove reaction error:", error);
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
   async subscribeToConversation(req: Request, res: Response) {
     try {
       const { conversationId } = req.params;
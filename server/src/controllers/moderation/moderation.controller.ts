@@ -0,0 +1,104 @@
+import type { Request, Response } from "express";
+import { asyncHandler } from "../../middleware";
+import { ModerationService } from "../../services/Moderation/moderation.service";
+
+export class ModerationController {
+  /**
+   * Handles reporting a publication, a user or a chat message.
+   *
+   * @route POST /moderation/reports
+   * @returns Created report
+   */
+  static createReport = asyncHandler(async (req: Request, res: Response) => {
+    const report = await ModerationService.createReport(req.user!.id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: report,
+      message: "Report submitted successfully",
+    });
+  });
+
+  /**
+   * Lists the moderation queue, oldest report first.
+   *
+   * @route GET /moderation/queue
+   * @returns Page of reports and the cursor of the next page
+   */
+  static getQueue = asyncHandler(async (req: Request, res: Response) => {
+    const { status, targetType, cursor, limit } = (req as any).validatedQuery;
+
+    const page = await ModerationService.getQueue(
+      { status, targetType },
+      cursor,
+      limit
+    );
+
+    res.json({
+      success: true,
+      data: page,
+    });
+  });
+
+  /**
+   * Gets a report with the reported content, the other open reports of the
+   * same target and the actions already taken on it.
+   *
+   * @route GET /moderation/reports/:reportId
+   * @returns Report details
+   */
+  static getReport = asyncHandler(async (req: Request, res: Response) => {
+    const reportId = req.params.reportId || "";
+
+    const details = await ModerationService.getReportDetails(reportId);
+
+    res.json({
+      success: true,
+      data: details,
+    });
+  });
+
+  /**
+   * Handles a moderation action on a report's target.
+   *
+   * @route POST /moderation/reports/:reportId/actions
+   * @returns Moderation log entry of the action
+   */
+  static takeAction = asyncHandler(async (req: Request, res: Response) => {
+    const reportId = req.params.reportId || "";
+
+    const log = await ModerationService.takeAction(
+      reportId,
+      req.user!.id,
+      req.body
+    );
+
+    res.json({
+      success: true,
+      data: log,
+      message: "Moderation action applied",
+    });
+  });
+
+  /**
+   * Lists the moderation log, newest first.
+   *
+   * @route GET /moderation/audit
+   * @returns Page of log entries and the cursor of the next page
+   */
+  static getAuditLog = asyncHandler(async (req: Request, res: Response) => {
+    const { targetId, moderatorId, cursor, limit } = (req as any)
+      .validatedQuery;
+
+    const page = await ModerationService.getAuditLog(
+      { targetId, moderatorId },
+      cursor,
+      limit
+    );
+
+    res.json({
+      success: true,
+      data: page,
+    });
+  });
+}
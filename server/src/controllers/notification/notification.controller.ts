@@ -0,0 +1,150 @@
+import type { Request, Response } from "express";
+import { asyncHandler } from "../../middleware";
+import { NotificationService } from "../../services/Notification/notification.service";
+import { pushService } from "../../services/Push/push.service";
+
+export class NotificationController {
+  /**
+   * Lists the authenticated user's notifications, newest first.
+   *
+   * @route GET /notifications
+   * @returns Page of notifications, the unread count and the next cursor
+   */
+  static getNotifications = asyncHandler(
+    async (req: Request, res: Response) => {
+      const { unread, cursor, limit } = (req as any).validatedQuery;
+
+      const page = await NotificationService.getNotifications(
+        req.user!.id,
+        unread === "true",
+        cursor,
+        limit
+      );
+
+      res.json({
+        success: true,
+        data: page,
+      });
+    }
+  );
+
+  /**
+   * Counts the authenticated user's unread notifications.
+   *
+   * @route GET /notifications/unread-count
+   * @returns Unread count
+   */
+  static getUnreadCount = asyncHandler(async (req: Request, res: Response) => {
+    const unreadCount = await NotificationService.getUnreadCount(req.user!.id);
+
+    res.json({
+      success: true,
+      data: { unreadCount },
+    });
+  });
+
+  /**
+   * Handles marking a notification as read.
+   *
+   * @route PATCH /notifications/:notificationId/read
+   * @returns Read notification
+   */
+  static markAsRead = asyncHandler(async (req: Request, res: Response) => {
+    const notificationId = req.params.notificationId || "";
+
+    const notification = await NotificationService.markAsRead(
+      req.user!.id,
+      notificationId
+    );
+
+    res.json({
+      success: true,
+      data: notification,
+      message: "Notification marked as read",
+    });
+  });
+
+  /**
+   * Handles marking every notification as read.
+   *
+   * @route PATCH /notifications/read-all
+   * @returns Number of notifications marked
+   */
+  static markAllAsRead = asyncHandler(async (req: Request, res: Response) => {
+    const marked = await NotificationService.markAllAsRead(req.user!.id);
+
+    res.json({
+      success: true,
+      data: { marked },
+      message: "All notifications marked as read",
+    });
+  });
+
+  /**
+   * Handles registering a device for pushes.
+   *
+   * @route POST /notifications/devices
+   * @returns Registered device
+   */
+  static registerDevice = asyncHandler(async (req: Request, res: Response) => {
+    const device = await pushService.registerDevice(req.user!.id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: device,
+      message: "Device registered successfully",
+    });
+  });
+
+  /**
+   * Handles unregistering a device.
+   *
+   * @route DELETE /notifications/devices
+   */
+  static unregisterDevice = asyncHandler(
+    async (req: Request, res: Response) => {
+      await pushService.unregisterDevice(req.user!.id, req.body.token);
+
+      res.json({
+        success: true,
+        message: "Device unregistered successfully",
+      });
+    }
+  );
+
+  /**
+   * Gets the authenticated user's push preferences.
+   *
+   * @route GET /notifications/preferences
+   * @returns Push preferences
+   */
+  static getPreferences = asyncHandler(async (req: Request, res: Response) => {
+    const preferences = await pushService.getPreferences(req.user!.id);
+
+    res.json({
+      success: true,
+      data: preferences,
+    });
+  });
+
+  /**
+   * Handles updating the authenticated user's push preferences.
+   *
+   * @route PATCH /notifications/preferences
+   * @returns Updated push preferences
+   */
+  static updatePreferences = asyncHandler(
+    async (req: Request, res: Response) => {
+      const preferences = await pushService.updatePreferences(
+        req.user!.id,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        data: preferences,
+        message: "Preferences updated successfully",
+      });
+    }
+  );
+}
@@ -1,8 +1,16 @@
 import type { NextFunction, Request, Response } from "express";
-import { asyncHandler } from "../../middleware";
+import { asyncHandler, permissions } from "../../middleware";
 import type { UploadedFile } from "../../middleware/upload.middleware";
 import { s3Service } from "../../services/AWS/s3.service";
 import { PublicationService } from "../../services/Publication/publication.service";
+import { InterestService } from "../../services/Publication/interest.service";
+import { PledgeService } from "../../services/Publication/pledge.service";
+import { SavedSearchService } from "../../services/Publication/savedSearch.service";
+import { ExchangeMatchService } from "../../services/Publication/exchangeMatch.service";
+import { ExchangeProposalService } from "../../services/Publication/exchangeProposal.service";
+import { PROPOSAL_STATUS } from "../../models/schema/exchangeProposal";
+import { PUBLICATION_STATUS } from "../../models/schema/publication";
+import { BlockService } from "../../services/User/Block.service";
 
 export class PublicationController {
   /**
@@ -177,69 +185,188 @@ export class PublicationController {
   );
 
   /**
-   * Handles donation quantity update for donation request publications.
+   * Handles pledging items to a donation request.
    *
-   * @route PATCH /publications/:id/quantity
-   * @body { additionalQuantity: number }
-   * @returns Updated publication data
+   * @route POST /publications/:id/pledges
+   * @body CreatePledgeSchema - { item: string, quantity: number, note?: string }
+   * @returns Created pledge
+   *
+   * @example
+   * // Request
+   * POST /publications/pub123/pledges
+   * {
+   *   "item": "rice",
+   *   "quantity": 5,
+   *   "note": "I can drop them off on Saturday"
+   * }
+   *
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "pledge": {
+   *       "id": "pledge123",
+   *       "publicationId": "pub123",
+   *       "donorId": "user456",
+   *       "item": "rice",
+   *       "quantity": 5,
+   *       "status": "pledged"
+   *       // ... other pledge fields
+   *     }
+   *   },
+   *   "message": "Pledge created successfully"
+   * }
+   */
+  static createPledge = asyncHandler(async (req: Request, res: Response) => {
+    const publicationId = req.params.id || "";
+    const userId = req.user!.id;
+
+    const pledgeId = await PledgeService.createPledge(
+      publicationId,
+      userId,
+      req.body
+    );
+
+    const pledge = await PledgeService.getPledgeById(pledgeId);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        pledge,
+      },
+      message: "Pledge created successfully",
+    });
+  });
+
+  /**
+   * Handles retrieval of the pledge ledger of a donation request.
+   * Only the donation center that owns the request can see it.
+   *
+   * @route GET /publications/:id/pledges
+   * @returns Pledges for the donation request
+   */
+  static getPublicationPledges = asyncHandler(
+    async (req: Request, res: Response) => {
+      const publicationId = req.params.id || "";
+      const userId = req.user!.id;
+
+      const pledges = await PledgeService.getPublicationPledges(
+        publicationId,
+        userId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          pledges,
+          total: pledges.length,
+        },
+      });
+    }
+  );
+
+  /**
+   * Handles retrieval of the pledges made by the current user.
+   *
+   * @route GET /publications/pledges/me
+   * @returns Current user's pledges
+   */
+  static getMyPledges = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const pledges = await PledgeService.getDonorPledges(userId);
+
+    res.json({
+      success: true,
+      data: {
+        pledges,
+        total: pledges.length,
+      },
+    });
+  });
+
+  /**
+   * Handles a donation center confirming a pledge was delivered.
+   * Updates the request's current quantity and completes it once the target is reached.
+   *
+   * @route POST /publications/pledges/:pledgeId/deliver
+   * @body ConfirmDeliverySchema - { deliveredQuantity?: number }
+   * @returns Updated pledge and donation request
    *
    * @example
    * // Request
-   * PATCH /publications/pub123/quantity
+   * POST /publications/pledges/pledge123/deliver
    * {
-   *   "additionalQuantity": 5
+   *   "deliveredQuantity": 4
    * }
    *
    * // Response
    * {
    *   "success": true,
    *   "data": {
+   *     "pledge": {
+   *       "id": "pledge123",
+   *       "status": "delivered",
+   *       "deliveredQuantity": 4
+   *       // ... other pledge fields
+   *     },
    *     "publication": {
    *       "id": "pub123",
-   *       "title": "Food donations needed",
-   *       "type": "donation_request",
    *       "targetQuantity": 100,
-   *       "currentQuantity": 25, // Updated from 20
+   *       "currentQuantity": 29
    *       // ... other publication fields
    *     }
    *   },
-   *   "message": "Donation quantity updated successfully"
+   *   "message": "Delivery confirmed successfully"
    * }
    */
-  static updateDonationQuantity = asyncHandler(
+  static confirmPledgeDelivery = asyncHandler(
     async (req: Request, res: Response) => {
-      const publicationId = req.params.id || "";
-      const { additionalQuantity } = req.body;
-
-      if (!additionalQuantity || additionalQuantity <= 0) {
-        return res.status(400).json({
-          success: false,
-          error: {
-            code: "INVALID_QUANTITY",
-            message: "Additional quantity must be a positive number",
-          },
-        });
-      }
+      const pledgeId = req.params.pledgeId || "";
+      const userId = req.user!.id;
 
-      await PublicationService.updateDonationQuantity(
-        publicationId,
-        additionalQuantity
+      const pledge = await PledgeService.confirmDelivery(
+        pledgeId,
+        userId,
+        req.body
       );
 
-      const updatedPublication = await PublicationService.getPublicationById(
-        publicationId
+      const publication = await PublicationService.getPublicationById(
+        pledge.publicationId
       );
 
       res.json({
         success: true,
         data: {
-          publication: updatedPublication,
+          pledge,
+          publication,
         },
-        message: "Donation quantity updated successfully",
+        message: "Delivery confirmed successfully",
       });
     }
   );
 
+  /**
+   * Handles cancelling an outstanding pledge, by its donor or the donation center.
+   *
+   * @route DELETE /publications/pledges/:pledgeId
+   * @returns Cancelled pledge
+   */
+  static cancelPledge = asyncHandler(async (req: Request, res: Response) => {
+    const pledgeId = req.params.pledgeId || "";
+    const userId = req.user!.id;
+
+    const pledge = await PledgeService.cancelPledge(pledgeId, userId);
+
+    res.json({
+      success: true,
+      data: {
+        pledge,
+      },
+      message: "Pledge cancelled successfully",
+    });
+  });
+
   /**
    * Handles publication deletion (soft delete) request.
    *
@@ -300,7 +427,19 @@ export class PublicationController {
       publicationId
     );
 
-    if (!publication) {
+    // Drafts and removed publications are only shown to their owner,
+    // hidden ones to their owner and moderators
+    const isOwner = req.user?.id === publication?.userId;
+    const canSeeHidden =
+      isOwner || req.user?.permissions?.includes(permissions.content.moderate);
+
+    if (
+      !publication ||
+      (publication.status === PUBLICATION_STATUS.HIDDEN && !canSeeHidden) ||
+      (!isOwner &&
+        (publication.status === PUBLICATION_STATUS.DRAFT ||
+          publication.status === PUBLICATION_STATUS.REMOVED))
+    ) {
       return res.status(404).json({
         success: false,
         error: {
@@ -319,21 +458,42 @@ export class PublicationController {
   });
 
   /**
-   * Handles publications listing with filtering, sorting, and pagination.
+   * Handles publications listing with filtering, sorting, and cursor pagination.
+   * type, category and priority accept comma-separated values (any of them
+   * matches), tags matches publications with any of the given tags.
    *
    * @route GET /publications
    * @query Various filter, pagination, and sorting parameters
-   * @returns Paginated publications with metadata
+   * @returns Page of publications with the cursor of the next page
    *
    * @example
-   * // Get active donation requests near a location
-   * GET /publications?type=donation_request&category=food&latitude=40.7128&longitude=-74.0060&radius=5&page=1&limit=20&sortBy=priority&sortOrder=desc
+   * // Get active food or clothing requests near a location
+   * GET /publications?type=donation_request&category=food,clothing&latitude=40.7128&longitude=-74.0060&radius=5&limit=20&sortBy=priority&sortOrder=desc
+   *
+   * // Get the next page
+   * GET /publications?type=donation_request&category=food,clothing&cursor=pub123
    *
    * // Get user's publications
    * GET /publications?userId=user123&isActive=true
    *
-   * // Search publications
-   * GET /publications?q=urgent%20food&category=food
+   * // Get your own inactive publications (drafts, expired...). isActive=false
+   * // is only honored with your own userId, active ones are listed otherwise
+   * GET /publications?userId=me123&isActive=false
+   *
+   * // Search publications (best match first)
+   * GET /publications?q=zapatos%20niña&category=clothing
+   *
+   * // Search result
+   * {
+   *   "id": "pub789",
+   *   "title": "Zapatos de niña",
+   *   // ... other publication fields
+   *   "score": 4.182,
+   *   "highlights": {
+   *     "title": "<mark>Zapatos</mark> de <mark>niña</mark>",
+   *     "description": "…talla 30, <mark>zapatos</mark> casi nuevos…"
+   *   }
+   * }
    *
    * // Response
    * {
@@ -341,10 +501,10 @@ export class PublicationController {
    *   "data": {
    *     "publications": [...],
    *     "pagination": {
-   *       "page": 1,
    *       "limit": 20,
-   *       "total": 45,
-   *       "totalPages": 3
+   *       "nextCursor": "pub456",
+   *       "hasMore": true,
+   *       "total": 45 // omitted when filtering by location without q
    *     },
    *     "filters": {
    *       "type": "donation_request",
@@ -355,14 +515,30 @@ export class PublicationController {
    * }
    */
   static getPublications = asyncHandler(async (req: Request, res: Response) => {
+    const list = (value: unknown) =>
+      typeof value === "string" && value.length > 0
+        ? value.split(",").map((item) => item.trim())
+        : undefined;
+
+    const userId = req.query.userId as string;
+
+    // Inactive publications (drafts, removed, hidden...) are only listed to
+    // their owner
+    const isOwnListing = !!req.user && userId === req.user.id;
+
+    // Users who blocked each other don't see each other's publications
+    const hiddenIds = req.user
+      ? await BlockService.getHiddenUserIds(req.user.id)
+      : undefined;
+
     const filters = {
-      type: req.query.type as string,
-      category: req.query.category as string,
-      userId: req.query.userId as string,
+      type: list(req.query.type),
+      category: list(req.query.category),
+      userId,
       centerId: req.query.centerId as string,
-      isActive:
-        req.query.isActive !== undefined ? req.query.isActive === "true" : true,
-      priority: req.query.priority as string,
+      isActive: isOwnListing ? req.query.isActive !== "false" : true,
+      priority: list(req.query.priority),
+      tags: list(req.query.tags),
       searchQuery: req.query.q as string,
       ...(req.query.latitude &&
         req.query.longitude && {
@@ -375,26 +551,29 @@ export class PublicationController {
     };
 
     const pagination = {
-      page: req.query.page ? parseInt(req.query.page as string) : 1,
-      limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+      cursor: (req.query.cursor as string) || undefined,
+      limit: req.query.limit
+        ? Math.min(parseInt(req.query.limit as string) || 20, 100)
+        : 20,
       sortBy: (req.query.sortBy as "priority" | "another think") || "priority",
       sortOrder: (req.query.sortOrder as "asc" | "desc") || "desc",
     };
 
-    const { publications, total } = await PublicationService.getPublications(
-      filters,
-      pagination
-    );
+    const { publications, nextCursor, hasMore, total } =
+      await PublicationService.getPublications(
+        { ...filters, excludeUserIds: hiddenIds },
+        pagination
+      );
 
     res.json({
       success: true,
       data: {
         publications,
         pagination: {
-          page: pagination.page,
           limit: pagination.limit,
+          nextCursor,
+          hasMore,
           total,
-          totalPages: Math.ceil(total / pagination.limit),
         },
         filters,
       },
@@ -413,6 +592,9 @@ export class PublicationController {
    * // Get current user's publications
    * GET /publications/user/me
    *
+   * // Get current user's drafts and expired publications
+   * GET /publications/user/me?status=draft,expired
+   *
    * // Get specific user's publications
    * GET /users/user123/publications
    *
@@ -452,7 +634,16 @@ export class PublicationController {
         });
       }
 
-      const publications = await PublicationService.getUserPublications(userId);
+      // Other statuses (drafts, expired...) are only listed to their owner
+      const status =
+        userId === req.user?.id && typeof req.query.status === "string"
+          ? req.query.status.split(",").map((item) => item.trim())
+          : undefined;
+
+      const publications = await PublicationService.getUserPublications(
+        userId,
+        status
+      );
 
       res.json({
         success: true,
@@ -515,8 +706,8 @@ export class PublicationController {
    * Handles search for publications within a geographic radius.
    *
    * @route GET /publications/nearby
-   * @query latitude, longitude, radius, type, category, q (search query)
-   * @returns Publications within the specified radius
+   * @query latitude, longitude, radius, type, category, q (search query), limit
+   * @returns Publications within the specified radius, closest first
    *
    * @example
    * // Search for food donations within 5km
@@ -535,7 +726,8 @@ export class PublicationController {
    *           "latitude": 40.7129,
    *           "longitude": -74.0061,
    *           "address": "123 Main St"
-   *         }
+   *         },
+   *         "distance": 0.01 // km
    *         // ... other publication fields
    *       }
    *     ],
@@ -562,17 +754,25 @@ export class PublicationController {
         });
       }
 
+      const hiddenIds = req.user
+        ? await BlockService.getHiddenUserIds(req.user.id)
+        : undefined;
+
       const filters = {
         type: req.query.type as string,
         category: req.query.category as string,
         searchQuery: req.query.q as string,
+        excludeUserIds: hiddenIds,
       };
 
       const publications = await PublicationService.searchPublicationsNearby(
         parseFloat(latitude as string),
         parseFloat(longitude as string),
         parseFloat(radius as string),
-        filters
+        filters,
+        req.query.limit
+          ? Math.min(parseInt(req.query.limit as string) || 50, 100)
+          : 50
       );
 
       res.json({
@@ -591,12 +791,13 @@ export class PublicationController {
   );
 
   /**
-   * Handles expressing interest in a publication (placeholder implementation).
-   * In a full implementation, this would typically create a conversation or message thread.
+   * Handles expressing interest in (claiming) a publication.
+   * Creates a pending interest and a direct conversation with the owner,
+   * seeded with the interest message.
    *
    * @route POST /publications/:id/interest
-   * @body { message: string } (optional message to the publication owner)
-   * @returns Success confirmation
+   * @body { message?: string } (optional message to the publication owner)
+   * @returns Created interest
    *
    * @example
    * // Request
@@ -610,36 +811,43 @@ export class PublicationController {
    *   "success": true,
    *   "message": "Interest expressed successfully",
    *   "data": {
-   *     "publicationId": "pub123",
-   *     "userId": "user456",
-   *     "message": "I'm interested in donating to your request. When can I drop off items?"
+   *     "interest": {
+   *       "id": "int123",
+   *       "publicationId": "pub123",
+   *       "userId": "user456",
+   *       "status": "pending",
+   *       "conversationId": "conv789"
+   *       // ... other interest fields
+   *     }
    *   }
    * }
    */
   static expressInterest = asyncHandler(async (req: Request, res: Response) => {
-    const publicationId = req.params.id;
+    const publicationId = req.params.id || "";
     const userId = req.user!.id;
-    const { message } = req.body;
 
-    // This would typically create a conversation/message, for the moment it return a success
+    const interestId = await InterestService.expressInterest(
+      publicationId,
+      userId,
+      req.body
+    );
 
-    res.json({
+    const interest = await InterestService.getInterestById(interestId);
+
+    res.status(201).json({
       success: true,
       message: "Interest expressed successfully",
       data: {
-        publicationId,
-        userId,
-        message,
+        interest,
       },
     });
   });
 
   /**
-   * Handles removing interest from a publication (placeholder implementation).
-   * In a full implementation, this would typically remove a conversation or cancel a pending request.
+   * Handles withdrawing the current user's open interest in a publication.
    *
    * @route DELETE /publications/:id/interest
-   * @returns Success confirmation
+   * @returns Withdrawn interest
    *
    * @example
    * // Request
@@ -650,25 +858,226 @@ export class PublicationController {
    *   "success": true,
    *   "message": "Interest removed successfully",
    *   "data": {
-   *     "publicationId": "pub123",
-   *     "userId": "user456"
+   *     "interest": {
+   *       "id": "int123",
+   *       "status": "withdrawn"
+   *       // ... other interest fields
+   *     }
    *   }
    * }
    */
   static removeInterest = asyncHandler(async (req: Request, res: Response) => {
-    const publicationId = req.params.id;
+    const publicationId = req.params.id || "";
     const userId = req.user!.id;
 
+    const interest = await InterestService.withdrawInterest(
+      publicationId,
+      userId
+    );
+
     res.json({
       success: true,
       message: "Interest removed successfully",
       data: {
+        interest,
+      },
+    });
+  });
+
+  /**
+   * Handles listing the claimants of a publication for its owner.
+   *
+   * @route GET /publications/:id/interests
+   * @query status - Optional interest status filter
+   * @returns Interests for the publication
+   *
+   * @example
+   * // Request
+   * GET /publications/pub123/interests?status=pending
+   *
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "interests": [...],
+   *     "total": 2
+   *   }
+   * }
+   */
+  static getPublicationInterests = asyncHandler(
+    async (req: Request, res: Response) => {
+      const publicationId = req.params.id || "";
+      const userId = req.user!.id;
+      const { status } = (req as any).validatedQuery || {};
+
+      const interests = await InterestService.getPublicationInterests(
         publicationId,
         userId,
+        status
+      );
+
+      res.json({
+        success: true,
+        data: {
+          interests,
+          total: interests.length,
+        },
+      });
+    }
+  );
+
+  /**
+   * Handles listing the exchanges mutually matching one of the user's
+   * exchanges: each offers something the other is seeking.
+   *
+   * @route GET /publications/:id/matches
+   * @query limit - Maximum number of matches (default: 20, max: 50)
+   * @returns Matches, best first
+   *
+   * @example
+   * // Request
+   * GET /publications/pub123/matches?limit=10
+   *
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "matches": [
+   *       {
+   *         "publication": {
+   *           "id": "pub456",
+   *           "type": "exchange",
+   *           "title": "Bicicleta infantil",
+   *           "seeking": ["libros", "juegos de mesa"]
+   *           // ... other publication fields
+   *         },
+   *         "score": 82, // 0-100, overlap and proximity
+   *         "distance": 3.4, // km
+   *         "theySeek": ["libros"],
+   *         "youSeek": ["bicicleta"]
+   *       }
+   *     ],
+   *     "total": 1
+   *   }
+   * }
+   */
+  static getPublicationMatches = asyncHandler(
+    async (req: Request, res: Response) => {
+      const publicationId = req.params.id || "";
+      const limit = req.query.limit
+        ? Math.min(parseInt(req.query.limit as string) || 20, 50)
+        : 20;
+
+      // Ownership is checked by requireOwnership("publication")
+      const matches = await ExchangeMatchService.findMatches(
+        publicationId,
+        limit
+      );
+
+      res.json({
+        success: true,
+        data: {
+          matches,
+          total: matches.length,
+        },
+      });
+    }
+  );
+
+  /**
+   * Handles listing the interests expressed by the current user.
+   *
+   * @route GET /publications/interests/me
+   * @returns Current user's interests
+   */
+  static getMyInterests = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const interests = await InterestService.getUserInterests(userId);
+
+    res.json({
+      success: true,
+      data: {
+        interests,
+        total: interests.length,
       },
     });
   });
 
+  /**
+   * Handles the owner accepting or declining a claimant.
+   *
+   * @route PATCH /publications/interests/:interestId
+   * @body { status: "accepted" | "declined" }
+   * @returns Updated interest
+   *
+   * @example
+   * // Request
+   * PATCH /publications/interests/int123
+   * {
+   *   "status": "accepted"
+   * }
+   *
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "interest": {
+   *       "id": "int123",
+   *       "status": "accepted"
+   *       // ... other interest fields
+   *     }
+   *   },
+   *   "message": "Interest accepted"
+   * }
+   */
+  static respondToInterest = asyncHandler(
+    async (req: Request, res: Response) => {
+      const interestId = req.params.interestId || "";
+      const userId = req.user!.id;
+
+      const interest = await InterestService.respondToInterest(
+        interestId,
+        userId,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        data: {
+          interest,
+        },
+        message: `Interest ${interest.status}`,
+      });
+    }
+  );
+
+  /**
+   * Handles the owner marking an accepted claim as fulfilled.
+   *
+   * @route POST /publications/interests/:interestId/fulfill
+   * @returns Updated interest
+   */
+  static fulfillInterest = asyncHandler(
+    async (req: Request, res: Response) => {
+      const interestId = req.params.interestId || "";
+      const userId = req.user!.id;
+
+      const interest = await InterestService.fulfillInterest(
+        interestId,
+        userId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          interest,
+        },
+        message: "Interest marked as fulfilled",
+      });
+    }
+  );
+
   /**
    * Handles marking a publication as completed by its owner.
    *
@@ -690,24 +1099,8 @@ export class PublicationController {
       const publicationId = req.params.id || "";
       const userId = req.user!.id;
 
-      const publication = await PublicationService.getPublicationById(
-        publicationId
-      );
-      if (!publication || publication.userId !== userId) {
-        return res.status(403).json({
-          success: false,
-          error: {
-            code: "NOT_AUTHORIZED",
-            message: "You can only complete your own publications",
-          },
-        });
-      }
-
-      await PublicationService.updatePublication(
-        publicationId,
-        { isActive: false },
-        userId
-      );
+      // Ownership is checked by requireOwnership("publication")
+      await PublicationService.completePublication(publicationId, userId);
 
       res.json({
         success: true,
@@ -715,4 +1108,547 @@ export class PublicationController {
       });
     }
   );
+
+  /**
+   * Handles the owner moving a publication to a new status: publishing a
+   * draft, reserving or releasing it, completing or removing it.
+   *
+   * @route PATCH /publications/:id/status
+   * @body { status: "active" | "reserved" | "completed" | "removed" }
+   * @returns Updated publication
+   *
+   * @example
+   * // Request
+   * PATCH /publications/pub123/status
+   * {
+   *   "status": "reserved"
+   * }
+   *
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "publication": {
+   *       "id": "pub123",
+   *       "status": "reserved",
+   *       "isActive": false
+   *       // ... other publication fields
+   *     }
+   *   },
+   *   "message": "Publication reserved"
+   * }
+   */
+  static changePublicationStatus = asyncHandler(
+    async (req: Request, res: Response) => {
+      const publicationId = req.params.id || "";
+      const userId = req.user!.id;
+
+      const publication = await PublicationService.changeStatus(
+        publicationId,
+        req.body,
+        userId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          publication,
+        },
+        message: `Publication ${publication.status}`,
+      });
+    }
+  );
+
+  /**
+   * Handles renewing the listing of an offer or exchange, relisting it if
+   * it had expired.
+   *
+   * @route POST /publications/:id/renew
+   * @returns Renewed publication with its new expiry date
+   *
+   * @example
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "publication": {
+   *       "id": "pub123",
+   *       "status": "active",
+   *       "expiresAt": 1764547200000
+   *       // ... other publication fields
+   *     }
+   *   },
+   *   "message": "Publication renewed"
+   * }
+   */
+  static renewPublication = asyncHandler(
+    async (req: Request, res: Response) => {
+      const publicationId = req.params.id || "";
+      const userId = req.user!.id;
+
+      const publication = await PublicationService.renewPublication(
+        publicationId,
+        userId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          publication,
+        },
+        message: "Publication renewed",
+      });
+    }
+  );
+
+  /**
+   * Handles saving a search to be alerted of new matching publications.
+   *
+   * @route POST /publications/searches
+   * @body CreateSavedSearchSchema - { name, filters }
+   * @returns Created saved search
+   *
+   * @example
+   * // Request
+   * POST /publications/searches
+   * {
+   *   "name": "Kids clothes near home",
+   *   "filters": {
+   *     "type": ["donation_offer"],
+   *     "category": ["clothing"],
+   *     "searchQuery": "niña",
+   *     "location": { "latitude": 40.4168, "longitude": -3.7038, "radius": 5 }
+   *   }
+   * }
+   *
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "savedSearch": {
+   *       "id": "search123",
+   *       "name": "Kids clothes near home",
+   *       "status": "active",
+   *       "matchCount": 0
+   *       // ... other saved search fields
+   *     }
+   *   },
+   *   "message": "Search saved successfully"
+   * }
+   */
+  static createSavedSearch = asyncHandler(
+    async (req: Request, res: Response) => {
+      const userId = req.user!.id;
+
+      const savedSearch = await SavedSearchService.createSavedSearch(
+        userId,
+        req.body
+      );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          savedSearch,
+        },
+        message: "Search saved successfully",
+      });
+    }
+  );
+
+  /**
+   * Handles listing the saved searches of the current user.
+   *
+   * @route GET /publications/searches
+   * @returns Current user's saved searches
+   */
+  static getMySavedSearches = asyncHandler(
+    async (req: Request, res: Response) => {
+      const userId = req.user!.id;
+
+      const savedSearches = await SavedSearchService.getUserSavedSearches(
+        userId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          savedSearches,
+          total: savedSearches.length,
+        },
+      });
+    }
+  );
+
+  /**
+   * Handles pausing or resuming the alerts of a saved search.
+   *
+   * @route PATCH /publications/searches/:searchId
+   * @body { status: "active" | "paused" }
+   * @returns Updated saved search
+   *
+   * @example
+   * // Request
+   * PATCH /publications/searches/search123
+   * {
+   *   "status": "paused"
+   * }
+   *
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "savedSearch": {
+   *       "id": "search123",
+   *       "status": "paused"
+   *       // ... other saved search fields
+   *     }
+   *   },
+   *   "message": "Saved search paused"
+   * }
+   */
+  static updateSavedSearch = asyncHandler(
+    async (req: Request, res: Response) => {
+      const searchId = req.params.searchId || "";
+
+      // Ownership is checked by requireOwnership("savedSearch")
+      const savedSearch = await SavedSearchService.updateStatus(
+        searchId,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        data: {
+          savedSearch,
+        },
+        message: `Saved search ${savedSearch.status}`,
+      });
+    }
+  );
+
+  /**
+   * Handles deleting a saved search and its digest entries.
+   *
+   * @route DELETE /publications/searches/:searchId
+   * @returns Success confirmation
+   */
+  static deleteSavedSearch = asyncHandler(
+    async (req: Request, res: Response) => {
+      const searchId = req.params.searchId || "";
+
+      // Ownership is checked by requireOwnership("savedSearch")
+      await SavedSearchService.deleteSavedSearch(searchId);
+
+      res.json({
+        success: true,
+        message: "Saved search deleted successfully",
+      });
+    }
+  );
+
+  /**
+   * Handles listing the latest saved search matches of the current user.
+   *
+   * @route GET /publications/searches/digest
+   * @query unread - "true" to only list unread entries
+   * @returns Digest entries, newest first, and the unread count
+   *
+   * @example
+   * // Request
+   * GET /publications/searches/digest?unread=true
+   *
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "entries": [
+   *       {
+   *         "id": "digest123",
+   *         "savedSearchId": "search123",
+   *         "savedSearchName": "Kids clothes near home",
+   *         "publicationId": "pub456",
+   *         "publicationTitle": "Ropa de niña talla 4",
+   *         "matchedAt": 1760000000000,
+   *         "read": false
+   *       }
+   *     ],
+   *     "unread": 1
+   *   }
+   * }
+   */
+  static getSavedSearchDigest = asyncHandler(
+    async (req: Request, res: Response) => {
+      const userId = req.user!.id;
+
+      const { entries, unread } = await SavedSearchService.getDigest(
+        userId,
+        req.query.unread === "true"
+      );
+
+      res.json({
+        success: true,
+        data: {
+          entries,
+          unread,
+        },
+      });
+    }
+  );
+
+  /**
+   * Handles marking the saved search digest of the current user as read.
+   *
+   * @route POST /publications/searches/digest/read
+   * @returns Number of entries marked as read
+   */
+  static markSavedSearchDigestRead = asyncHandler(
+    async (req: Request, res: Response) => {
+      const userId = req.user!.id;
+
+      const marked = await SavedSearchService.markDigestRead(userId);
+
+      res.json({
+        success: true,
+        data: {
+          marked,
+        },
+        message: "Digest marked as read",
+      });
+    }
+  );
+
+  /**
+   * Handles proposing some of the user's exchanges for another exchange.
+   *
+   * @route POST /publications/:id/proposals
+   * @body CreateProposalSchema - { offeredPublicationIds, meeting?, message? }
+   * @returns Created proposal
+   *
+   * @example
+   * // Request
+   * POST /publications/pub123/proposals
+   * {
+   *   "offeredPublicationIds": ["pub456"],
+   *   "meeting": {
+   *     "method": "public_location",
+   *     "time": "2026-11-02T17:00:00.000Z",
+   *     "place": "Biblioteca municipal, entrada principal"
+   *   },
+   *   "message": "¿Te interesa cambiarlo por mi bicicleta?"
+   * }
+   *
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "proposal": {
+   *       "id": "prop123",
+   *       "status": "pending",
+   *       "awaitingUserId": "user789"
+   *       // ... other proposal fields
+   *     }
+   *   },
+   *   "message": "Proposal sent successfully"
+   * }
+   */
+  static createProposal = asyncHandler(async (req: Request, res: Response) => {
+    const publicationId = req.params.id || "";
+    const userId = req.user!.id;
+
+    const proposalId = await ExchangeProposalService.createProposal(
+      publicationId,
+      userId,
+      req.body
+    );
+    const proposal = await ExchangeProposalService.getProposalById(proposalId);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        proposal,
+      },
+      message: "Proposal sent successfully",
+    });
+  });
+
+  /**
+   * Handles listing the proposals received by one of the user's exchanges.
+   *
+   * @route GET /publications/:id/proposals
+   * @query status - Optional proposal status filter
+   * @returns Proposals for the exchange, latest activity first
+   */
+  static getPublicationProposals = asyncHandler(
+    async (req: Request, res: Response) => {
+      const publicationId = req.params.id || "";
+      const { status } = (req as any).validatedQuery || {};
+
+      // Ownership is checked by requireOwnership("publication")
+      const proposals = await ExchangeProposalService.getPublicationProposals(
+        publicationId,
+        status
+      );
+
+      res.json({
+        success: true,
+        data: {
+          proposals,
+          total: proposals.length,
+        },
+      });
+    }
+  );
+
+  /**
+   * Handles listing the proposals the current user made or received.
+   *
+   * @route GET /publications/proposals/me
+   * @query status - Optional proposal status filter
+   * @returns Current user's proposals, latest activity first
+   */
+  static getMyProposals = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const { status } = (req as any).validatedQuery || {};
+
+    const proposals = await ExchangeProposalService.getUserProposals(
+      userId,
+      status
+    );
+
+    res.json({
+      success: true,
+      data: {
+        proposals,
+        total: proposals.length,
+      },
+    });
+  });
+
+  /**
+   * Handles retrieving a proposal with its negotiation rounds.
+   *
+   * @route GET /publications/proposals/:proposalId
+   * @returns Proposal
+   */
+  static getProposal = asyncHandler(async (req: Request, res: Response) => {
+    const proposalId = req.params.proposalId || "";
+
+    // Participation is checked by requireOwnership("exchangeProposal")
+    const proposal = await ExchangeProposalService.getProposalById(proposalId);
+
+    res.json({
+      success: true,
+      data: {
+        proposal,
+      },
+    });
+  });
+
+  /**
+   * Handles accepting, rejecting or withdrawing a proposal.
+   *
+   * @route PATCH /publications/proposals/:proposalId
+   * @body { status: "accepted" | "rejected" | "withdrawn" }
+   * @returns Updated proposal
+   *
+   * @example
+   * // Request
+   * PATCH /publications/proposals/prop123
+   * {
+   *   "status": "accepted"
+   * }
+   *
+   * // Response
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "proposal": {
+   *       "id": "prop123",
+   *       "status": "accepted",
+   *       "confirmedBy": []
+   *       // ... other proposal fields
+   *     }
+   *   },
+   *   "message": "Proposal accepted"
+   * }
+   */
+  static respondToProposal = asyncHandler(
+    async (req: Request, res: Response) => {
+      const proposalId = req.params.proposalId || "";
+      const userId = req.user!.id;
+
+      const proposal = await ExchangeProposalService.respondToProposal(
+        proposalId,
+        userId,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        data: {
+          proposal,
+        },
+        message: `Proposal ${proposal.status}`,
+      });
+    }
+  );
+
+  /**
+   * Handles countering the current terms of a proposal.
+   *
+   * @route POST /publications/proposals/:proposalId/counter
+   * @body CounterProposalSchema - { offeredPublicationIds?, meeting?,
+   * message? }
+   * @returns Updated proposal
+   */
+  static counterProposal = asyncHandler(
+    async (req: Request, res: Response) => {
+      const proposalId = req.params.proposalId || "";
+      const userId = req.user!.id;
+
+      const proposal = await ExchangeProposalService.counterProposal(
+        proposalId,
+        userId,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        data: {
+          proposal,
+        },
+        message: "Counter-offer sent",
+      });
+    }
+  );
+
+  /**
+   * Handles confirming an accepted trade took place. The second
+   * confirmation completes it and deactivates every exchange involved.
+   *
+   * @route POST /publications/proposals/:proposalId/confirm
+   * @returns Updated proposal
+   */
+  static confirmProposal = asyncHandler(
+    async (req: Request, res: Response) => {
+      const proposalId = req.params.proposalId || "";
+      const userId = req.user!.id;
+
+      const proposal = await ExchangeProposalService.confirmProposal(
+        proposalId,
+        userId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          proposal,
+        },
+        message:
+          proposal.status === PROPOSAL_STATUS.COMPLETED
+            ? "Exchange completed"
+            : "Exchange confirmed, waiting for the other side",
+      });
+    }
+  );
 }
@@ -1,7 +1,8 @@
 import type { NextFunction, Request, Response } from "express";
-import { asyncHandler } from "../../middleware";
+import { asyncHandler, AuthMiddleware } from "../../middleware";
 import { AuthService } from "../../services/User/Auth.service";
 import { UserService } from "../../services/User/User.service";
+import { MFAService } from "../../services/User/MFA.service";
 
 export class AuthController {
   /**
@@ -13,7 +14,10 @@ export class AuthController {
    */
   static register = asyncHandler(
     async (req: Request, res: Response, next: NextFunction) => {
-      const authResponse = await AuthService.register(req.body);
+      const authResponse = await AuthService.register(
+        req.body,
+        AuthMiddleware.getSessionContext(req)
+      );
 
       res.status(201).json({
         success: true,
@@ -42,13 +46,39 @@ export class AuthController {
 
   /**
    * Handles user authentication request.
-   * Verifies credentials and returns authentication tokens.
+   * Verifies credentials and returns authentication tokens, or an MFA
+   * challenge when the user has two-factor authentication enabled.
    *
    * @route POST /login
-   * @returns AuthResponse with user data and tokens
+   * @returns AuthResponse with user data and tokens, or MfaChallenge
    */
   static login = asyncHandler(async (req: Request, res: Response) => {
-    const authResponse = await AuthService.login(req.body);
+    const authResponse = await AuthService.login(
+      req.body,
+      AuthMiddleware.getSessionContext(req)
+    );
+
+    res.json({
+      success: true,
+      data: authResponse,
+      message:
+        "mfaRequired" in authResponse
+          ? "Two-factor authentication required"
+          : "Login successful",
+    });
+  });
+
+  /**
+   * Handles the second step of a login with two-factor authentication.
+   *
+   * @route POST /mfa/verify
+   * @returns AuthResponse with user data and MFA-verified tokens
+   */
+  static verifyMfaLogin = asyncHandler(async (req: Request, res: Response) => {
+    const authResponse = await AuthService.completeMfaLogin(
+      req.body,
+      AuthMiddleware.getSessionContext(req)
+    );
 
     res.json({
       success: true,
@@ -57,6 +87,96 @@ export class AuthController {
     });
   });
 
+  /**
+   * Gets the two-factor authentication status of the current user.
+   *
+   * @route GET /mfa
+   * @returns Whether 2FA is enabled and remaining recovery codes
+   */
+  static getMfaStatus = asyncHandler(async (req: Request, res: Response) => {
+    const status = await MFAService.getStatus(req.user!.id);
+
+    res.json({
+      success: true,
+      data: status,
+    });
+  });
+
+  /**
+   * Starts two-factor authentication enrollment.
+   *
+   * @route POST /mfa/setup
+   * @returns TOTP secret and otpauth URI for authenticator apps
+   */
+  static setupMfa = asyncHandler(async (req: Request, res: Response) => {
+    const enrollment = await MFAService.startEnrollment(req.user!.id);
+
+    res.json({
+      success: true,
+      data: enrollment,
+      message: "Scan the code with your authenticator app and confirm it",
+    });
+  });
+
+  /**
+   * Confirms enrollment with a TOTP code and enables two-factor authentication.
+   *
+   * @route POST /mfa/enable
+   * @returns Recovery codes (only shown once)
+   */
+  static enableMfa = asyncHandler(async (req: Request, res: Response) => {
+    const recoveryCodes = await MFAService.confirmEnrollment(
+      req.user!.id,
+      req.body
+    );
+
+    res.json({
+      success: true,
+      data: {
+        recoveryCodes,
+      },
+      message: "Two-factor authentication enabled",
+    });
+  });
+
+  /**
+   * Disables two-factor authentication.
+   *
+   * @route POST /mfa/disable
+   * @returns Success message
+   */
+  static disableMfa = asyncHandler(async (req: Request, res: Response) => {
+    await MFAService.disable(req.user!.id, req.body);
+
+    res.json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  });
+
+  /**
+   * Replaces the current user's recovery codes.
+   *
+   * @route POST /mfa/recovery-codes
+   * @returns New recovery codes (only shown once)
+   */
+  static regenerateRecoveryCodes = asyncHandler(
+    async (req: Request, res: Response) => {
+      const recoveryCodes = await MFAService.regenerateRecoveryCodes(
+        req.user!.id,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        data: {
+          recoveryCodes,
+        },
+        message: "Recovery codes regenerated",
+      });
+    }
+  );
+
   /**
    * Handles token refresh request.
    * Issues new access and refresh tokens using a valid refresh token.
@@ -92,15 +212,72 @@ export class AuthController {
     });
   });
 
+  /**
+   * Handles logout from every device.
+   * Revokes all access and refresh tokens of the authenticated user.
+   *
+   * @route POST /logout-all
+   * @returns Number of revoked sessions
+   */
+  static logoutAll = asyncHandler(async (req: Request, res: Response) => {
+    const revokedSessions = await AuthService.logoutAllDevices(req.user!.id);
+
+    res.json({
+      success: true,
+      data: {
+        revokedSessions,
+      },
+      message: "Logged out from all devices",
+    });
+  });
+
+  /**
+   * Lists the devices where the authenticated user is signed in.
+   *
+   * @route GET /sessions
+   * @returns Active sessions, the one making the request flagged as current
+   */
+  static getSessions = asyncHandler(async (req: Request, res: Response) => {
+    const sessions = await AuthService.getSessions(
+      req.user!.id,
+      req.sessionId
+    );
+
+    res.json({
+      success: true,
+      data: {
+        sessions,
+        total: sessions.length,
+      },
+    });
+  });
+
+  /**
+   * Signs one of the authenticated user's devices out.
+   *
+   * @route DELETE /sessions/:id
+   * @returns Success message
+   */
+  static revokeSession = asyncHandler(async (req: Request, res: Response) => {
+    const sessionId = req.params.id || "";
+
+    await AuthService.revokeSession(req.user!.id, sessionId);
+
+    res.json({
+      success: true,
+      message: "Session revoked",
+    });
+  });
+
   /**
    * Handles email verification request.
-   * Marks the authenticated user's email as verified.
+   * Consumes the emailed verification token and marks the email as verified.
    *
    * @route POST /verify-email
    * @returns Success message
    */
   static verifyEmail = asyncHandler(async (req: Request, res: Response) => {
-    await AuthService.verifyEmail(req.body!.userId);
+    await AuthService.verifyEmail(req.body);
 
     res.json({
       success: true,
@@ -108,6 +285,23 @@ export class AuthController {
     });
   });
 
+  /**
+   * Handles a request for a new email verification link.
+   *
+   * @route POST /verify-email/resend
+   * @returns Success message
+   */
+  static resendVerificationEmail = asyncHandler(
+    async (req: Request, res: Response) => {
+      await AuthService.requestEmailVerification(req.user!.id);
+
+      res.json({
+        success: true,
+        message: "Verification email sent",
+      });
+    }
+  );
+
   /**
    * Gets the current authenticated user's complete profile.
    *
@@ -189,7 +383,6 @@ export class AuthController {
    *
    * @route POST /forgot-password
    * @returns Success message
-   * NOT IMPLEMENTED YET, BUT GOOD TO HAVE
    */
   static forgotPassword = asyncHandler(async (req: Request, res: Response) => {
     const { email } = req.body;
@@ -198,7 +391,26 @@ export class AuthController {
 
     res.json({
       success: true,
-      message: "A password reset link has been sent.",
+      message:
+        "If an account exists for that email, a password reset link has been sent.",
     });
   });
+
+  /**
+   * Handles password reset confirmation.
+   * Consumes the emailed reset token and sets the new password.
+   *
+   * @route POST /reset-password
+   * @returns Success message
+   */
+  static confirmPasswordReset = asyncHandler(
+    async (req: Request, res: Response) => {
+      await AuthService.resetPassword(req.body);
+
+      res.json({
+        success: true,
+        message: "Password reset successfully",
+      });
+    }
+  );
 }
@@ -2,6 +2,10 @@ import type { Request, Response } from "express";
 import { asyncHandler } from "../../middleware";
 import { UserService } from "../../services/User/User.service";
 import { AuthService } from "../../services/User/Auth.service";
+import { RoleService } from "../../services/User/Role.service";
+import { ReviewService } from "../../services/User/Review.service";
+import { UserStatsService } from "../../services/User/UserStats.service";
+import { BlockService } from "../../services/User/Block.service";
 import { s3Service } from "../../services/AWS/s3.service";
 
 export class UserController {
@@ -128,14 +132,11 @@ export class UserController {
       });
     }
 
+    const stats = await UserStatsService.getSummary(user);
+
     res.json({
       success: true,
-      data: {
-        rating: user.rating || {
-          average: 0,
-          count: 0,
-        },
-      },
+      data: stats,
     });
   });
 
@@ -154,19 +155,105 @@ export class UserController {
         });
       }
 
+      const { reviews, nextCursor } = await ReviewService.getUserReviews(
+        userId,
+        undefined,
+        5
+      );
+
       res.json({
         success: true,
         data: {
           user: publicProfile,
+          reviews,
+          reviewsCursor: nextCursor,
         },
       });
     }
   );
 
+  static getUserReviews = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id || "";
+    const { cursor, limit = 20 } = (req as any).validatedQuery;
+
+    const page = await ReviewService.getUserReviews(userId, cursor, limit);
+
+    res.json({
+      success: true,
+      data: page,
+    });
+  });
+
+  static createReview = asyncHandler(async (req: Request, res: Response) => {
+    const review = await ReviewService.createReview(req.user!.id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: review,
+      message: "Review created successfully",
+    });
+  });
+
+  static replyToReview = asyncHandler(async (req: Request, res: Response) => {
+    const reviewId = req.params.reviewId || "";
+
+    const review = await ReviewService.replyToReview(
+      reviewId,
+      req.user!.id,
+      req.body
+    );
+
+    res.json({
+      success: true,
+      data: review,
+      message: "Reply added successfully",
+    });
+  });
+
+  static blockUser = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id || "";
+
+    const block = await BlockService.blockUser(req.user!.id, userId);
+
+    res.status(201).json({
+      success: true,
+      data: block,
+      message: "User blocked successfully",
+    });
+  });
+
+  static unblockUser = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id || "";
+
+    await BlockService.unblockUser(req.user!.id, userId);
+
+    res.json({
+      success: true,
+      message: "User unblocked successfully",
+    });
+  });
+
+  static getBlockedUsers = asyncHandler(async (req: Request, res: Response) => {
+    const blocks = await BlockService.getBlockedUsers(req.user!.id);
+
+    res.json({
+      success: true,
+      data: blocks,
+    });
+  });
+
   static searchUser = asyncHandler(async (req: Request, res: Response) => {
     const { q, limit = 20 } = (req as any).validatedQuery;
 
-    const users = await UserService.searchUser(q as string, Number(limit));
+    const hiddenIds = req.user
+      ? await BlockService.getHiddenUserIds(req.user.id)
+      : undefined;
+
+    const users = await UserService.searchUser(
+      q as string,
+      Number(limit),
+      hiddenIds
+    );
 
     res.json({
       success: true,
@@ -181,11 +268,16 @@ export class UserController {
   static getNearbyUsers = asyncHandler(async (req: Request, res: Response) => {
     const { latitude, longitude, radius = 10, limit = 50 } = req.query;
 
+    const hiddenIds = req.user
+      ? await BlockService.getHiddenUserIds(req.user.id)
+      : undefined;
+
     const users = await UserService.getUserNearLocation(
       Number(latitude),
       Number(longitude),
       Number(radius),
-      Number(limit)
+      Number(limit),
+      hiddenIds
     );
 
     res.json({
@@ -201,4 +293,40 @@ export class UserController {
       },
     });
   });
+
+  static getRoles = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id || "";
+
+    const roles = await RoleService.getUserRoles(userId);
+
+    res.json({
+      success: true,
+      data: roles,
+    });
+  });
+
+  static grantRole = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id || "";
+
+    const roles = await RoleService.grantRole(userId, req.body, req.user!.id);
+
+    res.json({
+      success: true,
+      data: roles,
+      message: "Role granted successfully",
+    });
+  });
+
+  static revokeRole = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id || "";
+    const role = req.params.role || "";
+
+    const roles = await RoleService.revokeRole(userId, role, req.user!.id);
+
+    res.json({
+      success: true,
+      data: roles,
+      message: "Role revoked successfully",
+    });
+  });
 }
@@ -3,16 +3,26 @@ import {
   AppError,
   AuthenticationError,
   AuthorizationError,
+  NotFoundError,
 } from "./error.middleware";
 import { JWTService } from "../services/User/JWT.service";
 import { UserService } from "../services/User/User.service";
 import { AuthService } from "../services/User/Auth.service";
+import { SessionService } from "../services/User/Session.service";
+import type { SessionContext } from "../models/types/session";
+import { getUserRoles } from "../config/permissions.config";
+import { getResourceResolver } from "../config/resources.config";
+
+export { permissions } from "../config/permissions.config";
 
 declare global {
   namespace Express {
     interface Request {
       user?: any;
       token?: string;
+      sessionId?: string;
+      mfaVerified?: boolean;
+      resource?: unknown;
     }
   }
 }
@@ -34,13 +44,19 @@ export class AuthMiddleware {
       }
 
       const token = authHeader.substring(7);
-      const payload = JWTService.verifyToken(token, "access");
+      const payload = await JWTService.verifyToken(token, "access");
 
       const user = await UserService.getUserById(payload.sub);
       if (!user) {
         throw new AuthenticationError("User account not found");
       }
 
+      if (UserService.isSuspended(user)) {
+        throw new AppError("Account suspended", 403, "ACCOUNT_SUSPENDED");
+      }
+
+      void SessionService.touchSession(payload.fam);
+
       req.user = {
         id: user.id,
         email: user.email,
@@ -49,15 +65,40 @@ export class AuthMiddleware {
         isVerified: user.isVerified,
         profilePicture: user.profilePicture,
         role: user.role || "user",
+        roles: getUserRoles(user),
+        permissions: payload.perms ?? [],
       };
 
       req.token = token;
+      req.sessionId = payload.fam;
+      req.mfaVerified = payload.mfa === true;
       next();
     } catch (error) {
       next(error);
     }
   }
 
+  /**
+   * Extracts the device information of a request, used to describe the
+   * session created on login.
+   *
+   * @param req - Express request object
+   * @returns Session context (device name, user agent and IP)
+   *
+   * @example
+   * const authResponse = await AuthService.login(
+   *   req.body,
+   *   AuthMiddleware.getSessionContext(req)
+   * );
+   */
+  static getSessionContext(req: Request): SessionContext {
+    return {
+      deviceName: req.get("x-device-name") || undefined,
+      userAgent: req.get("user-agent") || undefined,
+      ip: req.ip,
+    };
+  }
+
   /**
    * Express middleware for optional authentication.
    * Populates req.user if valid token is provided, but doesn't require it.
@@ -72,7 +113,7 @@ export class AuthMiddleware {
 
       if (authHeader?.startsWith("Bearer ")) {
         const token = authHeader.substring(7);
-        const payload = JWTService.verifyToken(token, "access");
+        const payload = await JWTService.verifyToken(token, "access");
 
         const user = await UserService.getUserById(payload.sub);
         if (user) {
@@ -84,8 +125,12 @@ export class AuthMiddleware {
             isVerified: user.isVerified,
             profilePicture: user.profilePicture,
             role: user.role || "user",
+            roles: getUserRoles(user),
+            permissions: payload.perms ?? [],
           };
           req.token = token;
+          req.sessionId = payload.fam;
+          req.mfaVerified = payload.mfa === true;
         }
       }
 
@@ -115,8 +160,38 @@ export class AuthMiddleware {
     next();
   }
 
+  /**
+   * Express middleware that requires a session that passed two-factor
+   * authentication. Must be used after authentication middleware.
+   *
+   * @example
+   * // Require an MFA-verified session
+   * router.post('/admin/action',
+   *   AuthMiddleware.authenticate,
+   *   AuthMiddleware.requireMfa,
+   *   adminController.action
+   * );
+   */
+  static requireMfa(req: Request, res: Response, next: NextFunction) {
+    if (!req.user) {
+      throw new AuthenticationError("Authentication required");
+    }
+
+    if (!req.mfaVerified) {
+      throw new AppError(
+        "This action requires a session verified with two-factor authentication",
+        403,
+        "MFA_REQUIRED"
+      );
+    }
+
+    next();
+  }
+
   /**
    * Express middleware for role-based authorization.
+   * Passes when the user holds any of the roles, either as its account role
+   * or as a granted role.
    *
    * @param roles - Single role or array of allowed roles
    * @returns Express middleware function
@@ -144,11 +219,13 @@ export class AuthMiddleware {
         throw new AuthenticationError("Authentication required");
       }
 
-      if (!roleArray.includes(req.user.role)) {
+      const userRoles: string[] = req.user.roles || [req.user.role];
+
+      if (!roleArray.some((role) => userRoles.includes(role))) {
         throw new AuthorizationError(
-          `Required role: ${roleArray.join(" or ")}. Your role: ${
-            req.user.role
-          }`
+          `Required role: ${roleArray.join(" or ")}. Your roles: ${userRoles.join(
+            ", "
+          )}`
         );
       }
 
@@ -156,7 +233,32 @@ export class AuthMiddleware {
     };
   }
 
-  // NOT JET IMPLEMENTED
+  /**
+   * Express middleware for permission-based authorization.
+   * Permissions come from the `perms` claim of the access token, resolved from
+   * the user's roles when the token was issued. Every permission is required.
+   *
+   * @param permissions - Single permission or array of required permissions
+   * @returns Express middleware function
+   *
+   * @example
+   * // Require a single permission
+   * router.post('/publications',
+   *   AuthMiddleware.authenticate,
+   *   AuthMiddleware.requiredPermission(permissions.content.create),
+   *   publicationController.create
+   * );
+   *
+   * // Require several permissions
+   * router.post('/users/:id/roles',
+   *   AuthMiddleware.authenticate,
+   *   AuthMiddleware.requiredPermission([
+   *     permissions.roles.manage,
+   *     permissions.user.write,
+   *   ]),
+   *   userController.grantRole
+   * );
+   */
   static requiredPermission(permissions: string | string[]) {
     const permissionsArray = Array.isArray(permissions)
       ? permissions
@@ -167,7 +269,7 @@ export class AuthMiddleware {
         throw new AuthenticationError("Authentication required");
       }
 
-      const userPermissions = req.user.permissions || [];
+      const userPermissions: string[] = req.user.permissions || [];
       const hasPermissions = permissionsArray.every((permission) =>
         userPermissions.includes(permission)
       );
@@ -178,18 +280,23 @@ export class AuthMiddleware {
         );
       }
 
-      //req.permissions = permissionsArray;
       next();
     };
   }
 
   /**
    * Express middleware for resource ownership verification.
+   * The resource is loaded through the resolver registered for its type
+   * (see config/resources.config.ts) and exposed as `req.resource`, so
+   * controllers don't need to load it again.
    *
-   * @param resourceType - Type of resource being accessed
+   * @param resourceType - Registered resource type ("publication", "pledge",
+   *        "conversation", "message", "user")
    * @param idParam - URL parameter name containing resource ID (default: "id")
    * @returns Express middleware function
    *
+   * @throws {Error} If no resolver is registered for the resource type
+   *
    * @example
    * // User can only access their own profile
    * router.get('/users/:id',
@@ -206,61 +313,43 @@ export class AuthMiddleware {
    * );
    */
   static requireOwnership(resourceType: string, idParam: string = "id") {
+    const resolver = getResourceResolver(resourceType);
+    if (!resolver) {
+      throw new Error(`No resource resolver registered for "${resourceType}"`);
+    }
+
     return async (req: Request, res: Response, next: NextFunction) => {
-      if (!req.user) {
-        throw new AuthenticationError("Authentication required");
-      }
+      try {
+        if (!req.user) {
+          throw new AuthenticationError("Authentication required");
+        }
 
-      const resourceId = req.params[idParam];
-      if (!resourceId) {
-        throw new AppError("Resource ID parameter is required", 400);
-      }
+        const resourceId = req.params[idParam];
+        if (!resourceId) {
+          throw new AppError("Resource ID parameter is required", 400);
+        }
 
-      try {
-        switch (resourceId) {
-          case "user":
-            // Users can only access their own data unless admin
-            if (req.user.id !== resourceId && req.user.role !== "admin") {
-              throw new AuthorizationError(
-                "You can only access your own user data"
-              );
-            }
-            break;
-          case "publication":
-          case "listing":
-            // Check if user owns the publication/listing
-            const publication = await this.getPublication(resourceId);
-            if (!publication) {
-              throw new AppError("Publication not found", 404);
-            }
-            break;
-
-          case "message":
-            // Check if user is participant in the message/chat
-            const message = await this.getMessage(resourceId);
-            if (!message) {
-              throw new AppError("Message not found", 404);
-            }
-
-            if (
-              //!message.participants.includes(req.user.id) &&
-              req.user.role !== "admin"
-            ) {
-              throw new AuthorizationError(
-                "You can only access your own messages"
-              );
-            }
-            break;
-          default:
-            // Generic ownership check - resource must have userId field
-            const resource = await this.getGenericResource(
-              resourceType,
-              resourceId
-            );
-            if (!resource) {
-              throw new AppError(`${resourceType} not found`, 404);
-            }
+        const resource = await resolver.load(resourceId);
+        if (!resource) {
+          throw new NotFoundError(resolver.label);
+        }
+
+        const userPermissions: string[] = req.user.permissions || [];
+        const canBypass = (resolver.bypassPermissions || []).some(
+          (permission) => userPermissions.includes(permission)
+        );
+
+        if (
+          !canBypass &&
+          !resolver.getOwnerIds(resource).includes(req.user.id)
+        ) {
+          throw new AuthorizationError(
+            `You can only access your own ${resolver.label.toLowerCase()}s`
+          );
         }
+
+        req.resource = resource;
+        next();
       } catch (error) {
         next(error);
       }
@@ -299,7 +388,10 @@ export class AuthMiddleware {
         throw new AppError("User ID parameter is required", 400);
       }
 
-      if (req.user.id !== targetUserId && req.user.role !== "admin") {
+      if (
+        req.user.id !== targetUserId &&
+        !(req.user.roles || [req.user.role]).includes("admin")
+      ) {
         throw new AuthorizationError(
           "You can only perform this action on your own account"
         );
@@ -312,6 +404,7 @@ export class AuthMiddleware {
   /**
    * Express middleware for session validation.
    * Validates the current user session and clears invalid sessions.
+   * Tokens belonging to a revoked or expired session are rejected.
    *
    * @example
    * // Validate session on protected routes
@@ -379,27 +472,6 @@ export class AuthMiddleware {
       next();
     };
   }
-
-  /**
-   * IMPLEMENT WITH THE CORRESPONDING SERVICE
-   */
-  private static async getPublication(publicationId: string) {
-    // return await PublicationService.getPublicationById(publicationId)
-    return null;
-  }
-
-  private static async getMessage(messageId: string) {
-    // return await MessageService.getMessageById(messageId);
-    return null;
-  }
-
-  private static async getGenericResource(
-    resourceType: string,
-    resourceId: string
-  ) {
-    // return await GenericService.getById(resourceType, resourceId);
-    return null;
-  }
 }
 
 export const auth = {
@@ -412,8 +484,17 @@ export const auth = {
   // Verified user only
   verified: [AuthMiddleware.authenticate, AuthMiddleware.requireVerification],
 
-  // Admin user only
-  admin: [AuthMiddleware.authenticate, AuthMiddleware.requiredRole("admin")],
+  // Admin user only, with a 2FA-verified session unless ADMIN_REQUIRE_MFA=false
+  admin: [
+    AuthMiddleware.authenticate,
+    AuthMiddleware.requiredRole("admin"),
+    ...(process.env.ADMIN_REQUIRE_MFA === "false"
+      ? []
+      : [AuthMiddleware.requireMfa]),
+  ],
+
+  // 2FA-verified session only
+  mfa: [AuthMiddleware.authenticate, AuthMiddleware.requireMfa],
 
   // Admin or moderator user only
   moderator: [
@@ -421,6 +502,12 @@ export const auth = {
     AuthMiddleware.requiredRole(["moderator", "admin"]),
   ],
 
+  // Donation center account only
+  center: [
+    AuthMiddleware.authenticate,
+    AuthMiddleware.requiredRole("donationCenter"),
+  ],
+
   // Self-action only
   self: [AuthMiddleware.authenticate, AuthMiddleware.requireSelfAction()],
 
@@ -430,24 +517,3 @@ export const auth = {
   // With session validation
   secure: [AuthMiddleware.authenticate, AuthMiddleware.validateSession],
 };
-
-export const permissions = {
-  user: {
-    read: "user:read",
-    write: "user:write",
-    delete: "user:delete",
-  },
-
-  content: {
-    create: "content:create",
-    read: "content:read",
-    update: "content:update",
-    delete: "content:delete",
-  },
-
-  system: {
-    config: "system:config",
-    monitor: "system:monitor",
-    admin: "system:admin",
-  },
-};
@@ -74,7 +74,7 @@ export const chatAuthenticateFirebaseUser = async (
     }
 
     const token = authHeader.substring(7);
-    const payload = JWTService.verifyToken(token, "access");
+    const payload = await JWTService.verifyToken(token, "access");
     const user = await UserService.getUserById(payload.sub);
     
     if (!user) {
@@ -1,5 +1,6 @@
 import type { Request, Response, NextFunction } from "express";
 import { ValidationError } from "./error.middleware";
+import { ATTACHMENT_RULES } from "../models/schema/chat";
 
 // Define our own file interface since we're not using Multer directly
 export interface UploadedFile {
@@ -79,39 +80,77 @@ export class UploadMiddleware {
           ]);
         }
 
-        const errors: any[] = [];
+        const errors = files.flatMap((file, index) =>
+          this.checkFile(
+            file,
+            files.length === 1 ? "file" : `files[${index}]`,
+            maxSize,
+            allowedMimeTypes
+          )
+        );
 
-        files.forEach((file, index) => {
-          const fieldName = files.length === 1 ? "file" : `files[${index}]`;
+        if (errors.length > 0) {
+          throw new ValidationError("File validation failed", errors);
+        }
 
-          if (file.size > maxSize) {
-            errors.push({
-              field: fieldName,
-              message: `File size must be less than ${this.formatFileSize(
-                maxSize
-              )}`,
-              code: "FILE_TOO_LARGE",
-            });
-          }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  }
 
-          if (!allowedMimeTypes.includes(file.mimetype)) {
-            errors.push({
-              field: fieldName,
-              message: `File type must be one of: ${allowedMimeTypes.join(
-                ", "
-              )}`,
-              code: "INVALID_FILE_TYPE",
-            });
-          }
+  /**
+   * Express middleware validating a file described in the request body
+   * ({ filename, mimetype, size }) before the client uploads it straight to
+   * storage through a presigned URL. Applies the rules of validateFiles and
+   * sanitizes the filename.
+   *
+   * @param options - File validation options (maxSize, allowedMimeTypes)
+   * @returns Express middleware function
+   *
+   * @example
+   * router.post('/attachments',
+   *   FileMiddleware.validateFileDescription({
+   *     maxSize: 20 * 1024 * 1024, // 20MB
+   *     allowedMimeTypes: ['image/jpeg', 'application/pdf']
+   *   }),
+   *   attachmentController.requestUpload
+   * );
+   */
+  static validateFileDescription(
+    options: Pick<FileValidationOptions, "maxSize" | "allowedMimeTypes"> = {}
+  ) {
+    const {
+      maxSize = 5 * 1024 * 1024,
+      allowedMimeTypes = ["image/jpeg", "image/png", "image/gif", "image/webp"],
+    } = options;
 
-          if (!this.isSafeFilename(file.originalname)) {
-            errors.push({
-              field: fieldName,
-              message: "Filename contains invalid characters",
-              code: "INVALID_FILENAME",
-            });
-          }
-        });
+    return (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { filename, mimetype, size } = req.body ?? {};
+
+        if (
+          typeof filename !== "string" ||
+          typeof mimetype !== "string" ||
+          typeof size !== "number"
+        ) {
+          throw new ValidationError("File description is required", [
+            {
+              field: "file",
+              message: "filename, mimetype and size are required",
+            },
+          ]);
+        }
+
+        req.body.filename = this.sanitizeFilename(filename);
+
+        const errors = this.checkFile(
+          { originalname: req.body.filename, mimetype, size },
+          "file",
+          maxSize,
+          allowedMimeTypes
+        );
 
         if (errors.length > 0) {
           throw new ValidationError("File validation failed", errors);
@@ -203,6 +242,50 @@ export class UploadMiddleware {
     }
   };
 
+  /**
+   * Checks a file against the size, type and filename rules.
+   *
+   * @param file - File to check
+   * @param fieldName - Field the errors are reported on
+   * @param maxSize - Maximum file size in bytes
+   * @param allowedMimeTypes - Accepted MIME types
+   * @returns Validation errors, empty if the file is valid
+   */
+  private static checkFile(
+    file: Pick<UploadedFile, "originalname" | "mimetype" | "size">,
+    fieldName: string,
+    maxSize: number,
+    allowedMimeTypes: string[]
+  ): any[] {
+    const errors: any[] = [];
+
+    if (file.size > maxSize) {
+      errors.push({
+        field: fieldName,
+        message: `File size must be less than ${this.formatFileSize(maxSize)}`,
+        code: "FILE_TOO_LARGE",
+      });
+    }
+
+    if (!allowedMimeTypes.includes(file.mimetype)) {
+      errors.push({
+        field: fieldName,
+        message: `File type must be one of: ${allowedMimeTypes.join(", ")}`,
+        code: "INVALID_FILE_TYPE",
+      });
+    }
+
+    if (!this.isSafeFilename(file.originalname)) {
+      errors.push({
+        field: fieldName,
+        message: "Filename contains invalid characters",
+        code: "INVALID_FILENAME",
+      });
+    }
+
+    return errors;
+  }
+
   /**
    * Formats file size in bytes to human-readable string.
    *
@@ -296,6 +379,26 @@ export const upload = {
     required: false,
   }),
 
+  centerDocuments: UploadMiddleware.validateFiles({
+    maxSize: 10 * 1024 * 1024,
+    allowedMimeTypes: [
+      "application/pdf",
+      "image/jpeg",
+      "image/png",
+      "image/webp",
+    ],
+    maxCount: 5,
+    required: true,
+  }),
+
+  chatAttachment: UploadMiddleware.validateFileDescription({
+    maxSize: ATTACHMENT_RULES.MAX_SIZE,
+    allowedMimeTypes: [
+      ...ATTACHMENT_RULES.IMAGE_TYPES,
+      ...ATTACHMENT_RULES.FILE_TYPES,
+    ],
+  }),
+
   optimizeImages: UploadMiddleware.processImages({
     maxWidth: 1200,
     maxHeight: 1200,
@@ -8,4 +8,152 @@ export const serviceErrorMap: {
   USERNAME_ALREADY_EXISTS: { code: "USERNAME_ALREADY_EXISTS", status: 409 },
   ACCOUNT_DEACTIVATED: { code: "ACCOUNT_DEACTIVATED", status: 403 },
   INVALID_CURRENT_PASSWORD: { code: "INVALID_CURRENT_PASSWORD", status: 400 },
+  PUBLICATION_NOT_FOUND: { code: "PUBLICATION_NOT_FOUND", status: 404 },
+  NOT_PUBLICATION_OWNER: { code: "NOT_PUBLICATION_OWNER", status: 403 },
+  PUBLICATION_NOT_ACTIVE: { code: "PUBLICATION_NOT_ACTIVE", status: 409 },
+  INTEREST_NOT_FOUND: { code: "INTEREST_NOT_FOUND", status: 404 },
+  INTEREST_ALREADY_EXISTS: { code: "INTEREST_ALREADY_EXISTS", status: 409 },
+  CANNOT_CLAIM_OWN_PUBLICATION: {
+    code: "CANNOT_CLAIM_OWN_PUBLICATION",
+    status: 400,
+  },
+  INVALID_INTEREST_TRANSITION: {
+    code: "INVALID_INTEREST_TRANSITION",
+    status: 409,
+  },
+  NOT_A_DONATION_REQUEST: { code: "NOT_A_DONATION_REQUEST", status: 400 },
+  PLEDGE_NOT_FOUND: { code: "PLEDGE_NOT_FOUND", status: 404 },
+  ITEM_NOT_ACCEPTED: { code: "ITEM_NOT_ACCEPTED", status: 400 },
+  CANNOT_PLEDGE_OWN_REQUEST: { code: "CANNOT_PLEDGE_OWN_REQUEST", status: 400 },
+  PLEDGE_EXCEEDS_REMAINING_QUANTITY: {
+    code: "PLEDGE_EXCEEDS_REMAINING_QUANTITY",
+    status: 409,
+  },
+  DELIVERED_QUANTITY_EXCEEDS_PLEDGE: {
+    code: "DELIVERED_QUANTITY_EXCEEDS_PLEDGE",
+    status: 400,
+  },
+  NOT_DONATION_CENTER_OWNER: { code: "NOT_DONATION_CENTER_OWNER", status: 403 },
+  NOT_PLEDGE_PARTICIPANT: { code: "NOT_PLEDGE_PARTICIPANT", status: 403 },
+  INVALID_PLEDGE_TRANSITION: { code: "INVALID_PLEDGE_TRANSITION", status: 409 },
+  ONLY_DONATION_CENTERS_CAN_CREATE_REQUESTS: {
+    code: "ONLY_DONATION_CENTERS_CAN_CREATE_REQUESTS",
+    status: 403,
+  },
+  DONATION_CENTER_NOT_APPROVED: {
+    code: "DONATION_CENTER_NOT_APPROVED",
+    status: 403,
+  },
+  CENTER_NOT_FOUND: { code: "CENTER_NOT_FOUND", status: 404 },
+  CENTER_NOT_PENDING: { code: "CENTER_NOT_PENDING", status: 409 },
+  CENTER_REGISTRY_ID_ALREADY_EXISTS: {
+    code: "CENTER_REGISTRY_ID_ALREADY_EXISTS",
+    status: 409,
+  },
+  REVIEW_NOTES_REQUIRED: { code: "REVIEW_NOTES_REQUIRED", status: 400 },
+  INVALID_TOKEN: { code: "INVALID_TOKEN", status: 401 },
+  TOKEN_EXPIRED: { code: "TOKEN_EXPIRED", status: 401 },
+  TOKEN_ALREADY_USED: { code: "TOKEN_ALREADY_USED", status: 410 },
+  TOKEN_REVOKED: { code: "TOKEN_REVOKED", status: 401 },
+  INVALID_TOKEN_TYPE: { code: "INVALID_TOKEN_TYPE", status: 401 },
+  INVALID_TOKEN_STRUCTURE: { code: "INVALID_TOKEN_STRUCTURE", status: 401 },
+  REFRESH_TOKEN_REUSED: { code: "REFRESH_TOKEN_REUSED", status: 401 },
+  SESSION_NOT_FOUND: { code: "SESSION_NOT_FOUND", status: 404 },
+  MFA_ALREADY_ENABLED: { code: "MFA_ALREADY_ENABLED", status: 409 },
+  MFA_NOT_ENABLED: { code: "MFA_NOT_ENABLED", status: 400 },
+  MFA_ENROLLMENT_NOT_STARTED: {
+    code: "MFA_ENROLLMENT_NOT_STARTED",
+    status: 400,
+  },
+  INVALID_MFA_CODE: { code: "INVALID_MFA_CODE", status: 401 },
+  EMAIL_ALREADY_VERIFIED: { code: "EMAIL_ALREADY_VERIFIED", status: 409 },
+  EMAIL_CHANGED: { code: "EMAIL_CHANGED", status: 409 },
+  MAIL_DELIVERY_FAILED: { code: "MAIL_DELIVERY_FAILED", status: 502 },
+  INVALID_ROLE: { code: "INVALID_ROLE", status: 400 },
+  INVALID_CURSOR: { code: "INVALID_CURSOR", status: 400 },
+  INVALID_QUERY_FILTER: { code: "INVALID_QUERY_FILTER", status: 400 },
+  ROLE_ALREADY_GRANTED: { code: "ROLE_ALREADY_GRANTED", status: 409 },
+  ROLE_NOT_GRANTED: { code: "ROLE_NOT_GRANTED", status: 404 },
+  ROLE_NOT_REVOCABLE: { code: "ROLE_NOT_REVOCABLE", status: 400 },
+  CANNOT_REVOKE_OWN_ADMIN_ROLE: {
+    code: "CANNOT_REVOKE_OWN_ADMIN_ROLE",
+    status: 403,
+  },
+  NOT_AN_EXCHANGE: { code: "NOT_AN_EXCHANGE", status: 400 },
+  SAVED_SEARCH_NOT_FOUND: { code: "SAVED_SEARCH_NOT_FOUND", status: 404 },
+  SAVED_SEARCH_LIMIT_REACHED: {
+    code: "SAVED_SEARCH_LIMIT_REACHED",
+    status: 409,
+  },
+  PROPOSAL_NOT_FOUND: { code: "PROPOSAL_NOT_FOUND", status: 404 },
+  PROPOSAL_ALREADY_EXISTS: { code: "PROPOSAL_ALREADY_EXISTS", status: 409 },
+  CANNOT_PROPOSE_TO_OWN_EXCHANGE: {
+    code: "CANNOT_PROPOSE_TO_OWN_EXCHANGE",
+    status: 400,
+  },
+  NOT_PROPOSAL_PARTICIPANT: { code: "NOT_PROPOSAL_PARTICIPANT", status: 403 },
+  INVALID_PROPOSAL_TRANSITION: {
+    code: "INVALID_PROPOSAL_TRANSITION",
+    status: 409,
+  },
+  NOT_YOUR_TURN: { code: "NOT_YOUR_TURN", status: 409 },
+  MEETING_REQUIRED: { code: "MEETING_REQUIRED", status: 400 },
+  MEETING_METHOD_NOT_ALLOWED: {
+    code: "MEETING_METHOD_NOT_ALLOWED",
+    status: 400,
+  },
+  MEETING_PLACE_REQUIRED: { code: "MEETING_PLACE_REQUIRED", status: 400 },
+  MEETING_TIME_IN_PAST: { code: "MEETING_TIME_IN_PAST", status: 400 },
+  INVALID_PUBLICATION_TRANSITION: {
+    code: "INVALID_PUBLICATION_TRANSITION",
+    status: 409,
+  },
+  PUBLICATION_NOT_RENEWABLE: { code: "PUBLICATION_NOT_RENEWABLE", status: 400 },
+  INVALID_DEADLINE: { code: "INVALID_DEADLINE", status: 400 },
+  DEADLINE_PASSED: { code: "DEADLINE_PASSED", status: 409 },
+  REVIEW_NOT_FOUND: { code: "REVIEW_NOT_FOUND", status: 404 },
+  REVIEW_ALREADY_EXISTS: { code: "REVIEW_ALREADY_EXISTS", status: 409 },
+  REVIEW_ALREADY_REPLIED: { code: "REVIEW_ALREADY_REPLIED", status: 409 },
+  NOT_REVIEWEE: { code: "NOT_REVIEWEE", status: 403 },
+  TRANSACTION_NOT_FOUND: { code: "TRANSACTION_NOT_FOUND", status: 404 },
+  TRANSACTION_NOT_COMPLETED: {
+    code: "TRANSACTION_NOT_COMPLETED",
+    status: 409,
+  },
+  NOT_TRANSACTION_PARTICIPANT: {
+    code: "NOT_TRANSACTION_PARTICIPANT",
+    status: 403,
+  },
+  REPORT_NOT_FOUND: { code: "REPORT_NOT_FOUND", status: 404 },
+  REPORT_TARGET_NOT_FOUND: { code: "REPORT_TARGET_NOT_FOUND", status: 404 },
+  REPORT_ALREADY_EXISTS: { code: "REPORT_ALREADY_EXISTS", status: 409 },
+  REPORT_ALREADY_RESOLVED: { code: "REPORT_ALREADY_RESOLVED", status: 409 },
+  CANNOT_REPORT_OWN_CONTENT: {
+    code: "CANNOT_REPORT_OWN_CONTENT",
+    status: 400,
+  },
+  CANNOT_MODERATE_OWN_CONTENT: {
+    code: "CANNOT_MODERATE_OWN_CONTENT",
+    status: 403,
+  },
+  ACTION_NOT_APPLICABLE: { code: "ACTION_NOT_APPLICABLE", status: 400 },
+  ACCOUNT_SUSPENDED: { code: "ACCOUNT_SUSPENDED", status: 403 },
+  PUBLICATION_HIDDEN: { code: "PUBLICATION_HIDDEN", status: 403 },
+  CANNOT_BLOCK_YOURSELF: { code: "CANNOT_BLOCK_YOURSELF", status: 400 },
+  USER_ALREADY_BLOCKED: { code: "USER_ALREADY_BLOCKED", status: 409 },
+  USER_NOT_BLOCKED: { code: "USER_NOT_BLOCKED", status: 404 },
+  USER_BLOCKED: { code: "USER_BLOCKED", status: 403 },
+  NOTIFICATION_NOT_FOUND: { code: "NOTIFICATION_NOT_FOUND", status: 404 },
+  DEVICE_NOT_FOUND: { code: "DEVICE_NOT_FOUND", status: 404 },
+  MESSAGE_NOT_FOUND: { code: "MESSAGE_NOT_FOUND", status: 404 },
+  NOT_MESSAGE_SENDER: { code: "NOT_MESSAGE_SENDER", status: 403 },
+  MESSAGE_NOT_EDITABLE: { code: "MESSAGE_NOT_EDITABLE", status: 400 },
+  MESSAGE_EDIT_WINDOW_EXPIRED: {
+    code: "MESSAGE_EDIT_WINDOW_EXPIRED",
+    status: 403,
+  },
+  ATTACHMENT_NOT_FOUND: { code: "ATTACHMENT_NOT_FOUND", status: 404 },
+  ATTACHMENT_NOT_UPLOADED: { code: "ATTACHMENT_NOT_UPLOADED", status: 400 },
+  ATTACHMENT_ALREADY_SENT: { code: "ATTACHMENT_ALREADY_SENT", status: 409 },
+  INVALID_ATTACHMENT: { code: "INVALID_ATTACHMENT", status: 400 },
 };
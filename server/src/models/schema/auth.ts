@@ -1,4 +1,4 @@
-import { custom, email, number, object, pipe, string, transform } from "valibot";
+import { array, boolean, custom, email, literal, number, object, optional, pipe, string, transform, union } from "valibot";
 
 
 export const LoginSchema = object({
@@ -41,4 +41,42 @@ export const JWTPayloadSchema = object({
     iat: number(), // registrado
     exp: number(), // expiracion
     jti: string(), // id de token
+    fam: string(), // familia de tokens (login) a la que pertenece
+    mfa: optional(boolean()), // login completado con segundo factor
+    perms: optional(array(string())), // permisos de los roles del usuario (solo access token)
 })
+
+export const TokenFamilySchema = object({
+    id: string(),
+    userId: string(),
+    currentTokenId: string(), // jti of the latest refresh token of the family
+    expiresAt: number(), // unix seconds, expiry of the latest refresh token
+    revokedAt: optional(number()),
+});
+
+export const ACTION_TOKEN_PURPOSE = {
+    EMAIL_VERIFICATION: 'email_verification',
+    PASSWORD_RESET: 'password_reset',
+} as const;
+
+const ActionTokenPurposeSchema = union([
+    literal(ACTION_TOKEN_PURPOSE.EMAIL_VERIFICATION),
+    literal(ACTION_TOKEN_PURPOSE.PASSWORD_RESET),
+]);
+
+export const ActionTokenPayloadSchema = object({
+    sub: string(), // user id
+    email: string(),
+    purpose: ActionTokenPurposeSchema,
+    iat: number(),
+    exp: number(),
+    jti: string(),
+});
+
+export const ActionTokenRecordSchema = object({
+    id: string(), // same as the token jti
+    userId: string(),
+    purpose: ActionTokenPurposeSchema,
+    expiresAt: number(), // unix seconds
+    usedAt: optional(number()),
+});
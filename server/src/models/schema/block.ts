@@ -0,0 +1,8 @@
+import { number, object, string } from "valibot";
+
+export const UserBlockSchema = object({
+  id: string(), // `${blockerId}_${blockedId}`
+  blockerId: string(),
+  blockedId: string(),
+  blockedAt: number(), // ms
+});
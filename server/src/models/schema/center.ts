@@ -0,0 +1,104 @@
+import {
+  array,
+  literal,
+  maxLength,
+  maxValue,
+  minLength,
+  minValue,
+  number,
+  object,
+  optional,
+  pipe,
+  string,
+  transform,
+  union,
+} from "valibot";
+import { UserRegistrationSchema } from "./user";
+
+export const CENTER_STATUS = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+} as const;
+
+const CenterLocationSchema = object({
+  latitude: pipe(number(), minValue(-90), maxValue(90)),
+  longitude: pipe(number(), minValue(-180), maxValue(180)),
+});
+
+export const DonationCenterSchema = object({
+  id: string(), // same as the owner's user id
+  userId: string(),
+  organizationName: string(),
+  address: string(),
+  location: CenterLocationSchema,
+  openingHours: string(),
+  registryId: string(), // tax / registry id of the organization
+  documents: array(string()), // S3 keys of the supporting documents
+  status: union([
+    literal(CENTER_STATUS.PENDING),
+    literal(CENTER_STATUS.APPROVED),
+    literal(CENTER_STATUS.REJECTED),
+  ]),
+  reviewedBy: optional(string()),
+  reviewNotes: optional(string()),
+});
+
+export const PublicDonationCenterSchema = object({
+  id: string(),
+  organizationName: string(),
+  address: string(),
+  location: CenterLocationSchema,
+  openingHours: string(),
+});
+
+const centerProfileEntries = {
+  organizationName: pipe(
+    string("Organization name must be a string"),
+    minLength(3, "Organization name must be at least 3 characters long"),
+    maxLength(100, "Organization name cannot exceed 100 characters"),
+    transform((name) => name.trim())
+  ),
+  address: pipe(
+    string("Address must be a string"),
+    minLength(5, "Address must be at least 5 characters long"),
+    maxLength(200, "Address cannot exceed 200 characters"),
+    transform((address) => address.trim())
+  ),
+  location: CenterLocationSchema,
+  openingHours: pipe(
+    string("Opening hours must be a string"),
+    minLength(3, "Opening hours must be at least 3 characters long"),
+    maxLength(200, "Opening hours cannot exceed 200 characters"),
+    transform((hours) => hours.trim())
+  ),
+  registryId: pipe(
+    string("Registry id must be a string"),
+    minLength(5, "Registry id must be at least 5 characters long"),
+    maxLength(30, "Registry id cannot exceed 30 characters"),
+    transform((id) => id.replace(/\s+/g, "").toUpperCase())
+  ),
+};
+
+export const CenterRegistrationSchema = object({
+  ...UserRegistrationSchema.entries,
+  ...centerProfileEntries,
+});
+
+export const CenterUpdateSchema = object({
+  organizationName: optional(centerProfileEntries.organizationName),
+  address: optional(centerProfileEntries.address),
+  location: optional(centerProfileEntries.location),
+  openingHours: optional(centerProfileEntries.openingHours),
+  registryId: optional(centerProfileEntries.registryId),
+});
+
+export const CenterReviewSchema = object({
+  notes: optional(
+    pipe(
+      string("Notes must be a string"),
+      maxLength(500, "Notes cannot exceed 500 characters"),
+      transform((notes) => notes.trim())
+    )
+  ),
+});
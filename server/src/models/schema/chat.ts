@@ -1,4 +1,23 @@
-import { array, literal, object, optional, string, union } from "valibot";
+import {
+  array,
+  check,
+  integer,
+  literal,
+  maxLength,
+  maxValue,
+  minLength,
+  minValue,
+  number,
+  object,
+  optional,
+  picklist,
+  pipe,
+  regex,
+  string,
+  transform,
+  union,
+} from "valibot";
+import type { HiddenBy } from "../types/report";
 
 export interface ChatMessage {
   id: string;
@@ -8,10 +27,48 @@ export interface ChatMessage {
   messageType: "text" | "image" | "file" | "system";
   metadata?: Record<string, any>;
   readBy: string[];
+  hiddenAt?: number; // ms, hidden by moderation
+  hiddenBy?: HiddenBy;
+  editedAt?: number; // ms, of the latest edit
+  editHistory?: MessageEdit[]; // previous versions, oldest first
+  deletedAt?: number; // ms, deleted for everyone (tombstone)
+  deletedFor?: string[]; // users who deleted it for themselves
+  reactions?: Record<string, string[]>; // emoji -> IDs of the users
+  attachment?: MessageAttachment; // image and file messages
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface MessageEdit {
+  content: string;
+  editedAt: number; // ms, when this version was replaced
+}
+
+// Attachment as shown on its message, downloaded through its own route
+export interface MessageAttachment {
+  id: string;
+  filename: string;
+  mimetype: string;
+  size: number; // bytes
+  hasThumbnail: boolean; // false unless the client uploaded one
+}
+
+// File uploaded to a conversation, pending until a message sends it
+export interface ChatAttachment {
+  id: string;
+  conversationId: string;
+  uploaderId: string;
+  key: string; // S3 key of the file
+  filename: string;
+  mimetype: string;
+  size: number; // bytes, as declared before the upload
+  thumbnailKey?: string; // images only
+  thumbnailMimetype?: string;
+  messageId?: string; // set once sent
+  uploadedAt: number; // ms, when the upload was requested
+  sentAt?: number; // ms
+}
+
 export interface Conversation {
   id: string;
   participants: string[];
@@ -25,6 +82,8 @@ export interface Conversation {
   description?: string;
   adminId?: string;
   isActive?: boolean;
+  // Direct conversations: who owes a reply, since when (ms)
+  awaitingReply?: { userId: string; since: number };
 }
 
 export interface ParticipantDetail {
@@ -41,6 +100,15 @@ export interface ConversationSummary {
   unreadCount: number;
 }
 
+// A page of a conversation's history, newest message first
+export interface MessagePage {
+  messages: ChatMessage[];
+  before: string | null; // cursor to load older messages
+  after: string | null; // cursor to load newer messages
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
 export const CreateMessageSchema = object({
   conversationId: string(),
   content: string(),
@@ -51,6 +119,7 @@ export const CreateMessageSchema = object({
     literal("system"),
   ]),
   metadata: optional(object({})),
+  attachmentId: optional(string()),
 });
 
 export const CreateConversationSchema = object({
@@ -64,3 +133,147 @@ export const MarkAsReadSchema = object({
     messageId: string(),
     conversationId: string(),
 });
+
+/**
+ * History query: the latest messages, the messages before or after a
+ * message (cursors of a previous page), or a window around a message.
+ */
+export const MessageHistoryQuerySchema = pipe(
+  object({
+    before: optional(string()),
+    after: optional(string()),
+    around: optional(string()),
+    limit: optional(
+      pipe(
+        string(),
+        transform((val) => parseInt(val, 10)),
+        number("Limit must be a number"),
+        minValue(1, "Limit must be at least 1"),
+        maxValue(100, "Limit cannot exceed 100")
+      ),
+      "50"
+    ),
+  }),
+  check(
+    (query) =>
+      [query.before, query.after, query.around].filter(Boolean).length <= 1,
+    "Use only one of before, after and around"
+  )
+);
+
+export const EditMessageSchema = object({
+  content: pipe(
+    string("Content must be a string"),
+    transform((content) => content.trim()),
+    minLength(1, "Content is required"),
+    maxLength(5000, "Content cannot exceed 5000 characters")
+  ),
+});
+
+export const MESSAGE_DELETE_SCOPES = {
+  ME: "me", // hidden from the user's own history only
+  EVERYONE: "everyone", // replaced by a tombstone for all participants
+} as const;
+
+export type MessageDeleteScope =
+  (typeof MESSAGE_DELETE_SCOPES)[keyof typeof MESSAGE_DELETE_SCOPES];
+
+export const DeleteMessageQuerySchema = object({
+  scope: optional(
+    union(
+      [
+        literal(MESSAGE_DELETE_SCOPES.ME),
+        literal(MESSAGE_DELETE_SCOPES.EVERYONE),
+      ],
+      "Scope must be one of: me, everyone"
+    ),
+    MESSAGE_DELETE_SCOPES.ME
+  ),
+});
+
+export const ReactionSchema = object({
+  emoji: pipe(
+    string("Emoji must be a string"),
+    maxLength(16, "Emoji is too long"),
+    // The whole value, so it carries no text or field path characters
+    regex(
+      /^(\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u,
+      "Reaction must be an emoji"
+    ),
+    check(
+      (emoji) =>
+        /\p{Extended_Pictographic}|\p{Regional_Indicator}/u.test(emoji) &&
+        !/[.`~*/[\]\s]/.test(emoji),
+      "Reaction must be an emoji"
+    )
+  ),
+});
+
+/**
+ * Files that can be sent in a conversation. Images can come with a
+ * thumbnail the client generated, shown in the history before the image
+ * is downloaded. The server never generates one.
+ */
+export const ATTACHMENT_RULES = {
+  IMAGE_TYPES: ["image/jpeg", "image/png", "image/gif", "image/webp"],
+  FILE_TYPES: [
+    "application/pdf",
+    "text/plain",
+    "application/msword",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.ms-excel",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ],
+  THUMBNAIL_TYPES: ["image/jpeg", "image/webp"],
+  MAX_SIZE: 20 * 1024 * 1024,
+  MAX_THUMBNAIL_SIZE: 200 * 1024,
+};
+
+// The file itself is checked by UploadMiddleware.validateFileDescription
+export const CreateAttachmentUploadSchema = object({
+  filename: string("Filename must be a string"),
+  mimetype: string("MIME type must be a string"),
+  size: pipe(
+    number("Size must be a number"),
+    integer("Size must be a whole number of bytes"),
+    minValue(1, "File is empty")
+  ),
+  thumbnail: optional(
+    object({
+      mimetype: picklist(
+        ATTACHMENT_RULES.THUMBNAIL_TYPES,
+        "Thumbnail must be a JPEG or WebP image"
+      ),
+      size: pipe(
+        number("Thumbnail size must be a number"),
+        integer("Thumbnail size must be a whole number of bytes"),
+        minValue(1, "Thumbnail is empty"),
+        maxValue(
+          ATTACHMENT_RULES.MAX_THUMBNAIL_SIZE,
+          "Thumbnail cannot exceed 200 KB"
+        )
+      ),
+    })
+  ),
+});
+
+export const ATTACHMENT_VARIANTS = {
+  ORIGINAL: "original",
+  THUMBNAIL: "thumbnail",
+} as const;
+
+export type AttachmentVariant =
+  (typeof ATTACHMENT_VARIANTS)[keyof typeof ATTACHMENT_VARIANTS];
+
+export const AttachmentUrlQuerySchema = object({
+  variant: optional(
+    union(
+      [
+        literal(ATTACHMENT_VARIANTS.ORIGINAL),
+        literal(ATTACHMENT_VARIANTS.THUMBNAIL),
+      ],
+      "Variant must be one of: original, thumbnail"
+    ),
+    ATTACHMENT_VARIANTS.ORIGINAL
+  ),
+});
@@ -0,0 +1,14 @@
+import { array, number, object, string } from "valibot";
+
+/**
+ * A mutual match between two exchanges, recorded once so both owners are
+ * only notified the first time it appears.
+ */
+export const ExchangeMatchRecordSchema = object({
+  id: string(), // both publication IDs, sorted and joined with "_"
+  publicationIds: array(string()),
+  userIds: array(string()),
+  score: number(),
+  distance: number(), // km
+  matchedAt: number(), // ms
+});
@@ -0,0 +1,126 @@
+import {
+  array,
+  check,
+  isoTimestamp,
+  literal,
+  maxLength,
+  minLength,
+  number,
+  object,
+  optional,
+  pipe,
+  string,
+  transform,
+  union,
+} from "valibot";
+import { MEETING } from "./publication";
+
+export const PROPOSAL_STATUS = {
+  PENDING: "pending", // waiting for the target owner
+  COUNTERED: "countered", // new terms, waiting for the other party
+  ACCEPTED: "accepted", // terms agreed, waiting for both confirmations
+  REJECTED: "rejected",
+  WITHDRAWN: "withdrawn",
+  COMPLETED: "completed", // confirmed by both, publications deactivated
+} as const;
+
+export const MAX_OFFERED_PUBLICATIONS = 3;
+
+// "flexible" is a preference, a meeting needs an actual method
+export const MeetingProposalSchema = object({
+  method: union(
+    [
+      literal(MEETING.PORCH_PICKUP),
+      literal(MEETING.PUBLIC_LOCATION),
+      literal(MEETING.DELIVERY),
+    ],
+    "Method must be one of: porch_pickup, public_location, delivery"
+  ),
+  time: pipe(
+    string("Meeting time must be a string"),
+    isoTimestamp("Meeting time must be an ISO 8601 timestamp")
+  ),
+  place: optional(
+    pipe(
+      string("Place must be a string"),
+      transform((place) => place.trim()),
+      minLength(3, "Place must be at least 3 characters"),
+      maxLength(200, "Place cannot exceed 200 characters")
+    )
+  ),
+});
+
+const OfferedPublicationIdsSchema = pipe(
+  array(string("Publication ID must be a string")),
+  minLength(1, "Offer at least one of your exchanges"),
+  maxLength(
+    MAX_OFFERED_PUBLICATIONS,
+    `Cannot offer more than ${MAX_OFFERED_PUBLICATIONS} exchanges`
+  )
+);
+
+const MessageSchema = pipe(
+  string("Message must be a string"),
+  maxLength(500, "Message cannot exceed 500 characters"),
+  transform((message) => message.trim())
+);
+
+export const ProposalRoundSchema = object({
+  by: string(), // user who proposed these terms
+  offeredPublicationIds: array(string()),
+  meeting: optional(MeetingProposalSchema),
+  message: optional(string()),
+  at: number(), // ms
+});
+
+export const ExchangeProposalSchema = object({
+  id: string(),
+  targetPublicationId: string(),
+  targetOwnerId: string(),
+  proposerId: string(),
+  offeredPublicationIds: array(string()), // proposer's exchanges, current terms
+  meeting: optional(MeetingProposalSchema), // current terms
+  status: union([
+    literal(PROPOSAL_STATUS.PENDING),
+    literal(PROPOSAL_STATUS.COUNTERED),
+    literal(PROPOSAL_STATUS.ACCEPTED),
+    literal(PROPOSAL_STATUS.REJECTED),
+    literal(PROPOSAL_STATUS.WITHDRAWN),
+    literal(PROPOSAL_STATUS.COMPLETED),
+  ]),
+  awaitingUserId: string(), // whose turn it is while negotiating
+  confirmedBy: array(string()),
+  rounds: array(ProposalRoundSchema), // every offer and counter-offer
+});
+
+export const CreateProposalSchema = object({
+  offeredPublicationIds: OfferedPublicationIdsSchema,
+  meeting: optional(MeetingProposalSchema),
+  message: optional(MessageSchema),
+});
+
+// Terms left out of a counter-offer are kept from the current ones
+export const CounterProposalSchema = pipe(
+  object({
+    offeredPublicationIds: optional(OfferedPublicationIdsSchema),
+    meeting: optional(MeetingProposalSchema),
+    message: optional(MessageSchema),
+  }),
+  check(
+    (counter) =>
+      counter.offeredPublicationIds !== undefined ||
+      counter.meeting !== undefined,
+    "A counter-offer must change the offered exchanges or the meeting"
+  )
+);
+
+export const RespondProposalSchema = object({
+  status: union(
+    [
+      literal(PROPOSAL_STATUS.ACCEPTED),
+      literal(PROPOSAL_STATUS.REJECTED),
+      literal(PROPOSAL_STATUS.WITHDRAWN),
+    ],
+    "Status must be one of: accepted, rejected, withdrawn"
+  ),
+});
@@ -0,0 +1,51 @@
+import {
+  literal,
+  maxLength,
+  object,
+  optional,
+  pipe,
+  string,
+  transform,
+  union,
+} from "valibot";
+
+export const INTEREST_STATUS = {
+  PENDING: "pending",
+  ACCEPTED: "accepted",
+  DECLINED: "declined",
+  WITHDRAWN: "withdrawn",
+  FULFILLED: "fulfilled",
+} as const;
+
+export const InterestSchema = object({
+  id: string(),
+  publicationId: string(),
+  publicationOwnerId: string(),
+  userId: string(), // claimant
+  message: string(),
+  status: union([
+    literal(INTEREST_STATUS.PENDING),
+    literal(INTEREST_STATUS.ACCEPTED),
+    literal(INTEREST_STATUS.DECLINED),
+    literal(INTEREST_STATUS.WITHDRAWN),
+    literal(INTEREST_STATUS.FULFILLED),
+  ]),
+  conversationId: string(),
+});
+
+export const CreateInterestSchema = object({
+  message: optional(
+    pipe(
+      string("Message must be a string"),
+      maxLength(500, "Message cannot exceed 500 characters"),
+      transform((message) => message.trim())
+    )
+  ),
+});
+
+export const RespondInterestSchema = object({
+  status: union(
+    [literal(INTEREST_STATUS.ACCEPTED), literal(INTEREST_STATUS.DECLINED)],
+    "Status must be one of: accepted, declined"
+  ),
+});
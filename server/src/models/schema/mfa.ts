@@ -0,0 +1,78 @@
+import {
+  array,
+  boolean,
+  check,
+  custom,
+  number,
+  object,
+  optional,
+  pipe,
+  regex,
+  string,
+  transform,
+} from "valibot";
+
+export const MfaRecordSchema = object({
+  id: string(), // same as the user id
+  userId: string(),
+  enabled: boolean(),
+  secret: optional(string()), // encrypted TOTP secret, set once enrollment is confirmed
+  pendingSecret: optional(string()), // encrypted TOTP secret awaiting confirmation
+  recoveryCodes: array(string()), // sha256 hashes of the unused recovery codes
+  lastUsedStep: optional(number()), // last accepted TOTP time step, prevents code replay
+  enabledAt: optional(number()),
+});
+
+const totpCode = pipe(
+  string("Code must be a string"),
+  transform((code) => code.replace(/\s+/g, "")),
+  regex(/^\d{6}$/, "Code must be 6 digits")
+);
+
+const recoveryCode = pipe(
+  string("Recovery code must be a string"),
+  transform((code) => code.replace(/[\s-]+/g, "").toLowerCase()),
+  regex(/^[a-z0-9]{10}$/, "Invalid recovery code format")
+);
+
+export const MfaCodeSchema = object({
+  code: totpCode,
+});
+
+const challengeEntries = {
+  code: optional(totpCode),
+  recoveryCode: optional(recoveryCode),
+};
+
+const exactlyOneFactor = <
+  TInput extends { code?: string; recoveryCode?: string },
+>() =>
+  check<TInput, string>(
+    (input) => !!input.code !== !!input.recoveryCode,
+    "Provide either a code or a recovery code"
+  );
+
+export const MfaChallengeSchema = pipe(
+  object(challengeEntries),
+  exactlyOneFactor()
+);
+
+export const MfaLoginSchema = pipe(
+  object({
+    mfaToken: string("MFA token is required"),
+    ...challengeEntries,
+  }),
+  exactlyOneFactor()
+);
+
+export const MfaPendingPayloadSchema = object({
+  sub: string(), // user id
+  email: string(),
+  type: pipe(
+    string(),
+    custom((val) => val === "mfa_pending", "Type must be 'mfa_pending'")
+  ),
+  iat: number(),
+  exp: number(),
+  jti: string(),
+});
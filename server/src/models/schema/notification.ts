@@ -0,0 +1,57 @@
+import {
+  boolean,
+  literal,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  union,
+  unknown,
+} from "valibot";
+
+/**
+ * Events kept in a user's notification center:
+ * - new_interest: someone claimed one of the user's publications
+ * - interest_update: a claim was accepted, declined, withdrawn or fulfilled
+ * - pledge_confirmed: a center confirmed the delivery of the user's pledge
+ * - new_message: unread messages of a conversation, one per conversation
+ * - new_review: someone reviewed the user
+ * - review_reply: the reviewed user replied to the user's review
+ * - moderation_action: a moderator acted on the user's content or account
+ */
+export const NOTIFICATION_TYPES = {
+  NEW_INTEREST: "new_interest",
+  INTEREST_UPDATE: "interest_update",
+  PLEDGE_CONFIRMED: "pledge_confirmed",
+  NEW_MESSAGE: "new_message",
+  NEW_REVIEW: "new_review",
+  REVIEW_REPLY: "review_reply",
+  MODERATION_ACTION: "moderation_action",
+} as const;
+
+export const NotificationTypeSchema = union(
+  [
+    literal(NOTIFICATION_TYPES.NEW_INTEREST),
+    literal(NOTIFICATION_TYPES.INTEREST_UPDATE),
+    literal(NOTIFICATION_TYPES.PLEDGE_CONFIRMED),
+    literal(NOTIFICATION_TYPES.NEW_MESSAGE),
+    literal(NOTIFICATION_TYPES.NEW_REVIEW),
+    literal(NOTIFICATION_TYPES.REVIEW_REPLY),
+    literal(NOTIFICATION_TYPES.MODERATION_ACTION),
+  ],
+  "Invalid notification type"
+);
+
+export const NotificationSchema = object({
+  id: string(),
+  userId: string(), // recipient
+  type: NotificationTypeSchema,
+  title: string(),
+  body: string(),
+  data: optional(record(string(), unknown()), {}), // ids to open the target
+  count: optional(number(), 1), // events grouped in the notification
+  read: boolean(),
+  notifiedAt: number(), // ms, of the latest grouped event
+  readAt: optional(number()), // ms
+});
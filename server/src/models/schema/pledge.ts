@@ -0,0 +1,64 @@
+import {
+  literal,
+  maxLength,
+  minLength,
+  minValue,
+  number,
+  object,
+  optional,
+  pipe,
+  string,
+  transform,
+  union,
+} from "valibot";
+
+export const PLEDGE_STATUS = {
+  PLEDGED: "pledged",
+  DELIVERED: "delivered",
+  CANCELLED: "cancelled",
+} as const;
+
+export const PledgeSchema = object({
+  id: string(),
+  publicationId: string(),
+  centerId: string(),
+  donorId: string(),
+  item: string(),
+  quantity: number(),
+  deliveredQuantity: optional(number()),
+  note: optional(string()),
+  status: union([
+    literal(PLEDGE_STATUS.PLEDGED),
+    literal(PLEDGE_STATUS.DELIVERED),
+    literal(PLEDGE_STATUS.CANCELLED),
+  ]),
+});
+
+export const CreatePledgeSchema = object({
+  item: pipe(
+    string("Item must be a string"),
+    minLength(1, "Item is required"),
+    maxLength(50, "Item cannot exceed 50 characters"),
+    transform((item) => item.trim())
+  ),
+  quantity: pipe(
+    number("Quantity must be a number"),
+    minValue(1, "Quantity must be at least 1")
+  ),
+  note: optional(
+    pipe(
+      string("Note must be a string"),
+      maxLength(200, "Note cannot exceed 200 characters"),
+      transform((note) => note.trim())
+    )
+  ),
+});
+
+export const ConfirmDeliverySchema = object({
+  deliveredQuantity: optional(
+    pipe(
+      number("Delivered quantity must be a number"),
+      minValue(1, "Delivered quantity must be at least 1")
+    )
+  ),
+});
@@ -14,6 +14,7 @@ import {
   transform,
   union,
 } from "valibot";
+import { HIDDEN_BY } from "./report";
 
 export const PUBLICATION_TYPES = {
   DONATION_OFFER: "donation_offer",
@@ -47,6 +48,20 @@ export const PRIORITIES = {
   URGENT: "urgent",
 } as const;
 
+/**
+ * Lifecycle of a publication. Only active publications are listed;
+ * `isActive` is kept in sync with the status for the listing queries.
+ */
+export const PUBLICATION_STATUS = {
+  DRAFT: "draft", // created unpublished, visible to its owner only
+  ACTIVE: "active",
+  RESERVED: "reserved", // promised to someone, hidden until released
+  COMPLETED: "completed", // handed over, traded or fully pledged
+  EXPIRED: "expired", // deadline or listing lifetime passed, renewable
+  REMOVED: "removed", // deleted by its owner
+  HIDDEN: "hidden", // taken down by moderation, visible to its owner only
+} as const;
+
 export const MEETING = {
   PORCH_PICKUP: "porch_pickup",
   PUBLIC_LOCATION: "public_location",
@@ -78,9 +93,35 @@ export const BasePublicationSchema = object({
     latitude: pipe(number(), minValue(-90), maxValue(90)),
     longitude: pipe(number(), minValue(-180), maxValue(180)),
     address: optional(string()),
+    geohash: optional(string()), // set on write, used for radius queries
   }),
   tags: array(string()),
   isActive: boolean(),
+  // Publications created before statuses existed only have isActive
+  status: optional(
+    union([
+      literal(PUBLICATION_STATUS.DRAFT),
+      literal(PUBLICATION_STATUS.ACTIVE),
+      literal(PUBLICATION_STATUS.RESERVED),
+      literal(PUBLICATION_STATUS.COMPLETED),
+      literal(PUBLICATION_STATUS.EXPIRED),
+      literal(PUBLICATION_STATUS.REMOVED),
+      literal(PUBLICATION_STATUS.HIDDEN),
+    ])
+  ),
+  statusChangedAt: optional(number()), // ms
+  expiresAt: optional(number()), // ms, offers and exchanges only
+  // Set while hidden: by whom, and the status to restore it to
+  hiddenBy: optional(
+    union([literal(HIDDEN_BY.AUTO), literal(HIDDEN_BY.MODERATOR)])
+  ),
+  statusBeforeHidden: optional(
+    union([
+      literal(PUBLICATION_STATUS.ACTIVE),
+      literal(PUBLICATION_STATUS.RESERVED),
+      literal(PUBLICATION_STATUS.EXPIRED),
+    ])
+  ),
   userId: string(),
 });
 
@@ -109,18 +150,19 @@ export const DonationRequestSchema = object({
     literal(PRIORITIES.URGENT),
   ]),
   targetQuantity: number(),
-  currentQuantity: number(),
+  currentQuantity: number(), // delivered quantity, derived from the pledge ledger
+  pledgedQuantity: optional(number()), // outstanding (not yet delivered) pledges
   deadline: optional(string()), // ISO date
   impactDescription: optional(string()),
   acceptedItems: array(string()),
   restrictions: optional(string()),
-  centerId: string(), // a user id of type donationCenter
+  centerId: string(), // a user id of an approved donationCenter
 });
 
 export const ExchangeSchema = object({
   ...BasePublicationSchema.entries,
   type: literal(PUBLICATION_TYPES.EXCHANGE),
-  conditions: union([
+  condition: union([
     literal(CONDITIONS.NEW),
     literal(CONDITIONS.LIKE_NEW),
     literal(CONDITIONS.GOOD),
@@ -129,12 +171,14 @@ export const ExchangeSchema = object({
   ]),
   seeking: array(string()),
   preferredItems: optional(string()),
-  meetingPreference: union([
-    literal(MEETING.PORCH_PICKUP),
-    literal(MEETING.PUBLIC_LOCATION),
-    literal(MEETING.DELIVERY),
-    literal(MEETING.FLEXIBLE),
-  ]),
+  meetingPreference: optional(
+    union([
+      literal(MEETING.PORCH_PICKUP),
+      literal(MEETING.PUBLIC_LOCATION),
+      literal(MEETING.DELIVERY),
+      literal(MEETING.FLEXIBLE),
+    ])
+  ),
 });
 
 export const CreatePublicationSchema = object({
@@ -172,6 +216,13 @@ export const CreatePublicationSchema = object({
   }),
   images: optional(array(string())),
   tags: optional(array(pipe(string(), maxLength(20)))),
+  // Drafts are only listed and matched once published
+  status: optional(
+    union(
+      [literal(PUBLICATION_STATUS.DRAFT), literal(PUBLICATION_STATUS.ACTIVE)],
+      "Status must be one of: draft, active"
+    )
+  ),
 
   // Donation Offer specific
   condition: optional(
@@ -233,7 +284,6 @@ export const UpdatePublicationSchema = object({
     )
   ),
   images: optional(array(string())),
-  isActive: optional(boolean()),
 
   // Donation Offer updates
   condition: optional(
@@ -259,7 +309,6 @@ export const UpdatePublicationSchema = object({
     ])
   ),
   targetQuantity: optional(pipe(number(), minValue(1))),
-  currentQuantity: optional(pipe(number(), minValue(0))),
   deadline: optional(string()),
 
   // Exchange updates
@@ -275,6 +324,19 @@ export const UpdatePublicationSchema = object({
   ),
 });
 
+// Expiry is done by the system, renewal has its own endpoint
+export const ChangePublicationStatusSchema = object({
+  status: union(
+    [
+      literal(PUBLICATION_STATUS.ACTIVE),
+      literal(PUBLICATION_STATUS.RESERVED),
+      literal(PUBLICATION_STATUS.COMPLETED),
+      literal(PUBLICATION_STATUS.REMOVED),
+    ],
+    "Status must be one of: active, reserved, completed, removed"
+  ),
+});
+
 export const PublicationResponseSchema = union([
   DonationOfferSchema,
   DonationRequestSchema,
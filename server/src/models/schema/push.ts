@@ -0,0 +1,102 @@
+import {
+  array,
+  boolean,
+  check,
+  literal,
+  maxLength,
+  minLength,
+  nullable,
+  number,
+  object,
+  optional,
+  pipe,
+  regex,
+  string,
+  union,
+} from "valibot";
+import { NotificationTypeSchema } from "./notification";
+
+export const DEVICE_PLATFORMS = {
+  ANDROID: "android",
+  IOS: "ios",
+  WEB: "web",
+} as const;
+
+export const DeviceTokenSchema = object({
+  id: string(), // sha256 of the token
+  userId: string(),
+  token: string(), // FCM registration token
+  platform: union([
+    literal(DEVICE_PLATFORMS.ANDROID),
+    literal(DEVICE_PLATFORMS.IOS),
+    literal(DEVICE_PLATFORMS.WEB),
+  ]),
+  registeredAt: number(), // ms
+  lastSeenAt: number(), // ms, of the latest registration
+});
+
+export const RegisterDeviceSchema = object({
+  token: pipe(
+    string("Token must be a string"),
+    minLength(1, "Token is required"),
+    maxLength(4096, "Token is too long")
+  ),
+  platform: union(
+    [
+      literal(DEVICE_PLATFORMS.ANDROID),
+      literal(DEVICE_PLATFORMS.IOS),
+      literal(DEVICE_PLATFORMS.WEB),
+    ],
+    "Platform must be one of: android, ios, web"
+  ),
+});
+
+export const UnregisterDeviceSchema = object({
+  token: pipe(
+    string("Token must be a string"),
+    minLength(1, "Token is required")
+  ),
+});
+
+const TimeSchema = pipe(
+  string("Time must be a string"),
+  regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM format")
+);
+
+/**
+ * Daily window in the user's timezone during which no push is sent. The
+ * window wraps around midnight when start is after end (22:00 to 07:00).
+ */
+export const QuietHoursSchema = object({
+  start: TimeSchema,
+  end: TimeSchema,
+  timezone: pipe(
+    string("Timezone must be a string"),
+    check((timezone) => {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+      } catch {
+        return false;
+      }
+    }, "Timezone must be an IANA timezone such as Europe/Paris")
+  ),
+});
+
+/**
+ * Push settings of a user. They only apply to push: every notification
+ * is still kept in the notification center.
+ */
+export const NotificationPreferencesSchema = object({
+  userId: string(),
+  pushEnabled: optional(boolean(), true),
+  mutedTypes: optional(array(NotificationTypeSchema), []), // never pushed
+  quietHours: optional(QuietHoursSchema),
+  updatedAt: optional(number()), // ms
+});
+
+export const UpdateNotificationPreferencesSchema = object({
+  pushEnabled: optional(boolean("pushEnabled must be a boolean")),
+  mutedTypes: optional(array(NotificationTypeSchema)),
+  quietHours: optional(nullable(QuietHoursSchema)), // null turns them off
+});
@@ -0,0 +1,167 @@
+import {
+  array,
+  check,
+  integer,
+  literal,
+  maxLength,
+  maxValue,
+  minLength,
+  minValue,
+  number,
+  object,
+  optional,
+  pipe,
+  string,
+  transform,
+  union,
+} from "valibot";
+
+export const REPORT_TARGET_TYPES = {
+  PUBLICATION: "publication",
+  USER: "user",
+  MESSAGE: "message",
+} as const;
+
+export const REPORT_REASONS = {
+  SPAM: "spam",
+  HARASSMENT: "harassment",
+  INAPPROPRIATE: "inappropriate", // offensive or adult content
+  SCAM: "scam",
+  PROHIBITED_ITEM: "prohibited_item",
+  OTHER: "other",
+} as const;
+
+export const REPORT_STATUS = {
+  OPEN: "open",
+  DISMISSED: "dismissed",
+  ACTIONED: "actioned",
+} as const;
+
+/**
+ * Actions a moderator can take on a reported target. Every action resolves
+ * all the open reports of the target and is written to the moderation log.
+ * - dismiss: no abuse, auto-hidden content is shown again
+ * - hide_publication: take a publication out of the listings
+ * - warn_user: warn the author of the content
+ * - suspend_user: sign the author out and block them for some days
+ */
+export const MODERATION_ACTIONS = {
+  DISMISS: "dismiss",
+  HIDE_PUBLICATION: "hide_publication",
+  WARN_USER: "warn_user",
+  SUSPEND_USER: "suspend_user",
+  AUTO_HIDE: "auto_hide", // taken by the system at the report threshold
+} as const;
+
+/**
+ * Who hid a publication or message. Dismissing reports only shows again
+ * what the report threshold hid, never what a moderator decided to hide.
+ */
+export const HIDDEN_BY = {
+  AUTO: "auto",
+  MODERATOR: "moderator",
+} as const;
+
+const TargetTypeSchema = union(
+  [
+    literal(REPORT_TARGET_TYPES.PUBLICATION),
+    literal(REPORT_TARGET_TYPES.USER),
+    literal(REPORT_TARGET_TYPES.MESSAGE),
+  ],
+  "Target type must be one of: publication, user, message"
+);
+
+const ReasonSchema = union(
+  [
+    literal(REPORT_REASONS.SPAM),
+    literal(REPORT_REASONS.HARASSMENT),
+    literal(REPORT_REASONS.INAPPROPRIATE),
+    literal(REPORT_REASONS.SCAM),
+    literal(REPORT_REASONS.PROHIBITED_ITEM),
+    literal(REPORT_REASONS.OTHER),
+  ],
+  "Reason must be one of: spam, harassment, inappropriate, scam, prohibited_item, other"
+);
+
+const NoteSchema = pipe(
+  string("Note must be a string"),
+  transform((note) => note.trim()),
+  maxLength(1000, "Note cannot exceed 1000 characters")
+);
+
+export const ReportSchema = object({
+  id: string(), // `${targetType}_${targetId}_${reporterId}`
+  targetType: TargetTypeSchema,
+  targetId: string(),
+  targetOwnerId: string(), // author of the content, or the reported user
+  reason: ReasonSchema,
+  details: optional(string()),
+  reporterId: string(),
+  status: union([
+    literal(REPORT_STATUS.OPEN),
+    literal(REPORT_STATUS.DISMISSED),
+    literal(REPORT_STATUS.ACTIONED),
+  ]),
+  reportedAt: number(), // ms
+  resolvedAt: optional(number()), // ms
+  resolvedBy: optional(string()),
+  action: optional(string()),
+});
+
+export const ModerationLogSchema = object({
+  id: string(),
+  action: union([
+    literal(MODERATION_ACTIONS.DISMISS),
+    literal(MODERATION_ACTIONS.HIDE_PUBLICATION),
+    literal(MODERATION_ACTIONS.WARN_USER),
+    literal(MODERATION_ACTIONS.SUSPEND_USER),
+    literal(MODERATION_ACTIONS.AUTO_HIDE),
+  ]),
+  moderatorId: optional(string()), // unset for automatic actions
+  targetType: TargetTypeSchema,
+  targetId: string(),
+  targetOwnerId: string(),
+  reportIds: optional(array(string()), []),
+  note: optional(string()),
+  suspendedUntil: optional(number()), // ms
+  at: number(), // ms
+});
+
+export const CreateReportSchema = object({
+  targetType: TargetTypeSchema,
+  targetId: pipe(
+    string("Target ID must be a string"),
+    minLength(1, "Target ID is required")
+  ),
+  reason: ReasonSchema,
+  details: optional(NoteSchema),
+});
+
+export const ModerationActionSchema = pipe(
+  object({
+    action: union(
+      [
+        literal(MODERATION_ACTIONS.DISMISS),
+        literal(MODERATION_ACTIONS.HIDE_PUBLICATION),
+        literal(MODERATION_ACTIONS.WARN_USER),
+        literal(MODERATION_ACTIONS.SUSPEND_USER),
+      ],
+      "Action must be one of: dismiss, hide_publication, warn_user, suspend_user"
+    ),
+    note: optional(NoteSchema),
+    suspensionDays: optional(
+      pipe(
+        number("Suspension days must be a number"),
+        integer("Suspension days must be a whole number"),
+        minValue(1, "Suspension must last at least 1 day"),
+        maxValue(365, "Suspension cannot exceed 365 days")
+      )
+    ),
+  }),
+  check(
+    (input) =>
+      input.action !== MODERATION_ACTIONS.SUSPEND_USER ||
+      input.suspensionDays !== undefined,
+    "Suspension days are required to suspend a user"
+  )
+);
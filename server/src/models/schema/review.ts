@@ -0,0 +1,81 @@
+import {
+  integer,
+  literal,
+  maxLength,
+  maxValue,
+  minLength,
+  minValue,
+  number,
+  object,
+  optional,
+  pipe,
+  string,
+  transform,
+  union,
+} from "valibot";
+
+/**
+ * Completed transactions a review can be left for:
+ * - interest: a fulfilled claim of a donation offer
+ * - pledge: a delivered pledge to a donation request
+ * - exchange: a completed exchange proposal
+ */
+export const REVIEW_TRANSACTION_TYPES = {
+  INTEREST: "interest",
+  PLEDGE: "pledge",
+  EXCHANGE: "exchange",
+} as const;
+
+const CommentSchema = pipe(
+  string("Comment must be a string"),
+  transform((comment) => comment.trim()),
+  maxLength(1000, "Comment cannot exceed 1000 characters")
+);
+
+export const ReviewSchema = object({
+  id: string(), // `${transactionType}_${transactionId}_${reviewerId}`
+  transactionType: union([
+    literal(REVIEW_TRANSACTION_TYPES.INTEREST),
+    literal(REVIEW_TRANSACTION_TYPES.PLEDGE),
+    literal(REVIEW_TRANSACTION_TYPES.EXCHANGE),
+  ]),
+  transactionId: string(),
+  publicationId: string(),
+  reviewerId: string(),
+  revieweeId: string(),
+  rating: number(), // 1 to 5 stars
+  comment: optional(string()),
+  reply: optional(
+    object({
+      comment: string(),
+      repliedAt: number(), // ms
+    })
+  ),
+  reviewedAt: number(), // ms
+});
+
+export const CreateReviewSchema = object({
+  transactionType: union(
+    [
+      literal(REVIEW_TRANSACTION_TYPES.INTEREST),
+      literal(REVIEW_TRANSACTION_TYPES.PLEDGE),
+      literal(REVIEW_TRANSACTION_TYPES.EXCHANGE),
+    ],
+    "Transaction type must be one of: interest, pledge, exchange"
+  ),
+  transactionId: pipe(
+    string("Transaction ID must be a string"),
+    minLength(1, "Transaction ID is required")
+  ),
+  rating: pipe(
+    number("Rating must be a number"),
+    integer("Rating must be a whole number of stars"),
+    minValue(1, "Rating must be at least 1 star"),
+    maxValue(5, "Rating cannot exceed 5 stars")
+  ),
+  comment: optional(CommentSchema),
+});
+
+export const ReplyReviewSchema = object({
+  comment: pipe(CommentSchema, minLength(1, "Reply cannot be empty")),
+});
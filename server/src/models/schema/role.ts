@@ -0,0 +1,22 @@
+import { literal, object, union } from "valibot";
+
+export const ROLES = {
+  USER: "user",
+  DONATION_CENTER: "donationCenter",
+  MODERATOR: "moderator",
+  ADMIN: "admin",
+} as const;
+
+export const RoleSchema = union(
+  [
+    literal(ROLES.USER),
+    literal(ROLES.DONATION_CENTER),
+    literal(ROLES.MODERATOR),
+    literal(ROLES.ADMIN),
+  ],
+  "Role must be one of: user, donationCenter, moderator, admin"
+);
+
+export const RoleGrantSchema = object({
+  role: RoleSchema,
+});
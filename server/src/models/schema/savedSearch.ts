@@ -0,0 +1,147 @@
+import {
+  array,
+  boolean,
+  check,
+  literal,
+  maxLength,
+  maxValue,
+  minLength,
+  minValue,
+  number,
+  object,
+  optional,
+  pipe,
+  string,
+  transform,
+  union,
+} from "valibot";
+import { CATEGORIES, PRIORITIES, PUBLICATION_TYPES } from "./publication";
+
+export const SAVED_SEARCH_STATUS = {
+  ACTIVE: "active",
+  PAUSED: "paused", // kept, but no alerts are sent
+} as const;
+
+/**
+ * Subset of PublicationFilters a saved search can use. List filters match
+ * any of their values, every filter has to match.
+ */
+export const SavedSearchFiltersSchema = pipe(
+  object({
+    type: optional(
+      array(
+        union([
+          literal(PUBLICATION_TYPES.DONATION_OFFER),
+          literal(PUBLICATION_TYPES.DONATION_REQUEST),
+          literal(PUBLICATION_TYPES.EXCHANGE),
+        ])
+      )
+    ),
+    category: optional(
+      array(
+        union([
+          literal(CATEGORIES.CLOTHING),
+          literal(CATEGORIES.FURNITURE),
+          literal(CATEGORIES.ELECTRONICS),
+          literal(CATEGORIES.BOOKS),
+          literal(CATEGORIES.TOYS),
+          literal(CATEGORIES.FOOD),
+          literal(CATEGORIES.SPORTS),
+          literal(CATEGORIES.OTHER),
+        ])
+      )
+    ),
+    priority: optional(
+      array(
+        union([
+          literal(PRIORITIES.LOW),
+          literal(PRIORITIES.MEDIUM),
+          literal(PRIORITIES.HIGH),
+          literal(PRIORITIES.URGENT),
+        ])
+      )
+    ),
+    tags: optional(
+      pipe(
+        array(
+          pipe(string(), maxLength(30, "Tags cannot exceed 30 characters"))
+        ),
+        maxLength(10, "Cannot have more than 10 tags")
+      )
+    ),
+    centerId: optional(string()),
+    searchQuery: optional(
+      pipe(
+        string("Search query must be a string"),
+        maxLength(100, "Search query cannot exceed 100 characters"),
+        transform((query) => query.trim())
+      )
+    ),
+    location: optional(
+      object({
+        latitude: pipe(number(), minValue(-90), maxValue(90)),
+        longitude: pipe(number(), minValue(-180), maxValue(180)),
+        radius: pipe(
+          number("Radius must be a number"),
+          minValue(0.1, "Radius must be at least 0.1 km"),
+          maxValue(100, "Radius cannot exceed 100 km")
+        ),
+      })
+    ),
+  }),
+  check(
+    (filters) =>
+      Object.values(filters).some(
+        (value) =>
+          value !== undefined &&
+          value !== "" &&
+          (!Array.isArray(value) || value.length > 0)
+      ),
+    "At least one filter is required"
+  )
+);
+
+export const SavedSearchSchema = object({
+  id: string(),
+  userId: string(),
+  name: string(),
+  filters: SavedSearchFiltersSchema,
+  status: union([
+    literal(SAVED_SEARCH_STATUS.ACTIVE),
+    literal(SAVED_SEARCH_STATUS.PAUSED),
+  ]),
+  categoryKeys: array(string()), // categories it listens to, "*" for any
+  matchCount: number(),
+  lastMatchAt: optional(number()), // ms
+});
+
+export const CreateSavedSearchSchema = object({
+  name: pipe(
+    string("Name must be a string"),
+    transform((name) => name.trim()),
+    minLength(1, "Name is required"),
+    maxLength(60, "Name cannot exceed 60 characters")
+  ),
+  filters: SavedSearchFiltersSchema,
+});
+
+export const UpdateSavedSearchSchema = object({
+  status: union(
+    [
+      literal(SAVED_SEARCH_STATUS.ACTIVE),
+      literal(SAVED_SEARCH_STATUS.PAUSED),
+    ],
+    "Status must be one of: active, paused"
+  ),
+});
+
+export const SavedSearchDigestEntrySchema = object({
+  id: string(),
+  userId: string(),
+  savedSearchId: string(),
+  savedSearchName: string(),
+  publicationId: string(),
+  publicationTitle: string(),
+  matchedAt: number(), // ms
+  read: boolean(),
+});
@@ -0,0 +1,29 @@
+import { boolean, number, object, optional, string } from "valibot";
+
+export const SessionSchema = object({
+  id: string(), // same as the token family id (fam claim)
+  userId: string(),
+  deviceName: string(),
+  userAgent: optional(string()),
+  ip: optional(string()),
+  startedAt: number(), // ms
+  lastSeenAt: number(), // ms
+  expiresAt: number(), // ms, expiry of the latest refresh token
+  revokedAt: optional(number()), // ms
+});
+
+export const PublicSessionSchema = object({
+  id: string(),
+  deviceName: string(),
+  userAgent: optional(string()),
+  ip: optional(string()),
+  startedAt: number(),
+  lastSeenAt: number(),
+  current: boolean(),
+});
+
+export const SessionContextSchema = object({
+  deviceName: optional(string()),
+  userAgent: optional(string()),
+  ip: optional(string()),
+});
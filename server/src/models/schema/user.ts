@@ -2,10 +2,10 @@ import { hash } from "bcrypt";
 import { password } from "bun";
 import {
   any,
+  array,
   boolean,
   custom,
   email,
-  literal,
   maxLength,
   minLength,
   number,
@@ -15,7 +15,6 @@ import {
   regex,
   string,
   transform,
-  union,
   url,
 } from "valibot";
 
@@ -34,13 +33,17 @@ export const BaseUserSchema = object({
   location: object({
     latitude: number(),
     longitude: number(),
+    geohash: optional(string()), // only set once the user shares a location
   }),
   rating: object({
     average: number(),
     count: number(),
   }),
-  role: string(),
+  role: string(), // account role
+  roles: optional(array(string())), // extra roles granted by an admin
   isVerified: boolean(),
+  warningCount: optional(number()), // moderation warnings received
+  suspendedUntil: optional(number()), // ms, suspended by moderation
 });
 
 export const PublicUserSchema = object({
@@ -188,15 +191,6 @@ export const UserUpdateSchema = object({
       count: pipe(number("Rating count must be a number")),
     })
   ),
-  role: optional(
-    pipe(
-      string("Type must be a string"),
-      union(
-        [literal("admin"), literal("user"), literal("donationCenter")],
-        "Type must be one of: admin, user, donationCenter"
-      )
-    )
-  ),
   isVerified: optional(
     pipe(
       string("Verified must be a boolean"),
@@ -218,5 +212,18 @@ export const PasswordChangeSchema = object({
 });
 
 export const EmailVerifySchema = object({
-  userId: string("User id required"),
+  token: string("Verification token is required"),
+});
+
+export const ForgotPasswordSchema = object({
+  email: pipe(
+    string("Email must be a string"),
+    email("Please enter a valid email address"),
+    transform((email) => email.toLowerCase().trim())
+  ),
+});
+
+export const PasswordResetSchema = object({
+  token: string("Reset token is required"),
+  newPassword: PasswordChangeSchema.entries.newPassword,
 });
@@ -0,0 +1,28 @@
+import { number, object, optional, record, string } from "valibot";
+
+const CounterSchema = optional(number(), 0);
+
+/**
+ * Counters kept per user and updated as transactions complete, so reading
+ * the statistics never scans publications, pledges or messages.
+ */
+export const UserStatsSchema = object({
+  userId: string(),
+  donationsGiven: CounterSchema, // fulfilled offers and delivered pledges
+  donationsReceived: CounterSchema,
+  itemsExchanged: CounterSchema, // publications handed over in exchanges
+  pledgesFulfilled: CounterSchema,
+  activePublications: optional(
+    object({
+      donation_offer: CounterSchema,
+      donation_request: CounterSchema,
+      exchange: CounterSchema,
+    }),
+    {}
+  ),
+  // Messages that called for a reply, and the replies sent to them
+  messagesToAnswer: CounterSchema,
+  messagesAnswered: CounterSchema,
+  totalResponseTime: CounterSchema, // ms, summed over answered messages
+  impact: optional(record(string(), number()), {}), // quantity per category
+});
@@ -1,8 +1,12 @@
 import type { InferOutput } from "valibot";
-import type { AuthResponseSchema, AuthTokenSchema, JWTPayloadSchema, LoginSchema, RefreshTokenSchema } from "../schema/auth";
+import type { ACTION_TOKEN_PURPOSE, ActionTokenPayloadSchema, ActionTokenRecordSchema, AuthResponseSchema, AuthTokenSchema, JWTPayloadSchema, LoginSchema, RefreshTokenSchema, TokenFamilySchema } from "../schema/auth";
 
 export type LoginInput = InferOutput<typeof LoginSchema>;
 export type AuthToken = InferOutput<typeof AuthTokenSchema>;
 export type AuthResponse = InferOutput<typeof AuthResponseSchema>;
 export type RefreshToken = InferOutput<typeof RefreshTokenSchema>;
 export type JWTPayload = InferOutput<typeof JWTPayloadSchema>;
+export type ActionTokenPurpose = (typeof ACTION_TOKEN_PURPOSE)[keyof typeof ACTION_TOKEN_PURPOSE];
+export type ActionTokenPayload = InferOutput<typeof ActionTokenPayloadSchema>;
+export type ActionTokenRecord = InferOutput<typeof ActionTokenRecordSchema>;
+export type TokenFamily = InferOutput<typeof TokenFamilySchema>;
@@ -0,0 +1,7 @@
+import type { InferOutput } from "valibot";
+import type { UserBlockSchema } from "../schema/block";
+import type { MinimalUser } from "./user";
+
+export type UserBlock = InferOutput<typeof UserBlockSchema>;
+// The block list shows who was blocked
+export type BlockedUser = UserBlock & { user: MinimalUser | null };
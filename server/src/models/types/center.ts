@@ -0,0 +1,22 @@
+import type { InferInput, InferOutput } from "valibot";
+import type {
+  CENTER_STATUS,
+  CenterRegistrationSchema,
+  CenterReviewSchema,
+  CenterUpdateSchema,
+  DonationCenterSchema,
+  PublicDonationCenterSchema,
+} from "../schema/center";
+
+export type CenterStatus = (typeof CENTER_STATUS)[keyof typeof CENTER_STATUS];
+
+export type DonationCenter = InferOutput<typeof DonationCenterSchema>;
+export type PublicDonationCenter = InferOutput<
+  typeof PublicDonationCenterSchema
+>;
+
+export type CenterRegistrationInput = InferInput<
+  typeof CenterRegistrationSchema
+>;
+export type CenterUpdateInput = InferInput<typeof CenterUpdateSchema>;
+export type CenterReviewInput = InferInput<typeof CenterReviewSchema>;
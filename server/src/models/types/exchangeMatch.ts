@@ -0,0 +1,13 @@
+import type { InferOutput } from "valibot";
+import type { ExchangeMatchRecordSchema } from "../schema/exchangeMatch";
+import type { Exchange } from "./publication";
+
+export type ExchangeMatchRecord = InferOutput<typeof ExchangeMatchRecordSchema>;
+
+export interface ExchangeMatch {
+  publication: Exchange; // the other exchange
+  score: number; // 0-100
+  distance: number; // km
+  theySeek: string[]; // items of their `seeking` list your exchange offers
+  youSeek: string[]; // items of your `seeking` list their exchange offers
+}
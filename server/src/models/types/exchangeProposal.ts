@@ -0,0 +1,21 @@
+import type { InferInput, InferOutput } from "valibot";
+import type {
+  CounterProposalSchema,
+  CreateProposalSchema,
+  ExchangeProposalSchema,
+  MeetingProposalSchema,
+  PROPOSAL_STATUS,
+  ProposalRoundSchema,
+  RespondProposalSchema,
+} from "../schema/exchangeProposal";
+
+export type ProposalStatus =
+  (typeof PROPOSAL_STATUS)[keyof typeof PROPOSAL_STATUS];
+
+export type MeetingProposal = InferOutput<typeof MeetingProposalSchema>;
+export type ProposalRound = InferOutput<typeof ProposalRoundSchema>;
+export type ExchangeProposal = InferOutput<typeof ExchangeProposalSchema>;
+
+export type CreateProposalInput = InferInput<typeof CreateProposalSchema>;
+export type CounterProposalInput = InferInput<typeof CounterProposalSchema>;
+export type RespondProposalInput = InferInput<typeof RespondProposalSchema>;
@@ -0,0 +1,15 @@
+import type { InferInput, InferOutput } from "valibot";
+import type {
+  CreateInterestSchema,
+  INTEREST_STATUS,
+  InterestSchema,
+  RespondInterestSchema,
+} from "../schema/interest";
+
+export type InterestStatus =
+  (typeof INTEREST_STATUS)[keyof typeof INTEREST_STATUS];
+
+export type Interest = InferOutput<typeof InterestSchema>;
+
+export type CreateInterestInput = InferInput<typeof CreateInterestSchema>;
+export type RespondInterestInput = InferInput<typeof RespondInterestSchema>;
@@ -0,0 +1,21 @@
+import type { InferInput, InferOutput } from "valibot";
+import type {
+  MfaChallengeSchema,
+  MfaCodeSchema,
+  MfaLoginSchema,
+  MfaPendingPayloadSchema,
+  MfaRecordSchema,
+} from "../schema/mfa";
+
+export type MfaRecord = InferOutput<typeof MfaRecordSchema>;
+export type MfaPendingPayload = InferOutput<typeof MfaPendingPayloadSchema>;
+
+export type MfaCodeInput = InferInput<typeof MfaCodeSchema>;
+export type MfaChallengeInput = InferInput<typeof MfaChallengeSchema>;
+export type MfaLoginInput = InferInput<typeof MfaLoginSchema>;
+
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number;
+}
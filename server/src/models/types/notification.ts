@@ -0,0 +1,20 @@
+import type { InferOutput } from "valibot";
+import type {
+  NOTIFICATION_TYPES,
+  NotificationSchema,
+} from "../schema/notification";
+
+export type NotificationType =
+  (typeof NOTIFICATION_TYPES)[keyof typeof NOTIFICATION_TYPES];
+
+export type Notification = InferOutput<typeof NotificationSchema>;
+
+// What a feature hands over to notify a user
+export type NotificationInput = Pick<
+  Notification,
+  "type" | "title" | "body"
+> & {
+  data?: Record<string, unknown>;
+  // Events with the same key are grouped in one notification while unread
+  groupKey?: string;
+};
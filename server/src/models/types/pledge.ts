@@ -0,0 +1,14 @@
+import type { InferInput, InferOutput } from "valibot";
+import type {
+  ConfirmDeliverySchema,
+  CreatePledgeSchema,
+  PLEDGE_STATUS,
+  PledgeSchema,
+} from "../schema/pledge";
+
+export type PledgeStatus = (typeof PLEDGE_STATUS)[keyof typeof PLEDGE_STATUS];
+
+export type Pledge = InferOutput<typeof PledgeSchema>;
+
+export type CreatePledgeInput = InferInput<typeof CreatePledgeSchema>;
+export type ConfirmDeliveryInput = InferInput<typeof ConfirmDeliverySchema>;
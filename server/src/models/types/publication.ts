@@ -2,12 +2,14 @@ import type { InferDefault, InferInput, InferOutput } from "valibot";
 import type {
   BasePublicationSchema,
   CATEGORIES,
+  ChangePublicationStatusSchema,
   CONDITIONS,
   CreatePublicationSchema,
   DonationOfferSchema,
   DonationRequestSchema,
   ExchangeSchema,
   PRIORITIES,
+  PUBLICATION_STATUS,
   PUBLICATION_TYPES,
   PublicationResponseSchema,
   UpdatePublicationSchema,
@@ -18,6 +20,8 @@ export type PublicationType =
 export type CategoryType = (typeof CATEGORIES)[keyof typeof CATEGORIES];
 export type ConditionType = (typeof CONDITIONS)[keyof typeof CONDITIONS];
 export type PriorityType = (typeof PRIORITIES)[keyof typeof PRIORITIES];
+export type PublicationStatus =
+  (typeof PUBLICATION_STATUS)[keyof typeof PUBLICATION_STATUS];
 
 export type BasePublication = InferOutput<typeof BasePublicationSchema>;
 export type DonationOffer = InferOutput<typeof DonationOfferSchema>;
@@ -25,6 +29,17 @@ export type DonationRequest = InferOutput<typeof DonationRequestSchema>;
 export type Exchange = InferOutput<typeof ExchangeSchema>;
 export type PublicationResponse = InferOutput<typeof PublicationResponseSchema>;
 export type Publication = DonationOffer | DonationRequest | Exchange;
+export type PublicationHighlights = { title: string; description: string };
+export type SearchMatch = { score: number; highlights: PublicationHighlights };
+export type SearchedPublication = PublicationResponse &
+  SearchMatch & { distance?: number };
+// Text matches are included when the search has a query
+export type NearbyPublication = PublicationResponse & {
+  distance: number; // km
+} & Partial<SearchMatch>;
 
 export type CreatePublicationInput = InferInput<typeof CreatePublicationSchema>;
 export type UpdatePublicationInput = InferInput<typeof UpdatePublicationSchema>;
+export type ChangePublicationStatusInput = InferInput<
+  typeof ChangePublicationStatusSchema
+>;
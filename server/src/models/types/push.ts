@@ -0,0 +1,23 @@
+import type { InferInput, InferOutput } from "valibot";
+import type {
+  DEVICE_PLATFORMS,
+  DeviceTokenSchema,
+  NotificationPreferencesSchema,
+  QuietHoursSchema,
+  RegisterDeviceSchema,
+  UpdateNotificationPreferencesSchema,
+} from "../schema/push";
+
+export type DevicePlatform =
+  (typeof DEVICE_PLATFORMS)[keyof typeof DEVICE_PLATFORMS];
+
+export type DeviceToken = InferOutput<typeof DeviceTokenSchema>;
+export type QuietHours = InferOutput<typeof QuietHoursSchema>;
+export type NotificationPreferences = InferOutput<
+  typeof NotificationPreferencesSchema
+>;
+
+export type RegisterDeviceInput = InferInput<typeof RegisterDeviceSchema>;
+export type UpdateNotificationPreferencesInput = InferInput<
+  typeof UpdateNotificationPreferencesSchema
+>;
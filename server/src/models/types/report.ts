@@ -0,0 +1,26 @@
+import type { InferInput, InferOutput } from "valibot";
+import type {
+  CreateReportSchema,
+  HIDDEN_BY,
+  MODERATION_ACTIONS,
+  ModerationActionSchema,
+  ModerationLogSchema,
+  REPORT_REASONS,
+  REPORT_STATUS,
+  REPORT_TARGET_TYPES,
+  ReportSchema,
+} from "../schema/report";
+
+export type ReportTargetType =
+  (typeof REPORT_TARGET_TYPES)[keyof typeof REPORT_TARGET_TYPES];
+export type ReportReason = (typeof REPORT_REASONS)[keyof typeof REPORT_REASONS];
+export type ReportStatus = (typeof REPORT_STATUS)[keyof typeof REPORT_STATUS];
+export type ModerationActionType =
+  (typeof MODERATION_ACTIONS)[keyof typeof MODERATION_ACTIONS];
+export type HiddenBy = (typeof HIDDEN_BY)[keyof typeof HIDDEN_BY];
+
+export type Report = InferOutput<typeof ReportSchema>;
+export type ModerationLog = InferOutput<typeof ModerationLogSchema>;
+
+export type CreateReportInput = InferInput<typeof CreateReportSchema>;
+export type ModerationActionInput = InferInput<typeof ModerationActionSchema>;
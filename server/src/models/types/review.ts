@@ -0,0 +1,18 @@
+import type { InferInput, InferOutput } from "valibot";
+import type {
+  CreateReviewSchema,
+  REVIEW_TRANSACTION_TYPES,
+  ReplyReviewSchema,
+  ReviewSchema,
+} from "../schema/review";
+import type { MinimalUser } from "./user";
+
+export type ReviewTransactionType =
+  (typeof REVIEW_TRANSACTION_TYPES)[keyof typeof REVIEW_TRANSACTION_TYPES];
+
+export type Review = InferOutput<typeof ReviewSchema>;
+// Listed reviews show who wrote them
+export type PublicReview = Review & { reviewer: MinimalUser | null };
+
+export type CreateReviewInput = InferInput<typeof CreateReviewSchema>;
+export type ReplyReviewInput = InferInput<typeof ReplyReviewSchema>;
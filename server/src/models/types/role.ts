@@ -0,0 +1,13 @@
+import type { InferInput, InferOutput } from "valibot";
+import type { ROLES, RoleGrantSchema } from "../schema/role";
+
+export type Role = (typeof ROLES)[keyof typeof ROLES];
+
+export type RoleGrantInput = InferInput<typeof RoleGrantSchema>;
+export type RoleGrant = InferOutput<typeof RoleGrantSchema>;
+
+export interface UserRoles {
+  userId: string;
+  roles: Role[];
+  permissions: string[];
+}
@@ -0,0 +1,21 @@
+import type { InferInput, InferOutput } from "valibot";
+import type {
+  CreateSavedSearchSchema,
+  SAVED_SEARCH_STATUS,
+  SavedSearchDigestEntrySchema,
+  SavedSearchFiltersSchema,
+  SavedSearchSchema,
+  UpdateSavedSearchSchema,
+} from "../schema/savedSearch";
+
+export type SavedSearchStatus =
+  (typeof SAVED_SEARCH_STATUS)[keyof typeof SAVED_SEARCH_STATUS];
+
+export type SavedSearchFilters = InferOutput<typeof SavedSearchFiltersSchema>;
+export type SavedSearch = InferOutput<typeof SavedSearchSchema>;
+export type SavedSearchDigestEntry = InferOutput<
+  typeof SavedSearchDigestEntrySchema
+>;
+
+export type CreateSavedSearchInput = InferInput<typeof CreateSavedSearchSchema>;
+export type UpdateSavedSearchInput = InferInput<typeof UpdateSavedSearchSchema>;
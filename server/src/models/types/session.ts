@@ -0,0 +1,10 @@
+import type { InferOutput } from "valibot";
+import type {
+  PublicSessionSchema,
+  SessionContextSchema,
+  SessionSchema,
+} from "../schema/session";
+
+export type Session = InferOutput<typeof SessionSchema>;
+export type PublicSession = InferOutput<typeof PublicSessionSchema>;
+export type SessionContext = InferOutput<typeof SessionContextSchema>;
@@ -17,6 +17,7 @@ export type PasswordChangeInput = InferInput<typeof PasswordChangeSchema>;
 export type User = InferOutput<typeof BaseUserSchema>;
 export type PublicUser = InferOutput<typeof PublicUserSchema>;
 export type MinimalUser = InferOutput<typeof MinimalUserSchema>;
+export type NearbyUser = PublicUser & { distance: number }; // km
 
 export interface GetUserParams {
   userId: string;
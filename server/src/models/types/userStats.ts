@@ -0,0 +1,34 @@
+import type { InferOutput } from "valibot";
+import type { UserStatsSchema } from "../schema/userStats";
+import type { PublicationType } from "./publication";
+import type { User } from "./user";
+
+export type UserStats = InferOutput<typeof UserStatsSchema>;
+
+// Counter increments, negative to decrement
+export type UserStatsDelta = Partial<
+  Pick<
+    UserStats,
+    | "donationsGiven"
+    | "donationsReceived"
+    | "itemsExchanged"
+    | "pledgesFulfilled"
+    | "messagesToAnswer"
+    | "messagesAnswered"
+    | "totalResponseTime"
+  >
+> & {
+  activePublications?: Partial<Record<PublicationType, number>>;
+  impact?: Record<string, number>;
+};
+
+export type UserStatsSummary = {
+  rating: NonNullable<User["rating"]>;
+  donations: { given: number; received: number };
+  itemsExchanged: number;
+  pledgesFulfilled: number;
+  activePublications: Record<PublicationType, number> & { total: number };
+  responseRate: number | null; // percent of messages answered
+  averageResponseTime: number | null; // minutes
+  impact: { totalQuantity: number; byCategory: Record<string, number> };
+};
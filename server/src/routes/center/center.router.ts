@@ -0,0 +1,223 @@
+import { Router } from "express";
+import { literal, object, optional, union } from "valibot";
+import {
+  asyncHandler,
+  auth,
+  AuthMiddleware,
+  permissions,
+  rateLimit,
+  validate,
+} from "../../middleware";
+import { multerConfig } from "../../config/multer.config";
+import { upload } from "../../middleware/upload.middleware";
+import {
+  CENTER_STATUS,
+  CenterRegistrationSchema,
+  CenterReviewSchema,
+  CenterUpdateSchema,
+} from "../../models/schema/center";
+import { CenterController } from "../../controllers/center/center.controller";
+
+const router = Router();
+
+/**
+ * ================================================
+ *                       POSTS
+ * ================================================
+ */
+
+/**
+ * Registers a donation center account. The center starts as "pending" and
+ * cannot publish donation requests until an admin approves it.
+ *
+ * @route POST /centers/register
+ * @rateLimit Auth-specific (5 requests per 15 minutes)
+ * @body CenterRegistrationSchema - user registration fields plus organizationName,
+ *       address, location, openingHours and registryId
+ *
+ * @example
+ * // Request
+ * POST /centers/register
+ * {
+ *   "email": "contacto@banco.org",
+ *   "password": "securePassword123",
+ *   "username": "bancoalimentos",
+ *   "fullname": "Banco de Alimentos",
+ *   "organizationName": "Banco de Alimentos de Sevilla",
+ *   "address": "Calle Mayor 1, Sevilla",
+ *   "location": { "latitude": 37.38, "longitude": -5.98 },
+ *   "openingHours": "Mon-Fri 9:00-14:00",
+ *   "registryId": "G12345678"
+ * }
+ */
+router.post(
+  "/register",
+  rateLimit.auth,
+  validate.body(CenterRegistrationSchema),
+  asyncHandler(CenterController.register)
+);
+
+/**
+ * Uploads supporting documents (PDF or images) for the current center.
+ *
+ * @route POST /centers/me/documents
+ * @authentication Required (donation center account)
+ * @rateLimit User-based (30 requests per minute)
+ *
+ * @middleware
+ * - multerConfig.documents("documents", 5): Handle up to 5 document files
+ * - upload.sanitizeFilenames: Sanitize uploaded filenames
+ * - upload.centerDocuments: Validate document size and type
+ */
+router.post(
+  "/me/documents",
+  auth.center,
+  rateLimit.user,
+  multerConfig.documents("documents", 5),
+  upload.sanitizeFilenames,
+  upload.centerDocuments,
+  asyncHandler(CenterController.uploadDocuments)
+);
+
+/**
+ * Approves a pending center application.
+ *
+ * @route POST /centers/admin/applications/:id/approve
+ * @authentication Required (admin)
+ * @permission centers:review
+ * @body CenterReviewSchema - optional notes
+ */
+router.post(
+  "/admin/applications/:id/approve",
+  auth.admin,
+  AuthMiddleware.requiredPermission(permissions.centers.review),
+  rateLimit.user,
+  validate.body(CenterReviewSchema),
+  asyncHandler(CenterController.approve)
+);
+
+/**
+ * Rejects a pending center application. Notes are required.
+ *
+ * @route POST /centers/admin/applications/:id/reject
+ * @authentication Required (admin)
+ * @permission centers:review
+ * @body CenterReviewSchema - notes explaining the rejection
+ */
+router.post(
+  "/admin/applications/:id/reject",
+  auth.admin,
+  AuthMiddleware.requiredPermission(permissions.centers.review),
+  rateLimit.user,
+  validate.body(CenterReviewSchema),
+  asyncHandler(CenterController.reject)
+);
+
+/**
+ * ================================================
+ *                      PATCHES
+ * ================================================
+ */
+
+/**
+ * Updates the current center's organization details. Rejected applications,
+ * and approved centers changing their registry id, go back to review.
+ *
+ * @route PATCH /centers/me
+ * @authentication Required (donation center account)
+ * @body CenterUpdateSchema
+ */
+router.patch(
+  "/me",
+  auth.center,
+  rateLimit.user,
+  validate.body(CenterUpdateSchema),
+  asyncHandler(CenterController.updateMyCenter)
+);
+
+/**
+ * ================================================
+ *                       GETS
+ * ================================================
+ */
+
+/**
+ * Lists approved donation centers.
+ *
+ * @route GET /centers
+ * @rateLimit General
+ */
+router.get(
+  "/",
+  rateLimit.general,
+  asyncHandler(CenterController.getCenters)
+);
+
+/**
+ * Gets the current center's application and review status.
+ *
+ * @route GET /centers/me
+ * @authentication Required (donation center account)
+ */
+router.get(
+  "/me",
+  auth.center,
+  rateLimit.user,
+  asyncHandler(CenterController.getMyCenter)
+);
+
+/**
+ * Lists center applications for review.
+ *
+ * @route GET /centers/admin/applications
+ * @authentication Required (admin)
+ * @permission centers:review
+ * @query status - "pending" (default), "approved" or "rejected"
+ */
+router.get(
+  "/admin/applications",
+  auth.admin,
+  AuthMiddleware.requiredPermission(permissions.centers.review),
+  rateLimit.user,
+  validate.query(
+    object({
+      status: optional(
+        union([
+          literal(CENTER_STATUS.PENDING),
+          literal(CENTER_STATUS.APPROVED),
+          literal(CENTER_STATUS.REJECTED),
+        ])
+      ),
+    })
+  ),
+  asyncHandler(CenterController.getApplications)
+);
+
+/**
+ * Gets a center application with signed links to its documents.
+ *
+ * @route GET /centers/admin/applications/:id
+ * @authentication Required (admin)
+ * @permission centers:review
+ */
+router.get(
+  "/admin/applications/:id",
+  auth.admin,
+  AuthMiddleware.requiredPermission(permissions.centers.review),
+  rateLimit.user,
+  asyncHandler(CenterController.getApplication)
+);
+
+/**
+ * Gets the public profile of an approved donation center.
+ *
+ * @route GET /centers/:id
+ * @rateLimit General
+ */
+router.get(
+  "/:id",
+  rateLimit.general,
+  asyncHandler(CenterController.getCenter)
+);
+
+export default router;
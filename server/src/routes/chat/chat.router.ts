@@ -1,11 +1,19 @@
 import { Router } from "express";
 import { chatAuthenticateFirebaseUser } from "../../middleware/chat.middleware";
+import { AuthMiddleware } from "../../middleware";
+import { upload } from "../../middleware/upload.middleware";
 import { chatController } from "../../controllers/chat/chat.controller";
 
 const router = Router();
 
 router.use(chatAuthenticateFirebaseUser);
 
+// Only participants can read or act on a conversation
+const participantOnly = AuthMiddleware.requireOwnership(
+  "conversation",
+  "conversationId"
+);
+
 /**
  * ================================================
  *                  CONVERSATIONS
@@ -22,6 +30,7 @@ router.get(
 );
 router.get(
   "/conversations/:conversationId",
+  participantOnly,
   chatController.getConversation.bind(chatController)
 );
 
@@ -32,8 +41,20 @@ router.get(
  */
 
 router.post("/messages", chatController.sendMessage.bind(chatController));
+
+/**
+ * Conversation history, newest message first.
+ * - no cursor: the latest messages
+ * - ?before=<messageId>: the messages older than a message
+ * - ?after=<messageId>: the messages newer than a message
+ * - ?around=<messageId>: a window centered on a message (jump to message)
+ * - ?limit=: 1-100, default 50
+ * The response carries the `before`/`after` cursors of the next pages (null
+ * when there is nothing more) and `hasOlder`/`hasNewer`.
+ */
 router.get(
   "/conversations/:conversationId/messages",
+  participantOnly,
   chatController.getMessages.bind(chatController)
 );
 router.post(
@@ -42,9 +63,56 @@ router.post(
 );
 router.post(
   "/conversations/:conversationId/mark-all-read",
+  participantOnly,
   chatController.markAllAsRead.bind(chatController)
 );
 
+/**
+ * Edits and deletions. Only the sender can edit a text message, within
+ * MESSAGE_EDIT_WINDOW_MINUTES, and delete it for everyone (?scope=everyone,
+ * leaves a tombstone); any participant can delete a message for themselves.
+ * The conversation gets "message_edited" and "message_deleted" events.
+ */
+router.patch(
+  "/messages/:messageId",
+  chatController.editMessage.bind(chatController)
+);
+router.delete(
+  "/messages/:messageId",
+  chatController.deleteMessage.bind(chatController)
+);
+
+/**
+ * Emoji reactions, broadcast as "reaction_added" and "reaction_removed".
+ */
+router.post(
+  "/messages/:messageId/reactions",
+  chatController.addReaction.bind(chatController)
+);
+router.delete(
+  "/messages/:messageId/reactions/:emoji",
+  chatController.removeReaction.bind(chatController)
+);
+
+/**
+ * Attachments. The client declares the file to get presigned upload URLs
+ * (plus one for a thumbnail it must generate itself, for images), uploads
+ * it to S3, then sends an "image" or "file" message with the attachmentId;
+ * the stored file is checked against the declaration at that point.
+ * Downloads go through short-lived URLs given to the conversation's
+ * participants.
+ */
+router.post(
+  "/conversations/:conversationId/attachments",
+  participantOnly,
+  upload.chatAttachment,
+  chatController.createAttachmentUpload.bind(chatController)
+);
+router.get(
+  "/attachments/:attachmentId",
+  chatController.getAttachmentUrl.bind(chatController)
+);
+
 /**
  * ================================================
  *                   SUBSCRIPTION
@@ -52,8 +120,8 @@ router.post(
  */
 router.get(
   "/conversations/:conversationId/subscribe",
+  participantOnly,
   chatController.subscribeToConversation.bind(chatController)
 );
 
-
 export default router;
\ No newline at end of file
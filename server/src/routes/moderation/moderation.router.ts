@@ -0,0 +1,213 @@
+import { Router } from "express";
+import {
+  literal,
+  maxValue,
+  minValue,
+  number,
+  object,
+  optional,
+  pipe,
+  string,
+  transform,
+  union,
+} from "valibot";
+import {
+  asyncHandler,
+  auth,
+  AuthMiddleware,
+  permissions,
+  rateLimit,
+  validate,
+} from "../../middleware";
+import {
+  CreateReportSchema,
+  ModerationActionSchema,
+  REPORT_STATUS,
+  REPORT_TARGET_TYPES,
+} from "../../models/schema/report";
+import { ModerationController } from "../../controllers/moderation/moderation.controller";
+
+const router = Router();
+
+// Cursor pagination shared by the moderator listings
+const PaginationQuery = {
+  cursor: optional(string()),
+  limit: optional(
+    pipe(
+      string(),
+      transform((val) => parseInt(val, 10)),
+      number(),
+      minValue(1),
+      maxValue(100)
+    )
+  ),
+};
+
+/**
+ * ================================================
+ *                       POSTS
+ * ================================================
+ */
+
+/**
+ * Reports an abusive publication, user or chat message. Messages can only
+ * be reported by the participants of their conversation. Publications and
+ * messages reported by REPORT_AUTO_HIDE_THRESHOLD users are hidden until a
+ * moderator reviews them.
+ *
+ * @route POST /moderation/reports
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ * @body CreateReportSchema
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.user: User-based rate limiting
+ * - validate.body: Validate target, reason and details
+ *
+ * @example
+ * // Request
+ * POST /moderation/reports
+ * {
+ *   "targetType": "publication",
+ *   "targetId": "pub123",
+ *   "reason": "scam",
+ *   "details": "Asks for a payment before the pickup"
+ * }
+ */
+router.post(
+  "/reports",
+  auth.required,
+  rateLimit.user,
+  validate.body(CreateReportSchema),
+  asyncHandler(ModerationController.createReport)
+);
+
+/**
+ * Takes a moderation action on the target of a report: dismiss the
+ * reports (auto-hidden content is shown again), hide the publication, warn
+ * the author or suspend them for some days. Every open report of the target
+ * is resolved and the action is written to the moderation log.
+ *
+ * @route POST /moderation/reports/:reportId/actions
+ * @authentication Required (moderator or admin)
+ * @permission content:moderate
+ * @rateLimit User-based (30 requests per minute)
+ * @body ModerationActionSchema
+ *
+ * @middleware
+ * - auth.moderator: User must be a moderator or an admin
+ * - AuthMiddleware.requiredPermission: content:moderate
+ * - rateLimit.user: User-based rate limiting
+ * - validate.body: Validate the action
+ *
+ * @example
+ * // Request
+ * POST /moderation/reports/publication_pub123_user456/actions
+ * {
+ *   "action": "suspend_user",
+ *   "suspensionDays": 7,
+ *   "note": "Repeated scam listings"
+ * }
+ */
+router.post(
+  "/reports/:reportId/actions",
+  auth.moderator,
+  AuthMiddleware.requiredPermission(permissions.content.moderate),
+  rateLimit.user,
+  validate.body(ModerationActionSchema),
+  asyncHandler(ModerationController.takeAction)
+);
+
+/**
+ * ================================================
+ *                       GETS
+ * ================================================
+ */
+
+/**
+ * Lists the moderation queue, oldest report first.
+ *
+ * @route GET /moderation/queue
+ * @authentication Required (moderator or admin)
+ * @permission content:moderate
+ *
+ * @queryparams
+ * - status: open (default), dismissed or actioned
+ * - targetType: publication, user or message
+ * - cursor: nextCursor of the previous page
+ * - limit: Reports per page (default: 20, max: 100)
+ */
+router.get(
+  "/queue",
+  auth.moderator,
+  AuthMiddleware.requiredPermission(permissions.content.moderate),
+  rateLimit.user,
+  validate.query(
+    object({
+      status: optional(
+        union([
+          literal(REPORT_STATUS.OPEN),
+          literal(REPORT_STATUS.DISMISSED),
+          literal(REPORT_STATUS.ACTIONED),
+        ])
+      ),
+      targetType: optional(
+        union([
+          literal(REPORT_TARGET_TYPES.PUBLICATION),
+          literal(REPORT_TARGET_TYPES.USER),
+          literal(REPORT_TARGET_TYPES.MESSAGE),
+        ])
+      ),
+      ...PaginationQuery,
+    })
+  ),
+  asyncHandler(ModerationController.getQueue)
+);
+
+/**
+ * Gets a report with the reported content (hidden or not), the other open
+ * reports of the same target and the actions already taken on it.
+ *
+ * @route GET /moderation/reports/:reportId
+ * @authentication Required (moderator or admin)
+ * @permission content:moderate
+ */
+router.get(
+  "/reports/:reportId",
+  auth.moderator,
+  AuthMiddleware.requiredPermission(permissions.content.moderate),
+  rateLimit.user,
+  asyncHandler(ModerationController.getReport)
+);
+
+/**
+ * Lists the moderation log, newest first. Automatic actions have no
+ * moderatorId.
+ *
+ * @route GET /moderation/audit
+ * @authentication Required (moderator or admin)
+ * @permission content:moderate
+ *
+ * @queryparams
+ * - targetId: Only the actions on a publication, user or message
+ * - moderatorId: Only the actions of a moderator
+ * - cursor: nextCursor of the previous page
+ * - limit: Entries per page (default: 20, max: 100)
+ */
+router.get(
+  "/audit",
+  auth.moderator,
+  AuthMiddleware.requiredPermission(permissions.content.moderate),
+  rateLimit.user,
+  validate.query(
+    object({
+      targetId: optional(string()),
+      moderatorId: optional(string()),
+      ...PaginationQuery,
+    })
+  ),
+  asyncHandler(ModerationController.getAuditLog)
+);
+
+export default router;
@@ -0,0 +1,270 @@
+import { Router } from "express";
+import {
+  literal,
+  maxValue,
+  minValue,
+  number,
+  object,
+  optional,
+  pipe,
+  string,
+  transform,
+  union,
+} from "valibot";
+import { asyncHandler, auth, rateLimit, validate } from "../../middleware";
+import { NotificationController } from "../../controllers/notification/notification.controller";
+import {
+  RegisterDeviceSchema,
+  UnregisterDeviceSchema,
+  UpdateNotificationPreferencesSchema,
+} from "../../models/schema/push";
+
+const router = Router();
+
+/**
+ * ================================================
+ *                       GETS
+ * ================================================
+ */
+
+/**
+ * Lists the authenticated user's notifications, newest first: new claims
+ * on their publications, delivered pledges, unread messages (one per
+ * conversation), reviews and moderation actions. Connected devices also
+ * get each one live as a "new_notification" socket event.
+ *
+ * @route GET /notifications
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ *
+ * @queryparams
+ * - unread: "true" to only list unread notifications
+ * - cursor: nextCursor of the previous page
+ * - limit: Notifications per page (default: 20, max: 50)
+ *
+ * @example
+ * // Request
+ * GET /notifications?unread=true&limit=10
+ *
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "notifications": [
+ *       {
+ *         "id": "user123_conversation_conv456",
+ *         "type": "new_message",
+ *         "title": "New message",
+ *         "body": "Is it still available?",
+ *         "data": { "conversationId": "conv456", ... },
+ *         "count": 3,
+ *         "read": false,
+ *         "notifiedAt": 1735689600000
+ *       }
+ *     ],
+ *     "unreadCount": 4,
+ *     "nextCursor": null,
+ *     "hasMore": false
+ *   }
+ * }
+ */
+router.get(
+  "/",
+  auth.required,
+  rateLimit.user,
+  validate.query(
+    object({
+      unread: optional(union([literal("true"), literal("false")])),
+      cursor: optional(string()),
+      limit: optional(
+        pipe(
+          string(),
+          transform((val) => parseInt(val, 10)),
+          number(),
+          minValue(1),
+          maxValue(50)
+        )
+      ),
+    })
+  ),
+  asyncHandler(NotificationController.getNotifications)
+);
+
+/**
+ * Counts the authenticated user's unread notifications, for badges.
+ *
+ * @route GET /notifications/unread-count
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ *
+ * @example
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": { "unreadCount": 4 }
+ * }
+ */
+router.get(
+  "/unread-count",
+  auth.required,
+  rateLimit.user,
+  asyncHandler(NotificationController.getUnreadCount)
+);
+
+/**
+ * ================================================
+ *                      UPDATES
+ * ================================================
+ */
+
+/**
+ * Marks every notification of the authenticated user as read. Connected
+ * devices get a "notifications_read" socket event with the unread count.
+ *
+ * @route PATCH /notifications/read-all
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ */
+router.patch(
+  "/read-all",
+  auth.required,
+  rateLimit.user,
+  asyncHandler(NotificationController.markAllAsRead)
+);
+
+/**
+ * Marks a notification as read. Connected devices get a
+ * "notifications_read" socket event with the unread count.
+ *
+ * @route PATCH /notifications/:notificationId/read
+ * @authentication Required (recipient only)
+ * @rateLimit User-based (30 requests per minute)
+ * @params Notification ID
+ */
+router.patch(
+  "/:notificationId/read",
+  auth.required,
+  rateLimit.user,
+  validate.params(object({ notificationId: string() })),
+  asyncHandler(NotificationController.markAsRead)
+);
+
+/**
+ * ================================================
+ *                   PUSH DEVICES
+ * ================================================
+ */
+
+/**
+ * Registers the FCM token of a device for pushes. While the user has no
+ * socket connected, new messages and claim updates are pushed to their
+ * devices, within their preferences. Tokens FCM rejects are removed.
+ *
+ * @route POST /notifications/devices
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ * @body RegisterDeviceSchema
+ *
+ * @example
+ * // Request
+ * POST /notifications/devices
+ * {
+ *   "token": "fcm-registration-token",
+ *   "platform": "android"
+ * }
+ */
+router.post(
+  "/devices",
+  auth.required,
+  rateLimit.user,
+  validate.body(RegisterDeviceSchema),
+  asyncHandler(NotificationController.registerDevice)
+);
+
+/**
+ * Unregisters a device, typically on sign out.
+ *
+ * @route DELETE /notifications/devices
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ * @body UnregisterDeviceSchema
+ *
+ * @example
+ * // Request
+ * DELETE /notifications/devices
+ * {
+ *   "token": "fcm-registration-token"
+ * }
+ */
+router.delete(
+  "/devices",
+  auth.required,
+  rateLimit.user,
+  validate.body(UnregisterDeviceSchema),
+  asyncHandler(NotificationController.unregisterDevice)
+);
+
+/**
+ * ================================================
+ *                   PREFERENCES
+ * ================================================
+ */
+
+/**
+ * Gets the authenticated user's push preferences. Every type is pushed
+ * and there are no quiet hours until the user changes them.
+ *
+ * @route GET /notifications/preferences
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ *
+ * @example
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "userId": "user123",
+ *     "pushEnabled": true,
+ *     "mutedTypes": ["interest_update"],
+ *     "quietHours": {
+ *       "start": "22:00",
+ *       "end": "07:00",
+ *       "timezone": "Europe/Paris"
+ *     }
+ *   }
+ * }
+ */
+router.get(
+  "/preferences",
+  auth.required,
+  rateLimit.user,
+  asyncHandler(NotificationController.getPreferences)
+);
+
+/**
+ * Updates the authenticated user's push preferences: turn pushes off, mute
+ * notification types or set quiet hours (null turns them off). They only
+ * apply to pushes, the notification center keeps every notification.
+ *
+ * @route PATCH /notifications/preferences
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ * @body UpdateNotificationPreferencesSchema
+ *
+ * @example
+ * // Request
+ * PATCH /notifications/preferences
+ * {
+ *   "mutedTypes": ["interest_update"],
+ *   "quietHours": { "start": "22:00", "end": "07:00", "timezone": "Europe/Paris" }
+ * }
+ */
+router.patch(
+  "/preferences",
+  auth.required,
+  rateLimit.user,
+  validate.body(UpdateNotificationPreferencesSchema),
+  asyncHandler(NotificationController.updatePreferences)
+);
+
+export default router;
@@ -1,25 +1,57 @@
 import { Router } from "express";
-import { asyncHandler, auth, rateLimit, validate } from "../../middleware";
+import {
+  asyncHandler,
+  auth,
+  AuthMiddleware,
+  permissions,
+  rateLimit,
+  validate,
+} from "../../middleware";
 import { PublicationController } from "../../controllers/publication/publication.controller";
 import { multerConfig } from "../../config/multer.config";
 import { upload } from "../../middleware/upload.middleware";
 import {
+  ChangePublicationStatusSchema,
   CreatePublicationSchema,
   UpdatePublicationSchema,
 } from "../../models/schema/publication";
 import {
-  minValue,
-  number,
-  pipe,
-  object,
-  optional,
-  string,
-  maxLength,
-} from "valibot";
+  CreateInterestSchema,
+  INTEREST_STATUS,
+  RespondInterestSchema,
+} from "../../models/schema/interest";
+import {
+  ConfirmDeliverySchema,
+  CreatePledgeSchema,
+} from "../../models/schema/pledge";
+import {
+  CreateSavedSearchSchema,
+  UpdateSavedSearchSchema,
+} from "../../models/schema/savedSearch";
+import {
+  CounterProposalSchema,
+  CreateProposalSchema,
+  PROPOSAL_STATUS,
+  RespondProposalSchema,
+} from "../../models/schema/exchangeProposal";
+import { literal, object, optional, union } from "valibot";
 import { formDataParser } from "../../middleware/formDataParser.middleware";
 
 const router = Router();
 
+const ProposalStatusQuerySchema = object({
+  status: optional(
+    union([
+      literal(PROPOSAL_STATUS.PENDING),
+      literal(PROPOSAL_STATUS.COUNTERED),
+      literal(PROPOSAL_STATUS.ACCEPTED),
+      literal(PROPOSAL_STATUS.REJECTED),
+      literal(PROPOSAL_STATUS.WITHDRAWN),
+      literal(PROPOSAL_STATUS.COMPLETED),
+    ])
+  ),
+});
+
 /**
  * Creates a new publication with image uploads.
  *
@@ -31,6 +63,7 @@ const router = Router();
  *
  * @middleware
  * - auth.required: User must be authenticated
+ * - requiredPermission("content:create"): User's roles must grant it
  * - rateLimit.user: User rate limiting
  * - multerConfig.array("images", 5): Handle up to 5 image files
  * - upload.sanitizeFilenames: Sanitize uploaded filenames
@@ -41,6 +74,7 @@ const router = Router();
 router.post(
   "/",
   auth.required,
+  AuthMiddleware.requiredPermission(permissions.content.create),
   rateLimit.user,
   multerConfig.array("images", 5),
   upload.sanitizeFilenames,
@@ -52,28 +86,44 @@ router.post(
 );
 
 /**
- * Expresses interest in a publication.
+ * Expresses interest in (claims) a publication.
  *
  * @route POST /publications/:id/interest
  * @authentication Required
  * @rateLimit User-based (30 requests per minute)
- * @body Optional message (max 500 characters)
- * @returns Success confirmation
+ * @body CreateInterestSchema - optional message (max 500 characters)
+ * @returns Created interest
  *
  * @middleware
  * - auth.required: User must be authenticated
  * - rateLimit.user: User rate limiting
- * - validate.body: Validate message length
+ * - validate.body(CreateInterestSchema): Validate message length
  */
 router.post(
   "/:id/interest",
   auth.required,
   rateLimit.user,
-  validate.body(
-    object({
-      message: optional(pipe(string(), maxLength(500))),
-    })
-  )
+  validate.body(CreateInterestSchema),
+  asyncHandler(PublicationController.expressInterest)
+);
+
+/**
+ * Marks an accepted interest as fulfilled.
+ *
+ * @route POST /publications/interests/:interestId/fulfill
+ * @authentication Required (must own the claimed publication)
+ * @rateLimit User-based (30 requests per minute)
+ * @returns Updated interest
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.user: User rate limiting
+ */
+router.post(
+  "/interests/:interestId/fulfill",
+  auth.required,
+  rateLimit.user,
+  asyncHandler(PublicationController.fulfillInterest)
 );
 
 /**
@@ -85,16 +135,40 @@ router.post(
  * @returns Success confirmation
  *
  * @middleware
- * - auth.required: User must be authenticated and own the publication
+ * - auth.required: User must be authenticated
+ * - requireOwnership("publication"): User must own the publication
  * - rateLimit.user: User rate limiting
  */
 router.post(
   "/:id/complete",
   auth.required,
+  AuthMiddleware.requireOwnership("publication"),
   rateLimit.user,
   asyncHandler(PublicationController.completePublication)
 );
 
+/**
+ * Renews the listing of an offer or exchange for another lifetime, listing
+ * it again if it had expired.
+ *
+ * @route POST /publications/:id/renew
+ * @authentication Required (must own the publication)
+ * @rateLimit User-based (30 requests per minute)
+ * @returns Renewed publication
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - requireOwnership("publication"): User must own the publication
+ * - rateLimit.user: User rate limiting
+ */
+router.post(
+  "/:id/renew",
+  auth.required,
+  AuthMiddleware.requireOwnership("publication"),
+  rateLimit.user,
+  asyncHandler(PublicationController.renewPublication)
+);
+
 /**
  * Updates an existing publication with optional new images.
  *
@@ -105,7 +179,9 @@ router.post(
  * @returns Updated publication data
  *
  * @middleware
- * - auth.required: User must be authenticated and own the publication
+ * - auth.required: User must be authenticated
+ * - requiredPermission("content:update"): User's roles must grant it
+ * - requireOwnership("publication"): User must own the publication
  * - rateLimit.user: User rate limiting
  * - multerConfig.array("images", 5): Handle up to 5 new image files
  * - upload.sanitizeFilenames: Sanitize uploaded filenames
@@ -116,6 +192,8 @@ router.post(
 router.put(
   "/update/:id",
   auth.required,
+  AuthMiddleware.requiredPermission(permissions.content.update),
+  AuthMiddleware.requireOwnership("publication"),
   rateLimit.user,
   multerConfig.array("images", 5),
   upload.sanitizeFilenames,
@@ -127,29 +205,194 @@ router.put(
 );
 
 /**
- * Updates the current quantity of a donation request publication.
+ * Pledges items to a donation request.
  *
- * @route PATCH /publications/:id/quantity
+ * @route POST /publications/:id/pledges
  * @authentication Required
  * @rateLimit User-based (30 requests per minute)
- * @body { additionalQuantity: number } (must be at least 1)
- * @returns Updated publication data
+ * @body CreatePledgeSchema - { item, quantity, note? }
+ * @returns Created pledge
  *
  * @middleware
  * - auth.required: User must be authenticated
  * - rateLimit.user: User rate limiting
- * - validate.body: Validate additionalQuantity is a positive number
+ * - validate.body(CreatePledgeSchema): Validate pledge data
  */
-router.patch(
-  "/:id/quantity",
+router.post(
+  "/:id/pledges",
   auth.required,
   rateLimit.user,
-  validate.body(
-    object({
-      additionalQuantity: pipe(number(), minValue(1)),
-    })
-  ),
-  asyncHandler(PublicationController.updateDonationQuantity)
+  validate.body(CreatePledgeSchema),
+  asyncHandler(PublicationController.createPledge)
+);
+
+/**
+ * Confirms the delivery of a pledge.
+ *
+ * @route POST /publications/pledges/:pledgeId/deliver
+ * @authentication Required (must be the donation center of the request)
+ * @rateLimit User-based (30 requests per minute)
+ * @body ConfirmDeliverySchema - { deliveredQuantity? }
+ * @returns Updated pledge and donation request
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.user: User rate limiting
+ * - validate.body(ConfirmDeliverySchema): Validate delivered quantity
+ */
+router.post(
+  "/pledges/:pledgeId/deliver",
+  auth.required,
+  rateLimit.user,
+  validate.body(ConfirmDeliverySchema),
+  asyncHandler(PublicationController.confirmPledgeDelivery)
+);
+
+/**
+ * Proposes some of the user's exchanges for another user's exchange.
+ *
+ * @route POST /publications/:id/proposals
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ * @body CreateProposalSchema - { offeredPublicationIds, meeting?, message? }
+ * @returns Created proposal
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.user: User rate limiting
+ * - validate.body(CreateProposalSchema): Validate offered exchanges and meeting
+ */
+router.post(
+  "/:id/proposals",
+  auth.required,
+  rateLimit.user,
+  validate.body(CreateProposalSchema),
+  asyncHandler(PublicationController.createProposal)
+);
+
+/**
+ * Counters the current terms of a proposal; the other side has to answer.
+ *
+ * @route POST /publications/proposals/:proposalId/counter
+ * @authentication Required (must be the side whose turn it is)
+ * @rateLimit User-based (30 requests per minute)
+ * @body CounterProposalSchema - { offeredPublicationIds?, meeting?, message? }
+ * @returns Updated proposal
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.user: User rate limiting
+ * - validate.body(CounterProposalSchema): Validate the new terms
+ */
+router.post(
+  "/proposals/:proposalId/counter",
+  auth.required,
+  rateLimit.user,
+  validate.body(CounterProposalSchema),
+  asyncHandler(PublicationController.counterProposal)
+);
+
+/**
+ * Confirms an accepted trade took place. Once both sides confirm, the
+ * proposal is completed and every exchange involved is marked inactive.
+ *
+ * @route POST /publications/proposals/:proposalId/confirm
+ * @authentication Required (must be a side of the trade)
+ * @rateLimit User-based (30 requests per minute)
+ * @returns Updated proposal
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.user: User rate limiting
+ */
+router.post(
+  "/proposals/:proposalId/confirm",
+  auth.required,
+  rateLimit.user,
+  asyncHandler(PublicationController.confirmProposal)
+);
+
+/**
+ * Saves a search; the user is alerted of every new publication matching it.
+ *
+ * @route POST /publications/searches
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ * @body CreateSavedSearchSchema - { name, filters }
+ * @returns Created saved search
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.user: User rate limiting
+ * - validate.body(CreateSavedSearchSchema): Validate name and filters
+ */
+router.post(
+  "/searches",
+  auth.required,
+  rateLimit.user,
+  validate.body(CreateSavedSearchSchema),
+  asyncHandler(PublicationController.createSavedSearch)
+);
+
+/**
+ * Marks the saved search digest of the current user as read.
+ *
+ * @route POST /publications/searches/digest/read
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ * @returns Number of entries marked as read
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.user: User rate limiting
+ */
+router.post(
+  "/searches/digest/read",
+  auth.required,
+  rateLimit.user,
+  asyncHandler(PublicationController.markSavedSearchDigestRead)
+);
+
+/**
+ * Cancels an outstanding pledge.
+ *
+ * @route DELETE /publications/pledges/:pledgeId
+ * @authentication Required (must be the donor or the donation center)
+ * @rateLimit User-based (30 requests per minute)
+ * @returns Cancelled pledge
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - requireOwnership("pledge"): User must be the donor or the center
+ * - rateLimit.user: User rate limiting
+ */
+router.delete(
+  "/pledges/:pledgeId",
+  auth.required,
+  AuthMiddleware.requireOwnership("pledge", "pledgeId"),
+  rateLimit.user,
+  asyncHandler(PublicationController.cancelPledge)
+);
+
+/**
+ * Deletes a saved search and its digest entries.
+ *
+ * @route DELETE /publications/searches/:searchId
+ * @authentication Required (must own the saved search)
+ * @rateLimit User-based (30 requests per minute)
+ * @returns Success confirmation
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - requireOwnership("savedSearch"): User must own the saved search
+ * - rateLimit.user: User rate limiting
+ */
+router.delete(
+  "/searches/:searchId",
+  auth.required,
+  AuthMiddleware.requireOwnership("savedSearch", "searchId"),
+  rateLimit.user,
+  asyncHandler(PublicationController.deleteSavedSearch)
 );
 
 /**
@@ -161,16 +404,116 @@ router.patch(
  * @returns Success confirmation
  *
  * @middleware
- * - auth.required: User must be authenticated and own the publication
+ * - auth.required: User must be authenticated
+ * - requiredPermission("content:delete"): User's roles must grant it
+ * - requireOwnership("publication"): User must own the publication
  * - rateLimit.user: User rate limiting
  */
 router.delete(
   "/delete/:id",
   auth.required,
+  AuthMiddleware.requiredPermission(permissions.content.delete),
+  AuthMiddleware.requireOwnership("publication"),
   rateLimit.user,
   asyncHandler(PublicationController.deletePublication)
 );
 
+/**
+ * Moves a publication to a new status: publish a draft, reserve or release
+ * it, mark it completed or remove it. Expiry is done by the system.
+ *
+ * @route PATCH /publications/:id/status
+ * @authentication Required (must own the publication)
+ * @rateLimit User-based (30 requests per minute)
+ * @body ChangePublicationStatusSchema - { status: "active" | "reserved" |
+ * "completed" | "removed" }
+ * @returns Updated publication
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - requireOwnership("publication"): User must own the publication
+ * - rateLimit.user: User rate limiting
+ * - validate.body(ChangePublicationStatusSchema): Validate the new status
+ */
+router.patch(
+  "/:id/status",
+  auth.required,
+  AuthMiddleware.requireOwnership("publication"),
+  rateLimit.user,
+  validate.body(ChangePublicationStatusSchema),
+  asyncHandler(PublicationController.changePublicationStatus)
+);
+
+/**
+ * Accepts or declines a claimant of a publication.
+ *
+ * @route PATCH /publications/interests/:interestId
+ * @authentication Required (must own the claimed publication)
+ * @rateLimit User-based (30 requests per minute)
+ * @body RespondInterestSchema - { status: "accepted" | "declined" }
+ * @returns Updated interest
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.user: User rate limiting
+ * - validate.body(RespondInterestSchema): Validate the new status
+ */
+router.patch(
+  "/interests/:interestId",
+  auth.required,
+  rateLimit.user,
+  validate.body(RespondInterestSchema),
+  asyncHandler(PublicationController.respondToInterest)
+);
+
+/**
+ * Accepts, rejects or withdraws a proposal. Accepting and rejecting are
+ * only allowed on the user's turn; accepting needs a meeting.
+ *
+ * @route PATCH /publications/proposals/:proposalId
+ * @authentication Required (must be a side of the trade)
+ * @rateLimit User-based (30 requests per minute)
+ * @body RespondProposalSchema - { status: "accepted" | "rejected" |
+ * "withdrawn" }
+ * @returns Updated proposal
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.user: User rate limiting
+ * - validate.body(RespondProposalSchema): Validate the new status
+ */
+router.patch(
+  "/proposals/:proposalId",
+  auth.required,
+  rateLimit.user,
+  validate.body(RespondProposalSchema),
+  asyncHandler(PublicationController.respondToProposal)
+);
+
+/**
+ * Pauses or resumes the alerts of a saved search.
+ *
+ * @route PATCH /publications/searches/:searchId
+ * @authentication Required (must own the saved search)
+ * @rateLimit User-based (30 requests per minute)
+ * @body UpdateSavedSearchSchema - { status: "active" | "paused" }
+ * @returns Updated saved search
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - requireOwnership("savedSearch"): User must own the saved search
+ * - rateLimit.user: User rate limiting
+ * - validate.body(UpdateSavedSearchSchema): Validate the new status
+ */
+router.patch(
+  "/searches/:searchId",
+  auth.required,
+  AuthMiddleware.requireOwnership("savedSearch", "searchId"),
+  rateLimit.user,
+  validate.body(UpdateSavedSearchSchema),
+  asyncHandler(PublicationController.updateSavedSearch)
+);
+
 /**
  * Removes interest from a publication.
  *
@@ -194,58 +537,310 @@ router.delete(
  * Retrieves publications with filtering, sorting, and pagination.
  *
  * @route GET /publications
+ * @authentication Optional
  * @rateLimit General (100 requests per 15 minutes)
  * @query Various filter, pagination, and sorting parameters
  * @returns Paginated publications with metadata
  *
  * @middleware
+ * - auth.optional: Identifies the user listing their own publications and
+ *   leaves out the publications of blocked users
  * - rateLimit.general: General rate limiting
  *
  * @queryparams
- * - type: Publication type (donation_offer, donation_request, exchange)
- * - category: Publication category (clothing, furniture, electronics, etc.)
+ * - type: Publication type (donation_offer, donation_request, exchange), comma-separated for several
+ * - category: Publication category (clothing, furniture, electronics, etc.), comma-separated for several
  * - userId: Filter by user ID
  * - centerId: Filter by donation center ID
- * - isActive: Filter by active status (default: true)
- * - priority: Filter by priority (for donation requests)
- * - q: Search query (searches title, description, and tags)
+ * - isActive: Filter by active status (default: true); false is only
+ *   honored when userId is the authenticated user
+ * - priority: Filter by priority (for donation requests), comma-separated for several
+ * - tags: Comma-separated tags, matches publications with any of them
+ * - q: Full-text search over title, description and tags; results are sorted
+ *   by relevance and include a score and highlighted snippets
  * - latitude, longitude, radius: Location-based filtering
- * - page: Page number (default: 1)
- * - limit: Results per page (default: 20)
- * - sortBy: Field to sort by (default: "priority")
+ * - cursor: nextCursor of the previous page
+ * - limit: Results per page (default: 20, max: 100)
+ * - sortBy: Field to sort by, ignored with q (default: "priority")
  * - sortOrder: Sort direction (asc/desc, default: "desc")
  */
 router.get(
   "/",
+  auth.optional,
   rateLimit.general,
   asyncHandler(PublicationController.getPublications)
 );
 
 /**
- * Retrieves a specific publication by ID.
+ * Retrieves the interests expressed by the current user.
+ *
+ * @route GET /publications/interests/me
+ * @authentication Required
+ * @rateLimit General (100 requests per 15 minutes)
+ * @returns Current user's interests
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.general: General rate limiting
+ */
+router.get(
+  "/interests/me",
+  auth.required,
+  rateLimit.general,
+  asyncHandler(PublicationController.getMyInterests)
+);
+
+/**
+ * Retrieves the pledges made by the current user.
+ *
+ * @route GET /publications/pledges/me
+ * @authentication Required
+ * @rateLimit General (100 requests per 15 minutes)
+ * @returns Current user's pledges
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.general: General rate limiting
+ */
+router.get(
+  "/pledges/me",
+  auth.required,
+  rateLimit.general,
+  asyncHandler(PublicationController.getMyPledges)
+);
+
+/**
+ * Retrieves the proposals the current user made or received, latest
+ * activity first.
+ *
+ * @route GET /publications/proposals/me
+ * @authentication Required
+ * @rateLimit General (100 requests per 15 minutes)
+ * @returns Current user's proposals
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.general: General rate limiting
+ * - validate.query: Validate optional status filter
+ *
+ * @queryparams
+ * - status: Proposal status (pending, countered, accepted, rejected,
+ *   withdrawn, completed)
+ */
+router.get(
+  "/proposals/me",
+  auth.required,
+  rateLimit.general,
+  validate.query(ProposalStatusQuerySchema),
+  asyncHandler(PublicationController.getMyProposals)
+);
+
+/**
+ * Retrieves a proposal with every offer and counter-offer made.
+ *
+ * @route GET /publications/proposals/:proposalId
+ * @authentication Required (must be a side of the trade)
+ * @rateLimit General (100 requests per 15 minutes)
+ * @returns Proposal
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - requireOwnership("exchangeProposal"): User must be a side of the trade
+ * - rateLimit.general: General rate limiting
+ */
+router.get(
+  "/proposals/:proposalId",
+  auth.required,
+  AuthMiddleware.requireOwnership("exchangeProposal", "proposalId"),
+  rateLimit.general,
+  asyncHandler(PublicationController.getProposal)
+);
+
+/**
+ * Retrieves the saved searches of the current user.
+ *
+ * @route GET /publications/searches
+ * @authentication Required
+ * @rateLimit General (100 requests per 15 minutes)
+ * @returns Current user's saved searches
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.general: General rate limiting
+ */
+router.get(
+  "/searches",
+  auth.required,
+  rateLimit.general,
+  asyncHandler(PublicationController.getMySavedSearches)
+);
+
+/**
+ * Retrieves the latest publications matching the current user's saved
+ * searches, newest first.
+ *
+ * @route GET /publications/searches/digest
+ * @authentication Required
+ * @rateLimit General (100 requests per 15 minutes)
+ * @returns Digest entries and the unread count
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.general: General rate limiting
+ *
+ * @queryparams
+ * - unread: "true" to only list unread entries
+ */
+router.get(
+  "/searches/digest",
+  auth.required,
+  rateLimit.general,
+  asyncHandler(PublicationController.getSavedSearchDigest)
+);
+
+/**
+ * Retrieves the pledge ledger of a donation request.
+ *
+ * @route GET /publications/:id/pledges
+ * @authentication Required (must be the donation center of the request)
+ * @rateLimit General (100 requests per 15 minutes)
+ * @returns Pledges for the donation request
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - rateLimit.general: General rate limiting
+ */
+router.get(
+  "/:id/pledges",
+  auth.required,
+  rateLimit.general,
+  asyncHandler(PublicationController.getPublicationPledges)
+);
+
+/**
+ * Retrieves the claimants of a publication.
+ *
+ * @route GET /publications/:id/interests
+ * @authentication Required (must own the publication)
+ * @rateLimit General (100 requests per 15 minutes)
+ * @returns Interests for the publication
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - requireOwnership("publication"): User must own the publication
+ * - rateLimit.general: General rate limiting
+ * - validate.query: Validate optional status filter
+ *
+ * @queryparams
+ * - status: Interest status (pending, accepted, declined, withdrawn, fulfilled)
+ */
+router.get(
+  "/:id/interests",
+  auth.required,
+  AuthMiddleware.requireOwnership("publication"),
+  rateLimit.general,
+  validate.query(
+    object({
+      status: optional(
+        union([
+          literal(INTEREST_STATUS.PENDING),
+          literal(INTEREST_STATUS.ACCEPTED),
+          literal(INTEREST_STATUS.DECLINED),
+          literal(INTEREST_STATUS.WITHDRAWN),
+          literal(INTEREST_STATUS.FULFILLED),
+        ])
+      ),
+    })
+  ),
+  asyncHandler(PublicationController.getPublicationInterests)
+);
+
+/**
+ * Retrieves the exchanges mutually matching an exchange, best match first.
+ * Matches are scored by how much of what each side seeks the other offers
+ * and by distance (up to 50 km).
+ *
+ * @route GET /publications/:id/matches
+ * @authentication Required (must own the exchange)
+ * @rateLimit General (100 requests per 15 minutes)
+ * @returns Matching exchanges with score, distance and matched items
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - requireOwnership("publication"): User must own the exchange
+ * - rateLimit.general: General rate limiting
+ *
+ * @queryparams
+ * - limit: Maximum number of matches (default: 20, max: 50)
+ */
+router.get(
+  "/:id/matches",
+  auth.required,
+  AuthMiddleware.requireOwnership("publication"),
+  rateLimit.general,
+  asyncHandler(PublicationController.getPublicationMatches)
+);
+
+/**
+ * Retrieves the proposals received by an exchange, latest activity first.
+ *
+ * @route GET /publications/:id/proposals
+ * @authentication Required (must own the exchange)
+ * @rateLimit General (100 requests per 15 minutes)
+ * @returns Proposals for the exchange
+ *
+ * @middleware
+ * - auth.required: User must be authenticated
+ * - requireOwnership("publication"): User must own the exchange
+ * - rateLimit.general: General rate limiting
+ * - validate.query: Validate optional status filter
+ *
+ * @queryparams
+ * - status: Proposal status (pending, countered, accepted, rejected,
+ *   withdrawn, completed)
+ */
+router.get(
+  "/:id/proposals",
+  auth.required,
+  AuthMiddleware.requireOwnership("publication"),
+  rateLimit.general,
+  validate.query(ProposalStatusQuerySchema),
+  asyncHandler(PublicationController.getPublicationProposals)
+);
+
+/**
+ * Retrieves a specific publication by ID. Drafts and removed publications
+ * are only returned to their owner, hidden ones to their owner and to
+ * moderators.
  *
  * @route GET /publications/:id
+ * @authentication Optional
  * @rateLimit General (100 requests per 15 minutes)
  * @returns Publication data
  *
  * @middleware
+ * - auth.optional: Identifies the owner or a moderator
  * - rateLimit.general: General rate limiting
  */
 router.get(
   "/get/:id",
+  auth.optional,
   rateLimit.general,
   asyncHandler(PublicationController.getPublication)
 );
 
 /**
- * Searches for publications within a geographic radius.
+ * Searches for publications within a geographic radius. Signed-in users
+ * don't get the publications of users they blocked or who blocked them.
  *
  * @route GET /publications/nearby
+ * @authentication Optional
  * @rateLimit General (100 requests per 15 minutes)
- * @query latitude, longitude, radius, type, category, q (search query)
- * @returns Publications within the specified radius
+ * @query latitude, longitude, radius, type, category, q (search query), limit
+ * @returns Publications within the specified radius with their distance, closest first
  *
  * @middleware
+ * - auth.optional: Identifies the user to leave blocked users out
  * - rateLimit.general: General rate limiting
  *
  * @queryparams
@@ -254,10 +849,12 @@ router.get(
  * - radius: Search radius in kilometers (default: 10)
  * - type: Filter by publication type
  * - category: Filter by category
- * - q: Search query (searches title, description, and tags)
+ * - q: Full-text search over title, description and tags (adds score and highlights)
+ * - limit: Maximum number of results (default: 50, max: 100)
  */
 router.get(
   "/nearby",
+  auth.optional,
   rateLimit.general,
   asyncHandler(PublicationController.searchPublicationsNearby)
 );
@@ -273,6 +870,11 @@ router.get(
  * @middleware
  * - auth.optional: Authentication is optional - if authenticated, can use own ID
  * - rateLimit.general: General rate limiting
+ *
+ * @queryparams
+ * - status: Comma-separated statuses to list instead of the active
+ *   publications (draft, active, reserved, completed, expired, removed),
+ *   only for the user's own publications
  */
 router.get(
   "/user/:userId",
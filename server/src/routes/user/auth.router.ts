@@ -1,12 +1,26 @@
 import { Router } from "express";
-import { asyncHandler, auth, rateLimit, validate } from "../../middleware";
+import {
+  asyncHandler,
+  auth,
+  AuthMiddleware,
+  permissions,
+  rateLimit,
+  validate,
+} from "../../middleware";
 import {
   EmailVerifySchema,
+  ForgotPasswordSchema,
   PasswordChangeSchema,
+  PasswordResetSchema,
   UserRegistrationSchema,
 } from "../../models/schema/user";
 import { AuthController } from "../../controllers/user/auth.controller";
 import { LoginSchema, RefreshTokenSchema } from "../../models/schema/auth";
+import {
+  MfaChallengeSchema,
+  MfaCodeSchema,
+  MfaLoginSchema,
+} from "../../models/schema/mfa";
 
 const router = Router();
 
@@ -65,6 +79,8 @@ router.post(
  * Registers a new admin user account.
  *
  * @route POST /register/admin
+ * @authentication Admin only
+ * @permission roles:manage
  * @rateLimit Auth-specific (5 requests per 15 minutes)
  * @body UserRegistrationSchema
  *
@@ -105,6 +121,7 @@ router.post(
   "/register/admin",
   rateLimit.auth,
   auth.admin,
+  AuthMiddleware.requiredPermission(permissions.roles.manage),
   validate.body(UserRegistrationSchema),
   asyncHandler(AuthController.registerAdmin)
 );
@@ -151,6 +168,128 @@ router.post(
   asyncHandler(AuthController.login)
 );
 
+/**
+ * Finishes a login for users with two-factor authentication, exchanging the
+ * MFA pending token from /login plus a TOTP code (or a recovery code) for
+ * authentication tokens.
+ *
+ * @route POST /mfa/verify
+ * @rateLimit 10 requests per 15 minutes
+ * @body MfaLoginSchema
+ *
+ * @example
+ * // Request
+ * POST /auth/mfa/verify
+ * {
+ *   "mfaToken": "eyJ...",
+ *   "code": "123456"
+ * }
+ *
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "user": { "id": "user123", ... },
+ *     "token": { "accessToken": "eyJ...", ... }
+ *   },
+ *   "message": "Login successful"
+ * }
+ */
+router.post(
+  "/mfa/verify",
+  rateLimit.createEndpointLimiter("mfa-verify", 10, 15),
+  validate.body(MfaLoginSchema),
+  asyncHandler(AuthController.verifyMfaLogin)
+);
+
+/**
+ * Starts two-factor authentication enrollment.
+ *
+ * @route POST /mfa/setup
+ * @authentication Required
+ *
+ * @example
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "secret": "JBSWY3DPEHPK3PXP...",
+ *     "otpauthUri": "otpauth://totp/Don-App%3Auser%40example.com?secret=..."
+ *   }
+ * }
+ */
+router.post(
+  "/mfa/setup",
+  auth.required,
+  rateLimit.user,
+  asyncHandler(AuthController.setupMfa)
+);
+
+/**
+ * Confirms enrollment with a code from the authenticator app and enables
+ * two-factor authentication. Returns the recovery codes once.
+ *
+ * @route POST /mfa/enable
+ * @authentication Required
+ * @body MfaCodeSchema
+ */
+router.post(
+  "/mfa/enable",
+  auth.required,
+  rateLimit.createEndpointLimiter("mfa-enable", 10, 15),
+  validate.body(MfaCodeSchema),
+  asyncHandler(AuthController.enableMfa)
+);
+
+/**
+ * Disables two-factor authentication.
+ *
+ * @route POST /mfa/disable
+ * @authentication Required
+ * @body MfaChallengeSchema - a TOTP code or a recovery code
+ */
+router.post(
+  "/mfa/disable",
+  auth.required,
+  rateLimit.createEndpointLimiter("mfa-disable", 10, 15),
+  validate.body(MfaChallengeSchema),
+  asyncHandler(AuthController.disableMfa)
+);
+
+/**
+ * Replaces the recovery codes. Previous codes stop working.
+ *
+ * @route POST /mfa/recovery-codes
+ * @authentication Required
+ * @body MfaCodeSchema
+ */
+router.post(
+  "/mfa/recovery-codes",
+  auth.required,
+  rateLimit.createEndpointLimiter("mfa-recovery-codes", 10, 15),
+  validate.body(MfaCodeSchema),
+  asyncHandler(AuthController.regenerateRecoveryCodes)
+);
+
+/**
+ * Gets the two-factor authentication status of the current user.
+ *
+ * @route GET /mfa
+ * @authentication Required
+ *
+ * @example
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": { "enabled": true, "recoveryCodesRemaining": 8 }
+ * }
+ */
+router.get(
+  "/mfa",
+  auth.required,
+  asyncHandler(AuthController.getMfaStatus)
+);
+
 /**
  * Refreshes authentication tokens using a valid refresh token.
  *
@@ -203,29 +342,142 @@ router.post(
 router.post("/logout", auth.required, asyncHandler(AuthController.logout));
 
 /**
- * Verifies the authenticated user's email address.
+ * Logs out the authenticated user from every device by revoking all of their
+ * access and refresh tokens.
  *
- * @route POST /verify-email
+ * @route POST /logout-all
  * @authentication Required
  *
  * @example
  * // Request
- * POST /users/verify-email
+ * POST /auth/logout-all
  * Authorization: Bearer <token>
  *
  * // Response
  * {
  *   "success": true,
+ *   "data": { "revokedSessions": 3 },
+ *   "message": "Logged out from all devices"
+ * }
+ */
+router.post(
+  "/logout-all",
+  auth.required,
+  asyncHandler(AuthController.logoutAll)
+);
+
+/**
+ * Lists the devices where the authenticated user is signed in.
+ *
+ * @route GET /sessions
+ * @authentication Required (session must still be active)
+ *
+ * @example
+ * // Request
+ * GET /auth/sessions
+ * Authorization: Bearer <token>
+ *
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "sessions": [
+ *       {
+ *         "id": "f3a9...",
+ *         "deviceName": "Chrome on Windows",
+ *         "userAgent": "Mozilla/5.0 ...",
+ *         "ip": "203.0.113.7",
+ *         "startedAt": 1730000000000,
+ *         "lastSeenAt": 1730003600000,
+ *         "current": true
+ *       }
+ *     ],
+ *     "total": 1
+ *   }
+ * }
+ */
+router.get(
+  "/sessions",
+  auth.secure,
+  asyncHandler(AuthController.getSessions)
+);
+
+/**
+ * Signs a device out by revoking its session and all of its tokens.
+ *
+ * @route DELETE /sessions/:id
+ * @authentication Required (session must still be active)
+ *
+ * @example
+ * // Request
+ * DELETE /auth/sessions/f3a9...
+ * Authorization: Bearer <token>
+ *
+ * // Response
+ * {
+ *   "success": true,
+ *   "message": "Session revoked"
+ * }
+ */
+router.delete(
+  "/sessions/:id",
+  auth.secure,
+  asyncHandler(AuthController.revokeSession)
+);
+
+/**
+ * Verifies a user's email address with the token sent by email.
+ * Tokens expire after 24 hours and can only be used once.
+ *
+ * @route POST /verify-email
+ * @rateLimit Auth-specific
+ * @body EmailVerifySchema
+ *
+ * @example
+ * // Request
+ * POST /auth/verify-email
+ * {
+ *   "token": "eyJ..."
+ * }
+ *
+ * // Response
+ * {
+ *   "success": true,
  *   "message": "Email verified successfully"
  * }
  */
 router.post(
   "/verify-email",
-  auth.admin,
+  rateLimit.auth,
   validate.body(EmailVerifySchema),
   asyncHandler(AuthController.verifyEmail)
 );
 
+/**
+ * Sends a new verification link to the authenticated user's email.
+ *
+ * @route POST /verify-email/resend
+ * @authentication Required
+ * @rateLimit Auth-specific
+ *
+ * @example
+ * // Request
+ * POST /auth/verify-email/resend
+ * Authorization: Bearer <token>
+ *
+ * // Response
+ * {
+ *   "success": true,
+ *   "message": "Verification email sent"
+ * }
+ */
+router.post(
+  "/verify-email/resend",
+  rateLimit.auth,
+  auth.required,
+  asyncHandler(AuthController.resendVerificationEmail)
+);
+
 /**
  * Gets the current authenticated user's information.
  *
@@ -293,7 +545,7 @@ router.post(
  *
  * @example
  * // Request
- * POST /users/forgot-password
+ * POST /auth/forgot-password
  * {
  *   "email": "user@example.com"
  * }
@@ -301,14 +553,43 @@ router.post(
  * // Response
  * {
  *   "success": true,
- *   "message": "Password reset instructions sent to your email"
+ *   "message": "If an account exists for that email, a password reset link has been sent."
  * }
  */
 router.post(
   "/forgot-password",
   rateLimit.auth,
-  validate.body(PasswordChangeSchema),
+  validate.body(ForgotPasswordSchema),
   asyncHandler(AuthController.forgotPassword)
 );
 
+/**
+ * Sets a new password with the token sent by the forgot-password email.
+ * Tokens expire after 1 hour and can only be used once.
+ *
+ * @route POST /reset-password
+ * @rateLimit Auth-specific
+ * @body PasswordResetSchema
+ *
+ * @example
+ * // Request
+ * POST /auth/reset-password
+ * {
+ *   "token": "eyJ...",
+ *   "newPassword": "newSecurePassword456"
+ * }
+ *
+ * // Response
+ * {
+ *   "success": true,
+ *   "message": "Password reset successfully"
+ * }
+ */
+router.post(
+  "/reset-password",
+  rateLimit.auth,
+  validate.body(PasswordResetSchema),
+  asyncHandler(AuthController.confirmPasswordReset)
+);
+
 export default router;
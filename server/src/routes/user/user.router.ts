@@ -2,12 +2,19 @@ import { Router } from "express";
 import {
   asyncHandler,
   auth,
+  AuthMiddleware,
   cache,
+  permissions,
   rateLimit,
   validate,
 } from "../../middleware";
 import { UserController } from "../../controllers/user/user.controller";
 import { UserUpdateSchema } from "../../models/schema/user";
+import { RoleGrantSchema } from "../../models/schema/role";
+import {
+  CreateReviewSchema,
+  ReplyReviewSchema,
+} from "../../models/schema/review";
 import {
   string,
   object,
@@ -62,6 +69,7 @@ const router = Router();
 router.put(
   "/profile",
   auth.required,
+  AuthMiddleware.requiredPermission(permissions.user.write),
   rateLimit.user,
   multerConfig.single("image"), 
   upload.sanitizeFilenames, 
@@ -105,7 +113,10 @@ router.put(
 router.get("/profile", auth.required, asyncHandler(UserController.getProfile));
 
 /**
- * Gets the authenticated user's statistics and activity metrics.
+ * Gets the authenticated user's statistics and activity metrics. The
+ * counters are kept up to date as donations, exchanges and messages happen.
+ * responseRate (percent) and averageResponseTime (minutes) are null until
+ * someone wrote to the user.
  *
  * @route GET /profile/stats
  * @authentication Required
@@ -120,12 +131,22 @@ router.get("/profile", auth.required, asyncHandler(UserController.getProfile));
  * {
  *   "success": true,
  *   "data": {
- *     "totalListings": 15,
- *     "activeListings": 8,
- *     "totalRatings": 42,
- *     "averageRating": 4.7,
+ *     "rating": { "average": 4.7, "count": 42 },
+ *     "donations": { "given": 12, "received": 3 },
+ *     "itemsExchanged": 5,
+ *     "pledgesFulfilled": 7,
+ *     "activePublications": {
+ *       "donation_offer": 2,
+ *       "donation_request": 0,
+ *       "exchange": 1,
+ *       "total": 3
+ *     },
  *     "responseRate": 95.2,
- *     "memberSince": "2023-01-15T00:00:00.000Z"
+ *     "averageResponseTime": 42,
+ *     "impact": {
+ *       "totalQuantity": 64,
+ *       "byCategory": { "clothing": 40, "books": 24 }
+ *     }
  *   }
  * }
  */
@@ -137,7 +158,8 @@ router.get(
 );
 
 /**
- * Gets a user's public profile by ID.
+ * Gets a user's public profile by ID, with the latest reviews the user
+ * received. reviewsCursor continues the listing on GET /:id/reviews.
  *
  * @route GET /:id
  * @authentication Optional
@@ -161,7 +183,9 @@ router.get(
  *       "count": 42
  *     },
  *     "memberSince": "2023-01-15T00:00:00.000Z"
- *   }
+ *   },
+ *   "reviews": [...],
+ *   "reviewsCursor": "exchange_prop123_user456"
  * }
  */
 router.get(
@@ -173,7 +197,8 @@ router.get(
 );
 
 /**
- * Searches for users by username or name.
+ * Searches for users by username or name. Signed-in users don't see the
+ * users they blocked or who blocked them.
  *
  * @route GET /search
  * @authentication Optional
@@ -230,7 +255,10 @@ router.get(
 );
 
 /**
- * Gets users near a specific geographic location.
+ * Gets users near a specific geographic location, closest first. Each user
+ * includes its distance in kilometers; users who never shared a location
+ * are not listed, nor, for a signed-in user, the users they blocked or who
+ * blocked them.
  *
  * @route GET /nearby
  * @authentication Optional
@@ -299,4 +327,312 @@ router.get(
   asyncHandler(UserController.getNearbyUsers)
 );
 
+/**
+ * ================================================
+ *                      REVIEWS
+ * ================================================
+ */
+
+/**
+ * Lists the reviews a user received, newest first.
+ *
+ * @route GET /:id/reviews
+ * @authentication Optional
+ * @rateLimit General (100 requests per 15 minutes)
+ * @params User ID
+ * @query cursor (nextCursor of the previous page), limit (1-50, default 20)
+ *
+ * @example
+ * // Request
+ * GET /users/user123/reviews?limit=10
+ *
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "reviews": [
+ *       {
+ *         "id": "pledge_pledge123_user456",
+ *         "transactionType": "pledge",
+ *         "transactionId": "pledge123",
+ *         "rating": 5,
+ *         "comment": "Everything arrived as described",
+ *         "reviewer": { "id": "user456", "username": "janedoe", ... }
+ *       }
+ *     ],
+ *     "nextCursor": "pledge_pledge123_user456",
+ *     "hasMore": true
+ *   }
+ * }
+ */
+router.get(
+  "/:id/reviews",
+  auth.optional,
+  rateLimit.general,
+  validate.params(object({ id: string() })),
+  validate.query(
+    object({
+      cursor: optional(string()),
+      limit: optional(
+        pipe(
+          string(),
+          transform((val) => parseInt(val, 10)),
+          number(),
+          minValue(1),
+          maxValue(50)
+        )
+      ),
+    })
+  ),
+  asyncHandler(UserController.getUserReviews)
+);
+
+/**
+ * Reviews the other party of a completed transaction: a fulfilled claim, a
+ * delivered pledge or a completed exchange. Each party can review once, and
+ * the reviewed user's rating average is updated with the review.
+ *
+ * @route POST /reviews
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ * @body CreateReviewSchema
+ *
+ * @example
+ * // Request
+ * POST /users/reviews
+ * Authorization: Bearer <token>
+ * {
+ *   "transactionType": "exchange",
+ *   "transactionId": "prop123",
+ *   "rating": 4,
+ *   "comment": "Friendly and on time"
+ * }
+ *
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "id": "exchange_prop123_user123",
+ *     "revieweeId": "user456",
+ *     "rating": 4,
+ *     ...
+ *   },
+ *   "message": "Review created successfully"
+ * }
+ */
+router.post(
+  "/reviews",
+  auth.required,
+  rateLimit.user,
+  validate.body(CreateReviewSchema),
+  asyncHandler(UserController.createReview)
+);
+
+/**
+ * Replies to a review the authenticated user received. A review has at
+ * most one reply.
+ *
+ * @route POST /reviews/:reviewId/reply
+ * @authentication Required (reviewed user only)
+ * @rateLimit User-based (30 requests per minute)
+ * @params Review ID
+ * @body ReplyReviewSchema
+ *
+ * @example
+ * // Request
+ * POST /users/reviews/exchange_prop123_user123/reply
+ * Authorization: Bearer <token>
+ * {
+ *   "comment": "Thanks, it was a pleasure!"
+ * }
+ */
+router.post(
+  "/reviews/:reviewId/reply",
+  auth.required,
+  rateLimit.user,
+  validate.params(object({ reviewId: string() })),
+  validate.body(ReplyReviewSchema),
+  asyncHandler(UserController.replyToReview)
+);
+
+/**
+ * ================================================
+ *                     BLOCKING
+ * ================================================
+ */
+
+/**
+ * Lists the users the authenticated user blocked, most recent first.
+ *
+ * @route GET /blocked
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ *
+ * @example
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": [
+ *     {
+ *       "id": "user123_user456",
+ *       "blockerId": "user123",
+ *       "blockedId": "user456",
+ *       "blockedAt": 1735689600000,
+ *       "user": { "id": "user456", "username": "janedoe", ... }
+ *     }
+ *   ]
+ * }
+ */
+router.get(
+  "/blocked",
+  auth.required,
+  rateLimit.user,
+  asyncHandler(UserController.getBlockedUsers)
+);
+
+/**
+ * Blocks a user. Until one of them unblocks the other, the two users cannot
+ * start a conversation, write in their direct conversation or claim each
+ * other's publications, and they are left out of each other's user search
+ * and nearby results.
+ *
+ * @route POST /:id/block
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ * @params User ID to block
+ */
+router.post(
+  "/:id/block",
+  auth.required,
+  rateLimit.user,
+  validate.params(object({ id: string() })),
+  asyncHandler(UserController.blockUser)
+);
+
+/**
+ * Unblocks a user the authenticated user blocked.
+ *
+ * @route DELETE /:id/block
+ * @authentication Required
+ * @rateLimit User-based (30 requests per minute)
+ * @params User ID to unblock
+ */
+router.delete(
+  "/:id/block",
+  auth.required,
+  rateLimit.user,
+  validate.params(object({ id: string() })),
+  asyncHandler(UserController.unblockUser)
+);
+
+/**
+ * ================================================
+ *                       ROLES
+ * ================================================
+ */
+
+/**
+ * Gets a user's roles and the permissions they grant.
+ *
+ * @route GET /:id/roles
+ * @authentication Admin only
+ * @permission roles:manage
+ * @params User ID
+ *
+ * @example
+ * // Request
+ * GET /users/user123/roles
+ * Authorization: Bearer <token>
+ *
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "userId": "user123",
+ *     "roles": ["user", "moderator"],
+ *     "permissions": ["user:read", "content:moderate", ...]
+ *   }
+ * }
+ */
+router.get(
+  "/:id/roles",
+  auth.admin,
+  AuthMiddleware.requiredPermission(permissions.roles.manage),
+  validate.params(object({ id: string() })),
+  asyncHandler(UserController.getRoles)
+);
+
+/**
+ * Grants a role to a user. The new permissions reach the user's access
+ * tokens on their next refresh.
+ *
+ * @route POST /:id/roles
+ * @authentication Admin only
+ * @permission roles:manage
+ * @params User ID
+ * @body RoleGrantSchema
+ *
+ * @example
+ * // Request
+ * POST /users/user123/roles
+ * Authorization: Bearer <token>
+ * {
+ *   "role": "moderator"
+ * }
+ *
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "userId": "user123",
+ *     "roles": ["user", "moderator"],
+ *     "permissions": ["user:read", "content:moderate", ...]
+ *   },
+ *   "message": "Role granted successfully"
+ * }
+ */
+router.post(
+  "/:id/roles",
+  auth.admin,
+  AuthMiddleware.requiredPermission(permissions.roles.manage),
+  rateLimit.user,
+  validate.params(object({ id: string() })),
+  validate.body(RoleGrantSchema),
+  asyncHandler(UserController.grantRole)
+);
+
+/**
+ * Revokes a role from a user and ends all of the user's sessions, so tokens
+ * carrying the old permissions stop working.
+ *
+ * @route DELETE /:id/roles/:role
+ * @authentication Admin only
+ * @permission roles:manage
+ * @params User ID and role
+ *
+ * @example
+ * // Request
+ * DELETE /users/user123/roles/moderator
+ * Authorization: Bearer <token>
+ *
+ * // Response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "userId": "user123",
+ *     "roles": ["user"],
+ *     "permissions": ["user:read", ...]
+ *   },
+ *   "message": "Role revoked successfully"
+ * }
+ */
+router.delete(
+  "/:id/roles/:role",
+  auth.admin,
+  AuthMiddleware.requiredPermission(permissions.roles.manage),
+  rateLimit.user,
+  validate.params(object({ id: string(), role: string() })),
+  asyncHandler(UserController.revokeRole)
+);
+
 export default router;
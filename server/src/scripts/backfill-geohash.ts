@@ -0,0 +1,102 @@
+import type { DocumentSnapshot } from "firebase-admin/firestore";
+import { firebaseAdmin } from "../services/Firebase/firebaseAdmin.service";
+import { firestoreService } from "../services/Firebase/firebase.service";
+import { GeoService, type GeoPoint } from "../services/Geo/geo.service";
+
+/**
+ * Stores `location.geohash` on the publications and users created before
+ * locations were indexed, so they show up in nearby searches.
+ *
+ * Usage:
+ *   bun run backfill:geohash            // write the missing geohashes
+ *   bun run backfill:geohash --dry-run  // only report what would change
+ */
+
+const COLLECTIONS = ["publication", "users"];
+const PAGE_SIZE = 200;
+
+const dryRun = process.argv.includes("--dry-run");
+
+interface LocatedDocument {
+  id: string;
+  location?: GeoPoint & { geohash?: string };
+}
+
+// Users start at 0,0 until they share a location
+const isPlaceholder = (location: GeoPoint) =>
+  location.latitude === 0 && location.longitude === 0;
+
+async function backfillCollection(collectionPath: string) {
+  let cursor: DocumentSnapshot | undefined;
+  let scanned = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  do {
+    const page = await firestoreService.queryPagination<LocatedDocument>(
+      collectionPath,
+      { pageSize: PAGE_SIZE },
+      cursor
+    );
+
+    const batch = firebaseAdmin.firestore.batch();
+    let pending = 0;
+
+    for (const doc of page.data) {
+      scanned++;
+
+      const location = doc.location;
+      if (
+        !location ||
+        typeof location.latitude !== "number" ||
+        typeof location.longitude !== "number" ||
+        isPlaceholder(location)
+      ) {
+        skipped++;
+        continue;
+      }
+
+      const geohash = GeoService.encode(location.latitude, location.longitude);
+      if (location.geohash === geohash) continue;
+
+      updated++;
+      pending++;
+      batch.update(
+        firebaseAdmin.firestore.collection(collectionPath).doc(doc.id),
+        { [GeoService.GEOHASH_FIELD]: geohash }
+      );
+    }
+
+    if (pending > 0 && !dryRun) {
+      await batch.commit();
+    }
+
+    cursor = page.lastDoc ?? undefined;
+  } while (cursor);
+
+  console.log(
+    `📍 ${collectionPath}: ${scanned} scanned, ${updated} ${
+      dryRun ? "to update" : "updated"
+    }, ${skipped} without location`
+  );
+}
+
+async function backfillGeohash() {
+  try {
+    console.log(
+      `🧭 Backfilling geohashes${dryRun ? " (dry run)" : ""}...\n`
+    );
+
+    for (const collectionPath of COLLECTIONS) {
+      await backfillCollection(collectionPath);
+    }
+
+    console.log("\n✅ Geohash backfill completed");
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Geohash backfill failed:", error);
+    process.exit(1);
+  }
+}
+
+backfillGeohash();
@@ -0,0 +1,184 @@
+import type { DocumentSnapshot } from "firebase-admin/firestore";
+import { firebaseAdmin } from "../services/Firebase/firebaseAdmin.service";
+import { firestoreService } from "../services/Firebase/firebase.service";
+import { PublicationService } from "../services/Publication/publication.service";
+import {
+  PUBLICATION_STATUS,
+  PUBLICATION_TYPES,
+} from "../models/schema/publication";
+import { PLEDGE_STATUS } from "../models/schema/pledge";
+import { INTEREST_STATUS } from "../models/schema/interest";
+import { PROPOSAL_STATUS } from "../models/schema/exchangeProposal";
+import type { Publication } from "../models/types/publication";
+import type { Pledge } from "../models/types/pledge";
+import type { Interest } from "../models/types/interest";
+import type { ExchangeProposal } from "../models/types/exchangeProposal";
+import type { UserStats } from "../models/types/userStats";
+
+/**
+ * Rebuilds the donation, exchange and active publication counters of every
+ * user from the existing publications, pledges, claims and proposals, so
+ * the statistics include the activity from before they were kept. Response
+ * counters only start with new messages and are left untouched.
+ *
+ * Usage:
+ *   bun run backfill:stats            // write the rebuilt counters
+ *   bun run backfill:stats --dry-run  // only report what would change
+ */
+
+const STATS_COLLECTION = "user_stats";
+const PAGE_SIZE = 200;
+
+const dryRun = process.argv.includes("--dry-run");
+
+type Counters = Omit<
+  UserStats,
+  "messagesToAnswer" | "messagesAnswered" | "totalResponseTime"
+>;
+
+const stats = new Map<string, Counters>();
+
+function statsOf(userId: string): Counters {
+  let counters = stats.get(userId);
+  if (!counters) {
+    counters = {
+      userId,
+      donationsGiven: 0,
+      donationsReceived: 0,
+      itemsExchanged: 0,
+      pledgesFulfilled: 0,
+      activePublications: {
+        donation_offer: 0,
+        donation_request: 0,
+        exchange: 0,
+      },
+      impact: {},
+    };
+    stats.set(userId, counters);
+  }
+  return counters;
+}
+
+function addImpact(userId: string, category: string, quantity: number) {
+  const { impact } = statsOf(userId);
+  impact[category] = (impact[category] ?? 0) + quantity;
+}
+
+async function scan<T>(collectionPath: string, visit: (doc: T) => void) {
+  let cursor: DocumentSnapshot | undefined;
+  let scanned = 0;
+
+  do {
+    const page = await firestoreService.queryPagination<T>(
+      collectionPath,
+      { pageSize: PAGE_SIZE },
+      cursor
+    );
+
+    page.data.forEach(visit);
+    scanned += page.data.length;
+
+    cursor = page.lastDoc ?? undefined;
+  } while (cursor);
+
+  console.log(`📊 ${collectionPath}: ${scanned} scanned`);
+}
+
+async function backfillStats() {
+  try {
+    console.log(`📊 Rebuilding user stats${dryRun ? " (dry run)" : ""}...\n`);
+
+    const publications = new Map<string, Publication>();
+    await scan<Publication>("publication", (publication) => {
+      publications.set(publication.id, publication);
+      if (
+        PublicationService.statusOf(publication) === PUBLICATION_STATUS.ACTIVE
+      ) {
+        statsOf(publication.userId).activePublications[publication.type]++;
+      }
+    });
+
+    await scan<Pledge>("donation_pledge", (pledge) => {
+      if (pledge.status !== PLEDGE_STATUS.DELIVERED) return;
+
+      const donor = statsOf(pledge.donorId);
+      donor.donationsGiven++;
+      donor.pledgesFulfilled++;
+      statsOf(pledge.centerId).donationsReceived++;
+
+      const request = publications.get(pledge.publicationId);
+      if (request) {
+        addImpact(
+          pledge.donorId,
+          request.category,
+          pledge.deliveredQuantity ?? pledge.quantity
+        );
+      }
+    });
+
+    await scan<Interest>("publication_interest", (interest) => {
+      if (interest.status !== INTEREST_STATUS.FULFILLED) return;
+
+      const publication = publications.get(interest.publicationId);
+      if (!publication) return;
+
+      if (publication.type === PUBLICATION_TYPES.EXCHANGE) {
+        statsOf(interest.publicationOwnerId).itemsExchanged++;
+        statsOf(interest.userId).itemsExchanged++;
+        return;
+      }
+
+      if (publication.type === PUBLICATION_TYPES.DONATION_OFFER) {
+        statsOf(interest.publicationOwnerId).donationsGiven++;
+        statsOf(interest.userId).donationsReceived++;
+        addImpact(
+          interest.publicationOwnerId,
+          publication.category,
+          publication.quantity
+        );
+      } else {
+        statsOf(interest.userId).donationsGiven++;
+        statsOf(interest.publicationOwnerId).donationsReceived++;
+      }
+    });
+
+    await scan<ExchangeProposal>("exchange_proposal", (proposal) => {
+      if (proposal.status !== PROPOSAL_STATUS.COMPLETED) return;
+
+      statsOf(proposal.proposerId).itemsExchanged +=
+        proposal.offeredPublicationIds.length;
+      statsOf(proposal.targetOwnerId).itemsExchanged++;
+    });
+
+    const users = [...stats.values()];
+    for (let i = 0; i < users.length && !dryRun; i += PAGE_SIZE) {
+      const batch = firebaseAdmin.firestore.batch();
+
+      for (const counters of users.slice(i, i + PAGE_SIZE)) {
+        // mergeFields replaces the maps instead of merging stale keys
+        batch.set(
+          firebaseAdmin.firestore
+            .collection(STATS_COLLECTION)
+            .doc(counters.userId),
+          { ...counters, updatedAt: new Date() },
+          { mergeFields: [...Object.keys(counters), "updatedAt"] }
+        );
+      }
+
+      await batch.commit();
+    }
+
+    console.log(
+      `\n📊 ${STATS_COLLECTION}: ${users.length} users ${
+        dryRun ? "to update" : "updated"
+      }`
+    );
+    console.log("\n✅ Stats backfill completed");
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Stats backfill failed:", error);
+    process.exit(1);
+  }
+}
+
+backfillStats();
@@ -0,0 +1,92 @@
+import type { DocumentSnapshot } from "firebase-admin/firestore";
+import { firebaseAdmin } from "../services/Firebase/firebaseAdmin.service";
+import { firestoreService } from "../services/Firebase/firebase.service";
+import { PublicationService } from "../services/Publication/publication.service";
+import {
+  PUBLICATION_STATUS,
+  PUBLICATION_TYPES,
+} from "../models/schema/publication";
+import type { Publication } from "../models/types/publication";
+
+/**
+ * Stores `status` on the publications created before statuses existed, so
+ * they can be filtered by status, and gives the active offers and exchanges
+ * a full listing lifetime from now so they expire like new ones.
+ *
+ * Usage:
+ *   bun run backfill:status            // write the missing statuses
+ *   bun run backfill:status --dry-run  // only report what would change
+ */
+
+const COLLECTION = "publication";
+const PAGE_SIZE = 200;
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function backfillStatus() {
+  try {
+    console.log(`🗂️  Backfilling statuses${dryRun ? " (dry run)" : ""}...\n`);
+
+    const now = Date.now();
+    const counts: Record<string, number> = {};
+    let cursor: DocumentSnapshot | undefined;
+    let scanned = 0;
+
+    do {
+      const page = await firestoreService.queryPagination<Publication>(
+        COLLECTION,
+        { pageSize: PAGE_SIZE },
+        cursor
+      );
+
+      const batch = firebaseAdmin.firestore.batch();
+      let pending = 0;
+
+      for (const publication of page.data) {
+        scanned++;
+        if (publication.status) continue;
+
+        const status = PublicationService.statusOf(publication);
+        counts[status] = (counts[status] ?? 0) + 1;
+
+        pending++;
+        batch.update(
+          firebaseAdmin.firestore.collection(COLLECTION).doc(publication.id),
+          {
+            status,
+            statusChangedAt: now,
+            ...(status === PUBLICATION_STATUS.ACTIVE &&
+              publication.type !== PUBLICATION_TYPES.DONATION_REQUEST &&
+              !publication.expiresAt && {
+                expiresAt: PublicationService.listingExpiry(now),
+              }),
+          }
+        );
+      }
+
+      if (pending > 0 && !dryRun) {
+        await batch.commit();
+      }
+
+      cursor = page.lastDoc ?? undefined;
+    } while (cursor);
+
+    const summary =
+      Object.entries(counts)
+        .map(([status, count]) => `${count} ${status}`)
+        .join(", ") || "none";
+
+    console.log(
+      `🗂️  ${COLLECTION}: ${scanned} scanned, ${
+        dryRun ? "to update" : "updated"
+      }: ${summary}`
+    );
+    console.log("\n✅ Status backfill completed");
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Status backfill failed:", error);
+    process.exit(1);
+  }
+}
+
+backfillStatus();
@@ -0,0 +1,66 @@
+import type { DocumentSnapshot } from "firebase-admin/firestore";
+import { firestoreService } from "../services/Firebase/firebase.service";
+import { SearchService } from "../services/Search/search.service";
+
+/**
+ * Rebuilds the search index entries of every publication: active ones are
+ * (re)indexed, inactive ones removed. Safe to run again, e.g. after a failed
+ * index update or a change to the text analyzer.
+ *
+ * Usage:
+ *   bun run search:reindex
+ */
+
+const COLLECTION = "publication";
+const PAGE_SIZE = 100;
+
+interface ListedPublication {
+  id: string;
+  isActive?: boolean;
+}
+
+async function reindexSearch() {
+  try {
+    console.log("🔎 Rebuilding the publication search index...\n");
+
+    let cursor: DocumentSnapshot | undefined;
+    let indexed = 0;
+    let removed = 0;
+    let failed = 0;
+
+    do {
+      const page = await firestoreService.queryPagination<ListedPublication>(
+        COLLECTION,
+        { pageSize: PAGE_SIZE },
+        cursor
+      );
+
+      for (const publication of page.data) {
+        try {
+          if (publication.isActive) {
+            await SearchService.indexPublication(publication.id);
+            indexed++;
+          } else {
+            await SearchService.removePublication(publication.id);
+            removed++;
+          }
+        } catch {
+          failed++;
+        }
+      }
+
+      cursor = page.lastDoc ?? undefined;
+    } while (cursor);
+
+    console.log(
+      `📚 ${indexed} indexed, ${removed} removed, ${failed} failed`
+    );
+    console.log("\n✅ Search index rebuilt");
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error("❌ Search reindex failed:", error);
+    process.exit(1);
+  }
+}
+
+reindexSearch();
@@ -3,6 +3,7 @@ import {
   PutObjectCommand,
   DeleteObjectCommand,
   GetObjectCommand,
+  HeadObjectCommand,
   ListObjectsV2Command,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
@@ -22,6 +23,11 @@ export interface PresignedUrlResult {
   fields?: Record<string, string>;
 }
 
+export interface FileInfo {
+  size: number;
+  mimetype: string;
+}
+
 export class S3Service {
   private static instance: S3Service;
   private s3Client: S3Client;
@@ -266,6 +272,43 @@ export class S3Service {
     }
   }
 
+  /**
+   * Reads the size and content type S3 stored for a file, such as one a
+   * client uploaded through a presigned URL.
+   *
+   * @param key - S3 file key to look up
+   * @returns File size and MIME type, or null if the file doesn't exist
+   *
+   * @throws {Error} FILE_LOOKUP_FAILED if the lookup fails
+   *
+   * @example
+   * const info = await s3Service.getFileInfo("chat/conv123/user123/photo.jpg");
+   * if (info && info.size > maxSize) {
+   *   await s3Service.deleteFile(key);
+   * }
+   */
+  async getFileInfo(key: string): Promise<FileInfo | null> {
+    try {
+      const command = new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      });
+
+      const result = await this.s3Client.send(command);
+
+      return {
+        size: result.ContentLength ?? 0,
+        mimetype: result.ContentType ?? "application/octet-stream",
+      };
+    } catch (error: any) {
+      if (error?.name === "NotFound") {
+        return null;
+      }
+      console.error("S3 head object error:", error);
+      throw new Error("FILE_LOOKUP_FAILED");
+    }
+  }
+
   extractKeyFromUrl(url: string): string | null {
     const pattern = `https://${this.bucket}.s3.${process.env.AWS_REGION}.amazonaws.com/`;
     if (url.startsWith(pattern)) {
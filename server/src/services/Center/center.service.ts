@@ -0,0 +1,540 @@
+import { safeParse } from "valibot";
+import {
+  CENTER_STATUS,
+  CenterRegistrationSchema,
+  CenterReviewSchema,
+  CenterUpdateSchema,
+  DonationCenterSchema,
+  PublicDonationCenterSchema,
+} from "../../models/schema/center";
+import { AuthResponseSchema } from "../../models/schema/auth";
+import type {
+  CenterStatus,
+  DonationCenter,
+  PublicDonationCenter,
+} from "../../models/types/center";
+import type { AuthResponse } from "../../models/types/auth";
+import type { SessionContext } from "../../models/types/session";
+import type { UploadedFile } from "../../middleware/upload.middleware";
+import { firestoreService } from "../Firebase/firebase.service";
+import { s3Service } from "../AWS/s3.service";
+import { socketService } from "../Chat/socket.service";
+import { UserService } from "../User/User.service";
+import { JWTService } from "../User/JWT.service";
+import { AuthService } from "../User/Auth.service";
+
+export class CenterService {
+  private static readonly COLLECTION_NAME = "donation_centers";
+  private static readonly USER_COLLECTION = "users";
+
+  /**
+   * ================================================
+   *                     CREATIONS
+   * ================================================
+   */
+
+  /**
+   * Registers a donation center account.
+   * Creates a user with the "donationCenter" role plus a pending center
+   * application that an admin must approve before the center can publish
+   * donation requests.
+   *
+   * @param input - User registration data plus organization details
+   * @param context - Device information of the request, recorded as a session
+   * @returns AuthResponse for the new account and the pending center application
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} EMAIL_ALREADY_EXISTS / USERNAME_ALREADY_EXISTS from user creation
+   * @throws {Error} CENTER_REGISTRY_ID_ALREADY_EXISTS if the registry id is taken
+   * @throws {Error} USER_CREATION_FAILED if the user cannot be loaded after creation
+   */
+  static async registerCenter(
+    input: unknown,
+    context?: SessionContext
+  ): Promise<{ auth: AuthResponse; center: DonationCenter }> {
+    try {
+      const result = safeParse(CenterRegistrationSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const validatedData = result.output;
+
+      await this.checkRegistryIdUnique(validatedData.registryId);
+
+      const userId = await UserService.createsUser(input, "donationCenter");
+
+      const centerData: Omit<DonationCenter, "id"> = {
+        userId,
+        organizationName: validatedData.organizationName,
+        address: validatedData.address,
+        location: validatedData.location,
+        openingHours: validatedData.openingHours,
+        registryId: validatedData.registryId,
+        documents: [],
+        status: CENTER_STATUS.PENDING,
+      };
+
+      try {
+        await firestoreService.create<DonationCenter>(
+          this.COLLECTION_NAME,
+          centerData,
+          userId
+        );
+      } catch (error) {
+        // Don't leave a center account without its application behind
+        await firestoreService.delete(this.USER_COLLECTION, userId);
+        throw error;
+      }
+
+      const user = await UserService.getUserById(userId);
+      if (!user) {
+        throw new Error("USER_CREATION_FAILED");
+      }
+
+      const token = await JWTService.generateAuthToken(user, context);
+
+      await AuthService.requestEmailVerification(user.id).catch((error) =>
+        console.error("Failed to send verification email:", error)
+      );
+
+      const authResult = safeParse(AuthResponseSchema, {
+        user: {
+          id: user.id,
+          email: user.email,
+          username: user.username,
+          fullname: user.fullname,
+        },
+        token,
+      });
+      if (!authResult.success) {
+        throw new Error("AUTH_RESPONSE_VALIDATION_FAILED");
+      }
+
+      return {
+        auth: authResult.output,
+        center: { id: userId, ...centerData },
+      };
+    } catch (error) {
+      console.error("Donation center registration failed:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                     UPDATES
+   * ================================================
+   */
+
+  /**
+   * Updates the center's organization details.
+   * A rejected application, or a change of registry id on an approved center,
+   * sends the center back to the review queue.
+   *
+   * @param centerId - ID of the center (same as its user id)
+   * @param input - Partial organization details
+   * @returns Promise resolving to the updated center
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} CENTER_NOT_FOUND if the user has no center application
+   * @throws {Error} CENTER_REGISTRY_ID_ALREADY_EXISTS if the registry id is taken
+   */
+  static async updateCenter(
+    centerId: string,
+    input: unknown
+  ): Promise<DonationCenter> {
+    try {
+      const result = safeParse(CenterUpdateSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const validatedData = result.output;
+
+      const center = await this.getCenterById(centerId);
+      if (!center) {
+        throw new Error("CENTER_NOT_FOUND");
+      }
+
+      const registryChanged =
+        validatedData.registryId !== undefined &&
+        validatedData.registryId !== center.registryId;
+
+      if (registryChanged) {
+        await this.checkRegistryIdUnique(validatedData.registryId!, centerId);
+      }
+
+      const needsReview =
+        center.status === CENTER_STATUS.REJECTED ||
+        (center.status === CENTER_STATUS.APPROVED && registryChanged);
+
+      const updates: Partial<DonationCenter> = {
+        ...validatedData,
+        ...(needsReview && { status: CENTER_STATUS.PENDING }),
+      };
+
+      await firestoreService.update<DonationCenter>(
+        this.COLLECTION_NAME,
+        centerId,
+        updates
+      );
+
+      return { ...center, ...updates };
+    } catch (error) {
+      console.error(`Failed to update donation center ${centerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Uploads supporting documents (registry certificate, statutes, ...) for review.
+   *
+   * @param centerId - ID of the center (same as its user id)
+   * @param files - Uploaded document files
+   * @returns Promise resolving to the updated center
+   *
+   * @throws {Error} CENTER_NOT_FOUND if the user has no center application
+   * @throws {Error} FILE_UPLOAD_FAILED if a document cannot be stored
+   */
+  static async addDocuments(
+    centerId: string,
+    files: UploadedFile[]
+  ): Promise<DonationCenter> {
+    try {
+      const center = await this.getCenterById(centerId);
+      if (!center) {
+        throw new Error("CENTER_NOT_FOUND");
+      }
+
+      const documentKeys: string[] = [];
+      for (const file of files) {
+        const uploadResult = await s3Service.uploadFile(
+          file.buffer,
+          centerId,
+          file.originalname,
+          file.mimetype,
+          "center-documents"
+        );
+        documentKeys.push(uploadResult.key);
+      }
+
+      const documents = [...center.documents, ...documentKeys];
+
+      await firestoreService.update<DonationCenter>(
+        this.COLLECTION_NAME,
+        centerId,
+        { documents }
+      );
+
+      return { ...center, documents };
+    } catch (error) {
+      console.error(
+        `Failed to add documents to donation center ${centerId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Approves a pending center application.
+   *
+   * @param centerId - ID of the center to approve
+   * @param adminId - ID of the reviewing admin
+   * @param input - Optional review notes
+   * @returns Promise resolving to the approved center
+   *
+   * @throws {Error} CENTER_NOT_FOUND if the application doesn't exist
+   * @throws {Error} CENTER_NOT_PENDING if the application was already reviewed
+   */
+  static async approveCenter(
+    centerId: string,
+    adminId: string,
+    input: unknown = {}
+  ): Promise<DonationCenter> {
+    return this.review(centerId, adminId, CENTER_STATUS.APPROVED, input);
+  }
+
+  /**
+   * Rejects a pending center application. Review notes are required so the
+   * center knows what to fix before resubmitting.
+   *
+   * @param centerId - ID of the center to reject
+   * @param adminId - ID of the reviewing admin
+   * @param input - Review notes explaining the rejection
+   * @returns Promise resolving to the rejected center
+   *
+   * @throws {Error} CENTER_NOT_FOUND if the application doesn't exist
+   * @throws {Error} CENTER_NOT_PENDING if the application was already reviewed
+   * @throws {Error} REVIEW_NOTES_REQUIRED if no notes were given
+   */
+  static async rejectCenter(
+    centerId: string,
+    adminId: string,
+    input: unknown
+  ): Promise<DonationCenter> {
+    return this.review(centerId, adminId, CENTER_STATUS.REJECTED, input);
+  }
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Retrieves a center application by its ID.
+   *
+   * @param id - Center ID (same as its user id)
+   * @returns DonationCenter object or null if not found
+   *
+   * @throws {Error} INVALID_CENTER_DATA if center data fails schema validation
+   */
+  static async getCenterById(id: string): Promise<DonationCenter | null> {
+    try {
+      const center = await firestoreService.getById<DonationCenter>(
+        this.COLLECTION_NAME,
+        id
+      );
+
+      if (!center) return null;
+
+      const result = safeParse(DonationCenterSchema, center);
+      if (!result.success) {
+        console.error("Center data schema validation failed:", result.issues);
+        throw new Error("INVALID_CENTER_DATA");
+      }
+
+      return result.output;
+    } catch (error) {
+      console.error(`Failed to get donation center ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the public profile of an approved center.
+   *
+   * @param id - Center ID
+   * @returns PublicDonationCenter or null if not found or not approved
+   */
+  static async getPublicCenter(
+    id: string
+  ): Promise<PublicDonationCenter | null> {
+    try {
+      const center = await this.getCenterById(id);
+
+      if (!center || center.status !== CENTER_STATUS.APPROVED) return null;
+
+      const result = safeParse(PublicDonationCenterSchema, center);
+      if (!result.success) {
+        throw new Error("INVALID_CENTER_DATA");
+      }
+
+      return result.output;
+    } catch (error) {
+      console.error(`Failed to get public donation center ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists approved donation centers.
+   *
+   * @returns Array of public center profiles
+   */
+  static async getApprovedCenters(): Promise<PublicDonationCenter[]> {
+    try {
+      const centers = await this.queryCenters(CENTER_STATUS.APPROVED);
+
+      const publicCenters: PublicDonationCenter[] = [];
+      for (const center of centers) {
+        const result = safeParse(PublicDonationCenterSchema, center);
+        if (result.success) {
+          publicCenters.push(result.output);
+        }
+      }
+
+      return publicCenters;
+    } catch (error) {
+      console.error("Failed to get approved donation centers:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists center applications for the admin review queue.
+   *
+   * @param status - Application status to filter by (default: "pending")
+   * @returns Array of center applications
+   */
+  static async getApplications(
+    status: CenterStatus = CENTER_STATUS.PENDING
+  ): Promise<DonationCenter[]> {
+    try {
+      return await this.queryCenters(status);
+    } catch (error) {
+      console.error(`Failed to get ${status} center applications:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generates short-lived download URLs for a center's supporting documents.
+   *
+   * @param center - Center whose documents should be signed
+   * @returns Array of document keys with presigned download URLs
+   */
+  static async getDocumentUrls(
+    center: DonationCenter
+  ): Promise<{ key: string; url: string }[]> {
+    return Promise.all(
+      center.documents.map(async (key) => ({
+        key,
+        url: await s3Service.generatePresignedGetUrl(key, 600),
+      }))
+    );
+  }
+
+  /**
+   * Checks whether a user is an approved donation center.
+   *
+   * @param userId - User ID to check
+   * @returns True if the user has an approved center application
+   */
+  static async isApprovedCenter(userId: string): Promise<boolean> {
+    const center = await this.getCenterById(userId);
+    return center?.status === CENTER_STATUS.APPROVED;
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Applies an admin review decision to a pending application.
+   *
+   * @param centerId - ID of the center under review
+   * @param adminId - ID of the reviewing admin
+   * @param status - Review decision
+   * @param input - Review notes
+   * @returns Updated center
+   */
+  private static async review(
+    centerId: string,
+    adminId: string,
+    status: typeof CENTER_STATUS.APPROVED | typeof CENTER_STATUS.REJECTED,
+    input: unknown
+  ): Promise<DonationCenter> {
+    try {
+      const result = safeParse(CenterReviewSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const notes = result.output.notes;
+
+      if (status === CENTER_STATUS.REJECTED && !notes) {
+        throw new Error("REVIEW_NOTES_REQUIRED");
+      }
+
+      const center = await this.getCenterById(centerId);
+      if (!center) {
+        throw new Error("CENTER_NOT_FOUND");
+      }
+
+      if (center.status !== CENTER_STATUS.PENDING) {
+        throw new Error("CENTER_NOT_PENDING");
+      }
+
+      const updates: Partial<DonationCenter> = {
+        status,
+        reviewedBy: adminId,
+        reviewNotes: notes,
+      };
+
+      await firestoreService.update<DonationCenter>(
+        this.COLLECTION_NAME,
+        centerId,
+        updates
+      );
+
+      socketService.emitToUser(center.userId, "center_review", {
+        centerId,
+        status,
+        notes,
+      });
+
+      return { ...center, ...updates };
+    } catch (error) {
+      console.error(`Failed to review donation center ${centerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queries centers by status and drops malformed documents.
+   *
+   * @param status - Status to filter by
+   * @returns Array of valid centers
+   */
+  private static async queryCenters(
+    status: CenterStatus
+  ): Promise<DonationCenter[]> {
+    const centers = await firestoreService.query<DonationCenter>(
+      this.COLLECTION_NAME,
+      {
+        where: ["status", "==", status],
+      }
+    );
+
+    const validCenters: DonationCenter[] = [];
+    for (const center of centers) {
+      const result = safeParse(DonationCenterSchema, center);
+      if (result.success) {
+        validCenters.push(result.output);
+      }
+    }
+
+    return validCenters;
+  }
+
+  /**
+   * Checks that no other center uses the same registry id.
+   *
+   * @param registryId - Normalized registry id
+   * @param excludeCenterId - Center to ignore (when updating)
+   * @throws {Error} CENTER_REGISTRY_ID_ALREADY_EXISTS if the registry id is taken
+   */
+  private static async checkRegistryIdUnique(
+    registryId: string,
+    excludeCenterId?: string
+  ): Promise<void> {
+    const centers = await firestoreService.query<DonationCenter>(
+      this.COLLECTION_NAME,
+      {
+        where: ["registryId", "==", registryId],
+        limit: 2,
+      }
+    );
+
+    if (centers.some((center) => center.id !== excludeCenterId)) {
+      throw new Error("CENTER_REGISTRY_ID_ALREADY_EXISTS");
+    }
+  }
+}
@@ -0,0 +1,381 @@
+import { FieldValue } from "firebase-admin/firestore";
+import type {
+  AttachmentVariant,
+  ChatAttachment,
+  ChatMessage,
+  MessageAttachment,
+} from "../../models/schema/chat";
+import {
+  ATTACHMENT_RULES,
+  ATTACHMENT_VARIANTS,
+} from "../../models/schema/chat";
+import { firestoreService } from "../Firebase/firebase.service";
+import { s3Service } from "../AWS/s3.service";
+import { chatService } from "./chat.service";
+
+/**
+ * Images and files sent in conversations. Clients upload them straight to
+ * S3 through presigned URLs, then send a message with the attachment; the
+ * upload is checked against what was declared when the message is sent.
+ * Files are only downloaded through short-lived URLs, given to the
+ * participants of the conversation.
+ */
+export class AttachmentService {
+  private static instance: AttachmentService;
+
+  private readonly COLLECTION_NAME = "chat_attachment";
+
+  private readonly UPLOAD_URL_TTL = 600; // s
+  private readonly DOWNLOAD_URL_TTL = 300; // s
+
+  /**
+   * Gets the singleton instance of AttachmentService.
+   *
+   * @returns Singleton instance of AttachmentService
+   */
+  public static getInstance(): AttachmentService {
+    if (!AttachmentService.instance) {
+      AttachmentService.instance = new AttachmentService();
+    }
+    return AttachmentService.instance;
+  }
+
+  /**
+   * ================================================
+   *                     CREATIONS
+   * ================================================
+   */
+
+  /**
+   * Prepares the upload of an attachment to a conversation. The file is
+   * PUT to the returned URL with its Content-Type; images can come with a
+   * thumbnail, generated by the client and PUT to its own URL. The
+   * attachment is sent with the next message referencing it.
+   *
+   * @param conversationId - ID of the conversation
+   * @param userId - ID of the uploading user
+   * @param input - Filename, MIME type and size of the file, and of the
+   * image thumbnail if any
+   * @returns Pending attachment with its upload URLs
+   *
+   * @throws {Error} CONVERSATION_NOT_FOUND_OR_USER_NOT_AUTHORIZED if user is not a participant
+   * @throws {Error} PRESIGNED_URL_GENERATION_FAILED if an upload URL can't be signed
+   */
+  async createUpload(
+    conversationId: string,
+    userId: string,
+    input: {
+      filename: string;
+      mimetype: string;
+      size: number;
+      thumbnail?: { mimetype: string; size: number };
+    }
+  ): Promise<{
+    attachment: MessageAttachment;
+    uploadUrl: string;
+    thumbnailUploadUrl: string | null;
+    expiresIn: number;
+  }> {
+    await this.assertParticipant(conversationId, userId);
+
+    const { filename, mimetype, size } = input;
+    const folder = `chat/${conversationId}`;
+
+    const upload = await s3Service.generatePresignedUrl(
+      userId,
+      filename,
+      mimetype,
+      folder,
+      this.UPLOAD_URL_TTL
+    );
+
+    // Thumbnails only make sense for images
+    const thumbnail = this.isImage(mimetype) ? input.thumbnail : undefined;
+    const thumbnailUpload = thumbnail
+      ? await s3Service.generatePresignedUrl(
+          userId,
+          `thumbnail.${thumbnail.mimetype.split("/")[1]}`,
+          thumbnail.mimetype,
+          `${folder}/thumbnails`,
+          this.UPLOAD_URL_TTL
+        )
+      : null;
+
+    const attachment: Omit<ChatAttachment, "id"> = {
+      conversationId,
+      uploaderId: userId,
+      key: upload.key,
+      filename,
+      mimetype,
+      size,
+      thumbnailKey: thumbnailUpload?.key,
+      thumbnailMimetype: thumbnail?.mimetype,
+      uploadedAt: Date.now(),
+    };
+
+    const id = await firestoreService.create<Omit<ChatAttachment, "id">>(
+      this.COLLECTION_NAME,
+      attachment
+    );
+
+    return {
+      attachment: this.toMessageAttachment({ id, ...attachment }),
+      uploadUrl: upload.url,
+      thumbnailUploadUrl: thumbnailUpload?.url ?? null,
+      expiresIn: this.UPLOAD_URL_TTL,
+    };
+  }
+
+  /**
+   * ================================================
+   *                      UPDATES
+   * ================================================
+   */
+
+  /**
+   * Checks an uploaded attachment before a message sends it: it must have
+   * been uploaded by the sender to this conversation, not sent yet, and
+   * the stored file must match its declared type and size. A file that
+   * doesn't is removed. A missing or invalid thumbnail is dropped.
+   *
+   * @param attachmentId - ID of the attachment
+   * @param conversationId - ID of the conversation of the message
+   * @param senderId - ID of the user sending the message
+   * @param messageType - Type of the message ("image" needs an image)
+   * @returns Attachment to store on the message
+   *
+   * @throws {Error} ATTACHMENT_NOT_FOUND if it doesn't exist, or belongs to another user or conversation
+   * @throws {Error} ATTACHMENT_ALREADY_SENT if another message sent it
+   * @throws {Error} INVALID_ATTACHMENT if it doesn't suit the message type or the stored file doesn't match
+   * @throws {Error} ATTACHMENT_NOT_UPLOADED if the file wasn't uploaded
+   */
+  async prepareForMessage(
+    attachmentId: string,
+    conversationId: string,
+    senderId: string,
+    messageType: ChatMessage["messageType"]
+  ): Promise<MessageAttachment> {
+    const attachment = await this.getAttachment(attachmentId);
+    if (
+      !attachment ||
+      attachment.conversationId !== conversationId ||
+      attachment.uploaderId !== senderId
+    ) {
+      throw new Error("ATTACHMENT_NOT_FOUND");
+    }
+
+    if (attachment.messageId) {
+      throw new Error("ATTACHMENT_ALREADY_SENT");
+    }
+
+    if (
+      (messageType !== "image" && messageType !== "file") ||
+      (messageType === "image" && !this.isImage(attachment.mimetype))
+    ) {
+      throw new Error("INVALID_ATTACHMENT");
+    }
+
+    const file = await s3Service.getFileInfo(attachment.key);
+    if (!file) {
+      throw new Error("ATTACHMENT_NOT_UPLOADED");
+    }
+
+    // The presigned URL can't limit the size, so it is checked here
+    if (
+      file.size > ATTACHMENT_RULES.MAX_SIZE ||
+      file.size !== attachment.size ||
+      file.mimetype !== attachment.mimetype
+    ) {
+      await this.deleteAttachment(attachment);
+      throw new Error("INVALID_ATTACHMENT");
+    }
+
+    if (
+      attachment.thumbnailKey &&
+      !(await this.hasValidThumbnail(attachment))
+    ) {
+      await this.removeThumbnail(attachment);
+      return this.toMessageAttachment({
+        ...attachment,
+        thumbnailKey: undefined,
+      });
+    }
+
+    return this.toMessageAttachment(attachment);
+  }
+
+  /**
+   * Records the message that sent an attachment.
+   *
+   * @param attachmentId - ID of the attachment
+   * @param messageId - ID of the message
+   */
+  async markSent(attachmentId: string, messageId: string): Promise<void> {
+    await firestoreService.update<ChatAttachment>(
+      this.COLLECTION_NAME,
+      attachmentId,
+      { messageId, sentAt: Date.now() }
+    );
+  }
+
+  /**
+   * ================================================
+   *                      DELETE
+   * ================================================
+   */
+
+  /**
+   * Removes an attachment and its files, such as when its message is
+   * deleted for everyone. A failure is only logged.
+   *
+   * @param attachmentId - ID of the attachment
+   */
+  async removeAttachment(attachmentId: string): Promise<void> {
+    try {
+      const attachment = await this.getAttachment(attachmentId);
+      if (attachment) {
+        await this.deleteAttachment(attachment);
+      }
+    } catch (error) {
+      console.error(`Failed to remove attachment ${attachmentId}:`, error);
+    }
+  }
+
+  /**
+   * ================================================
+   *                       GETS
+   * ================================================
+   */
+
+  /**
+   * Gets a short-lived download URL of an attachment, or of its thumbnail.
+   * Only the participants of the conversation can download it, and only
+   * the uploader before it is sent. Attachments of messages deleted or
+   * hidden by moderation can't be downloaded.
+   *
+   * @param attachmentId - ID of the attachment
+   * @param userId - ID of the downloading user
+   * @param variant - "original" or "thumbnail" (default: "original")
+   * @returns Download URL with its lifetime and the file details
+   *
+   * @throws {Error} ATTACHMENT_NOT_FOUND if it doesn't exist, has no thumbnail or its message was removed
+   * @throws {Error} CONVERSATION_NOT_FOUND_OR_USER_NOT_AUTHORIZED if user is not a participant
+   * @throws {Error} PRESIGNED_GET_URL_GENERATION_FAILED if the URL can't be signed
+   */
+  async getDownloadUrl(
+    attachmentId: string,
+    userId: string,
+    variant: AttachmentVariant = ATTACHMENT_VARIANTS.ORIGINAL
+  ): Promise<{
+    url: string;
+    expiresIn: number;
+    filename: string;
+    mimetype: string;
+  }> {
+    const attachment = await this.getAttachment(attachmentId);
+    if (!attachment) {
+      throw new Error("ATTACHMENT_NOT_FOUND");
+    }
+
+    await this.assertParticipant(attachment.conversationId, userId);
+
+    if (!attachment.messageId) {
+      if (attachment.uploaderId !== userId) {
+        throw new Error("ATTACHMENT_NOT_FOUND");
+      }
+    } else {
+      const message = await chatService.getMessage(attachment.messageId);
+      if (
+        !message ||
+        message.deletedAt ||
+        message.hiddenAt ||
+        message.deletedFor?.includes(userId)
+      ) {
+        throw new Error("ATTACHMENT_NOT_FOUND");
+      }
+    }
+
+    const thumbnail = variant === ATTACHMENT_VARIANTS.THUMBNAIL;
+    const key = thumbnail ? attachment.thumbnailKey : attachment.key;
+    if (!key) {
+      throw new Error("ATTACHMENT_NOT_FOUND");
+    }
+
+    return {
+      url: await s3Service.generatePresignedGetUrl(key, this.DOWNLOAD_URL_TTL),
+      expiresIn: this.DOWNLOAD_URL_TTL,
+      filename: attachment.filename,
+      mimetype: thumbnail
+        ? attachment.thumbnailMimetype ?? attachment.mimetype
+        : attachment.mimetype,
+    };
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  private async getAttachment(
+    attachmentId: string
+  ): Promise<ChatAttachment | null> {
+    return await firestoreService.getById<ChatAttachment>(
+      this.COLLECTION_NAME,
+      attachmentId
+    );
+  }
+
+  private async assertParticipant(conversationId: string, userId: string) {
+    const conversation = await chatService.getConversation(conversationId);
+    if (!conversation || !conversation.participants.includes(userId)) {
+      throw new Error("CONVERSATION_NOT_FOUND_OR_USER_NOT_AUTHORIZED");
+    }
+  }
+
+  private async hasValidThumbnail(attachment: ChatAttachment) {
+    const thumbnail = await s3Service.getFileInfo(attachment.thumbnailKey!);
+    return (
+      !!thumbnail &&
+      thumbnail.size <= ATTACHMENT_RULES.MAX_THUMBNAIL_SIZE &&
+      thumbnail.mimetype === attachment.thumbnailMimetype
+    );
+  }
+
+  private async removeThumbnail(attachment: ChatAttachment) {
+    await s3Service.deleteFile(attachment.thumbnailKey!).catch(() => {});
+    await firestoreService.update<ChatAttachment>(
+      this.COLLECTION_NAME,
+      attachment.id,
+      {
+        thumbnailKey: FieldValue.delete(),
+        thumbnailMimetype: FieldValue.delete(),
+      }
+    );
+  }
+
+  private async deleteAttachment(attachment: ChatAttachment) {
+    await Promise.all(
+      [attachment.key, attachment.thumbnailKey]
+        .filter((key): key is string => !!key)
+        .map((key) => s3Service.deleteFile(key))
+    );
+    await firestoreService.delete(this.COLLECTION_NAME, attachment.id);
+  }
+
+  private isImage(mimetype: string): boolean {
+    return ATTACHMENT_RULES.IMAGE_TYPES.includes(mimetype);
+  }
+
+  private toMessageAttachment(attachment: ChatAttachment): MessageAttachment {
+    return {
+      id: attachment.id,
+      filename: attachment.filename,
+      mimetype: attachment.mimetype,
+      size: attachment.size,
+      hasThumbnail: !!attachment.thumbnailKey,
+    };
+  }
+}
+
+export const attachmentService = AttachmentService.getInstance();
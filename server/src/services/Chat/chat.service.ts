@@ -1,16 +1,31 @@
+import { FieldPath, FieldValue } from "firebase-admin/firestore";
 import type {
   ChatMessage,
   Conversation,
   ConversationSummary,
+  MessageDeleteScope,
+  MessagePage,
   ParticipantDetail,
 } from "../../models/schema/chat";
+import { MESSAGE_DELETE_SCOPES } from "../../models/schema/chat";
+import type { HiddenBy } from "../../models/types/report";
 import { firestoreService } from "../Firebase/firebase.service";
+import { socketService } from "./socket.service";
+import { attachmentService } from "./attachment.service";
+import { UserStatsService } from "../User/UserStats.service";
+import { BlockService } from "../User/Block.service";
+import { NotificationService } from "../Notification/notification.service";
+import { NOTIFICATION_TYPES } from "../../models/schema/notification";
 
 export class ChatService {
   private readonly MESSAGE_COLLECTION = "chat_message";
   private readonly CONVERSATIONS_COLLECTION = "conversations";
   private readonly USER_COLLECTION = "users"; // CAN BE USE TO VERIFY USER EXISTENCE BEFORE RETURNING CONVERSATION, NOT IMPLEMENTED
 
+  // How long after sending a message its sender can edit it
+  private readonly EDIT_WINDOW_MS =
+    (Number(process.env.MESSAGE_EDIT_WINDOW_MINUTES) || 15) * 60000;
+
   /**
    * ================================================
    *                  CONVERSATION
@@ -27,6 +42,7 @@ export class ChatService {
    * @returns Conversation ID (new or existing)
    *
    * @throws {Error} NUMBER_OF_MEMBERS_EXCEED_LIMIT if direct conversation has more than 2 participants
+   * @throws {Error} USER_BLOCKED if the creator and a participant blocked each other
    */
   async createConversation(
     creatorId: string,
@@ -39,6 +55,12 @@ export class ChatService {
       throw new Error("NUMBER_OF_MEMBERS_EXCEED_LIMIT");
     }
 
+    for (const userId of participants) {
+      if (userId !== creatorId) {
+        await BlockService.assertNotBlocked(creatorId, userId);
+      }
+    }
+
     if (
       type === "direct" &&
       participants.length >= 2 &&
@@ -140,28 +162,51 @@ export class ChatService {
    * @param content - Message content (text, image URL, file URL, etc.)
    * @param messageType - Type of message (default: "text")
    * @param metadata - Optional additional message metadata
+   * @param attachmentId - Optional uploaded attachment, for image and file
+   * messages
    * @returns ID of the created message
    *
    * @throws {Error} CONVERSATION_NOT_FOUND_OR_USER_NOT_AUTHORIZED if conversation doesn't exist or user is not a participant
+   * @throws {Error} USER_BLOCKED if the participants of a direct conversation blocked each other
+   * @throws {Error} ATTACHMENT_NOT_FOUND, ATTACHMENT_ALREADY_SENT, ATTACHMENT_NOT_UPLOADED or INVALID_ATTACHMENT if the attachment can't be sent
    */
   async sendMessage(
     conversationId: string,
     senderId: string,
     content: string,
     messageType: "text" | "image" | "file" | "system" = "text",
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    attachmentId?: string
   ): Promise<string> {
     const conversation = await this.getConversation(conversationId);
     if (!conversation || !conversation.participants.includes(senderId)) {
       throw new Error("CONVERSATION_NOT_FOUND_OR_USER_NOT_AUTHORIZED");
     }
 
+    // Group members stay able to write to the group
+    const recipientId = conversation.participants.find(
+      (id) => id !== senderId
+    );
+    if (conversation.type === "direct" && recipientId) {
+      await BlockService.assertNotBlocked(senderId, recipientId);
+    }
+
+    const attachment = attachmentId
+      ? await attachmentService.prepareForMessage(
+          attachmentId,
+          conversationId,
+          senderId,
+          messageType
+        )
+      : undefined;
+
     const messageData: Omit<ChatMessage, "id"> = {
       conversationId,
       senderId,
       content,
       messageType,
       metadata,
+      attachment,
       readBy: [senderId],
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -172,6 +217,10 @@ export class ChatService {
       messageData
     );
 
+    if (attachmentId) {
+      await attachmentService.markSent(attachmentId, messageId);
+    }
+
     await firestoreService.update<Conversation>(
       this.CONVERSATIONS_COLLECTION,
       conversationId,
@@ -180,35 +229,136 @@ export class ChatService {
       }
     );
 
+    if (messageType !== "system") {
+      await UserStatsService.recordMessage(conversationId, senderId);
+      await this.notifyRecipients(conversation, senderId, {
+        id: messageId,
+        content,
+        messageType,
+      });
+    }
+
     return messageId;
   }
 
   /**
-   * Retrieves messages from a conversation with pagination.
+   * Retrieves the latest messages of a conversation.
    *
    * @param conversationId - ID of the conversation to get messages from
    * @param limit - Maximum number of messages to return (default: 50)
-   * @param startAfter - Cursor for pagination (last message ID from previous page)
-   * @returns Array of chat messages, ordered by creation date (newest first)
+   * @returns Array of chat messages, ordered by creation date (newest first),
+   * with the content of hidden messages removed
    */
   async getConversationMessages(
     conversationId: string,
-    limit: number = 50,
-    startAfter?: any
+    limit: number = 50
   ): Promise<ChatMessage[]> {
-    let options: any = {
-      where: ["conversationId", "==", conversationId],
-      orderBy: { field: "createdAt", direction: "desc" },
-      limit,
-    };
+    const messages = await firestoreService.query<ChatMessage>(
+      this.MESSAGE_COLLECTION,
+      {
+        where: ["conversationId", "==", conversationId],
+        orderBy: { field: "createdAt", direction: "desc" },
+        limit,
+      }
+    );
+
+    return messages.map((message) => this.redact(message));
+  }
 
-    if (startAfter) {
-      options.startAfter = startAfter;
+  /**
+   * Retrieves a page of a conversation's history: the latest messages, the
+   * messages before or after a message, or a window around a message to
+   * jump to it. Messages are ordered by creation date then ID, so messages
+   * sent at the same time are neither skipped nor repeated across pages.
+   *
+   * @param conversationId - ID of the conversation
+   * @param options - One of the before, after or around message IDs, and
+   * the number of messages (default: 50)
+   * @param viewerId - ID of the reading user, whose deleted messages are
+   * left out
+   * @returns Page of messages (newest first, hidden content removed) with
+   * the cursors to load older and newer messages
+   *
+   * @throws {Error} MESSAGE_NOT_FOUND if a cursor message isn't in the
+   * conversation
+   */
+  async getMessageHistory(
+    conversationId: string,
+    options: {
+      before?: string;
+      after?: string;
+      around?: string;
+      limit?: number;
+    } = {},
+    viewerId?: string
+  ): Promise<MessagePage> {
+    const { before, after, around, limit = 50 } = options;
+
+    if (around) {
+      const target = await this.getCursorMessage(conversationId, around);
+
+      // The target sits in the middle of the window
+      const olderCount = Math.floor((limit - 1) / 2);
+      const [older, newer] = await Promise.all([
+        this.queryHistory(conversationId, "desc", olderCount, around),
+        this.queryHistory(
+          conversationId,
+          "asc",
+          limit - 1 - olderCount,
+          around
+        ),
+      ]);
+
+      return this.toPage(
+        [...newer.data.reverse(), target, ...older.data],
+        older.hasMore,
+        newer.hasMore,
+        null,
+        viewerId
+      );
     }
 
-    return await firestoreService.query<ChatMessage>(
+    if (after) {
+      await this.getCursorMessage(conversationId, after);
+      const newer = await this.queryHistory(
+        conversationId,
+        "asc",
+        limit,
+        after
+      );
+
+      return this.toPage(
+        newer.data.reverse(),
+        true,
+        newer.hasMore,
+        after,
+        viewerId
+      );
+    }
+
+    if (before) {
+      await this.getCursorMessage(conversationId, before);
+    }
+    const older = await this.queryHistory(
+      conversationId,
+      "desc",
+      limit,
+      before
+    );
+
+    return this.toPage(older.data, older.hasMore, !!before, before, viewerId);
+  }
+
+  /**
+   * Retrieves a message by its ID.
+   *
+   * @param messageId - ID of the message to retrieve
+   * @returns Chat message or null if not found
+   */
+  async getMessage(messageId: string): Promise<ChatMessage | null> {
+    return await firestoreService.getById<ChatMessage>(
       this.MESSAGE_COLLECTION,
-      options
+      messageId
     );
   }
 
@@ -277,6 +427,247 @@ export class ChatService {
         { readBy: updatedReadBy }
       );
     }
+
+    await NotificationService.markGroupAsRead(
+      userId,
+      `conversation_${conversationId}`
+    );
+  }
+
+  /**
+   * Hides a message on behalf of moderation, or shows it again. Hidden
+   * messages keep their place in the conversation without their content.
+   *
+   * @param messageId - ID of the message
+   * @param hiddenBy - Who hides the message, or null to show it again
+   * @returns Promise that resolves when the message is updated
+   *
+   * @throws {Error} MESSAGE_NOT_FOUND if message doesn't exist
+   */
+  async setMessageHidden(
+    messageId: string,
+    hiddenBy: HiddenBy | null
+  ): Promise<void> {
+    const message = await this.getMessage(messageId);
+    if (!message) {
+      throw new Error("MESSAGE_NOT_FOUND");
+    }
+
+    await firestoreService.update<ChatMessage>(
+      this.MESSAGE_COLLECTION,
+      messageId,
+      hiddenBy
+        ? { hiddenAt: Date.now(), hiddenBy }
+        : { hiddenAt: FieldValue.delete(), hiddenBy: FieldValue.delete() }
+    );
+  }
+
+  /**
+   * ================================================
+   *              EDITS AND REACTIONS
+   * ================================================
+   */
+
+  /**
+   * Edits a text message. Only its sender can edit it, within
+   * MESSAGE_EDIT_WINDOW_MINUTES of sending it, and the replaced content is
+   * kept in the edit history. The conversation gets a "message_edited"
+   * event.
+   *
+   * @param messageId - ID of the message to edit
+   * @param userId - ID of the user editing the message
+   * @param content - New content of the message
+   * @returns Edited message
+   *
+   * @throws {Error} MESSAGE_NOT_FOUND if message doesn't exist
+   * @throws {Error} CONVERSATION_NOT_FOUND_OR_USER_NOT_AUTHORIZED if user is not a participant
+   * @throws {Error} NOT_MESSAGE_SENDER if user didn't send the message
+   * @throws {Error} MESSAGE_NOT_EDITABLE if it isn't a text message, or was deleted or hidden
+   * @throws {Error} MESSAGE_EDIT_WINDOW_EXPIRED if it was sent too long ago
+   */
+  async editMessage(
+    messageId: string,
+    userId: string,
+    content: string
+  ): Promise<ChatMessage> {
+    const message = await this.getParticipantMessage(messageId, userId);
+
+    if (message.senderId !== userId) {
+      throw new Error("NOT_MESSAGE_SENDER");
+    }
+
+    if (
+      message.messageType !== "text" ||
+      message.deletedAt ||
+      message.hiddenAt
+    ) {
+      throw new Error("MESSAGE_NOT_EDITABLE");
+    }
+
+    if (Date.now() - this.toMillis(message.createdAt) > this.EDIT_WINDOW_MS) {
+      throw new Error("MESSAGE_EDIT_WINDOW_EXPIRED");
+    }
+
+    if (content === message.content) {
+      return this.redact(message);
+    }
+
+    const editedAt = Date.now();
+    const editHistory = [
+      ...(message.editHistory ?? []),
+      { content: message.content, editedAt },
+    ];
+
+    await firestoreService.update<ChatMessage>(
+      this.MESSAGE_COLLECTION,
+      messageId,
+      { content, editedAt, editHistory }
+    );
+
+    const edited = this.redact({ ...message, content, editedAt, editHistory });
+
+    socketService.emitToConversation(message.conversationId, "message_edited", {
+      conversationId: message.conversationId,
+      message: edited,
+    });
+
+    return edited;
+  }
+
+  /**
+   * Deletes a message. Deleting for "me" removes it from the user's own
+   * history only; deleting for "everyone" is reserved to the sender and
+   * leaves a tombstone without content in the conversation, its attachment
+   * removed. The user's devices, or the whole conversation, get a
+   * "message_deleted" event.
+   *
+   * @param messageId - ID of the message to delete
+   * @param userId - ID of the user deleting the message
+   * @param scope - "me" or "everyone" (default: "me")
+   * @returns Promise that resolves when the message is deleted
+   *
+   * @throws {Error} MESSAGE_NOT_FOUND if message doesn't exist
+   * @throws {Error} CONVERSATION_NOT_FOUND_OR_USER_NOT_AUTHORIZED if user is not a participant
+   * @throws {Error} NOT_MESSAGE_SENDER if user deletes for everyone a message they didn't send
+   */
+  async deleteMessage(
+    messageId: string,
+    userId: string,
+    scope: MessageDeleteScope = MESSAGE_DELETE_SCOPES.ME
+  ): Promise<void> {
+    const message = await this.getParticipantMessage(messageId, userId);
+    const { conversationId } = message;
+
+    if (scope === MESSAGE_DELETE_SCOPES.ME) {
+      await firestoreService.update<ChatMessage>(
+        this.MESSAGE_COLLECTION,
+        messageId,
+        { deletedFor: FieldValue.arrayUnion(userId) }
+      );
+
+      socketService.emitToUser(userId, "message_deleted", {
+        conversationId,
+        messageId,
+        scope,
+      });
+      return;
+    }
+
+    if (message.senderId !== userId) {
+      throw new Error("NOT_MESSAGE_SENDER");
+    }
+
+    if (message.deletedAt) return;
+
+    const deletedAt = Date.now();
+    await firestoreService.update<ChatMessage>(
+      this.MESSAGE_COLLECTION,
+      messageId,
+      {
+        deletedAt,
+        content: "",
+        metadata: FieldValue.delete(),
+        editHistory: FieldValue.delete(),
+        reactions: FieldValue.delete(),
+        attachment: FieldValue.delete(),
+      }
+    );
+
+    if (message.attachment) {
+      await attachmentService.removeAttachment(message.attachment.id);
+    }
+
+    socketService.emitToConversation(conversationId, "message_deleted", {
+      conversationId,
+      messageId,
+      scope,
+      deletedAt,
+    });
+  }
+
+  /**
+   * Adds the user's reaction to a message. A user can react with several
+   * emojis, each once. The conversation gets a "reaction_added" event.
+   *
+   * @param messageId - ID of the message
+   * @param userId - ID of the user reacting
+   * @param emoji - Emoji of the reaction
+   * @returns Promise that resolves when the reaction is stored
+   *
+   * @throws {Error} MESSAGE_NOT_FOUND if message doesn't exist or was deleted
+   * @throws {Error} CONVERSATION_NOT_FOUND_OR_USER_NOT_AUTHORIZED if user is not a participant
+   */
+  async addReaction(
+    messageId: string,
+    userId: string,
+    emoji: string
+  ): Promise<void> {
+    const message = await this.getParticipantMessage(messageId, userId);
+    if (message.deletedAt) {
+      throw new Error("MESSAGE_NOT_FOUND");
+    }
+
+    await this.updateReaction(messageId, emoji, FieldValue.arrayUnion(userId));
+
+    socketService.emitToConversation(message.conversationId, "reaction_added", {
+      conversationId: message.conversationId,
+      messageId,
+      emoji,
+      userId,
+    });
+  }
+
+  /**
+   * Removes the user's reaction from a message. The conversation gets a
+   * "reaction_removed" event.
+   *
+   * @param messageId - ID of the message
+   * @param userId - ID of the user who reacted
+   * @param emoji - Emoji of the reaction
+   * @returns Promise that resolves when the reaction is removed
+   *
+   * @throws {Error} MESSAGE_NOT_FOUND if message doesn't exist
+   * @throws {Error} CONVERSATION_NOT_FOUND_OR_USER_NOT_AUTHORIZED if user is not a participant
+   */
+  async removeReaction(
+    messageId: string,
+    userId: string,
+    emoji: string
+  ): Promise<void> {
+    const message = await this.getParticipantMessage(messageId, userId);
+    if (!message.reactions?.[emoji]?.includes(userId)) return;
+
+    await this.updateReaction(
+      messageId,
+      emoji,
+      FieldValue.arrayRemove(userId)
+    );
+
+    socketService.emitToConversation(
+      message.conversationId,
+      "reaction_removed",
+      { conversationId: message.conversationId, messageId, emoji, userId }
+    );
   }
 
   /**
@@ -356,7 +747,158 @@ export class ChatService {
       }
     );
 
-    return message[0] || null;
+    return message[0] ? this.redact(message[0]) : null;
+  }
+
+  /**
+   * Gets a message used as a history cursor, making sure it belongs to
+   * the conversation.
+   */
+  private async getCursorMessage(
+    conversationId: string,
+    messageId: string
+  ): Promise<ChatMessage> {
+    const message = await this.getMessage(messageId);
+    if (!message || message.conversationId !== conversationId) {
+      throw new Error("MESSAGE_NOT_FOUND");
+    }
+    return message;
+  }
+
+  /**
+   * Queries the messages older ("desc") or newer ("asc") than a cursor
+   * message. Firestore breaks creation date ties on the document ID.
+   */
+  private async queryHistory(
+    conversationId: string,
+    direction: "asc" | "desc",
+    pageSize: number,
+    cursor?: string
+  ) {
+    return await firestoreService.queryPagination<ChatMessage>(
+      this.MESSAGE_COLLECTION,
+      {
+        where: ["conversationId", "==", conversationId],
+        orderBy: { field: "createdAt", direction },
+        pageSize,
+      },
+      cursor
+    );
+  }
+
+  /**
+   * Builds a history page from messages ordered newest first. An empty
+   * page keeps the request cursor to continue from. The cursors are taken
+   * before the viewer's deleted messages are left out, so they still move.
+   */
+  private toPage(
+    messages: ChatMessage[],
+    hasOlder: boolean,
+    hasNewer: boolean,
+    cursor: string | null = null,
+    viewerId?: string
+  ): MessagePage {
+    return {
+      messages: messages
+        .filter(
+          (message) => !viewerId || !message.deletedFor?.includes(viewerId)
+        )
+        .map((message) => this.redact(message)),
+      before: hasOlder ? messages[messages.length - 1]?.id ?? cursor : null,
+      after: hasNewer ? messages[0]?.id ?? cursor : null,
+      hasOlder,
+      hasNewer,
+    };
+  }
+
+  /**
+   * Notifies the other participants of a new message. The messages of a
+   * conversation share one notification per participant until it is read.
+   */
+  private async notifyRecipients(
+    conversation: Conversation,
+    senderId: string,
+    message: Pick<ChatMessage, "id" | "content" | "messageType">
+  ): Promise<void> {
+    const body =
+      message.messageType === "image"
+        ? "Sent an image"
+        : message.messageType === "file"
+        ? "Sent a file"
+        : message.content.slice(0, 100);
+
+    const recipients = conversation.participants.filter(
+      (userId) => userId !== senderId
+    );
+
+    await Promise.all(
+      recipients.map((userId) =>
+        NotificationService.notify(userId, {
+          type: NOTIFICATION_TYPES.NEW_MESSAGE,
+          title: conversation.name ?? "New message",
+          body,
+          data: {
+            conversationId: conversation.id,
+            messageId: message.id,
+            senderId,
+          },
+          groupKey: `conversation_${conversation.id}`,
+        })
+      )
+    );
+  }
+
+  /**
+   * Removes the content of a message hidden by moderation or deleted for
+   * everyone, and who deleted it for themselves.
+   */
+  private redact(message: ChatMessage): ChatMessage {
+    const { deletedFor, ...visible } = message;
+    if (!message.hiddenAt && !message.deletedAt) return visible;
+
+    const { metadata, editHistory, reactions, attachment, ...rest } = visible;
+    return { ...rest, content: "" };
+  }
+
+  /**
+   * Gets a message on behalf of a participant of its conversation.
+   */
+  private async getParticipantMessage(
+    messageId: string,
+    userId: string
+  ): Promise<ChatMessage> {
+    const message = await this.getMessage(messageId);
+    if (!message) {
+      throw new Error("MESSAGE_NOT_FOUND");
+    }
+
+    const conversation = await this.getConversation(message.conversationId);
+    if (!conversation || !conversation.participants.includes(userId)) {
+      throw new Error("CONVERSATION_NOT_FOUND_OR_USER_NOT_AUTHORIZED");
+    }
+
+    return message;
+  }
+
+  /**
+   * Updates the users of one reaction. The emoji is a field path segment of
+   * its own, so it can't reach other fields whatever its characters.
+   */
+  private async updateReaction(
+    messageId: string,
+    emoji: string,
+    users: FieldValue
+  ): Promise<void> {
+    await firestoreService
+      .getDocumentReference(this.MESSAGE_COLLECTION, messageId)
+      .update(new FieldPath("reactions", emoji), users, "updateAt", new Date());
+  }
+
+  // Firestore returns stored dates as Timestamps
+  private toMillis(value: any): number {
+    if (value instanceof Date) return value.getTime();
+    if (value && typeof value.toMillis === "function") return value.toMillis();
+    return new Date(value).getTime();
   }
 
   /**
@@ -1,7 +1,12 @@
 import { Server as SocketIOServer, Socket } from "socket.io";
 import type { Server as HTTPServer } from "http";
 import { chatService } from "./chat.service";
-import { message } from "valibot";
+import { message, parse } from "valibot";
+import {
+  DeleteMessageQuerySchema,
+  EditMessageSchema,
+  ReactionSchema,
+} from "../../models/schema/chat";
 import { chatAuthMiddleware } from "../../middleware/chat.middleware";
 
 interface AuthenticatedSocket extends Socket {
@@ -79,6 +84,7 @@ export class SocketService {
             content,
             messageType = "text",
             metadata,
+            attachmentId,
           } = data;
 
           const messageId = await chatService.sendMessage(
@@ -86,7 +92,8 @@ export class SocketService {
             userId!,
             content,
             messageType,
-            metadata
+            metadata,
+            attachmentId
           );
 
           const message = await chatService.getConversationMessages(
@@ -133,6 +140,47 @@ export class SocketService {
         }
       });
 
+      // The service broadcasts the result to the conversation
+      socket.on("edit_message", async (data) => {
+        try {
+          const { messageId } = data;
+          const { content } = parse(EditMessageSchema, data);
+          await chatService.editMessage(messageId, userId!, content);
+        } catch (error: any) {
+          socket.emit("MESSAGE_ERROR", { error: error.message });
+        }
+      });
+
+      socket.on("delete_message", async (data) => {
+        try {
+          const { messageId } = data;
+          const { scope } = parse(DeleteMessageQuerySchema, data);
+          await chatService.deleteMessage(messageId, userId!, scope);
+        } catch (error: any) {
+          socket.emit("MESSAGE_ERROR", { error: error.message });
+        }
+      });
+
+      socket.on("add_reaction", async (data) => {
+        try {
+          const { messageId } = data;
+          const { emoji } = parse(ReactionSchema, data);
+          await chatService.addReaction(messageId, userId!, emoji);
+        } catch (error: any) {
+          socket.emit("MESSAGE_ERROR", { error: error.message });
+        }
+      });
+
+      socket.on("remove_reaction", async (data) => {
+        try {
+          const { messageId } = data;
+          const { emoji } = parse(ReactionSchema, data);
+          await chatService.removeReaction(messageId, userId!, emoji);
+        } catch (error: any) {
+          socket.emit("MESSAGE_ERROR", { error: error.message });
+        }
+      });
+
       socket.on("join_conversation", (conversationId) => {
         socket.join(`conversation:${conversationId}`);
         console.log(`User ${userId} joined conversation: ${conversationId}`);
@@ -199,6 +247,16 @@ export class SocketService {
     }
   }
 
+  /**
+   * Checks whether a user has a socket connected to this server.
+   *
+   * @param userId - ID of the user
+   * @returns True if the user is connected
+   */
+  isUserOnline(userId: string): boolean {
+    return (this.userSockets.get(userId)?.length ?? 0) > 0;
+  }
+
   /**
    * Emits an event to a specific user across all their connected sockets.
    *
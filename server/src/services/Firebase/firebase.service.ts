@@ -1,6 +1,8 @@
 import type {
   DocumentData,
+  DocumentReference,
   DocumentSnapshot,
+  FieldValue,
   Firestore,
   Query,
   Transaction,
@@ -8,8 +10,16 @@ import type {
 } from "firebase-admin/firestore";
 import { firebaseAdmin } from "./firebaseAdmin.service";
 
+export type WhereClause = [string, WhereFilterOp, unknown];
+
+// Fields of an update, each a value or a sentinel (increment, delete, ...)
+export type UpdateData<T> = {
+  [K in keyof Omit<T, "id" | "createdAt" | "updatedAt">]?: T[K] | FieldValue;
+};
+
 export interface QueryOptions {
-  where?: [string, WhereFilterOp, unknown];
+  // A single clause or several clauses combined with AND
+  where?: WhereClause | WhereClause[];
   orderBy?: { field: string; direction: "asc" | "desc" };
   limit?: number;
   startAfter?: DocumentSnapshot;
@@ -18,10 +28,15 @@ export interface QueryOptions {
 export interface PaginationResult<T> {
   data: T[];
   lastDoc: DocumentSnapshot | null | undefined;
+  nextCursor: string | null; // id of the last document, for the next page
   hasMore: boolean;
   total?: number;
 }
 
+// Operators whose value is a list of values
+const LIST_OPERATORS: WhereFilterOp[] = ["in", "not-in", "array-contains-any"];
+const MAX_LIST_VALUES = 30;
+
 export interface BatchOperation<T> {
   type: "create" | "update" | "delete";
   id?: string;
@@ -83,7 +98,7 @@ export class FirebaseService {
   async update<T>(
     collectionPath: string,
     id: string,
-    data: Partial<Omit<T, "id" | "createdAt" | "updatedAt">>
+    data: UpdateData<T>
   ): Promise<void> {
     try {
       const docRef = this.db.collection(collectionPath).doc(id);
@@ -111,7 +126,7 @@ export class FirebaseService {
     try {
       const doc = await this.db.collection(collectionPath).doc(id).get();
 
-      if (!doc) {
+      if (!doc.exists) {
         return null;
       }
 
@@ -125,6 +140,30 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Reads several documents in one round trip.
+   *
+   * @returns The documents in the order of the IDs, null where missing
+   */
+  async getByIds<T>(
+    collectionPath: string,
+    ids: string[]
+  ): Promise<(T | null)[]> {
+    if (ids.length === 0) return [];
+
+    try {
+      const collection = this.db.collection(collectionPath);
+      const docs = await this.db.getAll(...ids.map((id) => collection.doc(id)));
+
+      return docs.map((doc) =>
+        doc.exists ? ({ id: doc.id, ...doc.data() } as T) : null
+      );
+    } catch (error) {
+      console.error(`Firestore get all error in ${collectionPath}:`, error);
+      throw this.handleFirestoreError(error);
+    }
+  }
+
   /**
    *  ===== QUERY OPERATIONS =====
    */
@@ -134,11 +173,10 @@ export class FirebaseService {
     options: QueryOptions = {}
   ): Promise<T[]> {
     try {
-      let query: Query = this.db.collection(collectionPath);
-
-      if (options.where) {
-        query = query.where(...options.where);
-      }
+      let query: Query = this.applyWhere(
+        this.db.collection(collectionPath),
+        options.where
+      );
 
       if (options.orderBy) {
         query = query.orderBy(options.orderBy.field, options.orderBy.direction);
@@ -167,17 +205,28 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Runs a query one page at a time.
+   * The cursor can be the last snapshot of the previous page or, across
+   * requests, its document id (`nextCursor`).
+   *
+   * @param collectionPath - Collection to query
+   * @param options - Query options plus the page size
+   * @param startAfter - Cursor of the previous page
+   * @returns Page of documents and the cursor of the next page
+   *
+   * @throws {Error} INVALID_CURSOR if the cursor document doesn't exist
+   */
   async queryPagination<T>(
     collectionPath: string,
     options: QueryOptions & { pageSize: number },
-    startAfter?: DocumentSnapshot
+    startAfter?: DocumentSnapshot | string
   ): Promise<PaginationResult<T>> {
     try {
-      let query: Query = this.db.collection(collectionPath);
-
-      if (options.where) {
-        query = query.where(...options.where);
-      }
+      let query: Query = this.applyWhere(
+        this.db.collection(collectionPath),
+        options.where
+      );
 
       if (options.orderBy) {
         query = query.orderBy(options.orderBy.field, options.orderBy.direction);
@@ -185,7 +234,18 @@ export class FirebaseService {
 
       query = query.limit(options.pageSize + 1);
 
-      if (startAfter) {
+      if (typeof startAfter === "string") {
+        const cursor = await this.db
+          .collection(collectionPath)
+          .doc(startAfter)
+          .get();
+
+        if (!cursor.exists) {
+          throw new Error("INVALID_CURSOR");
+        }
+
+        query = query.startAfter(cursor);
+      } else if (startAfter) {
         query = query.startAfter(startAfter);
       }
 
@@ -205,9 +265,12 @@ export class FirebaseService {
           } as T)
       );
 
+      const lastDoc = hasMore ? docs[docs.length - 1] : null;
+
       return {
         data,
-        lastDoc: hasMore ? docs[docs.length - 1] : null,
+        lastDoc,
+        nextCursor: lastDoc?.id ?? null,
         hasMore,
       };
     } catch (error) {
@@ -295,6 +358,20 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Returns a document reference for use inside a transaction.
+   * When no id is given, a reference with a new auto-generated id is returned.
+   *
+   * @param collectionPath - Collection containing the document
+   * @param id - Optional document id
+   * @returns Firestore document reference
+   */
+  getDocumentReference(collectionPath: string, id?: string): DocumentReference {
+    return id
+      ? this.db.collection(collectionPath).doc(id)
+      : this.db.collection(collectionPath).doc();
+  }
+
   /**
    * ===== REAL-TIME OPERATIONS =====
    */
@@ -359,20 +436,51 @@ export class FirebaseService {
     conditions?: QueryOptions
   ): Promise<number> {
     try {
-      let query: Query = this.db.collection(collectionPath);
-
-      if (conditions?.where) {
-        query = query.where(...conditions.where);
-      }
+      const query = this.applyWhere(
+        this.db.collection(collectionPath),
+        conditions?.where
+      );
 
-      const snapshot = await query.get();
-      return snapshot.size;
+      const snapshot = await query.count().get();
+      return snapshot.data().count;
     } catch (error) {
       console.error(`Firestore count error in ${collectionPath}:`, error);
       throw this.handleFirestoreError(error);
     }
   }
 
+  /**
+   * Adds one or several where clauses to a query.
+   *
+   * @throws {Error} INVALID_QUERY_FILTER if a list operator ("in", "not-in",
+   *         "array-contains-any") gets an empty or too long list
+   */
+  private applyWhere(
+    query: Query,
+    where?: WhereClause | WhereClause[]
+  ): Query {
+    if (!where) return query;
+
+    const clauses = (
+      Array.isArray(where[0]) ? where : [where]
+    ) as WhereClause[];
+
+    for (const [field, operator, value] of clauses) {
+      if (
+        LIST_OPERATORS.includes(operator) &&
+        (!Array.isArray(value) ||
+          value.length === 0 ||
+          value.length > MAX_LIST_VALUES)
+      ) {
+        throw new Error("INVALID_QUERY_FILTER");
+      }
+
+      query = query.where(field, operator, value);
+    }
+
+    return query;
+  }
+
   private handleFirestoreError(error: any): Error {
     console.error("Firestore Operation Error:", error);
 
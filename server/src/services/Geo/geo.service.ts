@@ -0,0 +1,265 @@
+import type { DocumentSnapshot } from "firebase-admin/firestore";
+import {
+  firestoreService,
+  type WhereClause,
+} from "../Firebase/firebase.service";
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface NearbyQueryOptions {
+  where?: WhereClause[]; // extra equality filters
+  limit?: number;
+}
+
+/**
+ * Geohash indexing for radius queries.
+ *
+ * Locations are stored with a geohash (`location.geohash`). A radius query is
+ * turned into a few geohash range queries (the cell around the center and its
+ * neighbours), then the exact distance is checked and results are sorted by
+ * it, so Firestore only returns documents close to the center.
+ */
+export class GeoService {
+  static readonly GEOHASH_FIELD = "location.geohash";
+  static readonly GEOHASH_PRECISION = 10;
+
+  private static readonly BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+  private static readonly EARTH_RADIUS_KM = 6371;
+  private static readonly KM_PER_DEGREE = 111.32;
+
+  // Documents read per query while paging through a geohash range
+  private static readonly RANGE_PAGE_SIZE = 500;
+
+  /**
+   * Encodes a location as a geohash.
+   *
+   * @param latitude - Latitude in degrees
+   * @param longitude - Longitude in degrees
+   * @param precision - Number of characters (default: 10, about 1 m)
+   * @returns Geohash string
+   *
+   * @example
+   * GeoService.encode(40.7128, -74.006); // "dr5regw3pp"
+   */
+  static encode(
+    latitude: number,
+    longitude: number,
+    precision: number = this.GEOHASH_PRECISION
+  ): string {
+    const latRange = [-90, 90];
+    const lonRange = [-180, 180];
+
+    let hash = "";
+    let bits = 0;
+    let value = 0;
+    let evenBit = true; // longitude first
+
+    while (hash.length < precision) {
+      const range = evenBit ? lonRange : latRange;
+      const coordinate = evenBit ? longitude : latitude;
+      const mid = (range[0]! + range[1]!) / 2;
+
+      value <<= 1;
+      if (coordinate >= mid) {
+        value |= 1;
+        range[0] = mid;
+      } else {
+        range[1] = mid;
+      }
+
+      evenBit = !evenBit;
+
+      if (++bits === 5) {
+        hash += this.BASE32[value];
+        bits = 0;
+        value = 0;
+      }
+    }
+
+    return hash;
+  }
+
+  /**
+   * Computes the geohash ranges covering a circle.
+   *
+   * @param center - Center of the circle
+   * @param radiusKm - Radius in kilometers
+   * @returns [start, end] geohash ranges to query
+   */
+  static queryBounds(center: GeoPoint, radiusKm: number): [string, string][] {
+    const precision = this.precisionForRadius(center.latitude, radiusKm);
+    if (precision === 0) {
+      return [["", "~"]];
+    }
+
+    const { width, height } = this.cellSize(precision);
+
+    const hashes = new Set<string>();
+    for (const latOffset of [-height, 0, height]) {
+      for (const lonOffset of [-width, 0, width]) {
+        const latitude = Math.max(
+          -90,
+          Math.min(90, center.latitude + latOffset)
+        );
+        const longitude =
+          ((((center.longitude + lonOffset + 180) % 360) + 360) % 360) - 180;
+
+        hashes.add(this.encode(latitude, longitude, precision));
+      }
+    }
+
+    // "~" sorts after every geohash character
+    return [...hashes].map((hash) => [hash, `${hash}~`]);
+  }
+
+  /**
+   * Calculates distance between two geographic points using Haversine formula.
+   *
+   * @param from - First point
+   * @param to - Second point
+   * @returns Distance in kilometers
+   */
+  static distanceKm(from: GeoPoint, to: GeoPoint): number {
+    const dLat = this.deg2rad(to.latitude - from.latitude);
+    const dLon = this.deg2rad(to.longitude - from.longitude);
+
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(this.deg2rad(from.latitude)) *
+        Math.cos(this.deg2rad(to.latitude)) *
+        Math.sin(dLon / 2) *
+        Math.sin(dLon / 2);
+
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return this.EARTH_RADIUS_KM * c;
+  }
+
+  /**
+   * Finds the documents of a collection within a radius, closest first.
+   * Documents without a geohash are not indexed and never returned.
+   *
+   * @param collectionPath - Collection whose documents have a `location`
+   * @param center - Center of the search
+   * @param radiusKm - Search radius in kilometers
+   * @param options - Extra filters and maximum number of results
+   * @returns Documents within the radius with their distance (km, 2 decimals)
+   */
+  static async queryNearby<T extends { location: GeoPoint }>(
+    collectionPath: string,
+    center: GeoPoint,
+    radiusKm: number,
+    options: NearbyQueryOptions = {}
+  ): Promise<(T & { distance: number })[]> {
+    const bounds = this.queryBounds(center, radiusKm);
+
+    const snapshots = await Promise.all(
+      bounds.map(([start, end]) =>
+        this.queryRange<T & { id: string }>(collectionPath, start, end, options)
+      )
+    );
+
+    const seen = new Set<string>();
+    const results: (T & { distance: number })[] = [];
+
+    for (const doc of snapshots.flat()) {
+      if (seen.has(doc.id) || !doc.location) continue;
+      seen.add(doc.id);
+
+      const distance = this.distanceKm(center, doc.location);
+      if (distance <= radiusKm) {
+        results.push({ ...doc, distance: Math.round(distance * 100) / 100 });
+      }
+    }
+
+    results.sort((a, b) => a.distance - b.distance);
+
+    return options.limit ? results.slice(0, options.limit) : results;
+  }
+
+  /**
+   * Reads every document of a geohash range, page by page. Ranges are sorted
+   * by geohash rather than distance, so stopping early could drop documents
+   * closer to the center than the ones already read.
+   */
+  private static async queryRange<T>(
+    collectionPath: string,
+    start: string,
+    end: string,
+    options: NearbyQueryOptions
+  ): Promise<T[]> {
+    const docs: T[] = [];
+    let cursor: DocumentSnapshot | undefined;
+
+    do {
+      const page = await firestoreService.queryPagination<T>(
+        collectionPath,
+        {
+          where: [
+            ...(options.where ?? []),
+            [this.GEOHASH_FIELD, ">=", start],
+            [this.GEOHASH_FIELD, "<=", end],
+          ],
+          orderBy: { field: this.GEOHASH_FIELD, direction: "asc" },
+          pageSize: this.RANGE_PAGE_SIZE,
+        },
+        cursor
+      );
+
+      docs.push(...page.data);
+      cursor = page.lastDoc ?? undefined;
+    } while (cursor);
+
+    return docs;
+  }
+
+  /**
+   * Picks the longest geohash whose cells are at least as large as the
+   * radius, so the circle always fits in a cell and its neighbours.
+   *
+   * @returns Geohash precision, 0 when the radius is larger than any cell
+   */
+  private static precisionForRadius(latitude: number, radiusKm: number): number {
+    // Cells get narrower towards the poles
+    const lonScale = Math.max(Math.cos(this.deg2rad(latitude)), 0.01);
+
+    for (let precision = this.GEOHASH_PRECISION; precision > 0; precision--) {
+      const { width, height } = this.cellSize(precision);
+
+      if (
+        height * this.KM_PER_DEGREE >= radiusKm &&
+        width * this.KM_PER_DEGREE * lonScale >= radiusKm
+      ) {
+        return precision;
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Size in degrees of a geohash cell.
+   */
+  private static cellSize(precision: number): { width: number; height: number } {
+    const bits = precision * 5;
+    const lonBits = Math.ceil(bits / 2);
+    const latBits = Math.floor(bits / 2);
+
+    return {
+      width: 360 / 2 ** lonBits,
+      height: 180 / 2 ** latBits,
+    };
+  }
+
+  /**
+   * Converts degrees to radians.
+   *
+   * @param deg - Angle in degrees
+   * @returns Angle in radians
+   */
+  private static deg2rad(deg: number): number {
+    return deg * (Math.PI / 180);
+  }
+}
@@ -0,0 +1,123 @@
+import {
+  createMailTransportFromEnv,
+  type MailMessage,
+  type MailTransport,
+} from "./mail.transport";
+
+export class MailService {
+  private static instance: MailService;
+  private transport: MailTransport;
+  private from: string;
+  private appUrl: string;
+
+  private constructor() {
+    this.transport = createMailTransportFromEnv();
+    this.from = process.env.MAIL_FROM || "Don-App <no-reply@don-app.local>";
+    this.appUrl = (process.env.APP_URL || "http://localhost:3000").replace(
+      /\/+$/,
+      ""
+    );
+  }
+
+  /**
+   * Gets the singleton instance of MailService.
+   *
+   * @returns Singleton instance of MailService
+   */
+  public static getInstance(): MailService {
+    if (!MailService.instance) {
+      MailService.instance = new MailService();
+    }
+    return MailService.instance;
+  }
+
+  /**
+   * Replaces the delivery backend (e.g. a real provider or a test double).
+   *
+   * @param transport - Transport to use for subsequent emails
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Sends an email through the configured transport.
+   *
+   * @param message - Recipient, subject and body
+   * @throws {Error} MAIL_DELIVERY_FAILED if the transport fails
+   */
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({ ...message, from: this.from });
+    } catch (error) {
+      console.error(
+        `Mail delivery via ${this.transport.name} transport failed:`,
+        error
+      );
+      throw new Error("MAIL_DELIVERY_FAILED");
+    }
+  }
+
+  /**
+   * Sends the email address verification link.
+   *
+   * @param to - Recipient address
+   * @param name - Recipient display name
+   * @param token - Signed email verification token
+   */
+  async sendEmailVerification(
+    to: string,
+    name: string,
+    token: string
+  ): Promise<void> {
+    const link = `${this.appUrl}/verify-email?token=${encodeURIComponent(
+      token
+    )}`;
+
+    await this.send({
+      to,
+      subject: "Verify your Don-App email address",
+      text: [
+        `Hi ${name},`,
+        "",
+        "Please confirm your email address by opening the link below:",
+        link,
+        "",
+        "If you didn't create a Don-App account you can ignore this email.",
+      ].join("\n"),
+    });
+  }
+
+  /**
+   * Sends the password reset link.
+   *
+   * @param to - Recipient address
+   * @param name - Recipient display name
+   * @param token - Signed password reset token
+   */
+  async sendPasswordReset(
+    to: string,
+    name: string,
+    token: string
+  ): Promise<void> {
+    const link = `${this.appUrl}/reset-password?token=${encodeURIComponent(
+      token
+    )}`;
+
+    await this.send({
+      to,
+      subject: "Reset your Don-App password",
+      text: [
+        `Hi ${name},`,
+        "",
+        "We received a request to reset your password. Open the link below to choose a new one:",
+        link,
+        "",
+        "The link can only be used once and expires shortly.",
+        "If you didn't request a password reset you can ignore this email.",
+      ].join("\n"),
+    });
+  }
+}
+
+export const mailService = MailService.getInstance();
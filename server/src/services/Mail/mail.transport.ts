@@ -0,0 +1,83 @@
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { randomBytes } from "crypto";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivery backend used by MailService.
+ * Implement this to plug in a real provider (SMTP, SES, SendGrid, ...).
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Prints outgoing emails to the console. Meant for local development.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = "console";
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(
+      [
+        "📧 Outgoing email",
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        "",
+        message.text,
+      ].join("\n")
+    );
+  }
+}
+
+/**
+ * Writes outgoing emails as .eml files to a directory so they can be
+ * inspected (or opened by a mail client) during local testing.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = "file";
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const filename = `${Date.now()}-${randomBytes(4).toString("hex")}.eml`;
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      message.text,
+    ].join("\r\n");
+
+    await writeFile(join(this.directory, filename), content, "utf8");
+  }
+}
+
+/**
+ * Builds the transport selected by MAIL_TRANSPORT ("console" | "file").
+ *
+ * @returns Configured mail transport (defaults to console)
+ */
+export function createMailTransportFromEnv(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "file":
+      return new FileMailTransport(
+        process.env.MAIL_OUTBOX_DIR || "./tmp/mail"
+      );
+    case "console":
+    default:
+      return new ConsoleMailTransport();
+  }
+}
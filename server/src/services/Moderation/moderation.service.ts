@@ -0,0 +1,759 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { safeParse } from "valibot";
+import {
+  CreateReportSchema,
+  HIDDEN_BY,
+  MODERATION_ACTIONS,
+  ModerationActionSchema,
+  ModerationLogSchema,
+  REPORT_STATUS,
+  REPORT_TARGET_TYPES,
+  ReportSchema,
+} from "../../models/schema/report";
+import { PUBLICATION_STATUS } from "../../models/schema/publication";
+import type {
+  ModerationActionType,
+  ModerationLog,
+  Report,
+  ReportStatus,
+  ReportTargetType,
+} from "../../models/types/report";
+import type { User } from "../../models/types/user";
+import {
+  firestoreService,
+  type WhereClause,
+} from "../Firebase/firebase.service";
+import { chatService } from "../Chat/chat.service";
+import { socketService } from "../Chat/socket.service";
+import { PublicationService } from "../Publication/publication.service";
+import { UserService } from "../User/User.service";
+import { JWTService } from "../User/JWT.service";
+import { SessionService } from "../User/Session.service";
+import { NotificationService } from "../Notification/notification.service";
+import { NOTIFICATION_TYPES } from "../../models/schema/notification";
+
+/**
+ * Reports of abusive publications, users and chat messages, and what
+ * moderators do about them. Users report a target once while their report
+ * is open; moderators work through the open reports and every action they
+ * take resolves all the open reports of the target and is written to the
+ * moderation log.
+ *
+ * Publications and messages reported by `REPORT_AUTO_HIDE_THRESHOLD`
+ * users (default: 3) are hidden until a moderator reviews them.
+ */
+export class ModerationService {
+  private static readonly COLLECTION_NAME = "report";
+  private static readonly LOG_COLLECTION = "moderation_log";
+  private static readonly USER_COLLECTION = "users";
+
+  private static readonly AUTO_HIDE_THRESHOLD =
+    Number(process.env.REPORT_AUTO_HIDE_THRESHOLD) || 3;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private static readonly DEFAULT_PAGE_SIZE = 20;
+
+  /**
+   * ================================================
+   *                     CREATIONS
+   * ================================================
+   */
+
+  /**
+   * Reports a publication, a user or a message of one of the reporter's
+   * conversations. Reaching the report threshold hides the publication or
+   * message.
+   *
+   * @param reporterId - ID of the user reporting
+   * @param input - Target, reason and optional details
+   * @returns Promise resolving to the created report
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} REPORT_TARGET_NOT_FOUND if the target doesn't exist or
+   * the reporter can't see it
+   * @throws {Error} CANNOT_REPORT_OWN_CONTENT if the reporter is the author
+   * @throws {Error} REPORT_ALREADY_EXISTS if the reporter has an open report
+   * on the target
+   */
+  static async createReport(
+    reporterId: string,
+    input: unknown
+  ): Promise<Report> {
+    try {
+      const result = safeParse(CreateReportSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const { targetType, targetId, reason, details } = result.output;
+
+      const targetOwnerId = await this.getTargetOwner(
+        targetType,
+        targetId,
+        reporterId
+      );
+
+      if (targetOwnerId === reporterId) {
+        throw new Error("CANNOT_REPORT_OWN_CONTENT");
+      }
+
+      // One open report per reporter and target
+      const id = `${targetType}_${targetId}_${reporterId}`;
+      const report: Report = {
+        id,
+        targetType,
+        targetId,
+        targetOwnerId,
+        reason,
+        ...(details && { details }),
+        reporterId,
+        status: REPORT_STATUS.OPEN,
+        reportedAt: Date.now(),
+      };
+
+      await firestoreService.runTransaction(async (transaction) => {
+        const reference = firestoreService.getDocumentReference(
+          this.COLLECTION_NAME,
+          id
+        );
+        const snapshot = await transaction.get(reference);
+
+        if (snapshot.data()?.status === REPORT_STATUS.OPEN) {
+          throw new Error("REPORT_ALREADY_EXISTS");
+        }
+
+        // A resolved report of the same user is replaced by the new one
+        transaction.set(reference, report);
+      });
+
+      await this.autoHide(report);
+
+      return report;
+    } catch (error) {
+      console.error(`Failed to create report by user ${reporterId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                     UPDATES
+   * ================================================
+   */
+
+  /**
+   * Takes a moderation action on the target of a report, resolves every
+   * open report of the target and logs the action. The author of the
+   * content is notified with a "moderation_action" event.
+   *
+   * @param reportId - ID of the report being handled
+   * @param moderatorId - ID of the moderator
+   * @param input - Action, optional note and suspension length
+   * @returns Promise resolving to the log entry of the action
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} REPORT_NOT_FOUND if the report doesn't exist
+   * @throws {Error} REPORT_ALREADY_RESOLVED if the report isn't open
+   * @throws {Error} CANNOT_MODERATE_OWN_CONTENT if the moderator is the author
+   * @throws {Error} ACTION_NOT_APPLICABLE if hiding a target that isn't a
+   * publication
+   */
+  static async takeAction(
+    reportId: string,
+    moderatorId: string,
+    input: unknown
+  ): Promise<ModerationLog> {
+    try {
+      const result = safeParse(ModerationActionSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const { action, note, suspensionDays } = result.output;
+
+      const report = await this.getReportById(reportId);
+      if (!report) {
+        throw new Error("REPORT_NOT_FOUND");
+      }
+
+      if (report.status !== REPORT_STATUS.OPEN) {
+        throw new Error("REPORT_ALREADY_RESOLVED");
+      }
+
+      if (report.targetOwnerId === moderatorId) {
+        throw new Error("CANNOT_MODERATE_OWN_CONTENT");
+      }
+
+      let suspendedUntil: number | undefined;
+
+      switch (action) {
+        case MODERATION_ACTIONS.DISMISS:
+          await this.restoreAutoHidden(report);
+          break;
+
+        case MODERATION_ACTIONS.HIDE_PUBLICATION:
+          if (report.targetType !== REPORT_TARGET_TYPES.PUBLICATION) {
+            throw new Error("ACTION_NOT_APPLICABLE");
+          }
+          await PublicationService.hidePublication(
+            report.targetId,
+            HIDDEN_BY.MODERATOR
+          );
+          break;
+
+        case MODERATION_ACTIONS.WARN_USER:
+          await this.warnUser(report.targetOwnerId);
+          break;
+
+        case MODERATION_ACTIONS.SUSPEND_USER:
+          suspendedUntil = Date.now() + suspensionDays! * this.DAY_MS;
+          await this.suspendUser(report.targetOwnerId, suspendedUntil);
+          break;
+      }
+
+      const reportIds = await this.resolveReports(report, action, moderatorId);
+
+      const log = await this.writeLog({
+        action,
+        moderatorId,
+        targetType: report.targetType,
+        targetId: report.targetId,
+        targetOwnerId: report.targetOwnerId,
+        reportIds,
+        ...(note && { note }),
+        ...(suspendedUntil && { suspendedUntil }),
+      });
+
+      if (action !== MODERATION_ACTIONS.DISMISS) {
+        await this.notifyOwner(log);
+      }
+
+      return log;
+    } catch (error) {
+      console.error(`Failed to take action on report ${reportId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Retrieves a report by its ID.
+   *
+   * @param id - Report ID
+   * @returns Report object or null if not found
+   *
+   * @throws {Error} INVALID_REPORT_DATA if report data fails schema validation
+   */
+  static async getReportById(id: string): Promise<Report | null> {
+    try {
+      const report = await firestoreService.getById<Report>(
+        this.COLLECTION_NAME,
+        id
+      );
+
+      if (!report) return null;
+
+      const result = safeParse(ReportSchema, report);
+      if (!result.success) {
+        console.error("Report data schema validation failed:", result.issues);
+        throw new Error("INVALID_REPORT_DATA");
+      }
+
+      return result.output;
+    } catch (error) {
+      console.error(`Failed to get report ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists reports for the moderation queue, oldest first so the longest
+   * waiting ones are handled first.
+   *
+   * @param filters - Report status (default: open) and target type
+   * @param cursor - nextCursor of the previous page
+   * @param pageSize - Reports per page (default: 20)
+   * @returns Page of reports and the cursor of the next page
+   *
+   * @throws {Error} INVALID_CURSOR if the cursor report doesn't exist
+   */
+  static async getQueue(
+    filters: { status?: ReportStatus; targetType?: ReportTargetType } = {},
+    cursor?: string,
+    pageSize: number = this.DEFAULT_PAGE_SIZE
+  ): Promise<{
+    reports: Report[];
+    nextCursor: string | null;
+    hasMore: boolean;
+  }> {
+    try {
+      const where: WhereClause[] = [
+        ["status", "==", filters.status ?? REPORT_STATUS.OPEN],
+      ];
+      if (filters.targetType) {
+        where.push(["targetType", "==", filters.targetType]);
+      }
+
+      const page = await firestoreService.queryPagination<Report>(
+        this.COLLECTION_NAME,
+        {
+          where,
+          orderBy: { field: "reportedAt", direction: "asc" },
+          pageSize,
+        },
+        cursor
+      );
+
+      return {
+        reports: this.validReports(page.data),
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+      };
+    } catch (error) {
+      console.error("Failed to get moderation queue:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gathers what a moderator needs to decide on a report: the reported
+   * content, the other open reports of the same target and the actions
+   * already taken on it.
+   *
+   * @param id - Report ID
+   * @returns Report, target, open reports and moderation history
+   *
+   * @throws {Error} REPORT_NOT_FOUND if the report doesn't exist
+   */
+  static async getReportDetails(id: string): Promise<{
+    report: Report;
+    target: unknown;
+    openReports: Report[];
+    history: ModerationLog[];
+  }> {
+    try {
+      const report = await this.getReportById(id);
+      if (!report) {
+        throw new Error("REPORT_NOT_FOUND");
+      }
+
+      const [target, openReports, history] = await Promise.all([
+        this.getTarget(report.targetType, report.targetId),
+        this.getOpenReports(report.targetType, report.targetId),
+        firestoreService.query<ModerationLog>(this.LOG_COLLECTION, {
+          where: [
+            ["targetType", "==", report.targetType],
+            ["targetId", "==", report.targetId],
+          ],
+          orderBy: { field: "at", direction: "desc" },
+        }),
+      ]);
+
+      return {
+        report,
+        target,
+        openReports,
+        history: this.validLogs(history),
+      };
+    } catch (error) {
+      console.error(`Failed to get details of report ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the moderation log, newest first.
+   *
+   * @param filters - Optional target and moderator filters
+   * @param cursor - nextCursor of the previous page
+   * @param pageSize - Entries per page (default: 20)
+   * @returns Page of log entries and the cursor of the next page
+   *
+   * @throws {Error} INVALID_CURSOR if the cursor entry doesn't exist
+   */
+  static async getAuditLog(
+    filters: { targetId?: string; moderatorId?: string } = {},
+    cursor?: string,
+    pageSize: number = this.DEFAULT_PAGE_SIZE
+  ): Promise<{
+    entries: ModerationLog[];
+    nextCursor: string | null;
+    hasMore: boolean;
+  }> {
+    try {
+      const where: WhereClause[] = [];
+      if (filters.targetId) {
+        where.push(["targetId", "==", filters.targetId]);
+      }
+      if (filters.moderatorId) {
+        where.push(["moderatorId", "==", filters.moderatorId]);
+      }
+
+      const page = await firestoreService.queryPagination<ModerationLog>(
+        this.LOG_COLLECTION,
+        {
+          where,
+          orderBy: { field: "at", direction: "desc" },
+          pageSize,
+        },
+        cursor
+      );
+
+      return {
+        entries: this.validLogs(page.data),
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+      };
+    } catch (error) {
+      console.error("Failed to get moderation log:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Finds the author of a reported target, or the reported user. Messages
+   * can only be reported by the participants of their conversation.
+   *
+   * @throws {Error} REPORT_TARGET_NOT_FOUND if the target doesn't exist or
+   * the reporter can't see it
+   */
+  private static async getTargetOwner(
+    targetType: ReportTargetType,
+    targetId: string,
+    reporterId: string
+  ): Promise<string> {
+    switch (targetType) {
+      case REPORT_TARGET_TYPES.PUBLICATION: {
+        const publication = await PublicationService.getPublicationById(
+          targetId
+        );
+        if (publication) return publication.userId;
+        break;
+      }
+
+      case REPORT_TARGET_TYPES.USER: {
+        const user = await UserService.getUserById(targetId);
+        if (user) return user.id;
+        break;
+      }
+
+      case REPORT_TARGET_TYPES.MESSAGE: {
+        const message = await chatService.getMessage(targetId);
+        if (!message) break;
+
+        const conversation = await chatService.getConversation(
+          message.conversationId
+        );
+        if (conversation?.participants.includes(reporterId)) {
+          return message.senderId;
+        }
+        break;
+      }
+    }
+
+    throw new Error("REPORT_TARGET_NOT_FOUND");
+  }
+
+  /**
+   * Loads the reported content as moderators see it, hidden or not.
+   */
+  private static async getTarget(
+    targetType: ReportTargetType,
+    targetId: string
+  ): Promise<unknown> {
+    switch (targetType) {
+      case REPORT_TARGET_TYPES.PUBLICATION:
+        return PublicationService.getPublicationById(targetId);
+
+      case REPORT_TARGET_TYPES.USER: {
+        const user = await UserService.getPublicProfile(targetId);
+        const account = await UserService.getUserById(targetId);
+
+        return (
+          user && {
+            ...user,
+            warningCount: account?.warningCount ?? 0,
+            suspendedUntil: account?.suspendedUntil,
+          }
+        );
+      }
+
+      case REPORT_TARGET_TYPES.MESSAGE:
+        return chatService.getMessage(targetId);
+    }
+  }
+
+  /**
+   * Hides a publication or message once enough users reported it. The
+   * author gets a "moderation_action" event.
+   */
+  private static async autoHide(report: Report): Promise<void> {
+    if (report.targetType === REPORT_TARGET_TYPES.USER) return;
+
+    try {
+      const openReports = await firestoreService.count(this.COLLECTION_NAME, {
+        where: [
+          ["targetType", "==", report.targetType],
+          ["targetId", "==", report.targetId],
+          ["status", "==", REPORT_STATUS.OPEN],
+        ],
+      });
+      if (openReports < this.AUTO_HIDE_THRESHOLD) return;
+
+      if (await this.isTargetHidden(report)) return;
+
+      await this.autoHideTarget(report);
+
+      const log = await this.writeLog({
+        action: MODERATION_ACTIONS.AUTO_HIDE,
+        targetType: report.targetType,
+        targetId: report.targetId,
+        targetOwnerId: report.targetOwnerId,
+        reportIds: [],
+        note: `Reported by ${openReports} users`,
+      });
+
+      await this.notifyOwner(log);
+    } catch (error) {
+      // The report is kept; a moderator can still hide the content
+      console.error(`Failed to auto-hide ${report.targetType}:`, error);
+    }
+  }
+
+  private static async isTargetHidden(report: Report): Promise<boolean> {
+    if (report.targetType === REPORT_TARGET_TYPES.PUBLICATION) {
+      const publication = await PublicationService.getPublicationById(
+        report.targetId
+      );
+      return (
+        !!publication &&
+        PublicationService.statusOf(publication) === PUBLICATION_STATUS.HIDDEN
+      );
+    }
+
+    const message = await chatService.getMessage(report.targetId);
+    return !!message?.hiddenAt;
+  }
+
+  /**
+   * Hides a reported publication or message at the report threshold.
+   * Reported users have nothing to hide.
+   */
+  private static async autoHideTarget(report: Report): Promise<void> {
+    switch (report.targetType) {
+      case REPORT_TARGET_TYPES.PUBLICATION:
+        await PublicationService.hidePublication(
+          report.targetId,
+          HIDDEN_BY.AUTO
+        );
+        break;
+
+      case REPORT_TARGET_TYPES.MESSAGE:
+        await chatService.setMessageHidden(report.targetId, HIDDEN_BY.AUTO);
+        break;
+    }
+  }
+
+  /**
+   * Shows again a reported publication or message whose reports were
+   * dismissed, if the report threshold hid it. What a moderator hid stays
+   * hidden.
+   */
+  private static async restoreAutoHidden(report: Report): Promise<void> {
+    switch (report.targetType) {
+      case REPORT_TARGET_TYPES.PUBLICATION: {
+        const publication = await PublicationService.getPublicationById(
+          report.targetId
+        );
+        if (publication?.hiddenBy === HIDDEN_BY.AUTO) {
+          await PublicationService.restorePublication(report.targetId);
+        }
+        break;
+      }
+
+      case REPORT_TARGET_TYPES.MESSAGE: {
+        const message = await chatService.getMessage(report.targetId);
+        if (message?.hiddenAt && message.hiddenBy === HIDDEN_BY.AUTO) {
+          await chatService.setMessageHidden(report.targetId, null);
+        }
+        break;
+      }
+    }
+  }
+
+  private static async warnUser(userId: string): Promise<void> {
+    await this.getUser(userId);
+
+    await firestoreService.update<User>(this.USER_COLLECTION, userId, {
+      warningCount: FieldValue.increment(1),
+    });
+  }
+
+  /**
+   * Suspends a user and ends all of their sessions, so they are signed out
+   * right away and can't sign in until the suspension ends.
+   */
+  private static async suspendUser(
+    userId: string,
+    suspendedUntil: number
+  ): Promise<void> {
+    await this.getUser(userId);
+
+    await firestoreService.update<User>(this.USER_COLLECTION, userId, {
+      suspendedUntil,
+    });
+
+    await JWTService.revokeAllUserTokens(userId);
+    await SessionService.markAllRevoked(userId);
+  }
+
+  private static async getUser(userId: string): Promise<User> {
+    const user = await UserService.getUserById(userId);
+    if (!user) {
+      throw new Error("USER_NOT_FOUND");
+    }
+    return user;
+  }
+
+  /**
+   * Resolves every open report of the report's target.
+   *
+   * @returns IDs of the resolved reports
+   */
+  private static async resolveReports(
+    report: Report,
+    action: ModerationActionType,
+    moderatorId: string
+  ): Promise<string[]> {
+    const openReports = await this.getOpenReports(
+      report.targetType,
+      report.targetId
+    );
+
+    const resolution = {
+      status:
+        action === MODERATION_ACTIONS.DISMISS
+          ? REPORT_STATUS.DISMISSED
+          : REPORT_STATUS.ACTIONED,
+      resolvedAt: Date.now(),
+      resolvedBy: moderatorId,
+      action,
+    };
+
+    await Promise.all(
+      openReports.map((openReport) =>
+        firestoreService.update<Report>(
+          this.COLLECTION_NAME,
+          openReport.id,
+          resolution
+        )
+      )
+    );
+
+    return openReports.map((openReport) => openReport.id);
+  }
+
+  private static async getOpenReports(
+    targetType: ReportTargetType,
+    targetId: string
+  ): Promise<Report[]> {
+    const reports = await firestoreService.query<Report>(this.COLLECTION_NAME, {
+      where: [
+        ["targetType", "==", targetType],
+        ["targetId", "==", targetId],
+        ["status", "==", REPORT_STATUS.OPEN],
+      ],
+    });
+
+    return this.validReports(reports);
+  }
+
+  private static async writeLog(
+    entry: Omit<ModerationLog, "id" | "at">
+  ): Promise<ModerationLog> {
+    const log = { ...entry, at: Date.now() };
+
+    const id = await firestoreService.create<ModerationLog>(
+      this.LOG_COLLECTION,
+      log
+    );
+
+    console.log(
+      `Moderation: ${entry.action} on ${entry.targetType} ${entry.targetId}` +
+        ` by ${entry.moderatorId ?? "system"}`
+    );
+
+    return { id, ...log };
+  }
+
+  private static async notifyOwner(log: ModerationLog): Promise<void> {
+    socketService.emitToUser(log.targetOwnerId, "moderation_action", {
+      action: log.action,
+      targetType: log.targetType,
+      targetId: log.targetId,
+      note: log.note,
+      suspendedUntil: log.suspendedUntil,
+    });
+
+    const titles: Record<ModerationActionType, string> = {
+      [MODERATION_ACTIONS.DISMISS]: "Reports dismissed",
+      [MODERATION_ACTIONS.HIDE_PUBLICATION]: "Your publication was hidden",
+      [MODERATION_ACTIONS.WARN_USER]: "You received a warning",
+      [MODERATION_ACTIONS.SUSPEND_USER]: "Your account was suspended",
+      [MODERATION_ACTIONS.AUTO_HIDE]: `Your ${log.targetType} was hidden`,
+    };
+
+    await NotificationService.notify(log.targetOwnerId, {
+      type: NOTIFICATION_TYPES.MODERATION_ACTION,
+      title: titles[log.action],
+      // Auto-hide notes are meant for moderators
+      body: log.action === MODERATION_ACTIONS.AUTO_HIDE ? "" : log.note ?? "",
+      data: {
+        action: log.action,
+        targetType: log.targetType,
+        targetId: log.targetId,
+        suspendedUntil: log.suspendedUntil,
+      },
+    });
+  }
+
+  private static validReports(reports: Report[]): Report[] {
+    const valid: Report[] = [];
+    for (const report of reports) {
+      const result = safeParse(ReportSchema, report);
+      if (result.success) {
+        valid.push(result.output);
+      }
+    }
+    return valid;
+  }
+
+  private static validLogs(entries: ModerationLog[]): ModerationLog[] {
+    const valid: ModerationLog[] = [];
+    for (const entry of entries) {
+      const result = safeParse(ModerationLogSchema, entry);
+      if (result.success) {
+        valid.push(result.output);
+      }
+    }
+    return valid;
+  }
+}
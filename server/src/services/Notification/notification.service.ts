@@ -0,0 +1,359 @@
+import { safeParse } from "valibot";
+import { NotificationSchema } from "../../models/schema/notification";
+import type {
+  Notification,
+  NotificationInput,
+} from "../../models/types/notification";
+import {
+  firestoreService,
+  type WhereClause,
+} from "../Firebase/firebase.service";
+import { socketService } from "../Chat/socket.service";
+import { pushService } from "../Push/push.service";
+
+/**
+ * Keeps the notification center of each user. Notifications are persisted
+ * so offline users find them later, and sent live as a "new_notification"
+ * event to the connected devices of the user with the unread count. Users
+ * who are not connected get messages and claim updates as a mobile push.
+ */
+export class NotificationService {
+  private static readonly COLLECTION_NAME = "notification";
+
+  private static readonly DEFAULT_PAGE_SIZE = 20;
+  private static readonly MAX_BATCH_SIZE = 500;
+
+  /**
+   * ================================================
+   *                     CREATIONS
+   * ================================================
+   */
+
+  /**
+   * Notifies a user. Events sharing a group key (the messages of a
+   * conversation) update the same notification and its count while it is
+   * unread, instead of piling up. A failure is logged and never fails the
+   * operation that triggered the notification.
+   *
+   * @param userId - ID of the user to notify
+   * @param input - Type, texts and data of the notification
+   * @returns Promise resolving to the notification, or null if it failed
+   */
+  static async notify(
+    userId: string,
+    input: NotificationInput
+  ): Promise<Notification | null> {
+    try {
+      const { groupKey, data = {}, ...content } = input;
+
+      const notification = groupKey
+        ? await this.upsertGroup(userId, groupKey, { ...content, data })
+        : await this.create(userId, { ...content, data });
+
+      const unreadCount = await this.getUnreadCount(userId);
+      socketService.emitToUser(userId, "new_notification", {
+        notification,
+        unreadCount,
+      });
+
+      await pushService.dispatch(notification);
+
+      return notification;
+    } catch (error) {
+      console.error(`Failed to notify user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      UPDATES
+   * ================================================
+   */
+
+  /**
+   * Marks a notification of the user as read.
+   *
+   * @param userId - ID of the user
+   * @param notificationId - ID of the notification
+   * @returns Promise resolving to the read notification
+   *
+   * @throws {Error} NOTIFICATION_NOT_FOUND if it doesn't exist or belongs
+   * to another user
+   */
+  static async markAsRead(
+    userId: string,
+    notificationId: string
+  ): Promise<Notification> {
+    try {
+      const notification = await this.getNotificationById(notificationId);
+      if (!notification || notification.userId !== userId) {
+        throw new Error("NOTIFICATION_NOT_FOUND");
+      }
+
+      if (notification.read) {
+        return notification;
+      }
+
+      const readAt = Date.now();
+      await firestoreService.update<Notification>(
+        this.COLLECTION_NAME,
+        notificationId,
+        { read: true, readAt }
+      );
+
+      await this.emitRead(userId, [notificationId]);
+
+      return { ...notification, read: true, readAt };
+    } catch (error) {
+      console.error(`Failed to mark notification ${notificationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks every unread notification of the user as read.
+   *
+   * @param userId - ID of the user
+   * @returns Promise resolving to the number of notifications marked
+   */
+  static async markAllAsRead(userId: string): Promise<number> {
+    try {
+      const readAt = Date.now();
+      let marked = 0;
+      let unread: Notification[];
+
+      do {
+        unread = await firestoreService.query<Notification>(
+          this.COLLECTION_NAME,
+          {
+            where: [
+              ["userId", "==", userId],
+              ["read", "==", false],
+            ],
+            limit: this.MAX_BATCH_SIZE,
+          }
+        );
+
+        await Promise.all(
+          unread.map((notification) =>
+            firestoreService.update<Notification>(
+              this.COLLECTION_NAME,
+              notification.id,
+              { read: true, readAt }
+            )
+          )
+        );
+        marked += unread.length;
+      } while (unread.length === this.MAX_BATCH_SIZE);
+
+      if (marked > 0) {
+        await this.emitRead(userId);
+      }
+
+      return marked;
+    } catch (error) {
+      console.error(`Failed to mark notifications of ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks the grouped notification of a group key as read, such as the
+   * messages of a conversation once the user read it. Does nothing if there
+   * is none, and a failure is only logged.
+   *
+   * @param userId - ID of the user
+   * @param groupKey - Group key the notification was created with
+   */
+  static async markGroupAsRead(userId: string, groupKey: string) {
+    try {
+      const id = this.groupId(userId, groupKey);
+      const notification = await this.getNotificationById(id);
+      if (!notification || notification.read) return;
+
+      await firestoreService.update<Notification>(this.COLLECTION_NAME, id, {
+        read: true,
+        readAt: Date.now(),
+      });
+
+      await this.emitRead(userId, [id]);
+    } catch (error) {
+      console.error(`Failed to mark notification group ${groupKey}:`, error);
+    }
+  }
+
+  /**
+   * ================================================
+   *                       GETS
+   * ================================================
+   */
+
+  /**
+   * Lists the notifications of a user, newest first.
+   *
+   * @param userId - ID of the user
+   * @param unreadOnly - Only list the unread notifications
+   * @param cursor - nextCursor of the previous page
+   * @param pageSize - Notifications per page (default: 20)
+   * @returns Promise resolving to the page and the unread count
+   */
+  static async getNotifications(
+    userId: string,
+    unreadOnly: boolean = false,
+    cursor?: string,
+    pageSize: number = this.DEFAULT_PAGE_SIZE
+  ): Promise<{
+    notifications: Notification[];
+    unreadCount: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+  }> {
+    try {
+      const where: WhereClause[] = [["userId", "==", userId]];
+      if (unreadOnly) {
+        where.push(["read", "==", false]);
+      }
+
+      const [page, unreadCount] = await Promise.all([
+        firestoreService.queryPagination<Notification>(
+          this.COLLECTION_NAME,
+          {
+            where,
+            orderBy: { field: "notifiedAt", direction: "desc" },
+            pageSize,
+          },
+          cursor
+        ),
+        this.getUnreadCount(userId),
+      ]);
+
+      return {
+        notifications: this.validNotifications(page.data),
+        unreadCount,
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+      };
+    } catch (error) {
+      console.error(`Failed to get notifications of ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Counts the unread notifications of a user.
+   *
+   * @param userId - ID of the user
+   * @returns Promise resolving to the unread count
+   */
+  static async getUnreadCount(userId: string): Promise<number> {
+    return await firestoreService.count(this.COLLECTION_NAME, {
+      where: [
+        ["userId", "==", userId],
+        ["read", "==", false],
+      ],
+    });
+  }
+
+  static async getNotificationById(
+    notificationId: string
+  ): Promise<Notification | null> {
+    const notification = await firestoreService.getById<Notification>(
+      this.COLLECTION_NAME,
+      notificationId
+    );
+    if (!notification) return null;
+
+    const result = safeParse(NotificationSchema, notification);
+    if (!result.success) {
+      console.error("Notification schema validation failed:", result.issues);
+      throw new Error("INVALID_NOTIFICATION_DATA");
+    }
+
+    return result.output;
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  private static async create(
+    userId: string,
+    content: Pick<Notification, "type" | "title" | "body" | "data">
+  ): Promise<Notification> {
+    const notification = {
+      userId,
+      ...content,
+      count: 1,
+      read: false,
+      notifiedAt: Date.now(),
+    };
+
+    const id = await firestoreService.create<Omit<Notification, "id">>(
+      this.COLLECTION_NAME,
+      notification
+    );
+
+    return { id, ...notification };
+  }
+
+  private static async upsertGroup(
+    userId: string,
+    groupKey: string,
+    content: Pick<Notification, "type" | "title" | "body" | "data">
+  ): Promise<Notification> {
+    const id = this.groupId(userId, groupKey);
+    const ref = firestoreService.getDocumentReference(this.COLLECTION_NAME, id);
+
+    return await firestoreService.runTransaction(async (transaction) => {
+      const current = (await transaction.get(ref)).data() as
+        | Notification
+        | undefined;
+
+      const count = current && !current.read ? (current.count ?? 1) + 1 : 1;
+
+      const notification: Notification = {
+        id,
+        userId,
+        ...content,
+        count,
+        read: false,
+        notifiedAt: Date.now(),
+      };
+
+      // Replaces the previous event, readAt included
+      transaction.set(ref, notification);
+
+      return notification;
+    });
+  }
+
+  private static async emitRead(userId: string, notificationIds?: string[]) {
+    const unreadCount = await this.getUnreadCount(userId);
+
+    // Without ids, every notification was read
+    socketService.emitToUser(userId, "notifications_read", {
+      notificationIds,
+      unreadCount,
+    });
+  }
+
+  private static groupId(userId: string, groupKey: string) {
+    return `${userId}_${groupKey}`;
+  }
+
+  private static validNotifications(
+    notifications: Notification[]
+  ): Notification[] {
+    const valid: Notification[] = [];
+    for (const notification of notifications) {
+      const result = safeParse(NotificationSchema, notification);
+      if (result.success) {
+        valid.push(result.output);
+      }
+    }
+    return valid;
+  }
+}
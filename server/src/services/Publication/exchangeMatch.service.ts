@@ -0,0 +1,299 @@
+import { safeParse } from "valibot";
+import {
+  ExchangeSchema,
+  PUBLICATION_TYPES,
+} from "../../models/schema/publication";
+import type {
+  ExchangeMatch,
+  ExchangeMatchRecord,
+} from "../../models/types/exchangeMatch";
+import type { Exchange } from "../../models/types/publication";
+import { firestoreService } from "../Firebase/firebase.service";
+import { socketService } from "../Chat/socket.service";
+import { GeoService } from "../Geo/geo.service";
+import { SearchService } from "../Search/search.service";
+import { TextAnalyzer } from "../Search/text.analyzer";
+
+/**
+ * Matches exchanges with each other. Two exchanges match when each one
+ * offers something the other is seeking: an item of B's `seeking` list is
+ * found in A's title, tags or category, and the other way around.
+ *
+ * Matches are scored from 0 to 100 by how much of what each side seeks the
+ * other offers (tag and category overlap) and by how close they are.
+ */
+export class ExchangeMatchService {
+  private static readonly COLLECTION_NAME = "exchange_match";
+  private static readonly PUBLICATION_COLLECTION = "publication";
+
+  // Exchanges further away are never matched
+  private static readonly MAX_DISTANCE_KM = 50;
+  private static readonly DEFAULT_LIMIT = 20;
+
+  // Share of the score given to the overlap, the rest is proximity
+  private static readonly OVERLAP_WEIGHT = 0.7;
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Finds the exchanges mutually matching an exchange, best match first.
+   *
+   * @param publicationId - Exchange to find matches for
+   * @param limit - Maximum number of matches (default: 20)
+   * @returns Matching exchanges with their score, distance and matched items
+   *
+   * @throws {Error} PUBLICATION_NOT_FOUND if the publication doesn't exist
+   * @throws {Error} NOT_AN_EXCHANGE if the publication isn't an exchange
+   */
+  static async findMatches(
+    publicationId: string,
+    limit: number = this.DEFAULT_LIMIT
+  ): Promise<ExchangeMatch[]> {
+    try {
+      const exchange = await this.getExchange(publicationId);
+      if (!exchange.isActive) return [];
+
+      const matches = await this.computeMatches(exchange);
+      return matches.slice(0, limit);
+    } catch (error) {
+      console.error(
+        `Failed to find matches for publication ${publicationId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                     UPDATES
+   * ================================================
+   */
+
+  /**
+   * Recomputes the matches of an exchange and records the new ones. Both
+   * owners of each new match get an "exchange_match" event; matches already
+   * recorded are not notified again.
+   *
+   * @param publicationId - Publication that was created or changed
+   * @returns Number of new matches
+   */
+  static async refreshMatches(publicationId: string): Promise<number> {
+    try {
+      // Only active exchanges have matches, other publications are ignored
+      const exchange = await this.getExchange(publicationId).catch(
+        () => null
+      );
+      if (!exchange || !exchange.isActive) return 0;
+
+      const matches = await this.computeMatches(exchange);
+
+      let created = 0;
+      for (const match of matches) {
+        if (await this.recordMatch(exchange, match)) {
+          this.notify(exchange, match);
+          created++;
+        }
+      }
+
+      return created;
+    } catch (error) {
+      console.error(
+        `Failed to refresh matches for publication ${publicationId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Loads and validates an exchange.
+   *
+   * @throws {Error} PUBLICATION_NOT_FOUND if the publication doesn't exist
+   * @throws {Error} NOT_AN_EXCHANGE if the publication isn't an exchange
+   */
+  private static async getExchange(publicationId: string): Promise<Exchange> {
+    const publication = await firestoreService.getById<Exchange>(
+      this.PUBLICATION_COLLECTION,
+      publicationId
+    );
+
+    if (!publication) {
+      throw new Error("PUBLICATION_NOT_FOUND");
+    }
+
+    const result = safeParse(ExchangeSchema, publication);
+    if (!result.success) {
+      throw new Error("NOT_AN_EXCHANGE");
+    }
+
+    return result.output;
+  }
+
+  /**
+   * Scores every active exchange of another user near an exchange and keeps
+   * the mutual matches.
+   */
+  private static async computeMatches(
+    exchange: Exchange
+  ): Promise<ExchangeMatch[]> {
+    const candidates = await GeoService.queryNearby<Exchange>(
+      this.PUBLICATION_COLLECTION,
+      exchange.location,
+      this.MAX_DISTANCE_KM,
+      {
+        where: [
+          ["type", "==", PUBLICATION_TYPES.EXCHANGE],
+          ["isActive", "==", true],
+        ],
+      }
+    );
+
+    const matches: ExchangeMatch[] = [];
+
+    for (const { distance, ...candidate } of candidates) {
+      if (candidate.userId === exchange.userId) continue;
+
+      const result = safeParse(ExchangeSchema, candidate);
+      if (!result.success) continue;
+
+      const other = result.output;
+      const theySeek = this.soughtItemsOffered(other, exchange);
+      const youSeek = this.soughtItemsOffered(exchange, other);
+      if (theySeek.length === 0 || youSeek.length === 0) continue;
+
+      matches.push({
+        publication: other,
+        score: this.score(exchange, other, distance),
+        distance,
+        theySeek,
+        youSeek,
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Items of the seeker's `seeking` list found in what the other exchange
+   * offers (title, tags or category).
+   */
+  private static soughtItemsOffered(
+    seeker: Exchange,
+    offer: Exchange
+  ): string[] {
+    const offered = [offer.title, offer.category, ...offer.tags];
+
+    return seeker.seeking.filter(
+      (item) =>
+        TextAnalyzer.analyze(item).length > 0 &&
+        SearchService.matchesQuery(item, offered)
+    );
+  }
+
+  /**
+   * Share (0-1) of the terms the seeker is looking for that the other
+   * exchange offers.
+   */
+  private static overlap(seeker: Exchange, offer: Exchange): number {
+    const sought = new Set(
+      TextAnalyzer.analyze(
+        [...seeker.seeking, seeker.preferredItems ?? ""].join(" ")
+      )
+    );
+    if (sought.size === 0) return 0;
+
+    const offered = new Set(
+      TextAnalyzer.analyze(
+        [offer.title, offer.category, ...offer.tags].join(" ")
+      )
+    );
+
+    let shared = 0;
+    for (const term of sought) {
+      if (offered.has(term)) shared++;
+    }
+
+    return shared / sought.size;
+  }
+
+  /**
+   * Scores a match from 0 to 100: overlap in both directions, then
+   * proximity.
+   */
+  private static score(a: Exchange, b: Exchange, distance: number): number {
+    const overlap = (this.overlap(a, b) + this.overlap(b, a)) / 2;
+    const proximity = Math.max(0, 1 - distance / this.MAX_DISTANCE_KM);
+
+    return Math.round(
+      100 *
+        (this.OVERLAP_WEIGHT * overlap + (1 - this.OVERLAP_WEIGHT) * proximity)
+    );
+  }
+
+  /**
+   * Records a match unless it already exists.
+   *
+   * @returns True if the match is new
+   */
+  private static async recordMatch(
+    exchange: Exchange,
+    match: ExchangeMatch
+  ): Promise<boolean> {
+    const publicationIds = [exchange.id, match.publication.id].sort();
+    const id = publicationIds.join("_");
+
+    const existing = await firestoreService.getById<ExchangeMatchRecord>(
+      this.COLLECTION_NAME,
+      id
+    );
+    if (existing) return false;
+
+    await firestoreService.create<ExchangeMatchRecord>(
+      this.COLLECTION_NAME,
+      {
+        publicationIds,
+        userIds: [exchange.userId, match.publication.userId],
+        score: match.score,
+        distance: match.distance,
+        matchedAt: Date.now(),
+      },
+      id
+    );
+
+    return true;
+  }
+
+  /**
+   * Tells both owners about a new match, each from their own side.
+   */
+  private static notify(exchange: Exchange, match: ExchangeMatch): void {
+    const other = match.publication;
+
+    socketService.emitToUser(exchange.userId, "exchange_match", {
+      publicationId: exchange.id,
+      matchedPublicationId: other.id,
+      title: other.title,
+      score: match.score,
+      distance: match.distance,
+    });
+
+    socketService.emitToUser(other.userId, "exchange_match", {
+      publicationId: other.id,
+      matchedPublicationId: exchange.id,
+      title: exchange.title,
+      score: match.score,
+      distance: match.distance,
+    });
+  }
+}
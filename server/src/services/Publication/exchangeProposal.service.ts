@@ -0,0 +1,849 @@
+import { safeParse } from "valibot";
+import {
+  CounterProposalSchema,
+  CreateProposalSchema,
+  ExchangeProposalSchema,
+  PROPOSAL_STATUS,
+  RespondProposalSchema,
+} from "../../models/schema/exchangeProposal";
+import {
+  ExchangeSchema,
+  MEETING,
+  PUBLICATION_STATUS,
+  PUBLICATION_TYPES,
+} from "../../models/schema/publication";
+import type {
+  ExchangeProposal,
+  MeetingProposal,
+  ProposalRound,
+  ProposalStatus,
+} from "../../models/types/exchangeProposal";
+import type { Exchange, Publication } from "../../models/types/publication";
+import { firestoreService } from "../Firebase/firebase.service";
+import { PublicationService } from "./publication.service";
+import { socketService } from "../Chat/socket.service";
+import { UserStatsService } from "../User/UserStats.service";
+import type { Transaction } from "firebase-admin/firestore";
+
+/**
+ * Trades between exchanges. A user proposes some of their exchanges for
+ * another user's exchange, then both sides take turns countering until one
+ * accepts the other's terms. The trade is done when both confirm it, which
+ * deactivates every publication involved.
+ */
+export class ExchangeProposalService {
+  private static readonly COLLECTION_NAME = "exchange_proposal";
+  private static readonly PUBLICATION_COLLECTION = "publication";
+
+  /**
+   * Allowed status transitions for a proposal.
+   * Rejected, withdrawn and completed are terminal states.
+   */
+  private static readonly TRANSITIONS: Record<
+    ProposalStatus,
+    ProposalStatus[]
+  > = {
+    [PROPOSAL_STATUS.PENDING]: [
+      PROPOSAL_STATUS.COUNTERED,
+      PROPOSAL_STATUS.ACCEPTED,
+      PROPOSAL_STATUS.REJECTED,
+      PROPOSAL_STATUS.WITHDRAWN,
+    ],
+    [PROPOSAL_STATUS.COUNTERED]: [
+      PROPOSAL_STATUS.COUNTERED,
+      PROPOSAL_STATUS.ACCEPTED,
+      PROPOSAL_STATUS.REJECTED,
+      PROPOSAL_STATUS.WITHDRAWN,
+    ],
+    [PROPOSAL_STATUS.ACCEPTED]: [
+      PROPOSAL_STATUS.COMPLETED,
+      PROPOSAL_STATUS.WITHDRAWN,
+    ],
+    [PROPOSAL_STATUS.REJECTED]: [],
+    [PROPOSAL_STATUS.WITHDRAWN]: [],
+    [PROPOSAL_STATUS.COMPLETED]: [],
+  };
+
+  // Methods that need a place agreed on beforehand
+  private static readonly PLACE_REQUIRED: string[] = [
+    MEETING.PUBLIC_LOCATION,
+    MEETING.DELIVERY,
+  ];
+
+  /**
+   * ================================================
+   *                     CREATIONS
+   * ================================================
+   */
+
+  /**
+   * Proposes some of the user's exchanges for another user's exchange.
+   * The owner of the target exchange gets an "exchange_proposal" event.
+   *
+   * @param publicationId - ID of the exchange the user wants
+   * @param proposerId - ID of the user making the proposal
+   * @param input - Offered exchanges, optional meeting and message
+   * @returns Promise resolving to the created proposal ID
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} PUBLICATION_NOT_FOUND if a publication doesn't exist
+   * @throws {Error} NOT_AN_EXCHANGE if a publication isn't an exchange
+   * @throws {Error} PUBLICATION_NOT_ACTIVE if a publication is inactive
+   * @throws {Error} CANNOT_PROPOSE_TO_OWN_EXCHANGE if the user owns the target
+   * @throws {Error} NOT_PUBLICATION_OWNER if an offered exchange isn't theirs
+   * @throws {Error} PROPOSAL_ALREADY_EXISTS if the user has an open proposal
+   * @throws {Error} MEETING_METHOD_NOT_ALLOWED if a side doesn't accept it
+   * @throws {Error} MEETING_PLACE_REQUIRED if the method needs a place
+   * @throws {Error} MEETING_TIME_IN_PAST if the meeting time has passed
+   */
+  static async createProposal(
+    publicationId: string,
+    proposerId: string,
+    input: unknown
+  ): Promise<string> {
+    try {
+      const result = safeParse(CreateProposalSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const { offeredPublicationIds, meeting, message } = result.output;
+
+      const target = await this.getExchange(publicationId);
+      if (!target.isActive) {
+        throw new Error("PUBLICATION_NOT_ACTIVE");
+      }
+
+      if (target.userId === proposerId) {
+        throw new Error("CANNOT_PROPOSE_TO_OWN_EXCHANGE");
+      }
+
+      const existing = await this.getOpenProposal(publicationId, proposerId);
+      if (existing) {
+        throw new Error("PROPOSAL_ALREADY_EXISTS");
+      }
+
+      const offered = await this.getOfferedExchanges(
+        offeredPublicationIds,
+        proposerId
+      );
+
+      if (meeting) {
+        this.validateMeeting(meeting, [target, ...offered]);
+      }
+
+      const round: ProposalRound = {
+        by: proposerId,
+        offeredPublicationIds: offered.map((exchange) => exchange.id),
+        ...(meeting && { meeting }),
+        ...(message && { message }),
+        at: Date.now(),
+      };
+
+      const proposalData: Omit<ExchangeProposal, "id"> = {
+        targetPublicationId: publicationId,
+        targetOwnerId: target.userId,
+        proposerId,
+        offeredPublicationIds: round.offeredPublicationIds,
+        ...(meeting && { meeting }),
+        status: PROPOSAL_STATUS.PENDING,
+        awaitingUserId: target.userId,
+        confirmedBy: [],
+        rounds: [round],
+      };
+
+      const proposalId = await firestoreService.create<ExchangeProposal>(
+        this.COLLECTION_NAME,
+        proposalData
+      );
+
+      socketService.emitToUser(target.userId, "exchange_proposal", {
+        proposalId,
+        publicationId,
+        proposerId,
+        offeredPublicationIds: round.offeredPublicationIds,
+      });
+
+      return proposalId;
+    } catch (error) {
+      console.error(
+        `Failed to create proposal for publication ${publicationId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                     UPDATES
+   * ================================================
+   */
+
+  /**
+   * Answers the current terms with new ones. Only the user whose turn it is
+   * can counter; the turn then goes to the other side. The offered exchanges
+   * always belong to the proposer, so the target owner can ask for different
+   * ones.
+   *
+   * @param proposalId - ID of the proposal
+   * @param userId - ID of the user countering
+   * @param input - New offered exchanges and/or meeting, optional message
+   * @returns Promise resolving to the updated proposal
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} PROPOSAL_NOT_FOUND if proposal doesn't exist
+   * @throws {Error} INVALID_PROPOSAL_TRANSITION if it can't be countered
+   * @throws {Error} NOT_YOUR_TURN if the other side has to answer
+   * @throws {Error} NOT_PUBLICATION_OWNER if an offered exchange isn't the
+   * proposer's
+   * @throws {Error} MEETING_METHOD_NOT_ALLOWED if a side doesn't accept it
+   * @throws {Error} MEETING_PLACE_REQUIRED if the method needs a place
+   * @throws {Error} MEETING_TIME_IN_PAST if the meeting time has passed
+   */
+  static async counterProposal(
+    proposalId: string,
+    userId: string,
+    input: unknown
+  ): Promise<ExchangeProposal> {
+    try {
+      const result = safeParse(CounterProposalSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const proposal = await this.getParticipantProposal(proposalId, userId);
+      this.assertTransition(proposal, PROPOSAL_STATUS.COUNTERED);
+      this.assertTurn(proposal, userId);
+
+      const meeting = result.output.meeting ?? proposal.meeting;
+
+      const target = await this.getExchange(proposal.targetPublicationId);
+      if (!target.isActive) {
+        throw new Error("PUBLICATION_NOT_ACTIVE");
+      }
+
+      const offered = await this.getOfferedExchanges(
+        result.output.offeredPublicationIds ?? proposal.offeredPublicationIds,
+        proposal.proposerId
+      );
+      const offeredPublicationIds = offered.map((exchange) => exchange.id);
+
+      if (meeting) {
+        this.validateMeeting(meeting, [target, ...offered]);
+      }
+
+      const round: ProposalRound = {
+        by: userId,
+        offeredPublicationIds,
+        ...(meeting && { meeting }),
+        ...(result.output.message && { message: result.output.message }),
+        at: Date.now(),
+      };
+
+      const changes: Partial<ExchangeProposal> = {
+        offeredPublicationIds,
+        ...(meeting && { meeting }),
+        status: PROPOSAL_STATUS.COUNTERED,
+        awaitingUserId: this.otherParty(proposal, userId),
+        rounds: [...proposal.rounds, round],
+      };
+
+      await firestoreService.update<ExchangeProposal>(
+        this.COLLECTION_NAME,
+        proposalId,
+        changes
+      );
+
+      const updated = { ...proposal, ...changes };
+      this.notify(updated, userId);
+
+      return updated;
+    } catch (error) {
+      console.error(`Failed to counter proposal ${proposalId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Accepts, rejects or withdraws a proposal. Only the user whose turn it is
+   * can accept or reject the current terms, and accepting needs a meeting.
+   * Either side can withdraw until the trade is completed.
+   *
+   * @param proposalId - ID of the proposal
+   * @param userId - ID of the user responding
+   * @param input - Response data ({ status: "accepted" | "rejected" |
+   * "withdrawn" })
+   * @returns Promise resolving to the updated proposal
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} PROPOSAL_NOT_FOUND if proposal doesn't exist
+   * @throws {Error} INVALID_PROPOSAL_TRANSITION if the transition isn't allowed
+   * @throws {Error} NOT_YOUR_TURN if the other side has to answer
+   * @throws {Error} MEETING_REQUIRED if accepting terms without a meeting
+   * @throws {Error} MEETING_TIME_IN_PAST if the agreed meeting has passed
+   * @throws {Error} PUBLICATION_NOT_ACTIVE if a publication is inactive
+   */
+  static async respondToProposal(
+    proposalId: string,
+    userId: string,
+    input: unknown
+  ): Promise<ExchangeProposal> {
+    try {
+      const result = safeParse(RespondProposalSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const { status } = result.output;
+
+      const proposal = await this.getParticipantProposal(proposalId, userId);
+      this.assertTransition(proposal, status);
+
+      if (status !== PROPOSAL_STATUS.WITHDRAWN) {
+        this.assertTurn(proposal, userId);
+      }
+
+      if (status === PROPOSAL_STATUS.ACCEPTED) {
+        if (!proposal.meeting) {
+          throw new Error("MEETING_REQUIRED");
+        }
+
+        // The exchanges may have been traded or closed since the offer
+        const exchanges = await Promise.all([
+          this.getExchange(proposal.targetPublicationId),
+          ...proposal.offeredPublicationIds.map((id) => this.getExchange(id)),
+        ]);
+        if (exchanges.some((exchange) => !exchange.isActive)) {
+          throw new Error("PUBLICATION_NOT_ACTIVE");
+        }
+
+        this.validateMeeting(proposal.meeting, exchanges);
+      }
+
+      const changes: Partial<ExchangeProposal> = { status };
+
+      await firestoreService.update<ExchangeProposal>(
+        this.COLLECTION_NAME,
+        proposalId,
+        changes
+      );
+
+      const updated = { ...proposal, ...changes };
+      this.notify(updated, userId);
+
+      return updated;
+    } catch (error) {
+      console.error(`Failed to respond to proposal ${proposalId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirms an accepted trade took place. Once both sides have confirmed,
+   * the proposal is completed and the target and offered exchanges are
+   * marked completed, all in one transaction, then leave the search index.
+   *
+   * @param proposalId - ID of the proposal
+   * @param userId - ID of the user confirming
+   * @returns Promise resolving to the updated proposal
+   *
+   * @throws {Error} PROPOSAL_NOT_FOUND if proposal doesn't exist
+   * @throws {Error} NOT_PROPOSAL_PARTICIPANT if user isn't part of the trade
+   * @throws {Error} INVALID_PROPOSAL_TRANSITION if it isn't accepted
+   * @throws {Error} PUBLICATION_NOT_ACTIVE if a publication was closed or
+   * traded meanwhile
+   */
+  static async confirmProposal(
+    proposalId: string,
+    userId: string
+  ): Promise<ExchangeProposal> {
+    try {
+      const proposal = await firestoreService.runTransaction(
+        async (transaction) => {
+          const proposal = await this.getProposalInTransaction(
+            transaction,
+            proposalId
+          );
+
+          if (!this.isParticipant(proposal, userId)) {
+            throw new Error("NOT_PROPOSAL_PARTICIPANT");
+          }
+
+          if (proposal.status !== PROPOSAL_STATUS.ACCEPTED) {
+            throw new Error("INVALID_PROPOSAL_TRANSITION");
+          }
+
+          const confirmedBy = proposal.confirmedBy.includes(userId)
+            ? proposal.confirmedBy
+            : [...proposal.confirmedBy, userId];
+          const completed =
+            confirmedBy.includes(proposal.proposerId) &&
+            confirmedBy.includes(proposal.targetOwnerId);
+
+          const publicationRefs = [
+            proposal.targetPublicationId,
+            ...proposal.offeredPublicationIds,
+          ].map((id) =>
+            firestoreService.getDocumentReference(
+              this.PUBLICATION_COLLECTION,
+              id
+            )
+          );
+
+          // Firestore needs every read before the first write
+          if (completed) {
+            const snapshots = await transaction.getAll(...publicationRefs);
+            for (const doc of snapshots) {
+              const publication = doc.data() as Publication | undefined;
+              if (publication?.isActive !== true) {
+                throw new Error("PUBLICATION_NOT_ACTIVE");
+              }
+              PublicationService.assertTransition(
+                publication,
+                PUBLICATION_STATUS.COMPLETED
+              );
+            }
+          }
+
+          const timestamp = new Date();
+          const changes: Partial<ExchangeProposal> = {
+            confirmedBy,
+            ...(completed && { status: PROPOSAL_STATUS.COMPLETED }),
+          };
+
+          transaction.update(
+            firestoreService.getDocumentReference(
+              this.COLLECTION_NAME,
+              proposalId
+            ),
+            { ...changes, updatedAt: timestamp }
+          );
+
+          if (completed) {
+            for (const ref of publicationRefs) {
+              transaction.update(ref, {
+                isActive: false,
+                status: PUBLICATION_STATUS.COMPLETED,
+                statusChangedAt: timestamp.getTime(),
+                updatedAt: timestamp,
+              });
+            }
+
+            // Each party counts the publications they handed over
+            const offered = proposal.offeredPublicationIds.length;
+            await UserStatsService.record(
+              proposal.proposerId,
+              {
+                itemsExchanged: offered,
+                activePublications: { [PUBLICATION_TYPES.EXCHANGE]: -offered },
+              },
+              transaction
+            );
+            await UserStatsService.record(
+              proposal.targetOwnerId,
+              {
+                itemsExchanged: 1,
+                activePublications: { [PUBLICATION_TYPES.EXCHANGE]: -1 },
+              },
+              transaction
+            );
+          }
+
+          return { ...proposal, ...changes };
+        }
+      );
+
+      if (proposal.status === PROPOSAL_STATUS.COMPLETED) {
+        for (const id of [
+          proposal.targetPublicationId,
+          ...proposal.offeredPublicationIds,
+        ]) {
+          // The trade is committed; a stale index or match is only logged
+          await PublicationService.onStatusChanged(
+            id,
+            PUBLICATION_STATUS.ACTIVE,
+            PUBLICATION_STATUS.COMPLETED
+          ).catch((error) =>
+            console.error(`Failed to unlist traded publication ${id}:`, error)
+          );
+        }
+      }
+
+      this.notify(proposal, userId);
+
+      return proposal;
+    } catch (error) {
+      console.error(`Failed to confirm proposal ${proposalId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Retrieves a proposal by its ID.
+   *
+   * @param id - Proposal ID
+   * @returns Proposal object or null if not found
+   *
+   * @throws {Error} INVALID_PROPOSAL_DATA if proposal data fails schema
+   * validation
+   */
+  static async getProposalById(id: string): Promise<ExchangeProposal | null> {
+    try {
+      const proposal = await firestoreService.getById<ExchangeProposal>(
+        this.COLLECTION_NAME,
+        id
+      );
+
+      if (!proposal) return null;
+
+      const result = safeParse(ExchangeProposalSchema, proposal);
+      if (!result.success) {
+        console.error("Proposal data schema validation failed:", result.issues);
+        throw new Error("INVALID_PROPOSAL_DATA");
+      }
+
+      return result.output;
+    } catch (error) {
+      console.error(`Failed to get proposal ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the proposals received by an exchange, latest activity first.
+   *
+   * @param publicationId - ID of the target exchange
+   * @param status - Optional status filter
+   * @returns Array of proposals for the exchange
+   */
+  static async getPublicationProposals(
+    publicationId: string,
+    status?: ProposalStatus
+  ): Promise<ExchangeProposal[]> {
+    try {
+      const proposals = await this.queryProposals(
+        "targetPublicationId",
+        publicationId
+      );
+
+      return this.sortByActivity(
+        status
+          ? proposals.filter((proposal) => proposal.status === status)
+          : proposals
+      );
+    } catch (error) {
+      console.error(
+        `Failed to get proposals for publication ${publicationId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the proposals a user made or received, latest activity first.
+   *
+   * @param userId - ID of the user
+   * @param status - Optional status filter
+   * @returns Array of the user's proposals
+   */
+  static async getUserProposals(
+    userId: string,
+    status?: ProposalStatus
+  ): Promise<ExchangeProposal[]> {
+    try {
+      const [sent, received] = await Promise.all([
+        this.queryProposals("proposerId", userId),
+        this.queryProposals("targetOwnerId", userId),
+      ]);
+
+      const proposals = [...sent, ...received];
+
+      return this.sortByActivity(
+        status
+          ? proposals.filter((proposal) => proposal.status === status)
+          : proposals
+      );
+    } catch (error) {
+      console.error(`Failed to get proposals for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Loads and validates an exchange.
+   *
+   * @throws {Error} PUBLICATION_NOT_FOUND if the publication doesn't exist
+   * @throws {Error} NOT_AN_EXCHANGE if the publication isn't an exchange
+   */
+  private static async getExchange(publicationId: string): Promise<Exchange> {
+    const publication = await firestoreService.getById<Exchange>(
+      this.PUBLICATION_COLLECTION,
+      publicationId
+    );
+
+    if (!publication) {
+      throw new Error("PUBLICATION_NOT_FOUND");
+    }
+
+    const result = safeParse(ExchangeSchema, publication);
+    if (!result.success) {
+      throw new Error("NOT_AN_EXCHANGE");
+    }
+
+    return result.output;
+  }
+
+  /**
+   * Loads the exchanges offered in a proposal and checks they can be traded.
+   *
+   * @param publicationIds - IDs of the offered exchanges
+   * @param proposerId - ID of the user who must own them
+   * @returns Offered exchanges, without duplicates
+   *
+   * @throws {Error} NOT_PUBLICATION_OWNER if an exchange isn't the proposer's
+   * @throws {Error} PUBLICATION_NOT_ACTIVE if an exchange is inactive
+   */
+  private static async getOfferedExchanges(
+    publicationIds: string[],
+    proposerId: string
+  ): Promise<Exchange[]> {
+    const exchanges = await Promise.all(
+      [...new Set(publicationIds)].map((id) => this.getExchange(id))
+    );
+
+    for (const exchange of exchanges) {
+      if (exchange.userId !== proposerId) {
+        throw new Error("NOT_PUBLICATION_OWNER");
+      }
+
+      if (!exchange.isActive) {
+        throw new Error("PUBLICATION_NOT_ACTIVE");
+      }
+    }
+
+    return exchanges;
+  }
+
+  /**
+   * Checks a meeting against the meeting preference of every exchange in the
+   * trade. Exchanges without a preference, or "flexible", accept any method.
+   *
+   * @throws {Error} MEETING_METHOD_NOT_ALLOWED if a side doesn't accept it
+   * @throws {Error} MEETING_PLACE_REQUIRED if the method needs a place
+   * @throws {Error} MEETING_TIME_IN_PAST if the meeting time has passed
+   */
+  private static validateMeeting(
+    meeting: MeetingProposal,
+    exchanges: Exchange[]
+  ): void {
+    const refused = exchanges.some(
+      (exchange) =>
+        exchange.meetingPreference !== undefined &&
+        exchange.meetingPreference !== MEETING.FLEXIBLE &&
+        exchange.meetingPreference !== meeting.method
+    );
+    if (refused) {
+      throw new Error("MEETING_METHOD_NOT_ALLOWED");
+    }
+
+    if (this.PLACE_REQUIRED.includes(meeting.method) && !meeting.place) {
+      throw new Error("MEETING_PLACE_REQUIRED");
+    }
+
+    if (new Date(meeting.time).getTime() <= Date.now()) {
+      throw new Error("MEETING_TIME_IN_PAST");
+    }
+  }
+
+  /**
+   * Finds the proposal of a user for an exchange that is still being
+   * negotiated or waiting for confirmation.
+   */
+  private static async getOpenProposal(
+    publicationId: string,
+    proposerId: string
+  ): Promise<ExchangeProposal | null> {
+    const proposals = await this.queryProposals(
+      "targetPublicationId",
+      publicationId
+    );
+
+    return (
+      proposals.find(
+        (proposal) =>
+          proposal.proposerId === proposerId &&
+          this.TRANSITIONS[proposal.status].length > 0
+      ) || null
+    );
+  }
+
+  /**
+   * Loads a proposal and verifies the user is one of its two sides.
+   *
+   * @throws {Error} PROPOSAL_NOT_FOUND if proposal doesn't exist
+   * @throws {Error} NOT_PROPOSAL_PARTICIPANT if user isn't part of the trade
+   */
+  private static async getParticipantProposal(
+    proposalId: string,
+    userId: string
+  ): Promise<ExchangeProposal> {
+    const proposal = await this.getProposalById(proposalId);
+
+    if (!proposal) {
+      throw new Error("PROPOSAL_NOT_FOUND");
+    }
+
+    if (!this.isParticipant(proposal, userId)) {
+      throw new Error("NOT_PROPOSAL_PARTICIPANT");
+    }
+
+    return proposal;
+  }
+
+  /**
+   * Reads and validates a proposal inside a transaction.
+   *
+   * @throws {Error} PROPOSAL_NOT_FOUND if proposal doesn't exist
+   * @throws {Error} INVALID_PROPOSAL_DATA if proposal data fails schema
+   * validation
+   */
+  private static async getProposalInTransaction(
+    transaction: Transaction,
+    proposalId: string
+  ): Promise<ExchangeProposal> {
+    const snapshot = await transaction.get(
+      firestoreService.getDocumentReference(this.COLLECTION_NAME, proposalId)
+    );
+
+    if (!snapshot.exists) {
+      throw new Error("PROPOSAL_NOT_FOUND");
+    }
+
+    const result = safeParse(ExchangeProposalSchema, {
+      id: snapshot.id,
+      ...snapshot.data(),
+    });
+    if (!result.success) {
+      throw new Error("INVALID_PROPOSAL_DATA");
+    }
+
+    return result.output;
+  }
+
+  /**
+   * Queries proposals by a single field and drops malformed documents.
+   */
+  private static async queryProposals(
+    field: "targetPublicationId" | "proposerId" | "targetOwnerId",
+    value: string
+  ): Promise<ExchangeProposal[]> {
+    const proposals = await firestoreService.query<ExchangeProposal>(
+      this.COLLECTION_NAME,
+      {
+        where: [field, "==", value],
+      }
+    );
+
+    const validProposals: ExchangeProposal[] = [];
+    for (const proposal of proposals) {
+      const result = safeParse(ExchangeProposalSchema, proposal);
+      if (result.success) {
+        validProposals.push(result.output);
+      }
+    }
+
+    return validProposals;
+  }
+
+  /**
+   * @throws {Error} INVALID_PROPOSAL_TRANSITION if the transition isn't
+   * allowed
+   */
+  private static assertTransition(
+    proposal: ExchangeProposal,
+    status: ProposalStatus
+  ): void {
+    if (!this.TRANSITIONS[proposal.status].includes(status)) {
+      throw new Error("INVALID_PROPOSAL_TRANSITION");
+    }
+  }
+
+  /**
+   * @throws {Error} NOT_YOUR_TURN if the other side has to answer
+   */
+  private static assertTurn(proposal: ExchangeProposal, userId: string): void {
+    if (proposal.awaitingUserId !== userId) {
+      throw new Error("NOT_YOUR_TURN");
+    }
+  }
+
+  private static isParticipant(
+    proposal: ExchangeProposal,
+    userId: string
+  ): boolean {
+    return (
+      proposal.proposerId === userId || proposal.targetOwnerId === userId
+    );
+  }
+
+  private static otherParty(
+    proposal: ExchangeProposal,
+    userId: string
+  ): string {
+    return proposal.proposerId === userId
+      ? proposal.targetOwnerId
+      : proposal.proposerId;
+  }
+
+  private static sortByActivity(
+    proposals: ExchangeProposal[]
+  ): ExchangeProposal[] {
+    const lastActivity = (proposal: ExchangeProposal) =>
+      proposal.rounds[proposal.rounds.length - 1]?.at ?? 0;
+
+    return proposals.sort((a, b) => lastActivity(b) - lastActivity(a));
+  }
+
+  /**
+   * Tells the other side of the trade about a change made by a user.
+   */
+  private static notify(proposal: ExchangeProposal, userId: string): void {
+    socketService.emitToUser(
+      this.otherParty(proposal, userId),
+      "exchange_proposal_update",
+      {
+        proposalId: proposal.id,
+        publicationId: proposal.targetPublicationId,
+        status: proposal.status,
+        awaitingUserId: proposal.awaitingUserId,
+        confirmedBy: proposal.confirmedBy,
+      }
+    );
+  }
+}
@@ -0,0 +1,597 @@
+import type { Transaction } from "firebase-admin/firestore";
+import { safeParse } from "valibot";
+import {
+  CreateInterestSchema,
+  INTEREST_STATUS,
+  InterestSchema,
+  RespondInterestSchema,
+} from "../../models/schema/interest";
+import type { Interest, InterestStatus } from "../../models/types/interest";
+import type { PublicationResponse } from "../../models/types/publication";
+import { firestoreService } from "../Firebase/firebase.service";
+import { chatService } from "../Chat/chat.service";
+import { socketService } from "../Chat/socket.service";
+import { PublicationService } from "./publication.service";
+import { UserStatsService } from "../User/UserStats.service";
+import { BlockService } from "../User/Block.service";
+import { NotificationService } from "../Notification/notification.service";
+import { NOTIFICATION_TYPES } from "../../models/schema/notification";
+import { PUBLICATION_TYPES } from "../../models/schema/publication";
+
+export class InterestService {
+  private static readonly COLLECTION_NAME = "publication_interest";
+
+  /**
+   * Allowed status transitions for an interest (claim).
+   * Declined, withdrawn and fulfilled are terminal states.
+   */
+  private static readonly TRANSITIONS: Record<
+    InterestStatus,
+    InterestStatus[]
+  > = {
+    [INTEREST_STATUS.PENDING]: [
+      INTEREST_STATUS.ACCEPTED,
+      INTEREST_STATUS.DECLINED,
+      INTEREST_STATUS.WITHDRAWN,
+    ],
+    [INTEREST_STATUS.ACCEPTED]: [
+      INTEREST_STATUS.FULFILLED,
+      INTEREST_STATUS.WITHDRAWN,
+    ],
+    [INTEREST_STATUS.DECLINED]: [],
+    [INTEREST_STATUS.WITHDRAWN]: [],
+    [INTEREST_STATUS.FULFILLED]: [],
+  };
+
+  private static readonly UPDATE_TITLES: Record<InterestStatus, string> = {
+    [INTEREST_STATUS.PENDING]: "Claim pending",
+    [INTEREST_STATUS.ACCEPTED]: "Your claim was accepted",
+    [INTEREST_STATUS.DECLINED]: "Your claim was declined",
+    [INTEREST_STATUS.WITHDRAWN]: "A claim was withdrawn",
+    [INTEREST_STATUS.FULFILLED]: "Claim fulfilled",
+  };
+
+  /**
+   * ================================================
+   *                     CREATIONS
+   * ================================================
+   */
+
+  /**
+   * Registers a user's interest (claim) in a publication.
+   * Opens (or reuses) a direct conversation with the publication owner
+   * and seeds it with the interest message.
+   *
+   * @param publicationId - ID of the publication the user is interested in
+   * @param userId - ID of the interested user
+   * @param input - Optional interest message
+   * @returns Promise resolving to the created interest ID
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} PUBLICATION_NOT_FOUND if publication doesn't exist
+   * @throws {Error} PUBLICATION_NOT_ACTIVE if publication is no longer active
+   * @throws {Error} CANNOT_CLAIM_OWN_PUBLICATION if user owns the publication
+   * @throws {Error} INTEREST_ALREADY_EXISTS if user already has an open interest
+   * @throws {Error} USER_BLOCKED if the user and the owner blocked each other
+   */
+  static async expressInterest(
+    publicationId: string,
+    userId: string,
+    input: unknown = {}
+  ): Promise<string> {
+    try {
+      const result = safeParse(CreateInterestSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const publication = await PublicationService.getPublicationById(
+        publicationId
+      );
+
+      if (!publication) {
+        throw new Error("PUBLICATION_NOT_FOUND");
+      }
+
+      if (!publication.isActive) {
+        throw new Error("PUBLICATION_NOT_ACTIVE");
+      }
+
+      if (publication.userId === userId) {
+        throw new Error("CANNOT_CLAIM_OWN_PUBLICATION");
+      }
+
+      await BlockService.assertNotBlocked(userId, publication.userId);
+
+      const existing = await this.getOpenInterest(publicationId, userId);
+      if (existing) {
+        throw new Error("INTEREST_ALREADY_EXISTS");
+      }
+
+      const message =
+        result.output.message ||
+        `Hi! I'm interested in your publication "${publication.title}".`;
+
+      const conversationId = await chatService.createConversation(userId, [
+        userId,
+        publication.userId,
+      ]);
+
+      const interestData: Omit<Interest, "id"> = {
+        publicationId,
+        publicationOwnerId: publication.userId,
+        userId,
+        message,
+        status: INTEREST_STATUS.PENDING,
+        conversationId,
+      };
+
+      const interestId = await firestoreService.create<Interest>(
+        this.COLLECTION_NAME,
+        interestData
+      );
+
+      await chatService.sendMessage(conversationId, userId, message, "text", {
+        interestId,
+        publicationId,
+      });
+
+      socketService.emitToUser(publication.userId, "new_interest", {
+        interestId,
+        publicationId,
+        userId,
+        conversationId,
+      });
+
+      await NotificationService.notify(publication.userId, {
+        type: NOTIFICATION_TYPES.NEW_INTEREST,
+        title: `New interest in "${publication.title}"`,
+        body: message,
+        data: { interestId, publicationId, userId, conversationId },
+      });
+
+      return interestId;
+    } catch (error) {
+      console.error(
+        `Failed to express interest in publication ${publicationId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                     UPDATES
+   * ================================================
+   */
+
+  /**
+   * Withdraws the user's open interest in a publication.
+   *
+   * @param publicationId - ID of the publication
+   * @param userId - ID of the claimant withdrawing the interest
+   * @returns Promise resolving to the withdrawn interest
+   *
+   * @throws {Error} INTEREST_NOT_FOUND if the user has no open interest
+   */
+  static async withdrawInterest(
+    publicationId: string,
+    userId: string
+  ): Promise<Interest> {
+    try {
+      const interest = await this.getOpenInterest(publicationId, userId);
+      if (!interest) {
+        throw new Error("INTEREST_NOT_FOUND");
+      }
+
+      return await this.transition(interest, INTEREST_STATUS.WITHDRAWN);
+    } catch (error) {
+      console.error(
+        `Failed to withdraw interest in publication ${publicationId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Accepts or declines a pending interest. Only the publication owner can respond.
+   *
+   * @param interestId - ID of the interest to respond to
+   * @param ownerId - ID of the publication owner
+   * @param input - Response data ({ status: "accepted" | "declined" })
+   * @returns Promise resolving to the updated interest
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} INTEREST_NOT_FOUND if interest doesn't exist
+   * @throws {Error} NOT_PUBLICATION_OWNER if user doesn't own the publication
+   * @throws {Error} INVALID_INTEREST_TRANSITION if the interest is not pending
+   */
+  static async respondToInterest(
+    interestId: string,
+    ownerId: string,
+    input: unknown
+  ): Promise<Interest> {
+    try {
+      const result = safeParse(RespondInterestSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const interest = await this.getOwnedInterest(interestId, ownerId);
+
+      return await this.transition(interest, result.output.status);
+    } catch (error) {
+      console.error(`Failed to respond to interest ${interestId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks an accepted interest as fulfilled once the item was handed over,
+   * and counts the handover in both users' statistics.
+   *
+   * @param interestId - ID of the interest to fulfill
+   * @param ownerId - ID of the publication owner
+   * @returns Promise resolving to the updated interest
+   *
+   * @throws {Error} INTEREST_NOT_FOUND if interest doesn't exist
+   * @throws {Error} NOT_PUBLICATION_OWNER if user doesn't own the publication
+   * @throws {Error} INVALID_INTEREST_TRANSITION if the interest is not accepted
+   */
+  static async fulfillInterest(
+    interestId: string,
+    ownerId: string
+  ): Promise<Interest> {
+    try {
+      const interest = await this.getOwnedInterest(interestId, ownerId);
+
+      return await this.transition(interest, INTEREST_STATUS.FULFILLED);
+    } catch (error) {
+      console.error(`Failed to fulfill interest ${interestId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Retrieves an interest by its ID.
+   *
+   * @param id - Interest ID
+   * @returns Interest object or null if not found
+   *
+   * @throws {Error} INVALID_INTEREST_DATA if interest data fails schema validation
+   */
+  static async getInterestById(id: string): Promise<Interest | null> {
+    try {
+      const interest = await firestoreService.getById<Interest>(
+        this.COLLECTION_NAME,
+        id
+      );
+
+      if (!interest) return null;
+
+      const result = safeParse(InterestSchema, interest);
+      if (!result.success) {
+        console.error("Interest data schema validation failed:", result.issues);
+        throw new Error("INVALID_INTEREST_DATA");
+      }
+
+      return result.output;
+    } catch (error) {
+      console.error(`Failed to get interest ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the claimants of a publication. Only the publication owner can list them.
+   *
+   * @param publicationId - ID of the publication
+   * @param ownerId - ID of the user requesting the list
+   * @param status - Optional status filter
+   * @returns Array of interests for the publication
+   *
+   * @throws {Error} PUBLICATION_NOT_FOUND if publication doesn't exist
+   * @throws {Error} NOT_PUBLICATION_OWNER if user doesn't own the publication
+   */
+  static async getPublicationInterests(
+    publicationId: string,
+    ownerId: string,
+    status?: InterestStatus
+  ): Promise<Interest[]> {
+    try {
+      const publication = await PublicationService.getPublicationById(
+        publicationId
+      );
+
+      if (!publication) {
+        throw new Error("PUBLICATION_NOT_FOUND");
+      }
+
+      if (publication.userId !== ownerId) {
+        throw new Error("NOT_PUBLICATION_OWNER");
+      }
+
+      const interests = await this.queryInterests("publicationId", publicationId);
+
+      return status
+        ? interests.filter((interest) => interest.status === status)
+        : interests;
+    } catch (error) {
+      console.error(
+        `Failed to get interests for publication ${publicationId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Lists every interest expressed by a user.
+   *
+   * @param userId - ID of the claimant
+   * @returns Array of the user's interests
+   */
+  static async getUserInterests(userId: string): Promise<Interest[]> {
+    try {
+      return await this.queryInterests("userId", userId);
+    } catch (error) {
+      console.error(`Failed to get interests for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Finds the pending or accepted interest of a user in a publication.
+   *
+   * @param publicationId - ID of the publication
+   * @param userId - ID of the claimant
+   * @returns Open interest or null if none exists
+   */
+  private static async getOpenInterest(
+    publicationId: string,
+    userId: string
+  ): Promise<Interest | null> {
+    const interests = await this.queryInterests("publicationId", publicationId);
+
+    return (
+      interests.find(
+        (interest) =>
+          interest.userId === userId &&
+          (interest.status === INTEREST_STATUS.PENDING ||
+            interest.status === INTEREST_STATUS.ACCEPTED)
+      ) || null
+    );
+  }
+
+  /**
+   * Loads an interest and verifies the user owns the claimed publication.
+   *
+   * @param interestId - ID of the interest
+   * @param ownerId - ID of the user to verify
+   * @throws {Error} INTEREST_NOT_FOUND if interest doesn't exist
+   * @throws {Error} NOT_PUBLICATION_OWNER if user doesn't own the publication
+   */
+  private static async getOwnedInterest(
+    interestId: string,
+    ownerId: string
+  ): Promise<Interest> {
+    const interest = await this.getInterestById(interestId);
+
+    if (!interest) {
+      throw new Error("INTEREST_NOT_FOUND");
+    }
+
+    if (interest.publicationOwnerId !== ownerId) {
+      throw new Error("NOT_PUBLICATION_OWNER");
+    }
+
+    return interest;
+  }
+
+  /**
+   * Reads an interest within a transaction.
+   *
+   * @param transaction - Active Firestore transaction
+   * @param interestId - ID of the interest
+   * @returns Validated interest
+   *
+   * @throws {Error} INTEREST_NOT_FOUND if interest doesn't exist
+   * @throws {Error} INVALID_INTEREST_DATA if interest data fails schema validation
+   */
+  private static async getInterestInTransaction(
+    transaction: Transaction,
+    interestId: string
+  ): Promise<Interest> {
+    const snapshot = await transaction.get(
+      firestoreService.getDocumentReference(this.COLLECTION_NAME, interestId)
+    );
+
+    if (!snapshot.exists) {
+      throw new Error("INTEREST_NOT_FOUND");
+    }
+
+    const result = safeParse(InterestSchema, {
+      id: snapshot.id,
+      ...snapshot.data(),
+    });
+    if (!result.success) {
+      throw new Error("INVALID_INTEREST_DATA");
+    }
+
+    return result.output;
+  }
+
+  /**
+   * Queries interests by a single field and drops malformed documents.
+   *
+   * @param field - Field to filter by
+   * @param value - Value the field must equal
+   * @returns Array of valid interests
+   */
+  private static async queryInterests(
+    field: "publicationId" | "userId",
+    value: string
+  ): Promise<Interest[]> {
+    const interests = await firestoreService.query<Interest>(
+      this.COLLECTION_NAME,
+      {
+        where: [field, "==", value],
+      }
+    );
+
+    const validInterests: Interest[] = [];
+    for (const interest of interests) {
+      const result = safeParse(InterestSchema, interest);
+      if (result.success) {
+        validInterests.push(result.output);
+      }
+    }
+
+    return validInterests;
+  }
+
+  /**
+   * Counts a fulfilled claim in the statistics of both users: a donation
+   * given and received (a whole offer is handed over to its claimant), or
+   * an item exchanged by each side.
+   *
+   * @param interest - Fulfilled interest
+   * @param publication - Claimed publication
+   * @param transaction - Transaction fulfilling the interest
+   */
+  private static async recordFulfillment(
+    interest: Interest,
+    publication: PublicationResponse,
+    transaction: Transaction
+  ): Promise<void> {
+    if (publication.type === PUBLICATION_TYPES.EXCHANGE) {
+      await UserStatsService.record(
+        interest.publicationOwnerId,
+        { itemsExchanged: 1 },
+        transaction
+      );
+      await UserStatsService.record(
+        interest.userId,
+        { itemsExchanged: 1 },
+        transaction
+      );
+      return;
+    }
+
+    // The owner of an offer gives; a request's owner receives
+    const [donorId, recipientId] =
+      publication.type === PUBLICATION_TYPES.DONATION_OFFER
+        ? [interest.publicationOwnerId, interest.userId]
+        : [interest.userId, interest.publicationOwnerId];
+
+    await UserStatsService.record(
+      donorId,
+      {
+        donationsGiven: 1,
+        ...(publication.type === PUBLICATION_TYPES.DONATION_OFFER && {
+          impact: { [publication.category]: publication.quantity },
+        }),
+      },
+      transaction
+    );
+    await UserStatsService.record(
+      recipientId,
+      { donationsReceived: 1 },
+      transaction
+    );
+  }
+
+  /**
+   * Moves an interest to a new status after validating the transition,
+   * and notifies the other party. The interest is read again and written in
+   * a transaction, so concurrent or retried calls can't both apply it; a
+   * fulfillment is counted in the statistics with it.
+   *
+   * @param interest - Interest to update
+   * @param status - Target status
+   * @returns Updated interest
+   *
+   * @throws {Error} INVALID_INTEREST_TRANSITION if the transition is not allowed
+   */
+  private static async transition(
+    interest: Interest,
+    status: InterestStatus
+  ): Promise<Interest> {
+    const publication = await PublicationService.getPublicationById(
+      interest.publicationId
+    );
+
+    const updated = await firestoreService.runTransaction(
+      async (transaction) => {
+        const current = await this.getInterestInTransaction(
+          transaction,
+          interest.id
+        );
+
+        if (!this.TRANSITIONS[current.status].includes(status)) {
+          throw new Error("INVALID_INTEREST_TRANSITION");
+        }
+
+        if (status === INTEREST_STATUS.FULFILLED && publication) {
+          await this.recordFulfillment(current, publication, transaction);
+        }
+
+        transaction.update(
+          firestoreService.getDocumentReference(
+            this.COLLECTION_NAME,
+            interest.id
+          ),
+          { status, updatedAt: new Date() }
+        );
+
+        return { ...current, status };
+      }
+    );
+
+    const recipientId =
+      status === INTEREST_STATUS.WITHDRAWN
+        ? interest.publicationOwnerId
+        : interest.userId;
+
+    socketService.emitToUser(recipientId, "interest_update", {
+      interestId: interest.id,
+      publicationId: interest.publicationId,
+      status,
+    });
+
+    await NotificationService.notify(recipientId, {
+      type: NOTIFICATION_TYPES.INTEREST_UPDATE,
+      title: this.UPDATE_TITLES[status],
+      body: publication?.title ?? "",
+      data: {
+        interestId: interest.id,
+        publicationId: interest.publicationId,
+        status,
+      },
+    });
+
+    return updated;
+  }
+}
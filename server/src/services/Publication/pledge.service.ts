@@ -0,0 +1,581 @@
+import { safeParse } from "valibot";
+import {
+  ConfirmDeliverySchema,
+  CreatePledgeSchema,
+  PLEDGE_STATUS,
+  PledgeSchema,
+} from "../../models/schema/pledge";
+import {
+  DonationRequestSchema,
+  PUBLICATION_STATUS,
+  PUBLICATION_TYPES,
+} from "../../models/schema/publication";
+import type { Pledge } from "../../models/types/pledge";
+import type { DonationRequest } from "../../models/types/publication";
+import { firestoreService } from "../Firebase/firebase.service";
+import { socketService } from "../Chat/socket.service";
+import { PublicationService } from "./publication.service";
+import { UserStatsService } from "../User/UserStats.service";
+import { NotificationService } from "../Notification/notification.service";
+import { NOTIFICATION_TYPES } from "../../models/schema/notification";
+import type { Transaction } from "firebase-admin/firestore";
+
+export class PledgeService {
+  private static readonly COLLECTION_NAME = "donation_pledge";
+  private static readonly PUBLICATION_COLLECTION = "publication";
+
+  /**
+   * ================================================
+   *                     CREATIONS
+   * ================================================
+   */
+
+  /**
+   * Records a donor's pledge against a donation request.
+   * The pledge is reserved on the request inside a transaction so the sum of
+   * delivered and outstanding pledges can never exceed the target quantity.
+   *
+   * @param publicationId - ID of the donation request
+   * @param donorId - ID of the user pledging
+   * @param input - Pledge data (item, quantity, optional note)
+   * @returns Promise resolving to the created pledge ID
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} PUBLICATION_NOT_FOUND if publication doesn't exist
+   * @throws {Error} NOT_A_DONATION_REQUEST if publication is not a donation request
+   * @throws {Error} PUBLICATION_NOT_ACTIVE if the request is no longer active
+   * @throws {Error} CANNOT_PLEDGE_OWN_REQUEST if the donor is the center
+   * @throws {Error} ITEM_NOT_ACCEPTED if the item is not in the accepted items
+   * @throws {Error} PLEDGE_EXCEEDS_REMAINING_QUANTITY if the target would be exceeded
+   */
+  static async createPledge(
+    publicationId: string,
+    donorId: string,
+    input: unknown
+  ): Promise<string> {
+    try {
+      const result = safeParse(CreatePledgeSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const validatedData = result.output;
+
+      const pledgeId = await firestoreService.runTransaction(
+        async (transaction) => {
+          const request = await this.getDonationRequestInTransaction(
+            transaction,
+            publicationId
+          );
+
+          if (!request.isActive) {
+            throw new Error("PUBLICATION_NOT_ACTIVE");
+          }
+
+          if (request.centerId === donorId) {
+            throw new Error("CANNOT_PLEDGE_OWN_REQUEST");
+          }
+
+          const acceptedItems = request.acceptedItems.map((item) =>
+            item.toLocaleLowerCase()
+          );
+          if (
+            acceptedItems.length > 0 &&
+            !acceptedItems.includes(validatedData.item.toLocaleLowerCase())
+          ) {
+            throw new Error("ITEM_NOT_ACCEPTED");
+          }
+
+          const pledgedQuantity = request.pledgedQuantity || 0;
+          const remaining =
+            request.targetQuantity - request.currentQuantity - pledgedQuantity;
+          if (validatedData.quantity > remaining) {
+            throw new Error("PLEDGE_EXCEEDS_REMAINING_QUANTITY");
+          }
+
+          const pledgeRef = firestoreService.getDocumentReference(
+            this.COLLECTION_NAME
+          );
+          const timestamp = new Date();
+
+          transaction.set(pledgeRef, {
+            ...validatedData,
+            id: pledgeRef.id,
+            publicationId,
+            centerId: request.centerId,
+            donorId,
+            status: PLEDGE_STATUS.PLEDGED,
+            createdAt: timestamp,
+            updatedAt: timestamp,
+          });
+
+          transaction.update(
+            firestoreService.getDocumentReference(
+              this.PUBLICATION_COLLECTION,
+              publicationId
+            ),
+            {
+              pledgedQuantity: pledgedQuantity + validatedData.quantity,
+              updatedAt: timestamp,
+            }
+          );
+
+          return pledgeRef.id;
+        }
+      );
+
+      const pledge = await this.getPledgeById(pledgeId);
+      if (pledge) {
+        socketService.emitToUser(pledge.centerId, "new_pledge", {
+          pledgeId,
+          publicationId,
+          donorId,
+          item: pledge.item,
+          quantity: pledge.quantity,
+        });
+      }
+
+      return pledgeId;
+    } catch (error) {
+      console.error(
+        `Failed to create pledge for publication ${publicationId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                     UPDATES
+   * ================================================
+   */
+
+  /**
+   * Confirms that a pledge was delivered to the donation center.
+   * Moves the delivered quantity from the outstanding pledges into
+   * `currentQuantity`, deactivates the request once the target is reached
+   * and counts the donation in the donor's and the center's statistics.
+   *
+   * @param pledgeId - ID of the pledge to confirm
+   * @param centerId - ID of the donation center confirming the delivery
+   * @param input - Optional delivered quantity (defaults to the pledged quantity)
+   * @returns Promise resolving to the updated pledge
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} PLEDGE_NOT_FOUND if pledge doesn't exist
+   * @throws {Error} NOT_DONATION_CENTER_OWNER if user is not the request's center
+   * @throws {Error} INVALID_PLEDGE_TRANSITION if the pledge is not outstanding
+   * @throws {Error} DELIVERED_QUANTITY_EXCEEDS_PLEDGE if more was delivered than pledged
+   */
+  static async confirmDelivery(
+    pledgeId: string,
+    centerId: string,
+    input: unknown = {}
+  ): Promise<Pledge> {
+    try {
+      const result = safeParse(ConfirmDeliverySchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const pledge = await firestoreService.runTransaction(
+        async (transaction) => {
+          const pledge = await this.getPledgeInTransaction(
+            transaction,
+            pledgeId
+          );
+
+          if (pledge.centerId !== centerId) {
+            throw new Error("NOT_DONATION_CENTER_OWNER");
+          }
+
+          if (pledge.status !== PLEDGE_STATUS.PLEDGED) {
+            throw new Error("INVALID_PLEDGE_TRANSITION");
+          }
+
+          const deliveredQuantity =
+            result.output.deliveredQuantity ?? pledge.quantity;
+          if (deliveredQuantity > pledge.quantity) {
+            throw new Error("DELIVERED_QUANTITY_EXCEEDS_PLEDGE");
+          }
+
+          const request = await this.getDonationRequestInTransaction(
+            transaction,
+            pledge.publicationId
+          );
+
+          const currentQuantity = request.currentQuantity + deliveredQuantity;
+          const pledgedQuantity = Math.max(
+            0,
+            (request.pledgedQuantity || 0) - pledge.quantity
+          );
+          const completed =
+            currentQuantity >= request.targetQuantity && request.isActive;
+          const timestamp = new Date();
+
+          transaction.update(
+            firestoreService.getDocumentReference(
+              this.COLLECTION_NAME,
+              pledgeId
+            ),
+            {
+              status: PLEDGE_STATUS.DELIVERED,
+              deliveredQuantity,
+              updatedAt: timestamp,
+            }
+          );
+
+          transaction.update(
+            firestoreService.getDocumentReference(
+              this.PUBLICATION_COLLECTION,
+              pledge.publicationId
+            ),
+            {
+              currentQuantity,
+              pledgedQuantity,
+              updatedAt: timestamp,
+              ...(completed && {
+                isActive: false,
+                status: PUBLICATION_STATUS.COMPLETED,
+                statusChangedAt: timestamp.getTime(),
+                completedAt: timestamp,
+              }),
+            }
+          );
+
+          await UserStatsService.record(
+            pledge.donorId,
+            {
+              donationsGiven: 1,
+              pledgesFulfilled: 1,
+              impact: { [request.category]: deliveredQuantity },
+            },
+            transaction
+          );
+          await UserStatsService.record(
+            request.userId,
+            {
+              donationsReceived: 1,
+              ...(completed && {
+                activePublications: {
+                  [PUBLICATION_TYPES.DONATION_REQUEST]: -1,
+                },
+              }),
+            },
+            transaction
+          );
+
+          return {
+            ...pledge,
+            status: PLEDGE_STATUS.DELIVERED,
+            deliveredQuantity,
+          };
+        }
+      );
+
+      socketService.emitToUser(pledge.donorId, "pledge_update", {
+        pledgeId,
+        publicationId: pledge.publicationId,
+        status: pledge.status,
+        deliveredQuantity: pledge.deliveredQuantity,
+      });
+
+      const quantity = pledge.deliveredQuantity ?? pledge.quantity;
+      await NotificationService.notify(pledge.donorId, {
+        type: NOTIFICATION_TYPES.PLEDGE_CONFIRMED,
+        title: "Pledge delivered",
+        body: `The center received your ${quantity} ${pledge.item}`,
+        data: { pledgeId, publicationId: pledge.publicationId },
+      });
+
+      return pledge;
+    } catch (error) {
+      console.error(`Failed to confirm delivery of pledge ${pledgeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels an outstanding pledge and releases its reserved quantity.
+   * Either the donor or the donation center can cancel.
+   *
+   * @param pledgeId - ID of the pledge to cancel
+   * @param userId - ID of the user cancelling
+   * @returns Promise resolving to the updated pledge
+   *
+   * @throws {Error} PLEDGE_NOT_FOUND if pledge doesn't exist
+   * @throws {Error} NOT_PLEDGE_PARTICIPANT if user is neither the donor nor the center
+   * @throws {Error} INVALID_PLEDGE_TRANSITION if the pledge is not outstanding
+   */
+  static async cancelPledge(pledgeId: string, userId: string): Promise<Pledge> {
+    try {
+      const pledge = await firestoreService.runTransaction(
+        async (transaction) => {
+          const pledge = await this.getPledgeInTransaction(
+            transaction,
+            pledgeId
+          );
+
+          if (pledge.donorId !== userId && pledge.centerId !== userId) {
+            throw new Error("NOT_PLEDGE_PARTICIPANT");
+          }
+
+          if (pledge.status !== PLEDGE_STATUS.PLEDGED) {
+            throw new Error("INVALID_PLEDGE_TRANSITION");
+          }
+
+          const request = await this.getDonationRequestInTransaction(
+            transaction,
+            pledge.publicationId
+          );
+          const timestamp = new Date();
+
+          transaction.update(
+            firestoreService.getDocumentReference(
+              this.COLLECTION_NAME,
+              pledgeId
+            ),
+            {
+              status: PLEDGE_STATUS.CANCELLED,
+              updatedAt: timestamp,
+            }
+          );
+
+          transaction.update(
+            firestoreService.getDocumentReference(
+              this.PUBLICATION_COLLECTION,
+              pledge.publicationId
+            ),
+            {
+              pledgedQuantity: Math.max(
+                0,
+                (request.pledgedQuantity || 0) - pledge.quantity
+              ),
+              updatedAt: timestamp,
+            }
+          );
+
+          return { ...pledge, status: PLEDGE_STATUS.CANCELLED };
+        }
+      );
+
+      const recipientId =
+        pledge.donorId === userId ? pledge.centerId : pledge.donorId;
+
+      socketService.emitToUser(recipientId, "pledge_update", {
+        pledgeId,
+        publicationId: pledge.publicationId,
+        status: pledge.status,
+      });
+
+      return pledge;
+    } catch (error) {
+      console.error(`Failed to cancel pledge ${pledgeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Retrieves a pledge by its ID.
+   *
+   * @param id - Pledge ID
+   * @returns Pledge object or null if not found
+   *
+   * @throws {Error} INVALID_PLEDGE_DATA if pledge data fails schema validation
+   */
+  static async getPledgeById(id: string): Promise<Pledge | null> {
+    try {
+      const pledge = await firestoreService.getById<Pledge>(
+        this.COLLECTION_NAME,
+        id
+      );
+
+      if (!pledge) return null;
+
+      const result = safeParse(PledgeSchema, pledge);
+      if (!result.success) {
+        console.error("Pledge data schema validation failed:", result.issues);
+        throw new Error("INVALID_PLEDGE_DATA");
+      }
+
+      return result.output;
+    } catch (error) {
+      console.error(`Failed to get pledge ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the pledge ledger of a donation request.
+   * Only the donation center that owns the request can see the full ledger.
+   *
+   * @param publicationId - ID of the donation request
+   * @param centerId - ID of the user requesting the ledger
+   * @returns Array of pledges for the request
+   *
+   * @throws {Error} PUBLICATION_NOT_FOUND if publication doesn't exist
+   * @throws {Error} NOT_A_DONATION_REQUEST if publication is not a donation request
+   * @throws {Error} NOT_DONATION_CENTER_OWNER if user is not the request's center
+   */
+  static async getPublicationPledges(
+    publicationId: string,
+    centerId: string
+  ): Promise<Pledge[]> {
+    try {
+      const publication = await PublicationService.getPublicationById(
+        publicationId
+      );
+
+      if (!publication) {
+        throw new Error("PUBLICATION_NOT_FOUND");
+      }
+
+      if (publication.type !== PUBLICATION_TYPES.DONATION_REQUEST) {
+        throw new Error("NOT_A_DONATION_REQUEST");
+      }
+
+      if (publication.centerId !== centerId) {
+        throw new Error("NOT_DONATION_CENTER_OWNER");
+      }
+
+      return await this.queryPledges("publicationId", publicationId);
+    } catch (error) {
+      console.error(
+        `Failed to get pledges for publication ${publicationId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves every pledge made by a donor.
+   *
+   * @param donorId - ID of the donor
+   * @returns Array of the donor's pledges
+   */
+  static async getDonorPledges(donorId: string): Promise<Pledge[]> {
+    try {
+      return await this.queryPledges("donorId", donorId);
+    } catch (error) {
+      console.error(`Failed to get pledges for donor ${donorId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Reads and validates a donation request inside a transaction.
+   *
+   * @param transaction - Active Firestore transaction
+   * @param publicationId - ID of the donation request
+   * @returns Validated donation request
+   *
+   * @throws {Error} PUBLICATION_NOT_FOUND if publication doesn't exist
+   * @throws {Error} NOT_A_DONATION_REQUEST if publication is not a donation request
+   */
+  private static async getDonationRequestInTransaction(
+    transaction: Transaction,
+    publicationId: string
+  ): Promise<DonationRequest> {
+    const snapshot = await transaction.get(
+      firestoreService.getDocumentReference(
+        this.PUBLICATION_COLLECTION,
+        publicationId
+      )
+    );
+
+    if (!snapshot.exists) {
+      throw new Error("PUBLICATION_NOT_FOUND");
+    }
+
+    const result = safeParse(DonationRequestSchema, {
+      id: snapshot.id,
+      ...snapshot.data(),
+    });
+    if (!result.success) {
+      throw new Error("NOT_A_DONATION_REQUEST");
+    }
+
+    return result.output;
+  }
+
+  /**
+   * Reads and validates a pledge inside a transaction.
+   *
+   * @param transaction - Active Firestore transaction
+   * @param pledgeId - ID of the pledge
+   * @returns Validated pledge
+   *
+   * @throws {Error} PLEDGE_NOT_FOUND if pledge doesn't exist
+   * @throws {Error} INVALID_PLEDGE_DATA if pledge data fails schema validation
+   */
+  private static async getPledgeInTransaction(
+    transaction: Transaction,
+    pledgeId: string
+  ): Promise<Pledge> {
+    const snapshot = await transaction.get(
+      firestoreService.getDocumentReference(this.COLLECTION_NAME, pledgeId)
+    );
+
+    if (!snapshot.exists) {
+      throw new Error("PLEDGE_NOT_FOUND");
+    }
+
+    const result = safeParse(PledgeSchema, {
+      id: snapshot.id,
+      ...snapshot.data(),
+    });
+    if (!result.success) {
+      throw new Error("INVALID_PLEDGE_DATA");
+    }
+
+    return result.output;
+  }
+
+  /**
+   * Queries pledges by a single field and drops malformed documents.
+   *
+   * @param field - Field to filter by
+   * @param value - Value the field must equal
+   * @returns Array of valid pledges
+   */
+  private static async queryPledges(
+    field: "publicationId" | "donorId",
+    value: string
+  ): Promise<Pledge[]> {
+    const pledges = await firestoreService.query<Pledge>(this.COLLECTION_NAME, {
+      where: [field, "==", value],
+    });
+
+    const validPledges: Pledge[] = [];
+    for (const pledge of pledges) {
+      const result = safeParse(PledgeSchema, pledge);
+      if (result.success) {
+        validPledges.push(result.output);
+      }
+    }
+
+    return validPledges;
+  }
+}
@@ -1,37 +1,65 @@
+import { FieldValue } from "firebase-admin/firestore";
 import { safeParse } from "valibot";
 import {
+  ChangePublicationStatusSchema,
   CreatePublicationSchema,
+  PUBLICATION_STATUS,
   PUBLICATION_TYPES,
   PublicationResponseSchema,
   UpdatePublicationSchema,
 } from "../../models/schema/publication";
 import type {
+  ChangePublicationStatusInput,
   CreatePublicationInput,
   DonationRequest,
+  NearbyPublication,
   Publication,
   PublicationResponse,
+  PublicationStatus,
+  SearchMatch,
+  SearchedPublication,
   UpdatePublicationInput,
 } from "../../models/types/publication";
-import { firestoreService } from "../Firebase/firebase.service";
+import {
+  firestoreService,
+  type UpdateData,
+  type WhereClause,
+} from "../Firebase/firebase.service";
 import { UserService } from "../User/User.service";
+import { CenterService } from "../Center/center.service";
+import { RoleService } from "../User/Role.service";
+import { GeoService } from "../Geo/geo.service";
+import { SearchService, type SearchHit } from "../Search/search.service";
+import { SavedSearchService } from "./savedSearch.service";
+import { ExchangeMatchService } from "./exchangeMatch.service";
+import { socketService } from "../Chat/socket.service";
+import { UserStatsService } from "../User/UserStats.service";
+import { permissions } from "../../config/permissions.config";
+import { ROLES } from "../../models/schema/role";
+import { HIDDEN_BY } from "../../models/schema/report";
+import type { HiddenBy } from "../../models/types/report";
 
 export interface PublicationFilters {
-  type?: string;
-  category?: string;
+  // Several values match any of them
+  type?: string | string[];
+  category?: string | string[];
   userId?: string;
   centerId?: string;
   isActive?: boolean;
-  priority?: string;
+  status?: string | string[]; // replaces the isActive filter
+  priority?: string | string[];
+  tags?: string[]; // matches publications with any of the tags
   location?: {
     latitude: number;
     longitude: number;
     radius: number;
   };
-  searchQuery?: string;
+  searchQuery?: string; // full-text search, results sorted by relevance
+  excludeUserIds?: Set<string>; // owners to leave out, such as blocked users
 }
 
 export interface PaginationOptions {
-  page?: number;
+  cursor?: string; // id of the last publication of the previous page
   limit?: number;
   sortBy?: "priority" | "another think";
   sortOrder?: "asc" | "desc";
@@ -40,6 +68,69 @@ export interface PaginationOptions {
 export class PublicationService {
   private static readonly COLLECTION_NAME = "publication";
 
+  // Days an offer or exchange stays listed before it expires
+  private static readonly LISTING_LIFETIME_DAYS =
+    Number(process.env.PUBLICATION_EXPIRY_DAYS) || 30;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  // Overdue publications expired per run, the rest wait for the next one
+  private static readonly EXPIRY_BATCH_SIZE = 200;
+
+  // Search hits scanned for the other filters, read in batches, and
+  // matches kept after filtering
+  private static readonly SEARCH_SCAN_LIMIT = 1000;
+  private static readonly SEARCH_BATCH_SIZE = 100;
+  private static readonly SEARCH_MAX_MATCHES = 200;
+
+  // Inactive statuses listed to anyone; drafts, removed and hidden
+  // publications are only listed to their owner
+  private static readonly PUBLIC_INACTIVE_STATUSES: PublicationStatus[] = [
+    PUBLICATION_STATUS.RESERVED,
+    PUBLICATION_STATUS.COMPLETED,
+    PUBLICATION_STATUS.EXPIRED,
+  ];
+
+  /**
+   * Allowed status transitions for a publication.
+   * Removed is terminal; expired publications can be renewed. Only
+   * moderation hides publications and shows them again.
+   */
+  private static readonly STATUS_TRANSITIONS: Record<
+    PublicationStatus,
+    PublicationStatus[]
+  > = {
+    [PUBLICATION_STATUS.DRAFT]: [
+      PUBLICATION_STATUS.ACTIVE,
+      PUBLICATION_STATUS.REMOVED,
+    ],
+    [PUBLICATION_STATUS.ACTIVE]: [
+      PUBLICATION_STATUS.RESERVED,
+      PUBLICATION_STATUS.COMPLETED,
+      PUBLICATION_STATUS.EXPIRED,
+      PUBLICATION_STATUS.REMOVED,
+      PUBLICATION_STATUS.HIDDEN,
+    ],
+    [PUBLICATION_STATUS.RESERVED]: [
+      PUBLICATION_STATUS.ACTIVE,
+      PUBLICATION_STATUS.COMPLETED,
+      PUBLICATION_STATUS.REMOVED,
+      PUBLICATION_STATUS.HIDDEN,
+    ],
+    [PUBLICATION_STATUS.COMPLETED]: [PUBLICATION_STATUS.REMOVED],
+    [PUBLICATION_STATUS.EXPIRED]: [
+      PUBLICATION_STATUS.ACTIVE,
+      PUBLICATION_STATUS.REMOVED,
+      PUBLICATION_STATUS.HIDDEN,
+    ],
+    [PUBLICATION_STATUS.REMOVED]: [],
+    [PUBLICATION_STATUS.HIDDEN]: [
+      PUBLICATION_STATUS.ACTIVE,
+      PUBLICATION_STATUS.RESERVED,
+      PUBLICATION_STATUS.EXPIRED,
+      PUBLICATION_STATUS.REMOVED,
+    ],
+  };
+
   /**
    * ================================================
    *                     CREATIONS
@@ -47,13 +138,18 @@ export class PublicationService {
    */
 
   /**
-   * Creates a new publication in the system.
+   * Creates a new publication in the system, indexes it for search and
+   * alerts the users whose saved searches it matches. A new exchange is
+   * matched against the other exchanges. Drafts skip all of this until they
+   * are published. Offers and exchanges expire after
+   * `PUBLICATION_EXPIRY_DAYS` (default: 30) unless renewed.
    *
    * @param input - Publication creation data
    * @param userId - ID of the user creating the publication
    * @returns Promise resolving to the created publication's document ID
    *
    * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} INVALID_DEADLINE if the deadline is invalid or passed
    * @throws {Error} Various validation errors from validatePublicationCreation
    */
   static async createPublication(
@@ -70,27 +166,57 @@ export class PublicationService {
         throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
       }
 
-      const validateData = result.output;
+      const { status = PUBLICATION_STATUS.ACTIVE, ...validateData } =
+        result.output;
 
       await this.validatePublicationCreation(validateData, userId);
 
+      const now = Date.now();
       const publicationData = {
         ...validateData,
+        location: {
+          ...validateData.location,
+          geohash: GeoService.encode(
+            validateData.location.latitude,
+            validateData.location.longitude
+          ),
+        },
         tags: validateData.tags || [],
         userId,
-        isActive: true,
+        isActive: status === PUBLICATION_STATUS.ACTIVE,
+        status,
+        statusChangedAt: now,
+        ...(status === PUBLICATION_STATUS.ACTIVE &&
+          validateData.type !== PUBLICATION_TYPES.DONATION_REQUEST && {
+            expiresAt: this.listingExpiry(now),
+          }),
         createAt: new Date(),
         updatedAt: new Date(),
         ...(validateData.type === PUBLICATION_TYPES.DONATION_REQUEST && {
           currentQuantity: 0,
+          pledgedQuantity: 0,
           centerId: userId,
         }),
       };
 
-      return await firestoreService.create<PublicationResponse>(
+      const id = await firestoreService.create<PublicationResponse>(
         this.COLLECTION_NAME,
         publicationData
       );
+
+      if (status === PUBLICATION_STATUS.ACTIVE) {
+        await UserStatsService.record(userId, {
+          activePublications: { [validateData.type]: 1 },
+        });
+        await this.syncSearchIndex(id);
+        await this.alertSavedSearches(id);
+
+        if (validateData.type === PUBLICATION_TYPES.EXCHANGE) {
+          await this.refreshExchangeMatches(id);
+        }
+      }
+
+      return id;
     } catch (error) {
       console.error("Publication creation failed:", error);
       throw error;
@@ -112,6 +238,7 @@ export class PublicationService {
    * @returns Promise that resolves when update is complete
    *
    * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} INVALID_DEADLINE if the new deadline is invalid or passed
    * @throws {Error} If user doesn't own the publication
    */
   static async updatePublication(
@@ -131,12 +258,24 @@ export class PublicationService {
 
       const validateData = result.output;
 
+      if (validateData.deadline) {
+        this.validateDeadline(validateData.deadline);
+      }
+
       await this.verifyPublicationOwnership(id, userId);
       console.log(validateData);
 
       await firestoreService.update<Publication>(this.COLLECTION_NAME, id, {
         ...validateData,
       });
+
+      if (validateData.title || validateData.description) {
+        await this.syncSearchIndex(id);
+      }
+
+      if (validateData.title || validateData.seeking) {
+        await this.refreshExchangeMatches(id);
+      }
     } catch (error) {
       console.log(`Failed to update publication ${id}:`, error);
       throw error;
@@ -144,39 +283,298 @@ export class PublicationService {
   }
 
   /**
-   * Updates the current quantity of a donation request publication.
+   * Moves a publication to a new status on behalf of its owner: publish a
+   * draft, reserve or release it, mark it completed or remove it.
    *
-   * @param publicationId - ID of the donation request publication
-   * @param additionalQuantity - Quantity to add to current quantity
-   * @returns Promise that resolves when quantity is updated
+   * @param id - Publication ID
+   * @param input - New status ({ status: "active" | "reserved" | "completed"
+   * | "removed" })
+   * @param userId - ID of the user changing the status
+   * @returns Promise resolving to the updated publication
    *
-   * @throws {Error} PUBLICATION_NOT_FOUND_OR_INVALID_TYPE if publication doesn't exist or is not a donation request
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} PUBLICATION_NOT_FOUND if publication doesn't exist
+   * @throws {Error} NOT_PUBLICATION_OWNER if user doesn't own the publication
+   * @throws {Error} INVALID_PUBLICATION_TRANSITION if the transition is not
+   * allowed
+   * @throws {Error} DEADLINE_PASSED if reactivating a request whose deadline
+   * has passed
+   * @throws {Error} PUBLICATION_HIDDEN if moderation hid the publication
    */
-  static async updateDonationQuantity(
-    publicationId: string,
-    additionalQuantity: number
-  ): Promise<void> {
+  static async changeStatus(
+    id: string,
+    input: ChangePublicationStatusInput,
+    userId: string
+  ): Promise<PublicationResponse> {
+    try {
+      const result = safeParse(ChangePublicationStatusSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const publication = await this.verifyPublicationOwnership(id, userId);
+
+      // Only a moderator can show a hidden publication again
+      if (this.statusOf(publication) === PUBLICATION_STATUS.HIDDEN) {
+        throw new Error("PUBLICATION_HIDDEN");
+      }
+
+      return await this.setStatus(publication, result.output.status);
+    } catch (error) {
+      console.error(`Failed to change status of publication ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks a publication as completed by its owner.
+   *
+   * @param id - Publication ID
+   * @param userId - ID of the user completing the publication
+   * @returns Promise resolving to the updated publication
+   *
+   * @throws {Error} PUBLICATION_NOT_FOUND if publication doesn't exist
+   * @throws {Error} NOT_PUBLICATION_OWNER if user doesn't own the publication
+   * @throws {Error} INVALID_PUBLICATION_TRANSITION if it isn't active or
+   * reserved
+   */
+  static async completePublication(
+    id: string,
+    userId: string
+  ): Promise<PublicationResponse> {
+    try {
+      const publication = await this.verifyPublicationOwnership(id, userId);
+
+      return await this.setStatus(publication, PUBLICATION_STATUS.COMPLETED);
+    } catch (error) {
+      console.error(`Failed to complete publication ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Extends the listing of an offer or exchange by another lifetime, and
+   * lists it again if it had expired. Donation requests follow their
+   * deadline instead: update it, then set the request active again.
+   *
+   * @param id - Publication ID
+   * @param userId - ID of the user renewing the publication
+   * @returns Promise resolving to the renewed publication
+   *
+   * @throws {Error} PUBLICATION_NOT_FOUND if publication doesn't exist
+   * @throws {Error} NOT_PUBLICATION_OWNER if user doesn't own the publication
+   * @throws {Error} PUBLICATION_NOT_RENEWABLE if it is a donation request
+   * @throws {Error} INVALID_PUBLICATION_TRANSITION if it isn't active or
+   * expired
+   */
+  static async renewPublication(
+    id: string,
+    userId: string
+  ): Promise<PublicationResponse> {
     try {
-      const publication = await this.getPublicationById(publicationId);
+      const publication = await this.verifyPublicationOwnership(id, userId);
 
-      if (!publication || !this.isDonationRequest(publication)) {
-        throw new Error("PUBLICATION_NOT_FOUND_OR_INVALID_TYPE");
+      if (this.isDonationRequest(publication)) {
+        throw new Error("PUBLICATION_NOT_RENEWABLE");
       }
 
-      const newQuantity = publication.currentQuantity + additionalQuantity;
+      const status = this.statusOf(publication);
+      if (status === PUBLICATION_STATUS.EXPIRED) {
+        return await this.setStatus(publication, PUBLICATION_STATUS.ACTIVE);
+      }
 
-      await firestoreService.update<DonationRequest>(
+      if (status !== PUBLICATION_STATUS.ACTIVE) {
+        throw new Error("INVALID_PUBLICATION_TRANSITION");
+      }
+
+      const expiresAt = this.listingExpiry(Date.now());
+      await firestoreService.update<PublicationResponse>(
         this.COLLECTION_NAME,
-        publicationId,
-        {
-          currentQuantity: newQuantity,
-        }
+        id,
+        { expiresAt }
       );
+
+      return { ...publication, expiresAt };
     } catch (error) {
-      console.error(
-        `Failed to update donation quantity for ${publicationId}:`,
-        error
+      console.error(`Failed to renew publication ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hides a publication on behalf of moderation: it leaves the listings and
+   * only its owner can still see it. Who hid it and its status are kept to
+   * restore it; a moderator hiding an auto-hidden publication takes over.
+   *
+   * @param id - Publication ID
+   * @param hiddenBy - Report threshold or moderator
+   * @returns Promise resolving to the hidden publication
+   *
+   * @throws {Error} PUBLICATION_NOT_FOUND if publication doesn't exist
+   * @throws {Error} INVALID_PUBLICATION_TRANSITION if it was completed or
+   * removed
+   */
+  static async hidePublication(
+    id: string,
+    hiddenBy: HiddenBy
+  ): Promise<PublicationResponse> {
+    try {
+      const publication = await this.getPublicationById(id);
+      if (!publication) {
+        throw new Error("PUBLICATION_NOT_FOUND");
+      }
+
+      const current = this.statusOf(publication);
+
+      if (current === PUBLICATION_STATUS.HIDDEN) {
+        if (
+          hiddenBy === HIDDEN_BY.MODERATOR &&
+          publication.hiddenBy !== HIDDEN_BY.MODERATOR
+        ) {
+          await firestoreService.update<PublicationResponse>(
+            this.COLLECTION_NAME,
+            id,
+            { hiddenBy }
+          );
+          return { ...publication, hiddenBy };
+        }
+        return publication;
+      }
+
+      this.assertTransition(publication, PUBLICATION_STATUS.HIDDEN);
+
+      const statusBeforeHidden = current as NonNullable<
+        PublicationResponse["statusBeforeHidden"]
+      >;
+
+      const hidden = await this.setStatus(
+        publication,
+        PUBLICATION_STATUS.HIDDEN,
+        { hiddenBy, statusBeforeHidden }
       );
+
+      return { ...hidden, hiddenBy, statusBeforeHidden };
+    } catch (error) {
+      console.error(`Failed to hide publication ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Shows a hidden publication again once moderation cleared it. It gets
+   * back the status it had when hidden, except that an active request whose
+   * deadline passed meanwhile expires. Publications that aren't hidden are
+   * left as they are.
+   *
+   * @param id - Publication ID
+   * @returns Promise resolving to the restored publication
+   *
+   * @throws {Error} PUBLICATION_NOT_FOUND if publication doesn't exist
+   */
+  static async restorePublication(id: string): Promise<PublicationResponse> {
+    try {
+      const publication = await this.getPublicationById(id);
+      if (!publication) {
+        throw new Error("PUBLICATION_NOT_FOUND");
+      }
+
+      if (this.statusOf(publication) !== PUBLICATION_STATUS.HIDDEN) {
+        return publication;
+      }
+
+      const previous =
+        publication.statusBeforeHidden ?? PUBLICATION_STATUS.ACTIVE;
+
+      const deadlinePassed =
+        previous === PUBLICATION_STATUS.ACTIVE &&
+        this.isDonationRequest(publication) &&
+        !!publication.deadline &&
+        this.deadlineTime(publication.deadline) <= Date.now();
+
+      const { hiddenBy, statusBeforeHidden, ...restored } =
+        await this.setStatus(
+          publication,
+          deadlinePassed ? PUBLICATION_STATUS.EXPIRED : previous,
+          {
+            hiddenBy: FieldValue.delete(),
+            statusBeforeHidden: FieldValue.delete(),
+          }
+        );
+
+      return restored;
+    } catch (error) {
+      console.error(`Failed to restore publication ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Expires the active donation requests whose deadline has passed and the
+   * offers and exchanges whose listing lifetime is over. Each owner gets a
+   * "publication_expired" event. Run periodically by PublicationExpiryService.
+   *
+   * @param now - Reference time in ms (default: now)
+   * @returns Number of publications expired
+   */
+  static async expireOverduePublications(
+    now: number = Date.now()
+  ): Promise<number> {
+    try {
+      const [requests, listings] = await Promise.all([
+        // Dates sort as strings; a date without a time is checked below
+        firestoreService.query<Publication>(this.COLLECTION_NAME, {
+          where: [
+            ["type", "==", PUBLICATION_TYPES.DONATION_REQUEST],
+            ["isActive", "==", true],
+            ["deadline", "<=", new Date(now).toISOString()],
+          ],
+          limit: this.EXPIRY_BATCH_SIZE,
+        }),
+        firestoreService.query<Publication>(this.COLLECTION_NAME, {
+          where: [
+            ["isActive", "==", true],
+            ["expiresAt", "<=", now],
+          ],
+          limit: this.EXPIRY_BATCH_SIZE,
+        }),
+      ]);
+
+      const overdue = [
+        ...requests.filter(
+          (pub) =>
+            this.isDonationRequest(pub) &&
+            !!pub.deadline &&
+            this.deadlineTime(pub.deadline) <= now
+        ),
+        ...listings.filter((pub) => !this.isDonationRequest(pub)),
+      ];
+
+      let expired = 0;
+      for (const pub of overdue) {
+        try {
+          const result = safeParse(PublicationResponseSchema, pub);
+          if (!result.success) continue;
+
+          await this.setStatus(result.output, PUBLICATION_STATUS.EXPIRED);
+          expired++;
+
+          socketService.emitToUser(pub.userId, "publication_expired", {
+            publicationId: pub.id,
+            title: pub.title,
+            reason: this.isDonationRequest(pub) ? "deadline" : "lifetime",
+          });
+        } catch (error) {
+          console.error(`Failed to expire publication ${pub.id}:`, error);
+        }
+      }
+
+      return expired;
+    } catch (error) {
+      console.error("Failed to expire overdue publications:", error);
       throw error;
     }
   }
@@ -188,28 +586,23 @@ export class PublicationService {
    */
 
   /**
-   * Soft deletes a publication by marking it as inactive.
+   * Soft deletes a publication by moving it to the removed status.
    *
    * @param id - Publication ID to delete
    * @param userId - ID of the user attempting deletion
-   * @returns Promise that resolves when publication is marked inactive
+   * @returns Promise that resolves when publication is removed
    *
    * @throws {Error} If user doesn't own the publication
+   * @throws {Error} INVALID_PUBLICATION_TRANSITION if it was already removed
    *
    * @example
    * await PublicationService.deletePublication("publication123", "user123");
    */
   static async deletePublication(id: string, userId: string): Promise<void> {
     try {
-      await this.verifyPublicationOwnership(id, userId);
+      const publication = await this.verifyPublicationOwnership(id, userId);
 
-      await firestoreService.update<PublicationResponse>(
-        this.COLLECTION_NAME,
-        id,
-        {
-          isActive: false,
-        }
-      );
+      await this.setStatus(publication, PUBLICATION_STATUS.REMOVED);
     } catch (error) {
       console.error(`Failed to delete publication ${id}:`, error);
       throw error;
@@ -223,133 +616,210 @@ export class PublicationService {
    */
 
   /**
-   * Retrieves publications with filtering, sorting, and pagination.
+   * Retrieves publications with filtering, sorting, and cursor pagination.
+   * With a text query the results come from the search index, best match
+   * first (see searchPublications). With a location filter they come from a
+   * radius query instead, closest first and without a next page cursor.
    *
    * @param filters - Filter criteria for publications
-   * @param pagination - Pagination and sorting options
-   * @returns Object containing publications array and total count
+   * @param pagination - Cursor, page size and sorting options
+   * @returns Page of publications, the cursor of the next page and, except
+   *          for location searches, the total number of matches
+   *
+   * @throws {Error} INVALID_CURSOR if the cursor publication doesn't exist
+   * @throws {Error} INVALID_QUERY_FILTER if a filter has too many values
    */
   static async getPublications(
     filters: PublicationFilters = {},
     pagination: PaginationOptions = {}
-  ): Promise<{ publications: Publication[]; total: number }> {
+  ): Promise<{
+    publications: Publication[];
+    nextCursor: string | null;
+    hasMore: boolean;
+    total?: number;
+  }> {
     try {
       const {
-        page = 1,
+        cursor,
         limit = 20,
         sortBy = "priority",
         sortOrder = "desc",
       } = pagination;
 
-      let queryOptions: any = {};
-      const whereClauses = [];
-
-      if (filters.type) {
-        whereClauses.push(["type", "==", filters.type]);
+      if (filters.searchQuery?.trim()) {
+        return await this.searchPublications(filters, { cursor, limit });
       }
 
-      if (filters.category) {
-        whereClauses.push(["category", "==", filters.category]);
-      }
-
-      if (filters.userId) {
-        whereClauses.push(["userId", "==", filters.userId]);
-      }
-
-      if (filters.centerId) {
-        whereClauses.push(["centerId", "==", filters.centerId]);
-      }
+      if (filters.location) {
+        const { latitude, longitude, radius } = filters.location;
+        const nearby = await this.searchPublicationsNearby(
+          latitude,
+          longitude,
+          radius,
+          filters,
+          limit + 1
+        );
 
-      if (filters.isActive !== undefined) {
-        whereClauses.push(["isActive", "==", filters.isActive]);
-      } else {
-        whereClauses.push(["isActive", "==", true]);
+        return {
+          publications: nearby.slice(0, limit),
+          nextCursor: null,
+          hasMore: nearby.length > limit,
+        };
       }
 
-      if (filters.priority) {
-        whereClauses.push(["priority", "==", filters.priority]);
-      }
+      const where = this.buildWhereClauses(filters);
+
+      const [page, total] = await Promise.all([
+        firestoreService.queryPagination<Publication>(
+          this.COLLECTION_NAME,
+          {
+            where,
+            orderBy: { field: sortBy, direction: sortOrder },
+            pageSize: limit,
+          },
+          cursor
+        ),
+        firestoreService.count(this.COLLECTION_NAME, { where }),
+      ]);
+
+      // Left out of the page after the query, so a page can come up short
+      const publications: PublicationResponse[] = [];
+      for (const pub of page.data) {
+        if (filters.excludeUserIds?.has(pub.userId)) continue;
 
-      if (whereClauses.length > 0) {
-        queryOptions.where = whereClauses[0];
+        const result = safeParse(PublicationResponseSchema, pub);
+        if (result.success) {
+          publications.push(result.output);
+        }
       }
 
-      queryOptions.orderBy = {
-        field: sortBy,
-        direction: sortOrder,
+      return {
+        publications,
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+        total,
       };
+    } catch (error) {
+      console.error("Failed to get publications:", error);
+      throw error;
+    }
+  }
 
-      const publications = await firestoreService.query<Publication>(
-        this.COLLECTION_NAME,
-        queryOptions
+  /**
+   * Full-text search over publication titles, descriptions and tags, best
+   * match first. Accents and word endings are ignored ("camion" finds
+   * "Camiones") and small typos are tolerated. The other filters, location
+   * included, narrow down the matches: the best hits are read in batches
+   * until 200 matches pass them or 1000 hits were scanned.
+   *
+   * @param filters - Filter criteria, searchQuery being the text to look for
+   * @param pagination - Cursor and page size (sorting is always by relevance)
+   * @returns Page of matches with their score and highlighted snippets, the
+   *          cursor of the next page and the number of matches
+   *
+   * @throws {Error} INVALID_CURSOR if the cursor isn't one of the matches
+   *
+   * @example
+   * const { publications } = await PublicationService.searchPublications({
+   *   searchQuery: "zapatos niña",
+   *   category: "clothing",
+   * });
+   * // publications[0].highlights.title
+   * //   === "<mark>Zapatos</mark> de <mark>niña</mark>"
+   */
+  static async searchPublications(
+    filters: PublicationFilters,
+    pagination: PaginationOptions = {}
+  ): Promise<{
+    publications: SearchedPublication[];
+    nextCursor: string | null;
+    hasMore: boolean;
+    total: number;
+  }> {
+    try {
+      const { cursor, limit = 20 } = pagination;
+
+      const hits = await SearchService.search(
+        filters.searchQuery ?? "",
+        this.SEARCH_SCAN_LIMIT
       );
 
-      let filteredPublications = publications;
-      if (filters.location) {
-        filteredPublications = publications.filter((pub) =>
-          this.isWithinRadius(
-            pub.location.latitude,
-            pub.location.longitude,
-            filters.location!.latitude,
-            filters.location!.longitude,
-            filters.location!.radius
-          )
+      const matches: SearchedPublication[] = [];
+      for (
+        let offset = 0;
+        offset < hits.length && matches.length < this.SEARCH_MAX_MATCHES;
+        offset += this.SEARCH_BATCH_SIZE
+      ) {
+        const batch = hits.slice(offset, offset + this.SEARCH_BATCH_SIZE);
+        const candidates = await firestoreService.getByIds<Publication>(
+          this.COLLECTION_NAME,
+          batch.map((hit) => hit.id)
         );
-      }
 
-      if (filters.searchQuery) {
-        filteredPublications = filteredPublications.filter(
-          (pub) =>
-            pub.title
-              .toLocaleLowerCase()
-              .includes(filters.searchQuery!.toLocaleLowerCase()) ||
-            pub.description
-              .toLocaleLowerCase()
-              .includes(filters.searchQuery!.toLocaleLowerCase()) ||
-            pub.tags.some((tag) =>
-              tag
-                .toLocaleLowerCase()
-                .includes(filters.searchQuery!.toLocaleLowerCase())
-            )
-        );
+        batch.forEach((hit, index) => {
+          const pub = candidates[index];
+          if (!pub || !this.matchesFilters(pub, filters)) return;
+          if (matches.length >= this.SEARCH_MAX_MATCHES) return;
+
+          let distance: number | undefined;
+          if (filters.location) {
+            distance = GeoService.distanceKm(filters.location, pub.location);
+            if (distance > filters.location.radius) return;
+          }
+
+          const result = safeParse(PublicationResponseSchema, pub);
+          if (!result.success) return;
+
+          matches.push({
+            ...result.output,
+            ...this.describeMatch(result.output, hit),
+            ...(distance !== undefined && {
+              distance: Math.round(distance * 100) / 100,
+            }),
+          });
+        });
       }
 
-      const startIndex = (page - 1) * limit;
-      const paginatePublication = filteredPublications.slice(
-        startIndex,
-        startIndex + limit
-      );
-
-      const validatedPublications: PublicationResponse[] = [];
-      for (const pub of paginatePublication) {
-        const result = safeParse(PublicationResponseSchema, pub);
-        if (result.success) {
-          validatedPublications.push(result.output);
+      let start = 0;
+      if (cursor) {
+        const index = matches.findIndex((pub) => pub.id === cursor);
+        if (index === -1) {
+          throw new Error("INVALID_CURSOR");
         }
+        start = index + 1;
       }
 
+      const publications = matches.slice(start, start + limit);
+      const hasMore = start + limit < matches.length;
+
       return {
-        publications: validatedPublications,
-        total: filteredPublications.length,
+        publications,
+        nextCursor: hasMore ? publications[publications.length - 1]!.id : null,
+        hasMore,
+        total: matches.length,
       };
     } catch (error) {
-      console.error("Failed to get publications:", error);
+      console.error("Failed to search publications:", error);
       throw error;
     }
   }
 
   /**
-   * Retrieves all active publications for a specific user.
+   * Retrieves the publications of a specific user, only the active ones
+   * unless statuses are given.
    *
    * @param userId - User ID to get publications for
-   * @returns Array of user's active publications
+   * @param status - Optional statuses to list instead of the active ones
+   * @returns Array of user's publications
    */
-  static async getUserPublications(userId: string): Promise<Publication[]> {
+  static async getUserPublications(
+    userId: string,
+    status?: string[]
+  ): Promise<Publication[]> {
     try {
-      const { publications } = await this.getPublications({
-        userId,
-        isActive: true,
-      });
+      const { publications } = await this.getPublications(
+        status?.length ? { userId, status } : { userId, isActive: true }
+      );
 
       return publications;
     } catch (error) {
@@ -418,25 +888,58 @@ export class PublicationService {
   }
 
   /**
-   * Searches for publications within a specified geographic radius.
+   * Searches for publications within a specified geographic radius using
+   * geohash range queries.
    *
    * @param latitude - Center point latitude
    * @param longitude - Center point longitude
    * @param radius - Search radius in kilometers (default: 10)
-   * @param filters - Additional publication filters (excluding location)
-   * @returns Array of publications within the specified radius
+   * @param filters - Additional publication filters (location is ignored)
+   * @param limit - Maximum number of publications (default: 50)
+   * @returns Publications within the radius with their distance, closest
+   *          first. With a text query, only matches are returned, with their
+   *          score and highlighted snippets.
    */
   static async searchPublicationsNearby(
     latitude: number,
     longitude: number,
     radius: number = 10,
-    filters: Omit<PublicationFilters, "location"> = {}
-  ): Promise<Publication[]> {
+    filters: PublicationFilters = {},
+    limit: number = 50
+  ): Promise<NearbyPublication[]> {
     try {
-      const { publications } = await this.getPublications({
-        ...filters,
-        location: { latitude, longitude, radius },
-      });
+      const [nearby, hits] = await Promise.all([
+        GeoService.queryNearby<Publication>(
+          this.COLLECTION_NAME,
+          { latitude, longitude },
+          radius,
+          { where: this.buildWhereClauses(filters) }
+        ),
+        filters.searchQuery?.trim()
+          ? SearchService.search(filters.searchQuery)
+          : undefined,
+      ]);
+
+      const hitsById = hits && new Map(hits.map((hit) => [hit.id, hit]));
+
+      const publications: NearbyPublication[] = [];
+      for (const { distance, ...pub } of nearby) {
+        if (publications.length >= limit) break;
+
+        if (filters.excludeUserIds?.has(pub.userId)) continue;
+
+        const hit = hitsById?.get(pub.id);
+        if (hitsById && !hit) continue;
+
+        const result = safeParse(PublicationResponseSchema, pub);
+        if (result.success) {
+          publications.push({
+            ...result.output,
+            distance,
+            ...(hit && this.describeMatch(result.output, hit)),
+          });
+        }
+      }
 
       return publications;
     } catch (error) {
@@ -451,6 +954,320 @@ export class PublicationService {
    * ================================================
    */
 
+  /**
+   * Builds the Firestore where clauses of the field filters.
+   * A filter with several values becomes an "in" clause, tags use
+   * "array-contains-any". Only active publications are returned by default,
+   * a status filter replaces that default. Inactive publications of every
+   * user leave out the drafts, removed and hidden ones, listed to their
+   * owner only.
+   *
+   * @param filters - Filter criteria for publications
+   * @returns Where clauses combined with AND
+   */
+  private static buildWhereClauses(filters: PublicationFilters): WhereClause[] {
+    const clauses: WhereClause[] = [];
+
+    const addFilter = (field: string, value?: string | string[]) => {
+      if (value === undefined) return;
+
+      const values = Array.isArray(value) ? value : [value];
+      if (values.length === 0) return;
+
+      clauses.push(
+        values.length === 1 ? [field, "==", values[0]] : [field, "in", values]
+      );
+    };
+
+    addFilter("type", filters.type);
+    addFilter("category", filters.category);
+    addFilter("userId", filters.userId);
+    addFilter("centerId", filters.centerId);
+    addFilter("priority", filters.priority);
+    addFilter("status", filters.status);
+
+    if (filters.status === undefined) {
+      if (filters.isActive === false && filters.userId === undefined) {
+        clauses.push(["status", "in", this.PUBLIC_INACTIVE_STATUSES]);
+      } else {
+        clauses.push(["isActive", "==", filters.isActive ?? true]);
+      }
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      clauses.push(["tags", "array-contains-any", filters.tags]);
+    }
+
+    return clauses;
+  }
+
+  /**
+   * In-memory counterpart of buildWhereClauses, for publications loaded
+   * from the search index.
+   *
+   * @param publication - Publication to check
+   * @param filters - Filter criteria for publications
+   * @returns True if the publication matches every field filter
+   */
+  private static matchesFilters(
+    publication: Publication,
+    filters: PublicationFilters
+  ): boolean {
+    const matches = (value: unknown, filter?: string | string[]) => {
+      if (filter === undefined) return true;
+
+      const values = Array.isArray(filter) ? filter : [filter];
+      return values.length === 0 || values.includes(value as string);
+    };
+
+    const fields = publication as Partial<DonationRequest> & Publication;
+
+    return (
+      matches(fields.type, filters.type) &&
+      matches(fields.category, filters.category) &&
+      matches(fields.userId, filters.userId) &&
+      !filters.excludeUserIds?.has(fields.userId) &&
+      matches(fields.centerId, filters.centerId) &&
+      matches(fields.priority, filters.priority) &&
+      matches(fields.status, filters.status) &&
+      (filters.status !== undefined ||
+        (filters.isActive === false && filters.userId === undefined
+          ? !!fields.status &&
+            this.PUBLIC_INACTIVE_STATUSES.includes(fields.status)
+          : fields.isActive === (filters.isActive ?? true))) &&
+      (!filters.tags?.length ||
+        filters.tags.some((tag) => fields.tags.includes(tag)))
+    );
+  }
+
+  /**
+   * Relevance score and highlighted snippets of a search match.
+   */
+  private static describeMatch(
+    publication: PublicationResponse,
+    hit: SearchHit
+  ): SearchMatch {
+    return {
+      score: hit.score,
+      highlights: {
+        title: SearchService.highlight(publication.title, hit.terms),
+        description: SearchService.highlight(
+          publication.description,
+          hit.terms
+        ),
+      },
+    };
+  }
+
+  /**
+   * Alerts the saved searches a new publication matches. A failure is only
+   * logged so it never fails the publication creation.
+   *
+   * @param id - Publication ID
+   */
+  private static async alertSavedSearches(id: string): Promise<void> {
+    try {
+      const publication = await this.getPublicationById(id);
+      if (publication) {
+        await SavedSearchService.notifyMatches(publication);
+      }
+    } catch (error) {
+      console.error(
+        `Failed to alert saved searches for publication ${id}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Looks for new mutual matches of an exchange after it was created or
+   * changed. A failure is only logged.
+   *
+   * @param id - Publication ID (ignored unless it is an active exchange)
+   */
+  private static async refreshExchangeMatches(id: string): Promise<void> {
+    try {
+      await ExchangeMatchService.refreshMatches(id);
+    } catch (error) {
+      console.error(`Failed to refresh exchange matches of ${id}:`, error);
+    }
+  }
+
+  /**
+   * Updates the search index after a publication write. A failure is only
+   * logged: the publication is saved, and `bun run search:reindex` brings
+   * the index back in sync.
+   *
+   * @param id - Publication ID
+   * @param remove - Remove the publication from the index instead
+   */
+  private static async syncSearchIndex(
+    id: string,
+    remove: boolean = false
+  ): Promise<void> {
+    try {
+      if (remove) {
+        await SearchService.removePublication(id);
+      } else {
+        await SearchService.indexPublication(id);
+      }
+    } catch (error) {
+      console.error(`Search index out of sync for publication ${id}:`, error);
+    }
+  }
+
+  /**
+   * Current status of a publication. Publications created before statuses
+   * existed are active, completed (fully delivered requests) or removed.
+   *
+   * @param publication - Publication to check
+   * @returns Publication status
+   */
+  static statusOf(publication: Publication): PublicationStatus {
+    if (publication.status) return publication.status;
+    if (publication.isActive) return PUBLICATION_STATUS.ACTIVE;
+
+    return this.isDonationRequest(publication) &&
+      publication.currentQuantity >= publication.targetQuantity
+      ? PUBLICATION_STATUS.COMPLETED
+      : PUBLICATION_STATUS.REMOVED;
+  }
+
+  /**
+   * Moves a publication to a new status after validating the transition,
+   * keeps `isActive` and the owner's active publication count in sync and
+   * updates the search index. Publishing a draft alerts saved searches;
+   * publishing or renewing an offer or exchange starts a new listing
+   * lifetime.
+   *
+   * @param publication - Publication to update
+   * @param status - Target status
+   * @param fields - Other fields written along with the status
+   * @returns Updated publication, without the other fields
+   *
+   * @throws {Error} INVALID_PUBLICATION_TRANSITION if the transition is not
+   * allowed
+   * @throws {Error} DEADLINE_PASSED if activating a request whose deadline
+   * has passed
+   */
+  private static async setStatus(
+    publication: PublicationResponse,
+    status: PublicationStatus,
+    fields: UpdateData<PublicationResponse> = {}
+  ): Promise<PublicationResponse> {
+    const current = this.statusOf(publication);
+    this.assertTransition(publication, status);
+
+    if (
+      status === PUBLICATION_STATUS.ACTIVE &&
+      this.isDonationRequest(publication) &&
+      publication.deadline &&
+      this.deadlineTime(publication.deadline) <= Date.now()
+    ) {
+      throw new Error("DEADLINE_PASSED");
+    }
+
+    const now = Date.now();
+    const changes = {
+      status,
+      isActive: status === PUBLICATION_STATUS.ACTIVE,
+      statusChangedAt: now,
+      ...(status === PUBLICATION_STATUS.ACTIVE &&
+        current !== PUBLICATION_STATUS.RESERVED &&
+        !this.isDonationRequest(publication) && {
+          expiresAt: this.listingExpiry(now),
+        }),
+    };
+
+    await firestoreService.update<PublicationResponse>(
+      this.COLLECTION_NAME,
+      publication.id,
+      { ...fields, ...changes }
+    );
+
+    if (changes.isActive !== (current === PUBLICATION_STATUS.ACTIVE)) {
+      await UserStatsService.record(publication.userId, {
+        activePublications: { [publication.type]: changes.isActive ? 1 : -1 },
+      });
+    }
+
+    await this.onStatusChanged(publication.id, current, status);
+
+    return { ...publication, ...changes };
+  }
+
+  /**
+   * Checks that a publication can move to a status. Used by setStatus and
+   * by the transactions changing the status of several publications.
+   *
+   * @param publication - Publication to check
+   * @param status - Target status
+   *
+   * @throws {Error} INVALID_PUBLICATION_TRANSITION if the transition is not
+   * allowed
+   */
+  static assertTransition(
+    publication: Publication,
+    status: PublicationStatus
+  ): void {
+    const current = this.statusOf(publication);
+    if (!this.STATUS_TRANSITIONS[current].includes(status)) {
+      throw new Error("INVALID_PUBLICATION_TRANSITION");
+    }
+  }
+
+  /**
+   * Keeps the search index, saved search alerts and exchange matches in
+   * line with a status change, once it is written. Used by setStatus and
+   * after the transactions changing the status of several publications.
+   *
+   * @param id - Publication ID
+   * @param previous - Status before the change
+   * @param status - New status
+   */
+  static async onStatusChanged(
+    id: string,
+    previous: PublicationStatus,
+    status: PublicationStatus
+  ): Promise<void> {
+    if (status === PUBLICATION_STATUS.ACTIVE) {
+      await this.syncSearchIndex(id);
+      if (previous === PUBLICATION_STATUS.DRAFT) {
+        await this.alertSavedSearches(id);
+      }
+      await this.refreshExchangeMatches(id);
+    } else if (previous === PUBLICATION_STATUS.ACTIVE) {
+      await this.syncSearchIndex(id, true);
+    }
+  }
+
+  /**
+   * End of the listing lifetime of an offer or exchange listed at a time.
+   */
+  static listingExpiry(listedAt: number): number {
+    return listedAt + this.LISTING_LIFETIME_DAYS * this.DAY_MS;
+  }
+
+  /**
+   * Time (ms) a request deadline passes. A date without a time lasts until
+   * the end of that day (UTC). NaN if the deadline isn't a valid date.
+   */
+  private static deadlineTime(deadline: string): number {
+    return /^\d{4}-\d{2}-\d{2}$/.test(deadline)
+      ? Date.parse(`${deadline}T23:59:59.999Z`)
+      : Date.parse(deadline);
+  }
+
+  /**
+   * @throws {Error} INVALID_DEADLINE if the deadline is invalid or passed
+   */
+  private static validateDeadline(deadline: string): void {
+    const time = this.deadlineTime(deadline);
+    if (Number.isNaN(time) || time <= Date.now()) {
+      throw new Error("INVALID_DEADLINE");
+    }
+  }
+
   /**
    * Type guard to check if a publication is a DonationRequest.
    *
@@ -458,7 +1275,7 @@ export class PublicationService {
    * @returns True if publication is a DonationRequest
    */
   private static isDonationRequest(
-    publication: PublicationResponse
+    publication: Publication
   ): publication is DonationRequest {
     return publication.type === PUBLICATION_TYPES.DONATION_REQUEST;
   }
@@ -481,12 +1298,15 @@ export class PublicationService {
     }
 
     if (data.type === PUBLICATION_TYPES.DONATION_REQUEST) {
-      if (user.role !== "donationCenter" && user.role !== "admin") {
+      if (!RoleService.hasPermission(user, permissions.requests.create)) {
         throw new Error("ONLY_DONATION_CENTERS_CAN_CREATE_REQUESTS");
       }
 
-      if (!user.isVerified) {
-        throw new Error("DONATION_CENTER_MUST_BE_VERIFIED");
+      if (
+        RoleService.hasRole(user, ROLES.DONATION_CENTER) &&
+        !(await CenterService.isApprovedCenter(userId))
+      ) {
+        throw new Error("DONATION_CENTER_NOT_APPROVED");
       }
     }
 
@@ -502,6 +1322,10 @@ export class PublicationService {
           "DONATION_REQUEST_REQUIRES_PRIORITY_AND_TARGET_QUANTITY"
         );
       }
+
+      if (data.deadline) {
+        this.validateDeadline(data.deadline);
+      }
     }
 
     if (data.type === PUBLICATION_TYPES.EXCHANGE) {
@@ -516,13 +1340,14 @@ export class PublicationService {
    *
    * @param publicationId - Publication ID to verify ownership of
    * @param userId - User ID to verify ownership for
+   * @returns The publication
    * @throws {Error} PUBLICATION_NOT_FOUND if publication doesn't exist
    * @throws {Error} NOT_PUBLICATION_OWNER if user doesn't own the publication
    */
   private static async verifyPublicationOwnership(
     publicationId: string,
     userId: string
-  ): Promise<void> {
+  ): Promise<PublicationResponse> {
     const publication = await this.getPublicationById(publicationId);
 
     if (!publication) {
@@ -532,52 +1357,7 @@ export class PublicationService {
     if (publication.userId !== userId) {
       throw new Error("NOT_PUBLICATION_OWNER");
     }
-  }
-
-  /**
-   * Checks if two geographic points are within a specified radius using Haversine formula.
-   *
-   * @param lat1 - First point latitude
-   * @param lon1 - First point longitude
-   * @param lat2 - Second point latitude
-   * @param lon2 - Second point longitude
-   * @param radiusKm - Radius in kilometers to check within
-   * @returns True if points are within the specified radius
-   */
-  private static isWithinRadius(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-    radiusKm: number
-  ): boolean {
-    const R = 6371;
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLon = this.deg2rad(lon2 - lon1);
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.deg2rad(lat1)) *
-        Math.cos(this.deg2rad(lat2)) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const distance = R * c;
-
-    return distance <= radiusKm;
-  }
 
-  /**
-   * Converts degrees to radians.
-   *
-   * @param deg - Angle in degrees
-   * @returns Angle in radians
-   *
-   * @example
-   * const radians = PublicationService.deg2rad(180); // Returns: 3.14159...
-   */
-  private static deg2rad(deg: number): number {
-    return deg * (Math.PI / 180);
+    return publication;
   }
 }
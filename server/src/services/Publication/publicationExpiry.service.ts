@@ -0,0 +1,67 @@
+import { PublicationService } from "./publication.service";
+
+/**
+ * Periodically expires overdue publications: donation requests past their
+ * deadline, and offers and exchanges past their listing lifetime.
+ *
+ * Configuration:
+ * - PUBLICATION_EXPIRY_INTERVAL_MINUTES: minutes between runs (default: 60)
+ * - PUBLICATION_EXPIRY_JOB: "false" to disable the job on this instance
+ */
+export class PublicationExpiryService {
+  private static readonly INTERVAL_MS =
+    (Number(process.env.PUBLICATION_EXPIRY_INTERVAL_MINUTES) || 60) * 60000;
+
+  private static interval?: NodeJS.Timeout;
+  private static running = false;
+
+  /**
+   * Starts the job: a first run right away, then one every interval.
+   *
+   * @returns True if the job was started
+   */
+  static start(): boolean {
+    if (this.interval || process.env.PUBLICATION_EXPIRY_JOB === "false") {
+      return false;
+    }
+
+    this.interval = setInterval(() => this.run(), this.INTERVAL_MS);
+    this.run();
+
+    return true;
+  }
+
+  /**
+   * Stops the job.
+   */
+  static stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+  }
+
+  /**
+   * Expires the overdue publications once. A run still in progress is not
+   * overlapped, and a failure is only logged so the next run retries.
+   *
+   * @returns Number of publications expired
+   */
+  static async run(): Promise<number> {
+    if (this.running) return 0;
+
+    this.running = true;
+    try {
+      const expired = await PublicationService.expireOverduePublications();
+      if (expired > 0) {
+        console.log(`⏰ Expired ${expired} overdue publications`);
+      }
+      return expired;
+    } catch (error) {
+      console.error("Publication expiry run failed:", error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
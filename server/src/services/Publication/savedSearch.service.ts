@@ -0,0 +1,469 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { safeParse, type GenericSchema, type InferOutput } from "valibot";
+import {
+  CreateSavedSearchSchema,
+  SAVED_SEARCH_STATUS,
+  SavedSearchDigestEntrySchema,
+  SavedSearchSchema,
+  UpdateSavedSearchSchema,
+} from "../../models/schema/savedSearch";
+import type { PublicationResponse } from "../../models/types/publication";
+import type {
+  SavedSearch,
+  SavedSearchDigestEntry,
+  SavedSearchFilters,
+} from "../../models/types/savedSearch";
+import { firestoreService } from "../Firebase/firebase.service";
+import { socketService } from "../Chat/socket.service";
+import { GeoService } from "../Geo/geo.service";
+import { SearchService } from "../Search/search.service";
+
+/**
+ * Saved searches: a user stores a set of publication filters and gets an
+ * alert (socket event + digest entry) each time a new publication matches.
+ */
+export class SavedSearchService {
+  private static readonly COLLECTION_NAME = "saved_search";
+  private static readonly DIGEST_COLLECTION = "saved_search_digest";
+
+  private static readonly MAX_SAVED_SEARCHES_PER_USER = 20;
+  private static readonly MAX_DIGEST_ENTRIES = 50;
+
+  // Category key of the saved searches without a category filter
+  private static readonly ANY_CATEGORY = "*";
+
+  /**
+   * ================================================
+   *                     CREATIONS
+   * ================================================
+   */
+
+  /**
+   * Saves a search for a user. It starts active.
+   *
+   * @param userId - Owner of the saved search
+   * @param input - Name and filters of the search
+   * @returns Created saved search
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} SAVED_SEARCH_LIMIT_REACHED if the user has too many searches
+   */
+  static async createSavedSearch(
+    userId: string,
+    input: unknown
+  ): Promise<SavedSearch> {
+    try {
+      const result = safeParse(CreateSavedSearchSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const count = await firestoreService.count(this.COLLECTION_NAME, {
+        where: ["userId", "==", userId],
+      });
+      if (count >= this.MAX_SAVED_SEARCHES_PER_USER) {
+        throw new Error("SAVED_SEARCH_LIMIT_REACHED");
+      }
+
+      const { name, filters } = result.output;
+      const savedSearchData: Omit<SavedSearch, "id"> = {
+        userId,
+        name,
+        filters,
+        status: SAVED_SEARCH_STATUS.ACTIVE,
+        categoryKeys: filters.category?.length
+          ? filters.category
+          : [this.ANY_CATEGORY],
+        matchCount: 0,
+      };
+
+      const id = await firestoreService.create<SavedSearch>(
+        this.COLLECTION_NAME,
+        savedSearchData
+      );
+
+      return { id, ...savedSearchData };
+    } catch (error) {
+      console.error(`Failed to save search for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                     UPDATES
+   * ================================================
+   */
+
+  /**
+   * Pauses or resumes the alerts of a saved search.
+   *
+   * @param id - Saved search ID
+   * @param input - New status
+   * @returns Updated saved search
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} SAVED_SEARCH_NOT_FOUND if the saved search doesn't exist
+   */
+  static async updateStatus(id: string, input: unknown): Promise<SavedSearch> {
+    try {
+      const result = safeParse(UpdateSavedSearchSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const savedSearch = await this.getSavedSearchById(id);
+      if (!savedSearch) {
+        throw new Error("SAVED_SEARCH_NOT_FOUND");
+      }
+
+      await firestoreService.update<SavedSearch>(this.COLLECTION_NAME, id, {
+        status: result.output.status,
+      });
+
+      return { ...savedSearch, status: result.output.status };
+    } catch (error) {
+      console.error(`Failed to update saved search ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks every unread digest entry of a user as read.
+   *
+   * @param userId - User ID
+   * @returns Number of entries marked as read
+   */
+  static async markDigestRead(userId: string): Promise<number> {
+    try {
+      const unread = await firestoreService.query<SavedSearchDigestEntry>(
+        this.DIGEST_COLLECTION,
+        {
+          where: [
+            ["userId", "==", userId],
+            ["read", "==", false],
+          ],
+        }
+      );
+
+      await Promise.all(
+        unread.map((entry) =>
+          firestoreService.update<SavedSearchDigestEntry>(
+            this.DIGEST_COLLECTION,
+            entry.id,
+            { read: true }
+          )
+        )
+      );
+
+      return unread.length;
+    } catch (error) {
+      console.error(`Failed to mark digest of user ${userId} as read:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      DELETE
+   * ================================================
+   */
+
+  /**
+   * Deletes a saved search and its digest entries.
+   *
+   * @param id - Saved search ID
+   */
+  static async deleteSavedSearch(id: string): Promise<void> {
+    try {
+      const entries = await firestoreService.query<SavedSearchDigestEntry>(
+        this.DIGEST_COLLECTION,
+        { where: ["savedSearchId", "==", id] }
+      );
+
+      await Promise.all(
+        entries.map((entry) =>
+          firestoreService.delete(this.DIGEST_COLLECTION, entry.id)
+        )
+      );
+
+      await firestoreService.delete(this.COLLECTION_NAME, id);
+    } catch (error) {
+      console.error(`Failed to delete saved search ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Retrieves a saved search by its ID.
+   *
+   * @param id - Saved search ID
+   * @returns Saved search or null if not found
+   *
+   * @throws {Error} INVALID_SAVED_SEARCH_DATA if stored data fails schema validation
+   */
+  static async getSavedSearchById(id: string): Promise<SavedSearch | null> {
+    try {
+      const savedSearch = await firestoreService.getById<SavedSearch>(
+        this.COLLECTION_NAME,
+        id
+      );
+
+      if (!savedSearch) return null;
+
+      const result = safeParse(SavedSearchSchema, savedSearch);
+      if (!result.success) {
+        console.error(
+          "Saved search data schema validation failed:",
+          result.issues
+        );
+        throw new Error("INVALID_SAVED_SEARCH_DATA");
+      }
+
+      return result.output;
+    } catch (error) {
+      console.error(`Failed to get saved search ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the saved searches of a user.
+   *
+   * @param userId - User ID
+   * @returns User's saved searches
+   */
+  static async getUserSavedSearches(userId: string): Promise<SavedSearch[]> {
+    try {
+      const savedSearches = await firestoreService.query<SavedSearch>(
+        this.COLLECTION_NAME,
+        { where: ["userId", "==", userId] }
+      );
+
+      return this.parseAll(SavedSearchSchema, savedSearches);
+    } catch (error) {
+      console.error(`Failed to get saved searches of user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the latest digest entries of a user, newest first.
+   *
+   * @param userId - User ID
+   * @param unreadOnly - Only return entries not marked as read
+   * @returns Digest entries and the number of unread ones
+   */
+  static async getDigest(
+    userId: string,
+    unreadOnly: boolean = false
+  ): Promise<{ entries: SavedSearchDigestEntry[]; unread: number }> {
+    try {
+      const [entries, unread] = await Promise.all([
+        firestoreService.query<SavedSearchDigestEntry>(this.DIGEST_COLLECTION, {
+          where: unreadOnly
+            ? [
+                ["userId", "==", userId],
+                ["read", "==", false],
+              ]
+            : ["userId", "==", userId],
+          orderBy: { field: "matchedAt", direction: "desc" },
+          limit: this.MAX_DIGEST_ENTRIES,
+        }),
+        firestoreService.count(this.DIGEST_COLLECTION, {
+          where: [
+            ["userId", "==", userId],
+            ["read", "==", false],
+          ],
+        }),
+      ]);
+
+      return {
+        entries: this.parseAll(SavedSearchDigestEntrySchema, entries),
+        unread,
+      };
+    } catch (error) {
+      console.error(`Failed to get digest of user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      ALERTS
+   * ================================================
+   */
+
+  /**
+   * Alerts the owners of the active saved searches a new publication
+   * matches: each gets a digest entry and a "saved_search_match" event.
+   * Only searches listening to the publication's category are loaded.
+   *
+   * @param publication - Newly created publication
+   * @returns Number of saved searches that matched
+   */
+  static async notifyMatches(
+    publication: PublicationResponse
+  ): Promise<number> {
+    try {
+      const savedSearches = await firestoreService.query<SavedSearch>(
+        this.COLLECTION_NAME,
+        {
+          where: [
+            ["status", "==", SAVED_SEARCH_STATUS.ACTIVE],
+            [
+              "categoryKeys",
+              "array-contains-any",
+              [publication.category, this.ANY_CATEGORY],
+            ],
+          ],
+        }
+      );
+
+      const matches = this.parseAll(SavedSearchSchema, savedSearches).filter(
+        (savedSearch) =>
+          savedSearch.userId !== publication.userId &&
+          this.matches(savedSearch.filters, publication)
+      );
+
+      await Promise.all(
+        matches.map((savedSearch) => this.alert(savedSearch, publication))
+      );
+
+      return matches.length;
+    } catch (error) {
+      console.error(
+        `Failed to notify saved searches of publication ${publication.id}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Checks a publication against the filters of a saved search.
+   */
+  private static matches(
+    filters: SavedSearchFilters,
+    publication: PublicationResponse
+  ): boolean {
+    const anyOf = (value: unknown, allowed?: readonly string[]) =>
+      !allowed?.length || allowed.includes(value as string);
+
+    const fields = publication as PublicationResponse & {
+      priority?: string;
+      centerId?: string;
+    };
+
+    if (
+      !anyOf(fields.type, filters.type) ||
+      !anyOf(fields.category, filters.category) ||
+      !anyOf(fields.priority, filters.priority) ||
+      (filters.centerId && fields.centerId !== filters.centerId)
+    ) {
+      return false;
+    }
+
+    if (
+      filters.tags?.length &&
+      !filters.tags.some((tag) => publication.tags.includes(tag))
+    ) {
+      return false;
+    }
+
+    if (
+      filters.location &&
+      GeoService.distanceKm(filters.location, publication.location) >
+        filters.location.radius
+    ) {
+      return false;
+    }
+
+    return (
+      !filters.searchQuery ||
+      SearchService.matchesQuery(filters.searchQuery, [
+        publication.title,
+        publication.description,
+        ...publication.tags,
+      ])
+    );
+  }
+
+  /**
+   * Records a match in the digest and notifies the owner of the search.
+   */
+  private static async alert(
+    savedSearch: SavedSearch,
+    publication: PublicationResponse
+  ): Promise<void> {
+    const matchedAt = Date.now();
+
+    const entry: Omit<SavedSearchDigestEntry, "id"> = {
+      userId: savedSearch.userId,
+      savedSearchId: savedSearch.id,
+      savedSearchName: savedSearch.name,
+      publicationId: publication.id,
+      publicationTitle: publication.title,
+      matchedAt,
+      read: false,
+    };
+
+    const entryId = await firestoreService.create<SavedSearchDigestEntry>(
+      this.DIGEST_COLLECTION,
+      entry
+    );
+
+    await firestoreService.update<SavedSearch>(
+      this.COLLECTION_NAME,
+      savedSearch.id,
+      {
+        matchCount: FieldValue.increment(1),
+        lastMatchAt: matchedAt,
+      }
+    );
+
+    socketService.emitToUser(savedSearch.userId, "saved_search_match", {
+      digestEntryId: entryId,
+      savedSearchId: savedSearch.id,
+      savedSearchName: savedSearch.name,
+      publicationId: publication.id,
+      title: publication.title,
+      type: publication.type,
+      category: publication.category,
+    });
+  }
+
+  private static parseAll<TSchema extends GenericSchema>(
+    schema: TSchema,
+    documents: unknown[]
+  ): InferOutput<TSchema>[] {
+    const valid: InferOutput<TSchema>[] = [];
+    for (const document of documents) {
+      const result = safeParse(schema, document);
+      if (result.success) {
+        valid.push(result.output);
+      }
+    }
+    return valid;
+  }
+}
@@ -0,0 +1,370 @@
+import { createHash } from "crypto";
+import { FieldValue } from "firebase-admin/firestore";
+import { safeParse } from "valibot";
+import {
+  DeviceTokenSchema,
+  NotificationPreferencesSchema,
+  RegisterDeviceSchema,
+  UpdateNotificationPreferencesSchema,
+} from "../../models/schema/push";
+import { NOTIFICATION_TYPES } from "../../models/schema/notification";
+import type {
+  DeviceToken,
+  NotificationPreferences,
+  QuietHours,
+} from "../../models/types/push";
+import type {
+  Notification,
+  NotificationType,
+} from "../../models/types/notification";
+import { firestoreService } from "../Firebase/firebase.service";
+import { socketService } from "../Chat/socket.service";
+import {
+  createPushTransportFromEnv,
+  type PushMessage,
+  type PushTransport,
+} from "./push.transport";
+
+/**
+ * Sends mobile pushes for notifications to users who are not connected,
+ * on the devices they registered. Users choose which notification types
+ * they get pushes for and can set quiet hours.
+ */
+export class PushService {
+  private static instance: PushService;
+  private transport: PushTransport;
+
+  private readonly DEVICE_COLLECTION = "device_token";
+  private readonly PREFERENCES_COLLECTION = "notification_preferences";
+
+  // Notifications worth a push: messages and claims
+  private readonly PUSHED_TYPES: NotificationType[] = [
+    NOTIFICATION_TYPES.NEW_MESSAGE,
+    NOTIFICATION_TYPES.NEW_INTEREST,
+    NOTIFICATION_TYPES.INTEREST_UPDATE,
+  ];
+
+  private constructor() {
+    this.transport = createPushTransportFromEnv();
+  }
+
+  /**
+   * Gets the singleton instance of PushService.
+   *
+   * @returns Singleton instance of PushService
+   */
+  public static getInstance(): PushService {
+    if (!PushService.instance) {
+      PushService.instance = new PushService();
+    }
+    return PushService.instance;
+  }
+
+  /**
+   * Replaces the delivery backend (e.g. a real provider or a test double).
+   *
+   * @param transport - Transport to use for subsequent pushes
+   */
+  setTransport(transport: PushTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * ================================================
+   *                     DISPATCH
+   * ================================================
+   */
+
+  /**
+   * Pushes a notification to the devices of its recipient, unless the
+   * recipient is connected (they already got it live), muted its type,
+   * turned pushes off or is in their quiet hours. Tokens rejected by the
+   * provider are removed. A failure is logged and never fails the
+   * notification.
+   *
+   * @param notification - Notification to push
+   * @returns Promise resolving to the number of devices reached
+   */
+  async dispatch(notification: Notification): Promise<number> {
+    try {
+      if (!this.PUSHED_TYPES.includes(notification.type)) return 0;
+      if (socketService.isUserOnline(notification.userId)) return 0;
+
+      const preferences = await this.getPreferences(notification.userId);
+      if (
+        !preferences.pushEnabled ||
+        preferences.mutedTypes.includes(notification.type) ||
+        (preferences.quietHours && this.isQuietTime(preferences.quietHours))
+      ) {
+        return 0;
+      }
+
+      const devices = await this.getDevices(notification.userId);
+      if (devices.length === 0) return 0;
+
+      const result = await this.transport.send(
+        devices.map((device) => device.token),
+        this.toMessage(notification)
+      );
+
+      if (result.invalidTokens.length > 0) {
+        await this.removeTokens(result.invalidTokens);
+      }
+
+      return result.sent;
+    } catch (error) {
+      console.error(
+        `Push of notification ${notification.id} via ${this.transport.name} failed:`,
+        error
+      );
+      return 0;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      DEVICES
+   * ================================================
+   */
+
+  /**
+   * Registers a device of the user for pushes. Registering a known token
+   * again refreshes it, and moves it to the user if another account
+   * registered it on the same device before.
+   *
+   * @param userId - ID of the user
+   * @param input - FCM registration token and platform
+   * @returns Promise resolving to the registered device
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   */
+  async registerDevice(userId: string, input: unknown): Promise<DeviceToken> {
+    try {
+      const result = safeParse(RegisterDeviceSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const { token, platform } = result.output;
+      const id = this.deviceId(token);
+      const now = Date.now();
+
+      const existing = await firestoreService.getById<DeviceToken>(
+        this.DEVICE_COLLECTION,
+        id
+      );
+
+      const device: DeviceToken = {
+        id,
+        userId,
+        token,
+        platform,
+        registeredAt: existing?.userId === userId ? existing.registeredAt : now,
+        lastSeenAt: now,
+      };
+
+      await firestoreService.create<DeviceToken>(
+        this.DEVICE_COLLECTION,
+        device,
+        id
+      );
+
+      return device;
+    } catch (error) {
+      console.error(`Failed to register device of user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unregisters a device of the user, such as on sign out.
+   *
+   * @param userId - ID of the user
+   * @param token - FCM registration token of the device
+   *
+   * @throws {Error} DEVICE_NOT_FOUND if the user didn't register the token
+   */
+  async unregisterDevice(userId: string, token: string): Promise<void> {
+    try {
+      const id = this.deviceId(token);
+      const device = await firestoreService.getById<DeviceToken>(
+        this.DEVICE_COLLECTION,
+        id
+      );
+      if (!device || device.userId !== userId) {
+        throw new Error("DEVICE_NOT_FOUND");
+      }
+
+      await firestoreService.delete(this.DEVICE_COLLECTION, id);
+    } catch (error) {
+      console.error(`Failed to unregister device of user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                    PREFERENCES
+   * ================================================
+   */
+
+  /**
+   * Gets the push preferences of a user, with the defaults (every type
+   * pushed, no quiet hours) for users who never changed them.
+   *
+   * @param userId - ID of the user
+   * @returns Promise resolving to the preferences
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const preferences = await firestoreService.getById<NotificationPreferences>(
+      this.PREFERENCES_COLLECTION,
+      userId
+    );
+
+    const result = safeParse(NotificationPreferencesSchema, {
+      ...preferences,
+      userId,
+    });
+    if (!result.success) {
+      console.error("Preferences schema validation failed:", result.issues);
+      throw new Error("INVALID_PREFERENCES_DATA");
+    }
+
+    return result.output;
+  }
+
+  /**
+   * Updates the push preferences of a user. Fields left out keep their
+   * value, and quietHours set to null turns quiet hours off.
+   *
+   * @param userId - ID of the user
+   * @param input - Preferences to change
+   * @returns Promise resolving to the updated preferences
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   */
+  async updatePreferences(
+    userId: string,
+    input: unknown
+  ): Promise<NotificationPreferences> {
+    try {
+      const result = safeParse(UpdateNotificationPreferencesSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const { quietHours, ...changes } = result.output;
+
+      await firestoreService
+        .getDocumentReference(this.PREFERENCES_COLLECTION, userId)
+        .set(
+          {
+            ...changes,
+            userId,
+            ...(quietHours !== undefined && {
+              quietHours: quietHours ?? FieldValue.delete(),
+            }),
+            updatedAt: Date.now(),
+          },
+          { merge: true }
+        );
+
+      return await this.getPreferences(userId);
+    } catch (error) {
+      console.error(`Failed to update preferences of user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                       UTILS
+   * ================================================
+   */
+
+  private async getDevices(userId: string): Promise<DeviceToken[]> {
+    const devices = await firestoreService.query<DeviceToken>(
+      this.DEVICE_COLLECTION,
+      { where: ["userId", "==", userId] }
+    );
+
+    return devices.flatMap((device) => {
+      const result = safeParse(DeviceTokenSchema, device);
+      return result.success ? [result.output] : [];
+    });
+  }
+
+  private async removeTokens(tokens: string[]): Promise<void> {
+    await Promise.all(
+      tokens.map((token) =>
+        firestoreService.delete(this.DEVICE_COLLECTION, this.deviceId(token))
+      )
+    );
+
+    console.log(`Push: removed ${tokens.length} stale device token(s)`);
+  }
+
+  /**
+   * Checks whether the current time falls in quiet hours, in their
+   * timezone.
+   */
+  private isQuietTime(quietHours: QuietHours, now: Date = new Date()) {
+    const parts = new Intl.DateTimeFormat("en-GB", {
+      timeZone: quietHours.timezone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(now);
+
+    const hour = Number(parts.find((part) => part.type === "hour")?.value);
+    const minute = Number(parts.find((part) => part.type === "minute")?.value);
+    const current = hour * 60 + minute;
+
+    const start = this.toMinutes(quietHours.start);
+    const end = this.toMinutes(quietHours.end);
+
+    // A window such as 22:00 to 07:00 wraps around midnight
+    return start <= end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours = 0, minutes = 0] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private toMessage(notification: Notification): PushMessage {
+    const data: Record<string, string> = {
+      notificationId: notification.id,
+      type: notification.type,
+    };
+    for (const [key, value] of Object.entries(notification.data)) {
+      if (value !== undefined && value !== null) {
+        data[key] = typeof value === "string" ? value : JSON.stringify(value);
+      }
+    }
+
+    const title =
+      notification.count > 1
+        ? `${notification.title} (${notification.count})`
+        : notification.title;
+
+    return { title, body: notification.body, data };
+  }
+
+  // Tokens are long and opaque, their hash makes a stable document id
+  private deviceId(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+}
+
+export const pushService = PushService.getInstance();
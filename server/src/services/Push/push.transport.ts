@@ -0,0 +1,111 @@
+import { firebaseAdmin } from "../Firebase/firebaseAdmin.service";
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  data: Record<string, string>; // FCM only carries string values
+}
+
+export interface PushResult {
+  sent: number;
+  // Tokens the provider no longer knows, to be removed
+  invalidTokens: string[];
+}
+
+/**
+ * Delivery backend used by PushService.
+ * Implement this to plug in another provider or a test double.
+ */
+export interface PushTransport {
+  readonly name: string;
+  send(tokens: string[], message: PushMessage): Promise<PushResult>;
+}
+
+/**
+ * Sends pushes through Firebase Cloud Messaging.
+ */
+export class FcmPushTransport implements PushTransport {
+  readonly name = "fcm";
+
+  // Errors meaning the token will never work again
+  private static readonly STALE_TOKEN_ERRORS = [
+    "messaging/registration-token-not-registered",
+    "messaging/invalid-registration-token",
+  ];
+
+  async send(tokens: string[], message: PushMessage): Promise<PushResult> {
+    const response = await firebaseAdmin.messaging.sendEachForMulticast({
+      tokens,
+      notification: { title: message.title, body: message.body },
+      data: message.data,
+    });
+
+    const invalidTokens: string[] = [];
+    response.responses.forEach((result, index) => {
+      const code = result.error?.code;
+      const token = tokens[index];
+      if (
+        token &&
+        code &&
+        FcmPushTransport.STALE_TOKEN_ERRORS.includes(code)
+      ) {
+        invalidTokens.push(token);
+      }
+    });
+
+    return { sent: response.successCount, invalidTokens };
+  }
+}
+
+/**
+ * Prints pushes to the console and keeps the latest ones in memory instead
+ * of sending them. Meant for local testing: tokens starting with "invalid-"
+ * are rejected like unregistered FCM tokens, to exercise the token cleanup.
+ */
+export class FakePushTransport implements PushTransport {
+  readonly name = "fake";
+
+  private static readonly MAX_SENT = 100;
+
+  readonly sent: Array<{ token: string; message: PushMessage }> = [];
+
+  async send(tokens: string[], message: PushMessage): Promise<PushResult> {
+    const invalidTokens = tokens.filter((token) =>
+      token.startsWith("invalid-")
+    );
+    const delivered = tokens.filter((token) => !invalidTokens.includes(token));
+
+    for (const token of delivered) {
+      this.sent.push({ token, message });
+    }
+    this.sent.splice(0, this.sent.length - FakePushTransport.MAX_SENT);
+
+    console.log(
+      [
+        "📱 Outgoing push",
+        `To: ${delivered.length} device(s)`,
+        `Title: ${message.title}`,
+        `Body: ${message.body}`,
+        `Data: ${JSON.stringify(message.data)}`,
+      ].join("\n")
+    );
+
+    return { sent: delivered.length, invalidTokens };
+  }
+}
+
+/**
+ * Builds the transport selected by PUSH_TRANSPORT ("fcm" | "fake").
+ *
+ * @returns Configured push transport (defaults to FCM)
+ */
+export function createPushTransportFromEnv(): PushTransport {
+  switch (process.env.PUSH_TRANSPORT) {
+    case "fake":
+      console.warn("⚠️ PUSH_TRANSPORT=fake: pushes are printed, not sent");
+      return new FakePushTransport();
+    case "fcm":
+    default:
+      return new FcmPushTransport();
+  }
+}
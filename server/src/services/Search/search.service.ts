@@ -0,0 +1,420 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { firestoreService } from "../Firebase/firebase.service";
+import { TextAnalyzer } from "./text.analyzer";
+
+export interface SearchHit {
+  id: string; // publication ID
+  score: number;
+  terms: string[]; // index terms that matched, used for highlighting
+}
+
+interface IndexedPublication {
+  id: string;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  searchTerms?: string[]; // terms the publication is currently indexed under
+}
+
+interface IndexEntry {
+  id: string;
+  term: string;
+  prefix: string;
+  postings: Record<string, number>; // publication ID -> term weight
+}
+
+/**
+ * Full-text search over publications backed by an inverted index.
+ *
+ * Each analyzed term (see TextAnalyzer) has a document in `search_index`
+ * listing the publications that contain it and how strongly. Publications
+ * keep the terms they are indexed under in `searchTerms`, so reindexing only
+ * touches the terms that changed.
+ *
+ * Queries are matched term by term, tolerating typos, and scored with BM25:
+ * rare terms and terms in the title weigh more, and publications matching
+ * every word of the query rank first.
+ */
+export class SearchService {
+  private static readonly COLLECTION_NAME = "search_index";
+  private static readonly PUBLICATION_COLLECTION = "publication";
+
+  // Weight of a term per occurrence in each field
+  private static readonly FIELD_BOOSTS = {
+    title: 3,
+    tags: 2,
+    description: 1,
+  };
+
+  private static readonly MAX_TERMS_PER_PUBLICATION = 200;
+  private static readonly MAX_QUERY_TERMS = 10;
+  private static readonly MAX_RESULTS = 200;
+
+  // Index terms sharing the first characters of a query term are the typo
+  // candidates; typos in those characters aren't tolerated
+  private static readonly PREFIX_LENGTH = 2;
+  private static readonly MAX_CANDIDATE_TERMS = 300;
+
+  // BM25 term frequency saturation
+  private static readonly K1 = 1.2;
+
+  /**
+   * ================================================
+   *                     INDEXING
+   * ================================================
+   */
+
+  /**
+   * Indexes a publication under the terms of its title, tags and description,
+   * removing it from the terms it no longer contains.
+   *
+   * @param publicationId - Publication to index
+   */
+  static async indexPublication(publicationId: string): Promise<void> {
+    try {
+      const publication = await firestoreService.getById<IndexedPublication>(
+        this.PUBLICATION_COLLECTION,
+        publicationId
+      );
+      if (!publication) return;
+
+      const weights = this.weighTerms(publication);
+      await this.writeTerms(publication, weights);
+    } catch (error) {
+      console.error(`Failed to index publication ${publicationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a publication from the index.
+   *
+   * @param publicationId - Publication to remove
+   */
+  static async removePublication(publicationId: string): Promise<void> {
+    try {
+      const publication = await firestoreService.getById<IndexedPublication>(
+        this.PUBLICATION_COLLECTION,
+        publicationId
+      );
+      if (!publication) return;
+
+      await this.writeTerms(publication, new Map());
+    } catch (error) {
+      console.error(
+        `Failed to remove publication ${publicationId} from the index:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      SEARCH
+   * ================================================
+   */
+
+  /**
+   * Finds the publications matching a text query, best match first.
+   * Each query word matches the same term in the index or, for words of four
+   * characters or more, a term one typo away (two for long words).
+   *
+   * @param query - Free text query
+   * @param limit - Maximum number of hits (default: 200)
+   * @returns Matching publication IDs with their relevance score
+   *
+   * @example
+   * const hits = await SearchService.search("zapatos niña");
+   * // [{ id: "pub123", score: 4.182, terms: ["zapat", "nin"] }, ...]
+   */
+  static async search(
+    query: string,
+    limit: number = this.MAX_RESULTS
+  ): Promise<SearchHit[]> {
+    try {
+      const queryTerms = [...new Set(TextAnalyzer.analyze(query))].slice(
+        0,
+        this.MAX_QUERY_TERMS
+      );
+      if (queryTerms.length === 0) return [];
+
+      const [totalPublications, matchesPerTerm] = await Promise.all([
+        firestoreService.count(this.PUBLICATION_COLLECTION),
+        Promise.all(queryTerms.map((term) => this.findTerms(term))),
+      ]);
+
+      const hits = new Map<
+        string,
+        { scores: number[]; terms: Set<string> }
+      >();
+
+      matchesPerTerm.forEach((matches, queryIndex) => {
+        for (const { entry, similarity } of matches) {
+          const postings = Object.entries(entry.postings ?? {});
+          const idf = this.idf(totalPublications, postings.length);
+
+          for (const [publicationId, weight] of postings) {
+            const saturation = (weight * (this.K1 + 1)) / (weight + this.K1);
+            const score = similarity * idf * saturation;
+
+            const hit = hits.get(publicationId) ?? {
+              scores: new Array<number>(queryTerms.length).fill(0),
+              terms: new Set<string>(),
+            };
+
+            // A query word counts once, through its best matching term
+            hit.scores[queryIndex] = Math.max(hit.scores[queryIndex]!, score);
+            hit.terms.add(entry.term);
+            hits.set(publicationId, hit);
+          }
+        }
+      });
+
+      return [...hits.entries()]
+        .map(([id, { scores, terms }]) => {
+          const matched = scores.filter((score) => score > 0).length;
+          const total = scores.reduce((sum, score) => sum + score, 0);
+          const coverage = matched / queryTerms.length;
+
+          return {
+            id,
+            score: Math.round(total * coverage * 1000) / 1000,
+            terms: [...terms],
+          };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    } catch (error) {
+      console.error("Failed to search publications:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks whether texts contain every word of a query, with the same
+   * stemming and typo tolerance as search(). Matches a single publication
+   * without reading the index.
+   *
+   * @param query - Free text query
+   * @param texts - Texts to look in (title, description, tags...)
+   * @returns True if every query word is found
+   */
+  static matchesQuery(query: string, texts: string[]): boolean {
+    const textTerms = new Set(
+      texts.flatMap((text) => TextAnalyzer.analyze(text))
+    );
+
+    return TextAnalyzer.analyze(query).every((term) => {
+      if (textTerms.has(term)) return true;
+
+      const maxEdits = this.maxEdits(term);
+      const prefix = term.slice(0, this.PREFIX_LENGTH);
+
+      return (
+        maxEdits > 0 &&
+        [...textTerms].some(
+          (textTerm) =>
+            textTerm.startsWith(prefix) &&
+            TextAnalyzer.editDistance(term, textTerm, maxEdits) <= maxEdits
+        )
+      );
+    });
+  }
+
+  /**
+   * Builds a snippet of a text around its first matched word, with matched
+   * words wrapped in `<mark>` tags. The text is HTML-escaped.
+   *
+   * @param text - Original text
+   * @param terms - Index terms to highlight (from a SearchHit)
+   * @param maxLength - Maximum snippet length, not counting tags (default: 160)
+   * @returns Highlighted snippet
+   *
+   * @example
+   * SearchService.highlight("Zapatos de niña talla 30", ["zapat"]);
+   * // "<mark>Zapatos</mark> de niña talla 30"
+   */
+  static highlight(
+    text: string,
+    terms: string[],
+    maxLength: number = 160
+  ): string {
+    const matchedTerms = new Set(terms);
+    const marks = TextAnalyzer.tokenize(text).filter((token) =>
+      matchedTerms.has(token.term)
+    );
+
+    let start = 0;
+    let end = text.length;
+
+    if (text.length > maxLength) {
+      // Start a little before the first match, on a word boundary
+      const firstMatch = marks[0]?.start ?? 0;
+      start = Math.max(0, firstMatch - Math.floor(maxLength / 4));
+      if (start > 0) {
+        const space = text.indexOf(" ", start);
+        start = space !== -1 && space < firstMatch ? space + 1 : start;
+      }
+
+      end = Math.min(text.length, start + maxLength);
+      if (end < text.length) {
+        const space = text.lastIndexOf(" ", end);
+        end = space > start ? space : end;
+      }
+    }
+
+    let snippet = start > 0 ? "…" : "";
+    let cursor = start;
+
+    for (const mark of marks) {
+      if (mark.start < start || mark.end > end) continue;
+
+      snippet += this.escapeHtml(text.slice(cursor, mark.start));
+      const word = this.escapeHtml(text.slice(mark.start, mark.end));
+      snippet += `<mark>${word}</mark>`;
+      cursor = mark.end;
+    }
+
+    snippet += this.escapeHtml(text.slice(cursor, end));
+    return end < text.length ? `${snippet}…` : snippet;
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Weighs the terms of a publication by where and how often they appear,
+   * keeping the strongest ones.
+   */
+  private static weighTerms(
+    publication: IndexedPublication
+  ): Map<string, number> {
+    const weights = new Map<string, number>();
+
+    const add = (text: string | undefined, boost: number) => {
+      for (const term of TextAnalyzer.analyze(text ?? "")) {
+        weights.set(term, (weights.get(term) ?? 0) + boost);
+      }
+    };
+
+    add(publication.title, this.FIELD_BOOSTS.title);
+    add(publication.description, this.FIELD_BOOSTS.description);
+    for (const tag of publication.tags ?? []) {
+      add(tag, this.FIELD_BOOSTS.tags);
+    }
+
+    return new Map(
+      [...weights.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, this.MAX_TERMS_PER_PUBLICATION)
+    );
+  }
+
+  /**
+   * Writes the postings of a publication and removes it from the terms it
+   * was indexed under before but no longer has.
+   */
+  private static async writeTerms(
+    publication: IndexedPublication,
+    weights: Map<string, number>
+  ): Promise<void> {
+    const removedTerms = (publication.searchTerms ?? []).filter(
+      (term) => !weights.has(term)
+    );
+
+    await firestoreService.runTransaction(async (transaction) => {
+      for (const [term, weight] of weights) {
+        transaction.set(
+          firestoreService.getDocumentReference(this.COLLECTION_NAME, term),
+          {
+            term,
+            prefix: term.slice(0, this.PREFIX_LENGTH),
+            postings: { [publication.id]: weight },
+          },
+          { merge: true }
+        );
+      }
+
+      for (const term of removedTerms) {
+        transaction.set(
+          firestoreService.getDocumentReference(this.COLLECTION_NAME, term),
+          { postings: { [publication.id]: FieldValue.delete() } },
+          { merge: true }
+        );
+      }
+
+      transaction.update(
+        firestoreService.getDocumentReference(
+          this.PUBLICATION_COLLECTION,
+          publication.id
+        ),
+        { searchTerms: [...weights.keys()] }
+      );
+    });
+  }
+
+  /**
+   * Finds the index entries matching a query term, exactly or within the
+   * allowed number of typos. The exact entry is always read by ID; typo
+   * candidates come from a capped query on the prefix, so in crowded
+   * prefixes some near matches can be missed but never the exact one.
+   */
+  private static async findTerms(
+    term: string
+  ): Promise<{ entry: IndexEntry; similarity: number }[]> {
+    const maxEdits = this.maxEdits(term);
+
+    const [exact, candidates] = await Promise.all([
+      firestoreService.getById<IndexEntry>(this.COLLECTION_NAME, term),
+      maxEdits === 0
+        ? []
+        : firestoreService.query<IndexEntry>(this.COLLECTION_NAME, {
+            where: ["prefix", "==", term.slice(0, this.PREFIX_LENGTH)],
+            limit: this.MAX_CANDIDATE_TERMS,
+          }),
+    ]);
+
+    const typos = candidates.flatMap((entry) => {
+      if (entry.term === term) return [];
+
+      const distance = TextAnalyzer.editDistance(term, entry.term, maxEdits);
+      return distance <= maxEdits
+        ? [{ entry, similarity: 1 / (1 + distance) }]
+        : [];
+    });
+
+    return exact ? [{ entry: exact, similarity: 1 }, ...typos] : typos;
+  }
+
+  /**
+   * Typos tolerated in a query term: none for short terms, two for long ones.
+   */
+  private static maxEdits(term: string): number {
+    return term.length < 4 ? 0 : term.length < 8 ? 1 : 2;
+  }
+
+  /**
+   * Inverse document frequency: terms found in fewer publications weigh more.
+   */
+  private static idf(
+    totalDocuments: number,
+    documentFrequency: number
+  ): number {
+    const total = Math.max(totalDocuments, documentFrequency);
+    return Math.log(
+      1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5)
+    );
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
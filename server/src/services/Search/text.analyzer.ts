@@ -0,0 +1,170 @@
+export interface Token {
+  term: string; // stemmed, folded form used by the index
+  start: number; // offsets in the original text
+  end: number;
+}
+
+// Stored folded (no accents), like the tokens they are compared to
+const STOPWORDS = new Set([
+  // Spanish
+  "al", "algo", "ante", "como", "con", "cual", "de", "del", "desde", "donde",
+  "el", "ella", "ellas", "ellos", "en", "entre", "era", "es", "esa", "ese",
+  "eso", "esta", "estas", "este", "esto", "estos", "fue", "hay", "la", "las",
+  "le", "les", "lo", "los", "mas", "me", "mi", "mis", "muy", "ni", "nos", "o",
+  "otra", "otro", "para", "pero", "por", "porque", "que", "se", "si", "sin",
+  "sobre", "son", "su", "sus", "te", "tu", "tus", "un", "una", "uno", "unos",
+  "y", "ya", "yo",
+  // English
+  "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has",
+  "have", "in", "is", "it", "its", "of", "on", "or", "our", "that", "the",
+  "their", "this", "to", "was", "were", "will", "with", "you", "your",
+]);
+
+/**
+ * Turns free text into index terms: words are split, lowercased, stripped of
+ * accents (so "camión" matches "camion"), stop words are dropped and the rest
+ * is reduced by a light Spanish/English stemmer ("zapatos" and "zapato" both
+ * become "zapat", "clothes" and "clothing" become "cloth").
+ *
+ * The same analysis runs on documents and queries, so both sides always agree
+ * on the terms even when the stem isn't a real word.
+ */
+export class TextAnalyzer {
+  private static readonly WORD = /[\p{L}\p{N}]+/gu;
+  private static readonly MIN_TOKEN_LENGTH = 2;
+
+  /**
+   * Lowercases a text and removes its diacritics.
+   *
+   * @example
+   * TextAnalyzer.fold("Camión Pequeño"); // "camion pequeno"
+   */
+  static fold(text: string): string {
+    return text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase();
+  }
+
+  /**
+   * Splits a text into index terms, keeping where each word was found so it
+   * can be highlighted later. Stop words are skipped.
+   *
+   * @param text - Original text
+   * @returns Tokens in reading order
+   */
+  static tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+
+    for (const match of text.matchAll(this.WORD)) {
+      const word = this.fold(match[0]);
+      if (word.length < this.MIN_TOKEN_LENGTH || STOPWORDS.has(word)) continue;
+
+      tokens.push({
+        term: this.stem(word),
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Extracts the index terms of a text.
+   *
+   * @param text - Original text
+   * @returns Terms in reading order (repeated terms included)
+   */
+  static analyze(text: string): string[] {
+    return this.tokenize(text).map((token) => token.term);
+  }
+
+  /**
+   * Reduces a folded word to its stem. Handles plurals, adverbs, English verb
+   * endings and Spanish gender endings.
+   *
+   * @param word - Lowercase word without accents
+   * @returns Stem of the word
+   */
+  static stem(word: string): string {
+    if (word.length <= 3 || /^\d+$/.test(word)) return word;
+
+    let stem = word;
+    const strip = (suffix: string, replacement = "", minStem = 3) => {
+      if (stem.endsWith(suffix) && stem.length - suffix.length >= minStem) {
+        stem = stem.slice(0, -suffix.length) + replacement;
+        return true;
+      }
+      return false;
+    };
+
+    // Plurals: donaciones, babies, mujeres, boxes, zapatos
+    strip("ciones", "cion") ||
+      strip("ies", "y") ||
+      (/[^aeiou]es$/.test(stem) && strip("es")) ||
+      (!stem.endsWith("ss") && strip("s"));
+
+    // Adverbs: rapidamente, quickly
+    strip("mente", "", 4) || strip("ly", "", 4);
+
+    // English verb forms: clothing, used
+    strip("ing") || strip("ed");
+
+    // Gender and final vowels: nuevo, nueva, juguete
+    if (stem.length >= 4 && /[aeo]$/.test(stem)) {
+      stem = stem.slice(0, -1);
+    }
+
+    return stem;
+  }
+
+  /**
+   * Damerau-Levenshtein distance (adjacent swaps count as one edit), giving
+   * up once it exceeds `max`.
+   *
+   * @param a - First term
+   * @param b - Second term
+   * @param max - Largest distance of interest
+   * @returns Distance, or max + 1 when the terms are further apart
+   */
+  static editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previousRow: number[] = [];
+    let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        let value = Math.min(
+          row[j]! + 1,
+          current[j - 1]! + 1,
+          row[j - 1]! + cost
+        );
+
+        if (
+          i > 1 &&
+          j > 1 &&
+          a[i - 1] === b[j - 2] &&
+          a[i - 2] === b[j - 1]
+        ) {
+          value = Math.min(value, previousRow[j - 2]! + 1);
+        }
+
+        current[j] = value;
+        rowMin = Math.min(rowMin, value);
+      }
+
+      if (rowMin > max) return max + 1;
+
+      previousRow = row;
+      row = current;
+    }
+
+    return Math.min(row[b.length]!, max + 1);
+  }
+}
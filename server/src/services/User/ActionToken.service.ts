@@ -0,0 +1,158 @@
+import { safeParse } from "valibot";
+import { JsonWebTokenError, sign, TokenExpiredError, verify } from "jsonwebtoken";
+import {
+  ACTION_TOKEN_PURPOSE,
+  ActionTokenPayloadSchema,
+} from "../../models/schema/auth";
+import type {
+  ActionTokenPayload,
+  ActionTokenPurpose,
+  ActionTokenRecord,
+} from "../../models/types/auth";
+import { firestoreService } from "../Firebase/firebase.service";
+import { JWTService } from "./JWT.service";
+
+/**
+ * Issues and consumes signed, single-use, expiring tokens for account
+ * actions sent by email (email verification, password reset).
+ *
+ * Tokens are JWTs signed with their own audience so they can never be used as
+ * access/refresh tokens. Each issued token is recorded in Firestore and marked
+ * as used on consumption, which makes it single-use even before it expires.
+ */
+export class ActionTokenService {
+  private static readonly COLLECTION_NAME = "action_tokens";
+  private static readonly AUDIENCE = "don-app-actions";
+
+  private static readonly secret =
+    process.env.JWT_ACTION_SECRET || process.env.JWT_ACCESS_SECRET!;
+
+  private static readonly lifetimes: Record<ActionTokenPurpose, number> = {
+    [ACTION_TOKEN_PURPOSE.EMAIL_VERIFICATION]: 24 * 60 * 60, // 24 hours
+    [ACTION_TOKEN_PURPOSE.PASSWORD_RESET]: 60 * 60, // 1 hour
+  };
+
+  /**
+   * Issues a new token for the given user and purpose.
+   *
+   * @param user - User the token is issued to
+   * @param purpose - Action the token authorizes
+   * @returns Signed token string
+   *
+   * @throws {Error} INVALID_TOKEN_PAYLOAD if payload validation fails
+   */
+  static async issue(
+    user: { id: string; email: string },
+    purpose: ActionTokenPurpose
+  ): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+
+    const payload: ActionTokenPayload = {
+      sub: user.id,
+      email: user.email,
+      purpose,
+      iat: now,
+      exp: now + this.lifetimes[purpose],
+      jti: JWTService.generateTokenId(),
+    };
+
+    const validation = safeParse(ActionTokenPayloadSchema, payload);
+    if (!validation.success) {
+      throw new Error("INVALID_TOKEN_PAYLOAD");
+    }
+
+    await firestoreService.create<ActionTokenRecord>(
+      this.COLLECTION_NAME,
+      {
+        userId: user.id,
+        purpose,
+        expiresAt: payload.exp,
+      },
+      payload.jti
+    );
+
+    return sign(payload, this.secret, {
+      algorithm: "HS256",
+      issuer: "don-app",
+      audience: this.AUDIENCE,
+    });
+  }
+
+  /**
+   * Verifies a token and marks it as used.
+   *
+   * @param token - Token string received from the user
+   * @param purpose - Action the token is expected to authorize
+   * @returns Decoded token payload
+   *
+   * @throws {Error} TOKEN_EXPIRED if the token has expired
+   * @throws {Error} INVALID_TOKEN if the token is malformed, was not issued by
+   *         this server or was issued for a different purpose
+   * @throws {Error} TOKEN_ALREADY_USED if the token was already consumed
+   */
+  static async consume(
+    token: string,
+    purpose: ActionTokenPurpose
+  ): Promise<ActionTokenPayload> {
+    const payload = this.verify(token, purpose);
+
+    await firestoreService.runTransaction(async (transaction) => {
+      const reference = firestoreService.getDocumentReference(
+        this.COLLECTION_NAME,
+        payload.jti
+      );
+      const snapshot = await transaction.get(reference);
+
+      if (!snapshot.exists) {
+        throw new Error("INVALID_TOKEN");
+      }
+
+      const record = snapshot.data() as ActionTokenRecord;
+      if (record.usedAt !== undefined) {
+        throw new Error("TOKEN_ALREADY_USED");
+      }
+
+      transaction.update(reference, {
+        usedAt: Math.floor(Date.now() / 1000),
+      });
+    });
+
+    return payload;
+  }
+
+  /**
+   * Checks the token signature, expiration and purpose.
+   *
+   * @param token - Token string
+   * @param purpose - Expected purpose
+   * @returns Decoded token payload
+   */
+  private static verify(
+    token: string,
+    purpose: ActionTokenPurpose
+  ): ActionTokenPayload {
+    try {
+      const decoded = verify(token, this.secret, {
+        algorithms: ["HS256"],
+        issuer: "don-app",
+        audience: this.AUDIENCE,
+      });
+
+      const validation = safeParse(ActionTokenPayloadSchema, decoded);
+      if (!validation.success || validation.output.purpose !== purpose) {
+        throw new Error("INVALID_TOKEN");
+      }
+
+      return validation.output;
+    } catch (error) {
+      if (error instanceof TokenExpiredError) {
+        throw new Error("TOKEN_EXPIRED");
+      }
+      if (error instanceof JsonWebTokenError) {
+        throw new Error("INVALID_TOKEN");
+      }
+
+      throw error;
+    }
+  }
+}
@@ -1,9 +1,21 @@
 import { safeParse } from "valibot";
 import type { AuthResponse, AuthToken } from "../../models/types/auth";
-import { UserRegistrationSchema } from "../../models/schema/user";
+import type { PublicSession, SessionContext } from "../../models/types/session";
+import {
+  EmailVerifySchema,
+  PasswordResetSchema,
+  UserRegistrationSchema,
+} from "../../models/schema/user";
 import { UserService } from "./User.service";
 import { JWTService } from "./JWT.service";
+import { ActionTokenService } from "./ActionToken.service";
+import { SessionService } from "./Session.service";
+import { MFAService } from "./MFA.service";
+import { MfaLoginSchema } from "../../models/schema/mfa";
+import type { MfaChallenge } from "../../models/types/mfa";
+import { mailService } from "../Mail/mail.service";
 import {
+  ACTION_TOKEN_PURPOSE,
   AuthResponseSchema,
   AuthTokenSchema,
   LoginSchema,
@@ -22,13 +34,17 @@ export class AuthService {
    * Registers a new user and returns authentication tokens.
    *
    * @param input - User registration data
+   * @param context - Device information of the request, recorded as a session
    * @returns AuthResponse with user data and authentication tokens
    *
    * @throws {Error} VALIDATION_ERROR if input validation fails
    * @throws {Error} USER_CREATION_FAILED if user creation fails
    * @throws {Error} AUTH_RESPONSE_VALIDATION_FAILED if response validation fails
    */
-  static async register(input: unknown): Promise<AuthResponse> {
+  static async register(
+    input: unknown,
+    context?: SessionContext
+  ): Promise<AuthResponse> {
     try {
       const result = safeParse(UserRegistrationSchema, input);
 
@@ -49,7 +65,13 @@ export class AuthService {
         throw new Error("USER_CREATION_FAILED");
       }
 
-      const token = JWTService.generateAuthToken(user);
+      const token = await JWTService.generateAuthToken(user, context);
+
+      // Registration succeeds even if the email can't be delivered right now,
+      // the user can ask for a new link later
+      await this.requestEmailVerification(user.id).catch((error) =>
+        console.error("Failed to send verification email:", error)
+      );
 
       const authResponse = {
         user: {
@@ -75,15 +97,24 @@ export class AuthService {
 
   /**
    * Authenticates a user and returns authentication tokens.
+   * When the user has two-factor authentication enabled, no tokens are issued
+   * yet: an MFA challenge is returned and the login is finished with
+   * completeMfaLogin.
    *
    * @param input - Login credentials (email and password)
-   * @returns AuthResponse with user data and authentication tokens
+   * @param context - Device information of the request, recorded as a session
+   * @returns AuthResponse with user data and authentication tokens, or an
+   *          MfaChallenge with a short-lived MFA pending token
    *
    * @throws {Error} VALIDATION_ERROR if input validation fails
    * @throws {Error} INVALID_CREDENTIALS if email or password is incorrect
+   * @throws {Error} ACCOUNT_SUSPENDED if moderation suspended the user
    * @throws {Error} AUTH_RESPONSE_VALIDATION_FAILED if response validation fails
    */
-  static async login(input: unknown) {
+  static async login(
+    input: unknown,
+    context?: SessionContext
+  ): Promise<AuthResponse | MfaChallenge> {
     try {
       const result = safeParse(LoginSchema, input);
 
@@ -110,30 +141,81 @@ export class AuthService {
         throw new Error("INVALID_CREDENTIALS");
       }
 
-      const token = JWTService.generateAuthToken(user);
+      if (UserService.isSuspended(user)) {
+        throw new Error("ACCOUNT_SUSPENDED");
+      }
 
-      const authResponse = {
-        user: {
-          id: user.id,
-          email: user.email,
-          username: user.username,
-          fullname: user.fullname,
-        },
-        token,
-      };
+      if (await MFAService.isEnabled(user.id)) {
+        const { token: mfaToken, expiresIn } =
+          JWTService.generateMfaPendingToken(user);
 
-      const responseResult = safeParse(AuthResponseSchema, authResponse);
-      if (!responseResult.success) {
-        throw new Error("AUTH_RESPONSE_VALIDATION_FAILED");
+        return { mfaRequired: true, mfaToken, expiresIn };
       }
 
-      return responseResult.output;
+      const token = await JWTService.generateAuthToken(user, context);
+
+      return this.buildAuthResponse(user, token);
     } catch (error) {
       console.error("User login failed:", error);
       throw error;
     }
   }
 
+  /**
+   * Finishes a login that requires two-factor authentication.
+   * The MFA pending token can only be exchanged once.
+   *
+   * @param input - MFA pending token plus a TOTP code or a recovery code
+   * @param context - Device information of the request, recorded as a session
+   * @returns AuthResponse with MFA-verified authentication tokens
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} INVALID_TOKEN / TOKEN_EXPIRED / TOKEN_REVOKED for bad MFA tokens
+   * @throws {Error} INVALID_MFA_CODE if the code or recovery code is wrong
+   * @throws {Error} USER_NOT_FOUND if user no longer exists
+   * @throws {Error} ACCOUNT_SUSPENDED if moderation suspended the user
+   */
+  static async completeMfaLogin(
+    input: unknown,
+    context?: SessionContext
+  ): Promise<AuthResponse> {
+    try {
+      const result = safeParse(MfaLoginSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const { mfaToken, ...challenge } = result.output;
+
+      const payload = await JWTService.verifyMfaPendingToken(mfaToken);
+
+      const user = await UserService.getUserById(payload.sub);
+      if (!user) {
+        throw new Error("USER_NOT_FOUND");
+      }
+
+      if (UserService.isSuspended(user)) {
+        throw new Error("ACCOUNT_SUSPENDED");
+      }
+
+      await MFAService.verifyChallenge(user.id, challenge);
+      await JWTService.revokeToken(payload.jti, payload.exp);
+
+      const token = await JWTService.generateAuthToken(user, context, {
+        mfa: true,
+      });
+
+      return this.buildAuthResponse(user, token);
+    } catch (error) {
+      console.error("MFA login failed:", error);
+      throw error;
+    }
+  }
+
   /**
    * ================================================
    *                     TOKENS
@@ -148,7 +230,9 @@ export class AuthService {
    *
    * @throws {Error} VALIDATION_ERROR if input validation fails
    * @throws {Error} USER_NOT_FOUND if user no longer exists
+   * @throws {Error} ACCOUNT_SUSPENDED if moderation suspended the user
    * @throws {Error} TOKEN_VALIDATION_FAILED if token validation fails
+   * @throws {Error} REFRESH_TOKEN_REUSED if an already rotated refresh token is used
    * @throws {Error} Various JWT verification errors
    */
   static async refreshToken(input: unknown): Promise<AuthToken> {
@@ -165,7 +249,7 @@ export class AuthService {
 
       const validatedData = result.output;
 
-      const payload = JWTService.verifyToken(
+      const payload = await JWTService.verifyToken(
         validatedData.refreshToken,
         "refresh"
       );
@@ -175,9 +259,11 @@ export class AuthService {
         throw new Error("USER_NOT_FOUND");
       }
 
-      JWTService.revokeToken(payload.jti);
+      if (UserService.isSuspended(user)) {
+        throw new Error("ACCOUNT_SUSPENDED");
+      }
 
-      const tokens = JWTService.generateAuthToken(user);
+      const tokens = await JWTService.rotateTokens(payload, user);
 
       const tokenResult = safeParse(AuthTokenSchema, tokens);
       if (!tokenResult.success) {
@@ -198,20 +284,91 @@ export class AuthService {
    */
 
   /**
-   * Logs out user by revoking their access token.
+   * Logs out user by revoking their access token and the refresh token
+   * issued with it.
    *
    * @param accessToken - Valid access token to revoke
    */
   static async logout(accessToken: string): Promise<void> {
     try {
-      const payload = JWTService.verifyToken(accessToken, "access");
+      const payload = await JWTService.verifyToken(accessToken, "access");
 
-      JWTService.revokeToken(payload.jti);
+      await Promise.all([
+        JWTService.revokeToken(payload.jti, payload.exp),
+        JWTService.revokeFamily(payload.fam),
+        SessionService.markRevoked(payload.fam),
+      ]);
     } catch (error) {
       console.warn("Logout with invalid token:", error);
     }
   }
 
+  /**
+   * Logs out user from every device by revoking all their token families.
+   *
+   * @param userId - User to log out everywhere
+   * @returns Number of sessions revoked
+   */
+  static async logoutAllDevices(userId: string): Promise<number> {
+    try {
+      const [revoked] = await Promise.all([
+        JWTService.revokeAllUserTokens(userId),
+        SessionService.markAllRevoked(userId),
+      ]);
+
+      return revoked;
+    } catch (error) {
+      console.error("Logout from all devices failed:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                     SESSIONS
+   * ================================================
+   */
+
+  /**
+   * Lists the devices where the user is signed in.
+   *
+   * @param userId - Owner of the sessions
+   * @param currentSessionId - Session of the request, flagged as current
+   * @returns Array of active sessions
+   */
+  static async getSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<PublicSession[]> {
+    return SessionService.getUserSessions(userId, currentSessionId);
+  }
+
+  /**
+   * Signs a device out by revoking its session and every token issued to it.
+   *
+   * @param userId - User requesting the revocation
+   * @param sessionId - Session to revoke
+   *
+   * @throws {Error} SESSION_NOT_FOUND if the session doesn't exist, belongs to
+   *         another user or is no longer active
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<void> {
+    try {
+      const session = await SessionService.getSession(sessionId);
+      if (!SessionService.isActive(session) || session.userId !== userId) {
+        throw new Error("SESSION_NOT_FOUND");
+      }
+
+      await Promise.all([
+        JWTService.revokeFamily(sessionId),
+        SessionService.markRevoked(sessionId),
+      ]);
+    } catch (error) {
+      console.error(`Failed to revoke session ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * ================================================
    *                     RESETS
@@ -219,13 +376,73 @@ export class AuthService {
    */
 
   /**
-   * Verifies a user's email address.
+   * Sends a new email verification link to the user.
+   *
+   * @param userId - User ID to send the link to
    *
-   * @param userId - User ID to verify email for
+   * @throws {Error} USER_NOT_FOUND if user doesn't exist
+   * @throws {Error} EMAIL_ALREADY_VERIFIED if the email is already verified
+   * @throws {Error} MAIL_DELIVERY_FAILED if the email cannot be sent
    */
-  static async verifyEmail(userId: string): Promise<void> {
+  static async requestEmailVerification(userId: string): Promise<void> {
     try {
-      await UserService.verifyEmail(userId);
+      const user = await UserService.getUserById(userId);
+      if (!user) {
+        throw new Error("USER_NOT_FOUND");
+      }
+
+      if (user.isVerified) {
+        throw new Error("EMAIL_ALREADY_VERIFIED");
+      }
+
+      const token = await ActionTokenService.issue(
+        user,
+        ACTION_TOKEN_PURPOSE.EMAIL_VERIFICATION
+      );
+
+      await mailService.sendEmailVerification(user.email, user.fullname, token);
+    } catch (error) {
+      console.error("Email verification request failed:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verifies a user's email address using the token sent by email.
+   *
+   * @param input - Verification data ({ token })
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} INVALID_TOKEN / TOKEN_EXPIRED / TOKEN_ALREADY_USED
+   * @throws {Error} USER_NOT_FOUND if user no longer exists
+   * @throws {Error} EMAIL_CHANGED if the token was issued for another address
+   */
+  static async verifyEmail(input: unknown): Promise<void> {
+    try {
+      const result = safeParse(EmailVerifySchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const payload = await ActionTokenService.consume(
+        result.output.token,
+        ACTION_TOKEN_PURPOSE.EMAIL_VERIFICATION
+      );
+
+      const user = await UserService.getUserById(payload.sub);
+      if (!user) {
+        throw new Error("USER_NOT_FOUND");
+      }
+
+      if (user.email !== payload.email) {
+        throw new Error("EMAIL_CHANGED");
+      }
+
+      await UserService.verifyEmail(user.id);
     } catch (error) {
       console.error("Email verification failed:", error);
       throw error;
@@ -233,7 +450,8 @@ export class AuthService {
   }
 
   /**
-   * Changes a user's password.
+   * Changes a user's password. Every session is signed out, the current
+   * one included, so a stolen session doesn't outlive the old password.
    *
    * @param userId - User ID to change password for
    * @param input - Password change data (current and new password)
@@ -241,6 +459,7 @@ export class AuthService {
   static async changePassword(userId: string, input: unknown): Promise<void> {
     try {
       await UserService.updatePassword(userId, input);
+      await this.revokeAllSessions(userId);
     } catch (error) {
       console.error("Password change failed:", error);
       throw error;
@@ -248,10 +467,12 @@ export class AuthService {
   }
 
   /**
-   * Does nothing :3
+   * Sends a password reset link if an account exists for the email.
+   * Succeeds silently for unknown emails so accounts can't be enumerated.
+   *
+   * @param email - Email address of the account
    *
-   * @param email
-   * @returns
+   * @throws {Error} MAIL_DELIVERY_FAILED if the email cannot be sent
    */
   static async requestPasswordReset(email: string): Promise<void> {
     try {
@@ -260,21 +481,101 @@ export class AuthService {
         return;
       }
 
-      // I do not think your going to do any of this
-      // but here it is just in case...
-      // if you reed this you are gay :3
+      const token = await ActionTokenService.issue(
+        user,
+        ACTION_TOKEN_PURPOSE.PASSWORD_RESET
+      );
+
+      await mailService.sendPasswordReset(user.email, user.fullname, token);
     } catch (error) {
       console.error("Password reset request failed:", error);
       throw error;
     }
   }
 
+  /**
+   * Sets a new password using the token sent by email. Every session of
+   * the user is signed out.
+   *
+   * @param input - Reset data ({ token, newPassword })
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} INVALID_TOKEN / TOKEN_EXPIRED / TOKEN_ALREADY_USED
+   * @throws {Error} USER_NOT_FOUND if user no longer exists
+   */
+  static async resetPassword(input: unknown): Promise<void> {
+    try {
+      const result = safeParse(PasswordResetSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const payload = await ActionTokenService.consume(
+        result.output.token,
+        ACTION_TOKEN_PURPOSE.PASSWORD_RESET
+      );
+
+      await UserService.updatePassword(
+        payload.sub,
+        { newPassword: result.output.newPassword },
+        { requireCurrentPassword: false }
+      );
+      await this.revokeAllSessions(payload.sub);
+    } catch (error) {
+      console.error("Password reset failed:", error);
+      throw error;
+    }
+  }
+
   /**
    * ================================================
    *                       UTILS
    * ================================================
    */
 
+  /**
+   * Revokes every refresh token family and session of a user.
+   *
+   * @param userId - User to sign out everywhere
+   */
+  private static async revokeAllSessions(userId: string): Promise<void> {
+    await JWTService.revokeAllUserTokens(userId);
+    await SessionService.markAllRevoked(userId);
+  }
+
+  /**
+   * Builds and validates the response returned after a successful login.
+   *
+   * @param user - Authenticated user
+   * @param token - Issued authentication tokens
+   * @returns Validated AuthResponse
+   *
+   * @throws {Error} AUTH_RESPONSE_VALIDATION_FAILED if response validation fails
+   */
+  private static buildAuthResponse(
+    user: { id: string; email: string; username: string; fullname: string },
+    token: AuthToken
+  ): AuthResponse {
+    const responseResult = safeParse(AuthResponseSchema, {
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        fullname: user.fullname,
+      },
+      token,
+    });
+    if (!responseResult.success) {
+      throw new Error("AUTH_RESPONSE_VALIDATION_FAILED");
+    }
+
+    return responseResult.output;
+  }
+
   /**
    * Validates a user session using their access token.
    *
@@ -287,7 +588,12 @@ export class AuthService {
     error?: string;
   }> {
     try {
-      const payload = JWTService.verifyToken(accessToken, "access");
+      const payload = await JWTService.verifyToken(accessToken, "access");
+
+      const session = await SessionService.getSession(payload.fam);
+      if (!SessionService.isActive(session)) {
+        return { isValid: false, error: "SESSION_REVOKED" };
+      }
 
       const user = await UserService.getUserById(payload.sub);
       if (!user) {
@@ -0,0 +1,217 @@
+import { safeParse } from "valibot";
+import { UserBlockSchema } from "../../models/schema/block";
+import type { BlockedUser, UserBlock } from "../../models/types/block";
+import { firestoreService } from "../Firebase/firebase.service";
+import { UserService } from "./User.service";
+
+/**
+ * A user can block another user. Blocking works both ways: neither of the
+ * two can start a conversation with the other, write in their direct
+ * conversation or claim the other's publications, and they no longer see
+ * each other, or each other's publications, in user search, publication
+ * listings and nearby results.
+ */
+export class BlockService {
+  private static readonly COLLECTION_NAME = "user_block";
+
+  /**
+   * ================================================
+   *                     CREATIONS
+   * ================================================
+   */
+
+  /**
+   * Blocks a user.
+   *
+   * @param blockerId - ID of the user blocking
+   * @param blockedId - ID of the user to block
+   * @returns Promise resolving to the created block
+   *
+   * @throws {Error} CANNOT_BLOCK_YOURSELF if both IDs are the same
+   * @throws {Error} USER_NOT_FOUND if the user to block doesn't exist
+   * @throws {Error} USER_ALREADY_BLOCKED if the user is already blocked
+   */
+  static async blockUser(
+    blockerId: string,
+    blockedId: string
+  ): Promise<UserBlock> {
+    try {
+      if (blockerId === blockedId) {
+        throw new Error("CANNOT_BLOCK_YOURSELF");
+      }
+
+      const blocked = await UserService.getUserById(blockedId);
+      if (!blocked) {
+        throw new Error("USER_NOT_FOUND");
+      }
+
+      const id = this.blockId(blockerId, blockedId);
+      const existing = await firestoreService.getById<UserBlock>(
+        this.COLLECTION_NAME,
+        id
+      );
+      if (existing) {
+        throw new Error("USER_ALREADY_BLOCKED");
+      }
+
+      const block: UserBlock = {
+        id,
+        blockerId,
+        blockedId,
+        blockedAt: Date.now(),
+      };
+
+      await firestoreService.create<UserBlock>(this.COLLECTION_NAME, block, id);
+
+      return block;
+    } catch (error) {
+      console.error(`Failed to block user ${blockedId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      DELETE
+   * ================================================
+   */
+
+  /**
+   * Unblocks a user. A block the other user placed stays in place.
+   *
+   * @param blockerId - ID of the user who blocked
+   * @param blockedId - ID of the blocked user
+   *
+   * @throws {Error} USER_NOT_BLOCKED if the user isn't blocked
+   */
+  static async unblockUser(blockerId: string, blockedId: string) {
+    try {
+      const id = this.blockId(blockerId, blockedId);
+      const existing = await firestoreService.getById<UserBlock>(
+        this.COLLECTION_NAME,
+        id
+      );
+      if (!existing) {
+        throw new Error("USER_NOT_BLOCKED");
+      }
+
+      await firestoreService.delete(this.COLLECTION_NAME, id);
+    } catch (error) {
+      console.error(`Failed to unblock user ${blockedId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                       GETS
+   * ================================================
+   */
+
+  /**
+   * Lists the users a user blocked, most recent first.
+   *
+   * @param blockerId - ID of the user
+   * @returns Promise resolving to the blocks with the blocked users
+   */
+  static async getBlockedUsers(blockerId: string): Promise<BlockedUser[]> {
+    try {
+      const blocks = await this.query("blockerId", blockerId);
+      blocks.sort((a, b) => b.blockedAt - a.blockedAt);
+
+      const users = await Promise.all(
+        blocks.map((block) =>
+          UserService.getMinimalUser(block.blockedId).catch(() => null)
+        )
+      );
+
+      return blocks.map((block, index) => ({
+        ...block,
+        user: users[index] ?? null,
+      }));
+    } catch (error) {
+      console.error(`Failed to get users blocked by ${blockerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks whether either of two users blocked the other.
+   *
+   * @param userId - ID of a user
+   * @param otherUserId - ID of the other user
+   * @returns Promise resolving to true if a block exists in any direction
+   */
+  static async isBlocked(userId: string, otherUserId: string) {
+    const [blocked, blockedBy] = await Promise.all([
+      firestoreService.getById<UserBlock>(
+        this.COLLECTION_NAME,
+        this.blockId(userId, otherUserId)
+      ),
+      firestoreService.getById<UserBlock>(
+        this.COLLECTION_NAME,
+        this.blockId(otherUserId, userId)
+      ),
+    ]);
+
+    return !!blocked || !!blockedBy;
+  }
+
+  /**
+   * Gets the users a user must not see: the ones they blocked and the ones
+   * who blocked them.
+   *
+   * @param userId - ID of the user
+   * @returns Promise resolving to the IDs of those users
+   */
+  static async getHiddenUserIds(userId: string): Promise<Set<string>> {
+    const [blocked, blockedBy] = await Promise.all([
+      this.query("blockerId", userId),
+      this.query("blockedId", userId),
+    ]);
+
+    return new Set([
+      ...blocked.map((block) => block.blockedId),
+      ...blockedBy.map((block) => block.blockerId),
+    ]);
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Throws if either of two users blocked the other.
+   *
+   * @param userId - ID of a user
+   * @param otherUserId - ID of the other user
+   *
+   * @throws {Error} USER_BLOCKED if a block exists in any direction
+   */
+  static async assertNotBlocked(userId: string, otherUserId: string) {
+    if (await this.isBlocked(userId, otherUserId)) {
+      throw new Error("USER_BLOCKED");
+    }
+  }
+
+  private static blockId(blockerId: string, blockedId: string) {
+    return `${blockerId}_${blockedId}`;
+  }
+
+  private static async query(
+    field: "blockerId" | "blockedId",
+    userId: string
+  ): Promise<UserBlock[]> {
+    const blocks = await firestoreService.query<UserBlock>(
+      this.COLLECTION_NAME,
+      { where: [field, "==", userId] }
+    );
+
+    return blocks.flatMap((block) => {
+      const result = safeParse(UserBlockSchema, block);
+      return result.success ? [result.output] : [];
+    });
+  }
+}
@@ -1,7 +1,16 @@
 import { randomBytes } from "crypto";
 import type { AuthToken, JWTPayload } from "../../models/types/auth";
+import type { SessionContext } from "../../models/types/session";
+import type { MfaPendingPayload } from "../../models/types/mfa";
+import { MfaPendingPayloadSchema } from "../../models/schema/mfa";
 import { safeParse } from "valibot";
 import { AuthTokenSchema, JWTPayloadSchema } from "../../models/schema/auth";
+import {
+  createTokenRevocationStoreFromEnv,
+  type TokenRevocationStore,
+} from "./TokenRevocation.store";
+import { SessionService } from "./Session.service";
+import { getUserPermissions } from "../../config/permissions.config";
 import {
   decode,
   JsonWebTokenError,
@@ -21,10 +30,10 @@ interface TokenConfig {
   };
 }
 
-// In-memory token blacklist (use Redis in production)
-const tokenBlacklist = new Set<string>();
-
 export class JWTService {
+  private static revocationStore: TokenRevocationStore =
+    createTokenRevocationStoreFromEnv();
+
   private static config: TokenConfig = {
     accessToken: {
       secret: process.env.JWT_ACCESS_SECRET!,
@@ -61,6 +70,15 @@ export class JWTService {
     console.log("JWT Service initialized successfully");
   }
 
+  /**
+   * Replaces the revocation store (e.g. with an in-memory store for tests).
+   *
+   * @param store - Store to use for revocations and token families
+   */
+  static setRevocationStore(store: TokenRevocationStore): void {
+    this.revocationStore = store;
+  }
+
   /**
    * Generates a cryptographically secure random token ID.
    *
@@ -73,17 +91,21 @@ export class JWTService {
 
   /**
    * Generates a JWT access token with standard claims.
+   * The permissions of the user's roles travel in the `perms` claim.
    *
    * @param payload - Token payload without automatic claims (type, iat, exp, jti)
+   * @param permissions - Permissions granted by the user's roles
    * @returns Signed JWT access token string
    *
    * @throws {Error} INVALID_TOKEN_PAYLOAD if payload validation fails
    */
   static generateAccessToken(
-    payload: Omit<JWTPayload, "type" | "iat" | "exp" | "jti">
+    payload: Omit<JWTPayload, "type" | "iat" | "exp" | "jti" | "perms">,
+    permissions: string[] = []
   ): string {
     const tokenPayload: JWTPayload = {
       ...payload,
+      perms: permissions,
       type: "access",
       iat: Math.floor(Date.now() / 1000),
       exp:
@@ -108,21 +130,21 @@ export class JWTService {
    * Generates a JWT refresh token with standard claims.
    *
    * @param payload - Token payload without automatic claims (type, iat, exp, jti)
+   * @param tokenId - Optional jti, so the family can be told which token is current
    * @returns Signed JWT refresh token string
    *
    * @throws {Error} INVALID_TOKEN_PAYLOAD if payload validation fails
    */
   static generateRefreshToken(
-    payload: Omit<JWTPayload, "type" | "iat" | "exp" | "jti">
+    payload: Omit<JWTPayload, "type" | "iat" | "exp" | "jti" | "perms">,
+    tokenId: string = this.generateTokenId()
   ): string {
     const tokenPayload: JWTPayload = {
       ...payload,
       type: "refresh",
       iat: Math.floor(Date.now() / 1000),
-      exp:
-        Math.floor(Date.now() / 1000) +
-        this.parseExpiration(this.config.refreshToken.expiresIn),
-      jti: this.generateTokenId(),
+      exp: this.getRefreshTokenExpiry(),
+      jti: tokenId,
     };
 
     const validation = safeParse(JWTPayloadSchema, tokenPayload);
@@ -139,34 +161,47 @@ export class JWTService {
 
   /**
    * Generates both access and refresh tokens for user authentication.
+   * Every call starts a new token family (one per login) that is followed
+   * through refresh-token rotation, and is recorded as a session.
    *
-   * @param user - User object containing id and email
+   * @param user - User object containing id, email and roles
+   * @param context - Device information of the login request
+   * @param options - Set mfa when the login passed a second factor
    * @returns AuthToken object with accessToken, refreshToken, and metadata
    *
    * @throws {Error} INVALID_TOKEN_GENERATION if token validation fails
    */
-  static generateAuthToken(user: { id: string; email: string }): AuthToken {
-    const basePayload = {
-      sub: user.id,
-      email: user.email,
-    };
-
-    const accessToken = this.generateAccessToken(basePayload);
-    const refreshToken = this.generateRefreshToken(basePayload);
-
-    const authToken = {
-      accessToken,
-      refreshToken,
-      tokenType: "Bearer",
-      expiresIn: this.parseExpiration(this.config.accessToken.expiresIn),
-    };
+  static async generateAuthToken(
+    user: { id: string; email: string; role?: string; roles?: string[] },
+    context?: SessionContext,
+    options: { mfa?: boolean } = {}
+  ): Promise<AuthToken> {
+    const familyId = this.generateTokenId();
+    const refreshTokenId = this.generateTokenId();
+
+    const authToken = this.signTokenPair(
+      {
+        sub: user.id,
+        email: user.email,
+        fam: familyId,
+        ...(options.mfa && { mfa: true }),
+      },
+      refreshTokenId,
+      getUserPermissions(user)
+    );
+
+    const expiresAt = this.getRefreshTokenExpiry();
+
+    await this.revocationStore.createFamily({
+      id: familyId,
+      userId: user.id,
+      currentTokenId: refreshTokenId,
+      expiresAt,
+    });
 
-    const validation = safeParse(AuthTokenSchema, authToken);
-    if (!validation.success) {
-      throw new Error("INVALID_TOKEN_GENERATION");
-    }
+    await SessionService.recordSession(familyId, user.id, expiresAt, context);
 
-    return validation.output;
+    return authToken;
   }
 
   /**
@@ -180,9 +215,12 @@ export class JWTService {
    * @throws {Error} INVALID_TOKEN if token is malformed or invalid
    * @throws {Error} INVALID_TOKEN_STRUCTURE if payload validation fails
    * @throws {Error} INVALID_TOKEN_TYPE if token type doesn't match
-   * @throws {Error} TOKEN_REVOKED if token is blacklisted
+   * @throws {Error} TOKEN_REVOKED if the token or its family was revoked
    */
-  static verifyToken(token: string, type: "access" | "refresh"): JWTPayload {
+  static async verifyToken(
+    token: string,
+    type: "access" | "refresh"
+  ): Promise<JWTPayload> {
     try {
       const tokenType =
         type === "access"
@@ -202,8 +240,16 @@ export class JWTService {
 
       const validatedPayload = validation.output;
 
-      // Check if token is blacklisted
-      if (tokenBlacklist.has(validatedPayload.jti.toString())) {
+      if (validatedPayload.type !== type) {
+        throw new Error("INVALID_TOKEN_TYPE");
+      }
+
+      const [isRevoked, family] = await Promise.all([
+        this.revocationStore.isTokenRevoked(validatedPayload.jti),
+        this.revocationStore.getFamily(validatedPayload.fam),
+      ]);
+
+      if (isRevoked || !family || family.revokedAt !== undefined) {
         throw new Error("TOKEN_REVOKED");
       }
 
@@ -221,32 +267,216 @@ export class JWTService {
   }
 
   /**
-   * Revokes a token by adding it to the blacklist.
+   * Generates a short-lived token proving the password step of a login
+   * succeeded. It can only be exchanged for real tokens once the second
+   * factor is verified.
+   *
+   * @param user - User who passed the password check
+   * @returns Signed MFA pending token and its lifetime in seconds
+   */
+  static generateMfaPendingToken(user: { id: string; email: string }): {
+    token: string;
+    expiresIn: number;
+  } {
+    const now = Math.floor(Date.now() / 1000);
+    const expiresIn = this.parseExpiration(
+      process.env.JWT_MFA_PENDING_EXPIRES_IN || "5m"
+    );
+
+    const payload: MfaPendingPayload = {
+      sub: user.id,
+      email: user.email,
+      type: "mfa_pending",
+      iat: now,
+      exp: now + expiresIn,
+      jti: this.generateTokenId(),
+    };
+
+    const token = sign(payload, this.config.accessToken.secret, {
+      algorithm: "HS256",
+      issuer: "don-app",
+      audience: "don-app-mfa",
+    });
+
+    return { token, expiresIn };
+  }
+
+  /**
+   * Verifies an MFA pending token.
+   *
+   * @param token - MFA pending token from the login response
+   * @returns Decoded token payload
+   *
+   * @throws {Error} TOKEN_EXPIRED if token has expired
+   * @throws {Error} INVALID_TOKEN if token is malformed or invalid
+   * @throws {Error} TOKEN_REVOKED if token was already exchanged
+   */
+  static async verifyMfaPendingToken(
+    token: string
+  ): Promise<MfaPendingPayload> {
+    try {
+      const payload = verify(token, this.config.accessToken.secret, {
+        algorithms: ["HS256"],
+        issuer: "don-app",
+        audience: "don-app-mfa",
+      });
+
+      const validation = safeParse(MfaPendingPayloadSchema, payload);
+      if (!validation.success) {
+        throw new Error("INVALID_TOKEN_STRUCTURE");
+      }
+
+      if (await this.revocationStore.isTokenRevoked(validation.output.jti)) {
+        throw new Error("TOKEN_REVOKED");
+      }
+
+      return validation.output;
+    } catch (error) {
+      if (error instanceof TokenExpiredError) {
+        throw new Error("TOKEN_EXPIRED");
+      }
+      if (error instanceof JsonWebTokenError) {
+        throw new Error("INVALID_TOKEN");
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Revokes a single token until it expires.
    *
    * @param tokenId - The token ID (jti) to revoke
+   * @param expiresAt - Token expiration (unix seconds), revocation is kept until then
+   */
+  static async revokeToken(tokenId: string, expiresAt: number): Promise<void> {
+    await this.revocationStore.revokeToken(tokenId, expiresAt);
+  }
+
+  /**
+   * Revokes a token family, invalidating every access and refresh token
+   * issued from the same login.
+   *
+   * @param familyId - The family ID (fam claim) to revoke
    */
-  static revokeToken(tokenId: string): void {
-    tokenBlacklist.add(tokenId);
+  static async revokeFamily(familyId: string): Promise<void> {
+    await this.revocationStore.revokeFamily(familyId);
+  }
+
+  /**
+   * Revokes every token family of a user ("log out all devices").
+   *
+   * @param userId - User whose tokens should be revoked
+   * @returns Number of families revoked
+   */
+  static async revokeAllUserTokens(userId: string): Promise<number> {
+    return this.revocationStore.revokeUserFamilies(userId);
   }
 
   /**
    * Refreshes an authentication token pair using a valid refresh token.
+   * The refresh token is rotated: presenting an already rotated refresh token
+   * again is treated as theft and revokes the whole family.
    *
    * @param refreshToken - Valid refresh token to exchange for new tokens
+   * @param user - Current roles of the token owner
    * @returns New AuthToken object with fresh access and refresh tokens
    *
+   * @throws {Error} REFRESH_TOKEN_REUSED if a rotated refresh token is presented
    * @throws {Error} Various token verification errors from verifyToken
    */
-  static refreshToken(refreshToken: string): AuthToken {
-    const payload = this.verifyToken(refreshToken, "refresh");
+  static async refreshToken(
+    refreshToken: string,
+    user: { role?: string; roles?: string[] }
+  ): Promise<AuthToken> {
+    const payload = await this.verifyToken(refreshToken, "refresh");
+    return this.rotateTokens(payload, user);
+  }
+
+  /**
+   * Issues the next token pair of a family from a verified refresh token payload.
+   * Permissions are resolved again from the user's current roles, so granted
+   * roles take effect on the next refresh.
+   *
+   * @param payload - Verified refresh token payload
+   * @param user - Current roles of the token owner
+   * @returns New AuthToken object for the same family
+   *
+   * @throws {Error} REFRESH_TOKEN_REUSED if the refresh token was already rotated
+   */
+  static async rotateTokens(
+    payload: JWTPayload,
+    user: { role?: string; roles?: string[] }
+  ): Promise<AuthToken> {
+    const nextRefreshTokenId = this.generateTokenId();
+    const expiresAt = this.getRefreshTokenExpiry();
+
+    const rotated = await this.revocationStore.rotateFamily(
+      payload.fam,
+      payload.jti,
+      nextRefreshTokenId,
+      expiresAt
+    );
+
+    if (!rotated) {
+      await this.revocationStore.revokeFamily(payload.fam);
+      await SessionService.markRevoked(payload.fam);
+      throw new Error("REFRESH_TOKEN_REUSED");
+    }
 
-    // Revoke the old refresh token
-    this.revokeToken(payload.jti.toString());
+    await SessionService.touchSession(payload.fam, expiresAt);
+
+    return this.signTokenPair(
+      {
+        sub: payload.sub,
+        email: payload.email,
+        fam: payload.fam,
+        ...(payload.mfa && { mfa: true }),
+      },
+      nextRefreshTokenId,
+      getUserPermissions(user)
+    );
+  }
 
-    return this.generateAuthToken({
-      id: payload.sub,
-      email: payload.email,
-    });
+  /**
+   * Signs an access/refresh token pair for a family.
+   *
+   * @param basePayload - Subject, email, family and MFA flag of the tokens
+   * @param refreshTokenId - jti to use for the refresh token
+   * @param permissions - Permissions embedded in the access token
+   * @returns Validated AuthToken object
+   */
+  private static signTokenPair(
+    basePayload: Pick<JWTPayload, "sub" | "email" | "fam" | "mfa">,
+    refreshTokenId: string,
+    permissions: string[]
+  ): AuthToken {
+    const accessToken = this.generateAccessToken(basePayload, permissions);
+    const refreshToken = this.generateRefreshToken(basePayload, refreshTokenId);
+
+    const authToken = {
+      accessToken,
+      refreshToken,
+      tokenType: "Bearer",
+      expiresIn: this.parseExpiration(this.config.accessToken.expiresIn),
+    };
+
+    const validation = safeParse(AuthTokenSchema, authToken);
+    if (!validation.success) {
+      throw new Error("INVALID_TOKEN_GENERATION");
+    }
+
+    return validation.output;
+  }
+
+  /**
+   * Computes the expiration (unix seconds) of a refresh token issued now.
+   */
+  private static getRefreshTokenExpiry(): number {
+    return (
+      Math.floor(Date.now() / 1000) +
+      this.parseExpiration(this.config.refreshToken.expiresIn)
+    );
   }
 
   /**
@@ -0,0 +1,479 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "crypto";
+import { safeParse } from "valibot";
+import {
+  MfaChallengeSchema,
+  MfaCodeSchema,
+  MfaRecordSchema,
+} from "../../models/schema/mfa";
+import type { MfaRecord } from "../../models/types/mfa";
+import { firestoreService } from "../Firebase/firebase.service";
+import { UserService } from "./User.service";
+
+/**
+ * Time-based one-time password (RFC 6238) second factor.
+ *
+ * Secrets are stored AES-256-GCM encrypted and recovery codes as SHA-256
+ * hashes. Accepted TOTP time steps are remembered so a code can't be replayed.
+ */
+export class MFAService {
+  private static readonly COLLECTION_NAME = "user_mfa";
+
+  private static readonly ISSUER = "Don-App";
+  private static readonly DIGITS = 6;
+  private static readonly PERIOD = 30; // seconds
+  private static readonly WINDOW = 1; // accepted steps of clock drift
+  private static readonly RECOVERY_CODE_COUNT = 10;
+
+  private static readonly encryptionKey = createHash("sha256")
+    .update(process.env.MFA_ENCRYPTION_KEY || process.env.JWT_ACCESS_SECRET!)
+    .digest();
+
+  /**
+   * ================================================
+   *                    ENROLLMENT
+   * ================================================
+   */
+
+  /**
+   * Starts TOTP enrollment by generating a new secret.
+   * The secret only becomes active once a code is confirmed with
+   * confirmEnrollment.
+   *
+   * @param userId - User enrolling
+   * @returns Base32 secret and otpauth:// URI for authenticator apps
+   *
+   * @throws {Error} USER_NOT_FOUND if user doesn't exist
+   * @throws {Error} MFA_ALREADY_ENABLED if the user already has 2FA enabled
+   */
+  static async startEnrollment(
+    userId: string
+  ): Promise<{ secret: string; otpauthUri: string }> {
+    try {
+      const user = await UserService.getUserById(userId);
+      if (!user) {
+        throw new Error("USER_NOT_FOUND");
+      }
+
+      const record = await this.getRecord(userId);
+      if (record?.enabled) {
+        throw new Error("MFA_ALREADY_ENABLED");
+      }
+
+      const secret = this.base32Encode(randomBytes(20));
+
+      await firestoreService.create<MfaRecord>(
+        this.COLLECTION_NAME,
+        {
+          userId,
+          enabled: false,
+          pendingSecret: this.encrypt(secret),
+          recoveryCodes: [],
+        },
+        userId
+      );
+
+      const label = encodeURIComponent(`${this.ISSUER}:${user.email}`);
+      const params = new URLSearchParams({
+        secret,
+        issuer: this.ISSUER,
+        algorithm: "SHA1",
+        digits: String(this.DIGITS),
+        period: String(this.PERIOD),
+      });
+
+      return {
+        secret,
+        otpauthUri: `otpauth://totp/${label}?${params.toString()}`,
+      };
+    } catch (error) {
+      console.error(`Failed to start MFA enrollment for ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirms enrollment with a code from the authenticator app and enables 2FA.
+   *
+   * @param userId - User enrolling
+   * @param input - Confirmation code ({ code })
+   * @returns Recovery codes, shown to the user only once
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} MFA_ENROLLMENT_NOT_STARTED if there is no pending secret
+   * @throws {Error} MFA_ALREADY_ENABLED if the user already has 2FA enabled
+   * @throws {Error} INVALID_MFA_CODE if the code doesn't match
+   */
+  static async confirmEnrollment(
+    userId: string,
+    input: unknown
+  ): Promise<string[]> {
+    try {
+      const result = safeParse(MfaCodeSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const record = await this.getRecord(userId);
+      if (record?.enabled) {
+        throw new Error("MFA_ALREADY_ENABLED");
+      }
+      if (!record?.pendingSecret) {
+        throw new Error("MFA_ENROLLMENT_NOT_STARTED");
+      }
+
+      const secret = this.decrypt(record.pendingSecret);
+      const step = this.matchTotp(secret, result.output.code);
+      if (step === null) {
+        throw new Error("INVALID_MFA_CODE");
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+
+      await firestoreService.create<MfaRecord>(
+        this.COLLECTION_NAME,
+        {
+          userId,
+          enabled: true,
+          secret: record.pendingSecret,
+          recoveryCodes: recoveryCodes.map((code) => this.hashRecoveryCode(code)),
+          lastUsedStep: step,
+          enabledAt: Date.now(),
+        },
+        userId
+      );
+
+      return recoveryCodes;
+    } catch (error) {
+      console.error(`Failed to confirm MFA enrollment for ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Disables 2FA after checking a code or recovery code.
+   *
+   * @param userId - User disabling 2FA
+   * @param input - Challenge ({ code } or { recoveryCode })
+   *
+   * @throws {Error} MFA_NOT_ENABLED if the user doesn't have 2FA enabled
+   * @throws {Error} INVALID_MFA_CODE if the challenge fails
+   */
+  static async disable(userId: string, input: unknown): Promise<void> {
+    try {
+      await this.verifyChallenge(userId, input);
+
+      await firestoreService.delete(this.COLLECTION_NAME, userId);
+    } catch (error) {
+      console.error(`Failed to disable MFA for ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces all recovery codes after checking a TOTP code.
+   *
+   * @param userId - User regenerating the codes
+   * @param input - Current TOTP code ({ code })
+   * @returns New recovery codes, shown to the user only once
+   *
+   * @throws {Error} MFA_NOT_ENABLED if the user doesn't have 2FA enabled
+   * @throws {Error} INVALID_MFA_CODE if the code doesn't match
+   */
+  static async regenerateRecoveryCodes(
+    userId: string,
+    input: unknown
+  ): Promise<string[]> {
+    try {
+      const result = safeParse(MfaCodeSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      await this.verifyChallenge(userId, result.output);
+
+      const recoveryCodes = this.generateRecoveryCodes();
+
+      await firestoreService.update<MfaRecord>(this.COLLECTION_NAME, userId, {
+        recoveryCodes: recoveryCodes.map((code) => this.hashRecoveryCode(code)),
+      });
+
+      return recoveryCodes;
+    } catch (error) {
+      console.error(`Failed to regenerate recovery codes for ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                   VERIFICATION
+   * ================================================
+   */
+
+  /**
+   * Checks a TOTP code or consumes a recovery code.
+   *
+   * @param userId - User being challenged
+   * @param input - Challenge ({ code } or { recoveryCode })
+   * @returns Which factor was used
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} MFA_NOT_ENABLED if the user doesn't have 2FA enabled
+   * @throws {Error} INVALID_MFA_CODE if the code is wrong or already used
+   */
+  static async verifyChallenge(
+    userId: string,
+    input: unknown
+  ): Promise<"totp" | "recovery_code"> {
+    const result = safeParse(MfaChallengeSchema, input);
+    if (!result.success) {
+      const errors = result.issues.map((issue) => ({
+        field: issue.path?.map((p) => p.key).join(".") || "body",
+        message: issue.message,
+      }));
+      throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+    }
+
+    const { code, recoveryCode } = result.output;
+
+    return firestoreService.runTransaction(async (transaction) => {
+      const reference = firestoreService.getDocumentReference(
+        this.COLLECTION_NAME,
+        userId
+      );
+      const snapshot = await transaction.get(reference);
+
+      const parsed = safeParse(MfaRecordSchema, {
+        id: snapshot.id,
+        ...snapshot.data(),
+      });
+      if (!snapshot.exists || !parsed.success || !parsed.output.enabled) {
+        throw new Error("MFA_NOT_ENABLED");
+      }
+
+      const record = parsed.output;
+
+      if (code) {
+        const step = this.matchTotp(this.decrypt(record.secret!), code);
+        if (step === null || step <= (record.lastUsedStep ?? -1)) {
+          throw new Error("INVALID_MFA_CODE");
+        }
+
+        transaction.update(reference, { lastUsedStep: step });
+        return "totp";
+      }
+
+      const hash = this.hashRecoveryCode(recoveryCode!);
+      if (!record.recoveryCodes.includes(hash)) {
+        throw new Error("INVALID_MFA_CODE");
+      }
+
+      transaction.update(reference, {
+        recoveryCodes: record.recoveryCodes.filter((stored) => stored !== hash),
+      });
+      return "recovery_code";
+    });
+  }
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Checks whether a user has 2FA enabled.
+   *
+   * @param userId - User to check
+   * @returns True if 2FA is enabled
+   */
+  static async isEnabled(userId: string): Promise<boolean> {
+    const record = await this.getRecord(userId);
+    return !!record?.enabled;
+  }
+
+  /**
+   * Gets the 2FA status of a user.
+   *
+   * @param userId - User to check
+   * @returns Whether 2FA is enabled and how many recovery codes are left
+   */
+  static async getStatus(
+    userId: string
+  ): Promise<{ enabled: boolean; recoveryCodesRemaining: number }> {
+    const record = await this.getRecord(userId);
+
+    return {
+      enabled: !!record?.enabled,
+      recoveryCodesRemaining: record?.enabled ? record.recoveryCodes.length : 0,
+    };
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  private static async getRecord(userId: string): Promise<MfaRecord | null> {
+    const record = await firestoreService.getById<MfaRecord>(
+      this.COLLECTION_NAME,
+      userId
+    );
+
+    if (!record) return null;
+
+    const result = safeParse(MfaRecordSchema, record);
+    if (!result.success) {
+      throw new Error("INVALID_MFA_DATA");
+    }
+
+    return result.output;
+  }
+
+  /**
+   * Finds the time step (within the drift window) whose code matches.
+   *
+   * @param secret - Base32 secret
+   * @param code - Code entered by the user
+   * @returns Matching time step or null
+   */
+  private static matchTotp(secret: string, code: string): number | null {
+    const key = this.base32Decode(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / this.PERIOD);
+
+    for (let offset = -this.WINDOW; offset <= this.WINDOW; offset++) {
+      const step = currentStep + offset;
+      const expected = Buffer.from(this.hotp(key, step));
+      const received = Buffer.from(code);
+
+      if (
+        expected.length === received.length &&
+        timingSafeEqual(expected, received)
+      ) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * HMAC-based one-time password (RFC 4226).
+   */
+  private static hotp(key: Buffer, counter: number): string {
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64BE(BigInt(counter));
+
+    const digest = createHmac("sha1", key).update(buffer).digest();
+    const offset = digest[digest.length - 1]! & 0x0f;
+    const binary =
+      ((digest[offset]! & 0x7f) << 24) |
+      (digest[offset + 1]! << 16) |
+      (digest[offset + 2]! << 8) |
+      digest[offset + 3]!;
+
+    return (binary % 10 ** this.DIGITS).toString().padStart(this.DIGITS, "0");
+  }
+
+  private static generateRecoveryCodes(): string[] {
+    const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789";
+
+    return Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const bytes = randomBytes(10);
+      const code = Array.from(bytes, (byte) => alphabet[byte % 36]).join("");
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private static hashRecoveryCode(code: string): string {
+    return createHash("sha256")
+      .update(code.replace(/[\s-]+/g, "").toLowerCase())
+      .digest("hex");
+  }
+
+  private static encrypt(plain: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString("base64"))
+      .join(".");
+  }
+
+  private static decrypt(payload: string): string {
+    const [iv, tag, encrypted] = payload
+      .split(".")
+      .map((part) => Buffer.from(part, "base64"));
+
+    const decipher = createDecipheriv("aes-256-gcm", this.encryptionKey, iv!);
+    decipher.setAuthTag(tag!);
+
+    return Buffer.concat([
+      decipher.update(encrypted!),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  private static base32Encode(buffer: Buffer): string {
+    const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+    let bits = 0;
+    let value = 0;
+    let output = "";
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += alphabet[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += alphabet[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private static base32Decode(input: string): Buffer {
+    const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+    const cleaned = input.toUpperCase().replace(/=+$/, "");
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = alphabet.indexOf(char);
+      if (index === -1) continue;
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,407 @@
+import { safeParse } from "valibot";
+import {
+  CreateReviewSchema,
+  REVIEW_TRANSACTION_TYPES,
+  ReplyReviewSchema,
+  ReviewSchema,
+} from "../../models/schema/review";
+import { INTEREST_STATUS } from "../../models/schema/interest";
+import { PLEDGE_STATUS } from "../../models/schema/pledge";
+import { PROPOSAL_STATUS } from "../../models/schema/exchangeProposal";
+import type {
+  PublicReview,
+  Review,
+  ReviewTransactionType,
+} from "../../models/types/review";
+import type { User } from "../../models/types/user";
+import { firestoreService } from "../Firebase/firebase.service";
+import { socketService } from "../Chat/socket.service";
+import { InterestService } from "../Publication/interest.service";
+import { PledgeService } from "../Publication/pledge.service";
+import { ExchangeProposalService } from "../Publication/exchangeProposal.service";
+import { UserService } from "./User.service";
+import { NotificationService } from "../Notification/notification.service";
+import { NOTIFICATION_TYPES } from "../../models/schema/notification";
+
+/**
+ * Two users who completed a transaction (a fulfilled claim, a delivered
+ * pledge or a completed exchange) can review each other once. A review
+ * rates the other party from 1 to 5 stars, and the reviewed user can reply
+ * to it. The average rating of a user is updated in the same transaction
+ * the review is written.
+ */
+export class ReviewService {
+  private static readonly COLLECTION_NAME = "review";
+  private static readonly USER_COLLECTION = "users";
+
+  private static readonly DEFAULT_PAGE_SIZE = 20;
+
+  /**
+   * ================================================
+   *                     CREATIONS
+   * ================================================
+   */
+
+  /**
+   * Reviews the other party of a completed transaction. The reviewed user
+   * gets a "new_review" event.
+   *
+   * @param reviewerId - ID of the user writing the review
+   * @param input - Transaction, star rating and optional comment
+   * @returns Promise resolving to the created review
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} TRANSACTION_NOT_FOUND if the transaction doesn't exist
+   * @throws {Error} NOT_TRANSACTION_PARTICIPANT if the user wasn't part of it
+   * @throws {Error} TRANSACTION_NOT_COMPLETED if it isn't completed yet
+   * @throws {Error} REVIEW_ALREADY_EXISTS if the user already reviewed it
+   * @throws {Error} USER_NOT_FOUND if the reviewed user doesn't exist
+   */
+  static async createReview(
+    reviewerId: string,
+    input: unknown
+  ): Promise<Review> {
+    try {
+      const result = safeParse(CreateReviewSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const { transactionType, transactionId, rating, comment } =
+        result.output;
+
+      const transaction = await this.getTransaction(
+        transactionType,
+        transactionId
+      );
+
+      if (!transaction.participants.includes(reviewerId)) {
+        throw new Error("NOT_TRANSACTION_PARTICIPANT");
+      }
+
+      if (!transaction.completed) {
+        throw new Error("TRANSACTION_NOT_COMPLETED");
+      }
+
+      const revieweeId = transaction.participants.find(
+        (id) => id !== reviewerId
+      )!;
+
+      // One review per party and transaction
+      const id = `${transactionType}_${transactionId}_${reviewerId}`;
+      const review: Review = {
+        id,
+        transactionType,
+        transactionId,
+        publicationId: transaction.publicationId,
+        reviewerId,
+        revieweeId,
+        rating,
+        ...(comment && { comment }),
+        reviewedAt: Date.now(),
+      };
+
+      await firestoreService.runTransaction(async (tx) => {
+        const reviewRef = firestoreService.getDocumentReference(
+          this.COLLECTION_NAME,
+          id
+        );
+        const userRef = firestoreService.getDocumentReference(
+          this.USER_COLLECTION,
+          revieweeId
+        );
+
+        const [existing, reviewee] = await tx.getAll(reviewRef, userRef);
+
+        if (existing?.exists) {
+          throw new Error("REVIEW_ALREADY_EXISTS");
+        }
+
+        if (!reviewee?.exists) {
+          throw new Error("USER_NOT_FOUND");
+        }
+
+        const current = (reviewee.data() as Partial<User>).rating;
+
+        tx.set(reviewRef, review);
+        tx.update(userRef, {
+          rating: this.addRating(current, rating),
+          updatedAt: new Date(),
+        });
+      });
+
+      socketService.emitToUser(revieweeId, "new_review", {
+        reviewId: id,
+        reviewerId,
+        rating,
+        transactionType,
+        transactionId,
+      });
+
+      await NotificationService.notify(revieweeId, {
+        type: NOTIFICATION_TYPES.NEW_REVIEW,
+        title: `New ${rating}-star review`,
+        body: comment ?? "",
+        data: { reviewId: id, reviewerId, transactionType, transactionId },
+      });
+
+      return review;
+    } catch (error) {
+      console.error(`Failed to create review by user ${reviewerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                     UPDATES
+   * ================================================
+   */
+
+  /**
+   * Replies to a review. Only the reviewed user can reply, once. The
+   * reviewer gets a "review_reply" event.
+   *
+   * @param reviewId - ID of the review
+   * @param userId - ID of the reviewed user
+   * @param input - Reply comment
+   * @returns Promise resolving to the updated review
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} REVIEW_NOT_FOUND if the review doesn't exist
+   * @throws {Error} NOT_REVIEWEE if the user wasn't the one reviewed
+   * @throws {Error} REVIEW_ALREADY_REPLIED if the review has a reply
+   */
+  static async replyToReview(
+    reviewId: string,
+    userId: string,
+    input: unknown
+  ): Promise<Review> {
+    try {
+      const result = safeParse(ReplyReviewSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const review = await this.getReviewById(reviewId);
+      if (!review) {
+        throw new Error("REVIEW_NOT_FOUND");
+      }
+
+      if (review.revieweeId !== userId) {
+        throw new Error("NOT_REVIEWEE");
+      }
+
+      if (review.reply) {
+        throw new Error("REVIEW_ALREADY_REPLIED");
+      }
+
+      const reply = {
+        comment: result.output.comment,
+        repliedAt: Date.now(),
+      };
+
+      await firestoreService.update<Review>(this.COLLECTION_NAME, reviewId, {
+        reply,
+      });
+
+      socketService.emitToUser(review.reviewerId, "review_reply", {
+        reviewId,
+        userId,
+      });
+
+      await NotificationService.notify(review.reviewerId, {
+        type: NOTIFICATION_TYPES.REVIEW_REPLY,
+        title: "Reply to your review",
+        body: reply.comment,
+        data: { reviewId, userId },
+      });
+
+      return { ...review, reply };
+    } catch (error) {
+      console.error(`Failed to reply to review ${reviewId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Retrieves a review by its ID.
+   *
+   * @param id - Review ID
+   * @returns Review object or null if not found
+   *
+   * @throws {Error} INVALID_REVIEW_DATA if review data fails schema validation
+   */
+  static async getReviewById(id: string): Promise<Review | null> {
+    try {
+      const review = await firestoreService.getById<Review>(
+        this.COLLECTION_NAME,
+        id
+      );
+
+      if (!review) return null;
+
+      const result = safeParse(ReviewSchema, review);
+      if (!result.success) {
+        console.error("Review data schema validation failed:", result.issues);
+        throw new Error("INVALID_REVIEW_DATA");
+      }
+
+      return result.output;
+    } catch (error) {
+      console.error(`Failed to get review ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the reviews a user received, newest first, with their authors.
+   *
+   * @param userId - ID of the reviewed user
+   * @param cursor - nextCursor of the previous page
+   * @param pageSize - Reviews per page (default: 20)
+   * @returns Page of reviews and the cursor of the next page
+   *
+   * @throws {Error} INVALID_CURSOR if the cursor review doesn't exist
+   */
+  static async getUserReviews(
+    userId: string,
+    cursor?: string,
+    pageSize: number = this.DEFAULT_PAGE_SIZE
+  ): Promise<{
+    reviews: PublicReview[];
+    nextCursor: string | null;
+    hasMore: boolean;
+  }> {
+    try {
+      const page = await firestoreService.queryPagination<Review>(
+        this.COLLECTION_NAME,
+        {
+          where: ["revieweeId", "==", userId],
+          orderBy: { field: "reviewedAt", direction: "desc" },
+          pageSize,
+        },
+        cursor
+      );
+
+      const reviews: Review[] = [];
+      for (const review of page.data) {
+        const result = safeParse(ReviewSchema, review);
+        if (result.success) {
+          reviews.push(result.output);
+        }
+      }
+
+      // Several reviews often come from the same user
+      const reviewerIds = [...new Set(reviews.map((r) => r.reviewerId))];
+      const reviewers = await Promise.all(
+        reviewerIds.map((id) =>
+          UserService.getMinimalUser(id).catch(() => null)
+        )
+      );
+      const reviewersById = new Map(
+        reviewerIds.map((id, index) => [id, reviewers[index] ?? null])
+      );
+
+      return {
+        reviews: reviews.map((review) => ({
+          ...review,
+          reviewer: reviewersById.get(review.reviewerId) ?? null,
+        })),
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+      };
+    } catch (error) {
+      console.error(`Failed to get reviews for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Loads a transaction and describes who took part in it and whether it is
+   * completed.
+   *
+   * @throws {Error} TRANSACTION_NOT_FOUND if the transaction doesn't exist
+   */
+  private static async getTransaction(
+    type: ReviewTransactionType,
+    id: string
+  ): Promise<{
+    publicationId: string;
+    participants: string[];
+    completed: boolean;
+  }> {
+    switch (type) {
+      case REVIEW_TRANSACTION_TYPES.INTEREST: {
+        const interest = await InterestService.getInterestById(id);
+        if (!interest) break;
+
+        return {
+          publicationId: interest.publicationId,
+          participants: [interest.publicationOwnerId, interest.userId],
+          completed: interest.status === INTEREST_STATUS.FULFILLED,
+        };
+      }
+
+      case REVIEW_TRANSACTION_TYPES.PLEDGE: {
+        const pledge = await PledgeService.getPledgeById(id);
+        if (!pledge) break;
+
+        return {
+          publicationId: pledge.publicationId,
+          participants: [pledge.donorId, pledge.centerId],
+          completed: pledge.status === PLEDGE_STATUS.DELIVERED,
+        };
+      }
+
+      case REVIEW_TRANSACTION_TYPES.EXCHANGE: {
+        const proposal = await ExchangeProposalService.getProposalById(id);
+        if (!proposal) break;
+
+        return {
+          publicationId: proposal.targetPublicationId,
+          participants: [proposal.proposerId, proposal.targetOwnerId],
+          completed: proposal.status === PROPOSAL_STATUS.COMPLETED,
+        };
+      }
+    }
+
+    throw new Error("TRANSACTION_NOT_FOUND");
+  }
+
+  /**
+   * Adds a star rating to a user's average.
+   */
+  private static addRating(
+    current: User["rating"] | undefined,
+    rating: number
+  ): User["rating"] {
+    const { average, count } = current ?? { average: 0, count: 0 };
+    const newCount = count + 1;
+
+    return {
+      average: Math.round(((average * count + rating) / newCount) * 100) / 100,
+      count: newCount,
+    };
+  }
+}
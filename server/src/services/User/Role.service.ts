@@ -0,0 +1,217 @@
+import { safeParse } from "valibot";
+import { ROLES, RoleGrantSchema } from "../../models/schema/role";
+import type { Role, UserRoles } from "../../models/types/role";
+import type { User } from "../../models/types/user";
+import {
+  getUserPermissions,
+  getUserRoles,
+} from "../../config/permissions.config";
+import { firestoreService } from "../Firebase/firebase.service";
+import { UserService } from "./User.service";
+import { JWTService } from "./JWT.service";
+import { SessionService } from "./Session.service";
+
+/**
+ * Grants and revokes roles. A user keeps its account role ("user" or
+ * "donationCenter") and can be granted extra roles (e.g. "moderator") by an
+ * admin; its permissions are the union of all of them.
+ */
+export class RoleService {
+  private static readonly COLLECTION_NAME = "users";
+
+  /**
+   * ================================================
+   *                     UPDATES
+   * ================================================
+   */
+
+  /**
+   * Grants a role to a user. The new permissions are embedded in the user's
+   * access tokens from their next refresh.
+   *
+   * @param userId - User receiving the role
+   * @param input - Role to grant
+   * @param grantedBy - Admin granting the role
+   * @returns Roles and permissions of the user
+   *
+   * @throws {Error} VALIDATION_ERROR if input validation fails
+   * @throws {Error} USER_NOT_FOUND if user doesn't exist
+   * @throws {Error} ROLE_ALREADY_GRANTED if the user already has the role
+   */
+  static async grantRole(
+    userId: string,
+    input: unknown,
+    grantedBy: string
+  ): Promise<UserRoles> {
+    try {
+      const result = safeParse(RoleGrantSchema, input);
+      if (!result.success) {
+        const errors = result.issues.map((issue) => ({
+          field: issue.path?.map((p) => p.key).join(".") || "body",
+          message: issue.message,
+        }));
+        throw new Error(`VALIDATION_ERROR: ${JSON.stringify(errors)}`);
+      }
+
+      const { role } = result.output;
+
+      const user = await this.getUser(userId);
+      if (getUserRoles(user).includes(role)) {
+        throw new Error("ROLE_ALREADY_GRANTED");
+      }
+
+      const roles = [...(user.roles ?? []), role];
+
+      await firestoreService.update<User>(this.COLLECTION_NAME, userId, {
+        roles,
+      });
+
+      console.log(`Role ${role} granted to user ${userId} by ${grantedBy}`);
+
+      return this.describe({ ...user, roles });
+    } catch (error) {
+      console.error(`Failed to grant role to user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revokes a role from a user. Revoking the account role turns the account
+   * back into a regular "user". Every session of the user is ended so tokens
+   * carrying the old permissions stop working right away.
+   *
+   * @param userId - User losing the role
+   * @param role - Role to revoke
+   * @param revokedBy - Admin revoking the role
+   * @returns Roles and permissions of the user
+   *
+   * @throws {Error} INVALID_ROLE if the role doesn't exist
+   * @throws {Error} ROLE_NOT_REVOCABLE if the base "user" role is revoked
+   * @throws {Error} CANNOT_REVOKE_OWN_ADMIN_ROLE if an admin demotes itself
+   * @throws {Error} USER_NOT_FOUND if user doesn't exist
+   * @throws {Error} ROLE_NOT_GRANTED if the user doesn't have the role
+   */
+  static async revokeRole(
+    userId: string,
+    role: string,
+    revokedBy: string
+  ): Promise<UserRoles> {
+    try {
+      const result = safeParse(RoleGrantSchema, { role });
+      if (!result.success) {
+        throw new Error("INVALID_ROLE");
+      }
+
+      const validRole = result.output.role;
+
+      if (validRole === ROLES.USER) {
+        throw new Error("ROLE_NOT_REVOCABLE");
+      }
+
+      if (validRole === ROLES.ADMIN && userId === revokedBy) {
+        throw new Error("CANNOT_REVOKE_OWN_ADMIN_ROLE");
+      }
+
+      const user = await this.getUser(userId);
+      if (!getUserRoles(user).includes(validRole)) {
+        throw new Error("ROLE_NOT_GRANTED");
+      }
+
+      const update = {
+        role: user.role === validRole ? ROLES.USER : user.role,
+        roles: (user.roles ?? []).filter((granted) => granted !== validRole),
+      };
+
+      await firestoreService.update<User>(
+        this.COLLECTION_NAME,
+        userId,
+        update
+      );
+
+      await JWTService.revokeAllUserTokens(userId);
+      await SessionService.markAllRevoked(userId);
+
+      console.log(
+        `Role ${validRole} revoked from user ${userId} by ${revokedBy}`
+      );
+
+      return this.describe({ ...user, ...update });
+    } catch (error) {
+      console.error(`Failed to revoke role from user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Gets the roles and resolved permissions of a user.
+   *
+   * @param userId - User ID
+   * @returns Roles and permissions of the user
+   *
+   * @throws {Error} USER_NOT_FOUND if user doesn't exist
+   */
+  static async getUserRoles(userId: string): Promise<UserRoles> {
+    const user = await this.getUser(userId);
+    return this.describe(user);
+  }
+
+  /**
+   * Checks whether a user holds a permission through any of its roles.
+   *
+   * @param user - User with its account role and granted roles
+   * @param permission - Permission to check
+   * @returns True if the permission is granted
+   */
+  static hasPermission(
+    user: { role?: string; roles?: string[] },
+    permission: string
+  ): boolean {
+    return getUserPermissions(user).includes(permission);
+  }
+
+  /**
+   * Checks whether a user holds a role, as its account role or a granted one.
+   *
+   * @param user - User with its account role and granted roles
+   * @param role - Role to check
+   * @returns True if the user has the role
+   */
+  static hasRole(
+    user: { role?: string; roles?: string[] },
+    role: Role
+  ): boolean {
+    return getUserRoles(user).includes(role);
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  private static async getUser(userId: string): Promise<User> {
+    const user = await UserService.getUserById(userId);
+    if (!user) {
+      throw new Error("USER_NOT_FOUND");
+    }
+    return user;
+  }
+
+  private static describe(user: {
+    id: string;
+    role?: string;
+    roles?: string[];
+  }): UserRoles {
+    return {
+      userId: user.id,
+      roles: getUserRoles(user),
+      permissions: getUserPermissions(user),
+    };
+  }
+}
@@ -0,0 +1,283 @@
+import { safeParse } from "valibot";
+import { PublicSessionSchema, SessionSchema } from "../../models/schema/session";
+import type {
+  PublicSession,
+  Session,
+  SessionContext,
+} from "../../models/types/session";
+import { firestoreService } from "../Firebase/firebase.service";
+
+/**
+ * Keeps a user-facing record of every login (one per token family) with the
+ * device it came from, so users can see and revoke where they are signed in.
+ * Token revocation itself lives in JWTService; this service only tracks the
+ * session metadata.
+ */
+export class SessionService {
+  private static readonly COLLECTION_NAME = "sessions";
+
+  // Avoid a Firestore write on every authenticated request
+  private static readonly LAST_SEEN_THROTTLE_MS = 5 * 60 * 1000;
+  private static lastSeenWrites = new Map<string, number>();
+
+  /**
+   * ================================================
+   *                     CREATIONS
+   * ================================================
+   */
+
+  /**
+   * Records a new session for a freshly issued token family.
+   *
+   * @param sessionId - Token family id
+   * @param userId - Owner of the session
+   * @param expiresAt - Refresh token expiration (unix seconds)
+   * @param context - Device information of the login request
+   */
+  static async recordSession(
+    sessionId: string,
+    userId: string,
+    expiresAt: number,
+    context: SessionContext = {}
+  ): Promise<void> {
+    try {
+      const now = Date.now();
+
+      await firestoreService.create<Session>(
+        this.COLLECTION_NAME,
+        {
+          userId,
+          deviceName:
+            context.deviceName?.trim().slice(0, 100) ||
+            this.describeUserAgent(context.userAgent),
+          userAgent: context.userAgent?.slice(0, 500),
+          ip: context.ip,
+          startedAt: now,
+          lastSeenAt: now,
+          expiresAt: expiresAt * 1000,
+        },
+        sessionId
+      );
+    } catch (error) {
+      console.error(`Failed to record session ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                     UPDATES
+   * ================================================
+   */
+
+  /**
+   * Updates the last-seen time of a session, at most once every few minutes.
+   * When the refresh token was rotated, the new expiration is stored as well.
+   *
+   * @param sessionId - Session (token family) id
+   * @param expiresAt - New refresh token expiration (unix seconds), if rotated
+   */
+  static async touchSession(
+    sessionId: string,
+    expiresAt?: number
+  ): Promise<void> {
+    const now = Date.now();
+    const lastWrite = this.lastSeenWrites.get(sessionId) ?? 0;
+
+    if (expiresAt === undefined && now - lastWrite < this.LAST_SEEN_THROTTLE_MS) {
+      return;
+    }
+
+    this.lastSeenWrites.set(sessionId, now);
+
+    try {
+      await firestoreService.update<Session>(this.COLLECTION_NAME, sessionId, {
+        lastSeenAt: now,
+        ...(expiresAt !== undefined && { expiresAt: expiresAt * 1000 }),
+      });
+    } catch (error) {
+      console.warn(`Failed to update session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Marks a session as revoked.
+   *
+   * @param sessionId - Session (token family) id
+   */
+  static async markRevoked(sessionId: string): Promise<void> {
+    try {
+      this.lastSeenWrites.delete(sessionId);
+
+      await firestoreService.update<Session>(this.COLLECTION_NAME, sessionId, {
+        revokedAt: Date.now(),
+      });
+    } catch (error) {
+      console.error(`Failed to revoke session ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks every active session of a user as revoked.
+   *
+   * @param userId - Owner of the sessions
+   * @returns Number of sessions revoked
+   */
+  static async markAllRevoked(userId: string): Promise<number> {
+    try {
+      const sessions = await this.getActiveSessions(userId);
+
+      await Promise.all(
+        sessions.map((session) => this.markRevoked(session.id))
+      );
+
+      return sessions.length;
+    } catch (error) {
+      console.error(`Failed to revoke sessions of user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Retrieves a session by its ID.
+   *
+   * @param sessionId - Session (token family) id
+   * @returns Session or null if not found
+   */
+  static async getSession(sessionId: string): Promise<Session | null> {
+    try {
+      const session = await firestoreService.getById<Session>(
+        this.COLLECTION_NAME,
+        sessionId
+      );
+
+      if (!session) return null;
+
+      const result = safeParse(SessionSchema, session);
+      if (!result.success) {
+        throw new Error("INVALID_SESSION_DATA");
+      }
+
+      return result.output;
+    } catch (error) {
+      console.error(`Failed to get session ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks whether a session exists, is not revoked and has not expired.
+   *
+   * @param session - Session to check
+   * @returns True if the session can still be used
+   */
+  static isActive(session: Session | null): session is Session {
+    return (
+      !!session &&
+      session.revokedAt === undefined &&
+      session.expiresAt > Date.now()
+    );
+  }
+
+  /**
+   * Lists the active sessions of a user, most recently used first.
+   *
+   * @param userId - Owner of the sessions
+   * @param currentSessionId - Session of the request, flagged as current
+   * @returns Array of public session data
+   */
+  static async getUserSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<PublicSession[]> {
+    try {
+      const sessions = await this.getActiveSessions(userId);
+
+      const publicSessions: PublicSession[] = [];
+      for (const session of sessions) {
+        const result = safeParse(PublicSessionSchema, {
+          ...session,
+          current: session.id === currentSessionId,
+        });
+        if (result.success) {
+          publicSessions.push(result.output);
+        }
+      }
+
+      return publicSessions.sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+    } catch (error) {
+      console.error(`Failed to get sessions of user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Queries the active sessions of a user and drops malformed documents.
+   *
+   * @param userId - Owner of the sessions
+   * @returns Array of active sessions
+   */
+  private static async getActiveSessions(userId: string): Promise<Session[]> {
+    const sessions = await firestoreService.query<Session>(
+      this.COLLECTION_NAME,
+      {
+        where: ["userId", "==", userId],
+      }
+    );
+
+    const activeSessions: Session[] = [];
+    for (const session of sessions) {
+      const result = safeParse(SessionSchema, session);
+      if (result.success && this.isActive(result.output)) {
+        activeSessions.push(result.output);
+      }
+    }
+
+    return activeSessions;
+  }
+
+  /**
+   * Builds a readable device name ("Chrome on Windows") from a user agent.
+   *
+   * @param userAgent - User-Agent header of the login request
+   * @returns Device description
+   */
+  private static describeUserAgent(userAgent?: string): string {
+    if (!userAgent) return "Unknown device";
+
+    const browsers: [RegExp, string][] = [
+      [/Edg\//, "Edge"],
+      [/OPR\/|Opera/, "Opera"],
+      [/Firefox\//, "Firefox"],
+      [/Chrome\//, "Chrome"],
+      [/Safari\//, "Safari"],
+      [/okhttp|Dart\/|CFNetwork/, "Don-App"],
+    ];
+    const systems: [RegExp, string][] = [
+      [/Android/, "Android"],
+      [/iPhone|iPad|iOS/, "iOS"],
+      [/Windows/, "Windows"],
+      [/Mac OS X|Macintosh/, "macOS"],
+      [/Linux/, "Linux"],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) return `${browser} on ${system}`;
+    return browser || system || "Unknown device";
+  }
+}
@@ -0,0 +1,235 @@
+import type { TokenFamily } from "../../models/types/auth";
+import { firestoreService } from "../Firebase/firebase.service";
+
+/**
+ * Storage backend for revoked tokens and refresh-token families.
+ *
+ * A family is created on every login and follows the refresh token through
+ * each rotation. Revoking a family invalidates every access and refresh token
+ * issued from that login.
+ *
+ * Entries only need to live until the tokens they cover expire: `expiresAt`
+ * (unix seconds) is stored with every entry so the backend can drop them.
+ */
+export interface TokenRevocationStore {
+  readonly name: string;
+  revokeToken(tokenId: string, expiresAt: number): Promise<void>;
+  isTokenRevoked(tokenId: string): Promise<boolean>;
+  createFamily(family: TokenFamily): Promise<void>;
+  getFamily(familyId: string): Promise<TokenFamily | null>;
+  /**
+   * Atomically moves a family to its next refresh token.
+   * Returns false when the family is revoked or `expectedTokenId` is no longer
+   * the current refresh token (i.e. a rotated token is being reused).
+   */
+  rotateFamily(
+    familyId: string,
+    expectedTokenId: string,
+    nextTokenId: string,
+    expiresAt: number
+  ): Promise<boolean>;
+  revokeFamily(familyId: string): Promise<void>;
+  revokeUserFamilies(userId: string): Promise<number>;
+}
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Process-local store. Fine for tests and single-instance development, but
+ * revocations are lost on restart and not shared between instances.
+ */
+export class MemoryTokenRevocationStore implements TokenRevocationStore {
+  readonly name = "memory";
+
+  private revokedTokens = new Map<string, number>();
+  private families = new Map<string, TokenFamily>();
+
+  async revokeToken(tokenId: string, expiresAt: number): Promise<void> {
+    this.purgeExpired();
+    this.revokedTokens.set(tokenId, expiresAt);
+  }
+
+  async isTokenRevoked(tokenId: string): Promise<boolean> {
+    const expiresAt = this.revokedTokens.get(tokenId);
+    return expiresAt !== undefined && expiresAt > nowInSeconds();
+  }
+
+  async createFamily(family: TokenFamily): Promise<void> {
+    this.purgeExpired();
+    this.families.set(family.id, { ...family });
+  }
+
+  async getFamily(familyId: string): Promise<TokenFamily | null> {
+    const family = this.families.get(familyId);
+    if (!family || family.expiresAt <= nowInSeconds()) return null;
+    return { ...family };
+  }
+
+  async rotateFamily(
+    familyId: string,
+    expectedTokenId: string,
+    nextTokenId: string,
+    expiresAt: number
+  ): Promise<boolean> {
+    const family = this.families.get(familyId);
+    if (
+      !family ||
+      family.revokedAt !== undefined ||
+      family.currentTokenId !== expectedTokenId
+    ) {
+      return false;
+    }
+
+    family.currentTokenId = nextTokenId;
+    family.expiresAt = expiresAt;
+    return true;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    const family = this.families.get(familyId);
+    if (family && family.revokedAt === undefined) {
+      family.revokedAt = nowInSeconds();
+    }
+  }
+
+  async revokeUserFamilies(userId: string): Promise<number> {
+    let revoked = 0;
+    for (const family of this.families.values()) {
+      if (family.userId === userId && family.revokedAt === undefined) {
+        family.revokedAt = nowInSeconds();
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+
+  private purgeExpired(): void {
+    const now = nowInSeconds();
+
+    for (const [tokenId, expiresAt] of this.revokedTokens) {
+      if (expiresAt <= now) this.revokedTokens.delete(tokenId);
+    }
+
+    for (const [familyId, family] of this.families) {
+      if (family.expiresAt <= now) this.families.delete(familyId);
+    }
+  }
+}
+
+/**
+ * Firestore-backed store shared by every instance.
+ *
+ * Documents carry a `deleteAt` date so a Firestore TTL policy on that field
+ * (collections "revoked_tokens" and "token_families") removes them once the
+ * tokens they cover have expired.
+ */
+export class FirestoreTokenRevocationStore implements TokenRevocationStore {
+  readonly name = "firestore";
+
+  private static readonly REVOKED_COLLECTION = "revoked_tokens";
+  private static readonly FAMILY_COLLECTION = "token_families";
+
+  async revokeToken(tokenId: string, expiresAt: number): Promise<void> {
+    await firestoreService.create(
+      FirestoreTokenRevocationStore.REVOKED_COLLECTION,
+      { expiresAt, deleteAt: new Date(expiresAt * 1000) },
+      tokenId
+    );
+  }
+
+  async isTokenRevoked(tokenId: string): Promise<boolean> {
+    const entry = await firestoreService.getById<{ expiresAt: number }>(
+      FirestoreTokenRevocationStore.REVOKED_COLLECTION,
+      tokenId
+    );
+    return !!entry && entry.expiresAt > nowInSeconds();
+  }
+
+  async createFamily(family: TokenFamily): Promise<void> {
+    const { id, ...data } = family;
+    await firestoreService.create(
+      FirestoreTokenRevocationStore.FAMILY_COLLECTION,
+      { ...data, deleteAt: new Date(family.expiresAt * 1000) },
+      id
+    );
+  }
+
+  async getFamily(familyId: string): Promise<TokenFamily | null> {
+    const family = await firestoreService.getById<TokenFamily>(
+      FirestoreTokenRevocationStore.FAMILY_COLLECTION,
+      familyId
+    );
+    if (!family || family.expiresAt <= nowInSeconds()) return null;
+    return family;
+  }
+
+  async rotateFamily(
+    familyId: string,
+    expectedTokenId: string,
+    nextTokenId: string,
+    expiresAt: number
+  ): Promise<boolean> {
+    return firestoreService.runTransaction(async (transaction) => {
+      const reference = firestoreService.getDocumentReference(
+        FirestoreTokenRevocationStore.FAMILY_COLLECTION,
+        familyId
+      );
+      const snapshot = await transaction.get(reference);
+      const family = snapshot.data() as TokenFamily | undefined;
+
+      if (
+        !family ||
+        family.revokedAt !== undefined ||
+        family.currentTokenId !== expectedTokenId
+      ) {
+        return false;
+      }
+
+      transaction.update(reference, {
+        currentTokenId: nextTokenId,
+        expiresAt,
+        deleteAt: new Date(expiresAt * 1000),
+      });
+      return true;
+    });
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    await firestoreService.update<TokenFamily>(
+      FirestoreTokenRevocationStore.FAMILY_COLLECTION,
+      familyId,
+      { revokedAt: nowInSeconds() }
+    );
+  }
+
+  async revokeUserFamilies(userId: string): Promise<number> {
+    const families = await firestoreService.query<TokenFamily>(
+      FirestoreTokenRevocationStore.FAMILY_COLLECTION,
+      { where: ["userId", "==", userId] }
+    );
+
+    const active = families.filter(
+      (family) =>
+        family.revokedAt === undefined && family.expiresAt > nowInSeconds()
+    );
+
+    await Promise.all(active.map((family) => this.revokeFamily(family.id)));
+
+    return active.length;
+  }
+}
+
+/**
+ * Builds the store selected by TOKEN_REVOCATION_STORE ("firestore" | "memory").
+ *
+ * @returns Configured revocation store (defaults to Firestore)
+ */
+export function createTokenRevocationStoreFromEnv(): TokenRevocationStore {
+  switch (process.env.TOKEN_REVOCATION_STORE) {
+    case "memory":
+      return new MemoryTokenRevocationStore();
+    case "firestore":
+    default:
+      return new FirestoreTokenRevocationStore();
+  }
+}
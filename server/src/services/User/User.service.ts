@@ -1,4 +1,4 @@
-import { safeParse } from "valibot";
+import { partial, safeParse } from "valibot";
 import {
   BaseUserSchema,
   MinimalUserSchema,
@@ -8,7 +8,13 @@ import {
   UserUpdateSchema,
 } from "../../models/schema/user";
 import { firestoreService } from "../Firebase/firebase.service";
-import type { MinimalUser, PublicUser, User } from "../../models/types/user";
+import type {
+  MinimalUser,
+  NearbyUser,
+  PublicUser,
+  User,
+} from "../../models/types/user";
+import { GeoService } from "../Geo/geo.service";
 import { compare, hash } from "bcrypt";
 
 export class UserService {
@@ -25,12 +31,16 @@ export class UserService {
    * Creates a new user with validated registration data.
    *
    * @param input - Raw user registration data to validate
+   * @param role - Role of the new account (default: "user")
    * @returns Promise resolving to the created user's ID
    *
    * @throws {Error} VALIDATION_ERROR with field details if input validation fails
    * @throws {Error} If user with same email/username exists or database operation fails
    */
-  static async createsUser(input: unknown): Promise<string> {
+  static async createsUser(
+    input: unknown,
+    role: "user" | "donationCenter" = "user"
+  ): Promise<string> {
     try {
       const result = safeParse(UserRegistrationSchema, input);
 
@@ -64,7 +74,7 @@ export class UserService {
           latitude: 0,
           longitude: 0,
         },
-        role: "user",
+        role,
         isVerified: false,
       };
 
@@ -171,11 +181,17 @@ export class UserService {
         await this.checkUsernameUnique(validateUpdate.username, id);
       }
 
-      await firestoreService.update<User>(
-        this.COLLECTION_NAME,
-        id,
-        validateUpdate
-      );
+      const { location, ...fields } = validateUpdate;
+
+      await firestoreService.update<User>(this.COLLECTION_NAME, id, {
+        ...fields,
+        ...(location && {
+          location: {
+            ...location,
+            geohash: GeoService.encode(location.latitude, location.longitude),
+          },
+        }),
+      });
     } catch (error) {
       console.error(`Failed to update user ${id}:`, error);
       throw error;
@@ -184,18 +200,32 @@ export class UserService {
 
   /**
    * Updates a user's password after validating current password.
+   * When the caller already proved ownership of the account (e.g. with a
+   * password reset token), the current password check can be skipped.
    *
    * @param userId - The user's ID
    * @param input - Password change data (currentPassword, newPassword)
+   * @param options - Set requireCurrentPassword to false for password resets
    * @returns Promise that resolves when password is updated
    *
    * @throws {Error} VALIDATION_ERROR if input validation fails
    * @throws {Error} USER_NOT_FOUND if user doesn't exist
    * @throws {Error} INVALID_CURRENT_PASSWORD if current password doesn't match
    */
-  static async updatePassword(userId: string, input: unknown): Promise<void> {
+  static async updatePassword(
+    userId: string,
+    input: unknown,
+    options: { requireCurrentPassword?: boolean } = {}
+  ): Promise<void> {
+    const { requireCurrentPassword = true } = options;
+
     try {
-      const result = safeParse(PasswordChangeSchema, input);
+      const result = safeParse(
+        requireCurrentPassword
+          ? PasswordChangeSchema
+          : partial(PasswordChangeSchema, ["currentPassword"]),
+        input
+      );
 
       if (!result.success) {
         const errors = result.issues.map((issue) => ({
@@ -213,12 +243,14 @@ export class UserService {
         throw new Error("USER_NOT_FOUND");
       }
 
-      const isCurrentPasswordValid = await compare(
-        validatedData.currentPassword,
-        user.password
-      );
-      if (!isCurrentPasswordValid) {
-        throw new Error("INVALID_CURRENT_PASSWORD");
+      if (requireCurrentPassword) {
+        const isCurrentPasswordValid = await compare(
+          validatedData.currentPassword ?? "",
+          user.password
+        );
+        if (!isCurrentPasswordValid) {
+          throw new Error("INVALID_CURRENT_PASSWORD");
+        }
       }
 
       const hashedPassword = await hash(validatedData.newPassword, 12);
@@ -232,44 +264,6 @@ export class UserService {
     }
   }
 
-  /**
- * Updates a user's rating by adding a new rating and recalculating average.
- * 
- * @param userId - The user's ID
- * @param newRating - The new rating value to add
- * @returns Promise that resolves when rating is updated
- * 
- * @throws {Error} USER_NOT_FOUND if user doesn't exist
-
- */
-  static async updateUserRating(
-    userId: string,
-    newRating: number
-  ): Promise<void> {
-    try {
-      const user = await this.getUserById(userId);
-      if (!user) {
-        throw new Error("USER_NOT_FOUND");
-      }
-
-      const currentRating = user.rating || { average: 0, count: 0 };
-      const totalScore =
-        currentRating.average * currentRating.count + newRating;
-      const newCount = currentRating.count + 1;
-      const newAverage = totalScore / newCount;
-
-      await firestoreService.update<User>(this.COLLECTION_NAME, userId, {
-        rating: {
-          average: Math.round(newAverage * 100) / 100,
-          count: newCount,
-        },
-      });
-    } catch (error) {
-      console.error(`Failed to update rating for user ${userId}:`, error);
-      throw error;
-    }
-  }
-
   /**
    * Marks a user's email as verified.
    *
@@ -447,63 +441,43 @@ export class UserService {
   }
 
   /**
-   * Gets users within a specified radius of a geographic location.
-   * Note: This performs client-side filtering after fetching from Firestore.
+   * Gets users within a specified radius of a geographic location, closest
+   * first. Runs geohash range queries, so only users who shared a location
+   * are returned.
    *
    * @param latitude - Center point latitude
    * @param longitude - Center point longitude
    * @param radiusKm - Search radius in kilometers (default: 10)
    * @param limit - Maximum number of users to return (default: 50)
-   * @returns Array of PublicUser objects within the specified radius
+   * @param excludeIds - Users to leave out, such as blocked users
+   * @returns Array of public profiles with their distance in kilometers
    */
   static async getUserNearLocation(
     latitude: number,
     longitude: number,
     radiusKm: number = 10,
-    limit: number = 50
-  ): Promise<PublicUser[]> {
+    limit: number = 50,
+    excludeIds: Set<string> = new Set()
+  ): Promise<NearbyUser[]> {
     try {
-      // THIS IS FROM CHAT GPT I'NOT SURE THIS IS GOING TO WORK
-      const earthRadiusKm = 6371;
-      const latDelta = (radiusKm / earthRadiusKm) * (180 / Math.PI);
-      const lonDelta =
-        ((radiusKm / earthRadiusKm) * (180 / Math.PI)) /
-        Math.cos((latitude * Math.PI) / 180);
-
-      const minLat = latitude - latDelta;
-      const maxLat = latitude + latDelta;
-      const minLon = longitude - lonDelta;
-      const maxLon = longitude + lonDelta;
-
-      const users = await firestoreService.query<User>(this.COLLECTION_NAME, {
-        where: ["location", "!=", null],
-        limit: limit * 2,
-      });
-
-      const nearbyUsers = users
-        .filter((user) => {
-          if (!user.location) return false;
-
-          const distance = this.calculateHaversineDistance(
-            latitude,
-            longitude,
-            user.location.latitude,
-            user.location.longitude
-          );
+      const users = await GeoService.queryNearby<User>(
+        this.COLLECTION_NAME,
+        { latitude, longitude },
+        radiusKm,
+        { limit: limit + excludeIds.size }
+      );
 
-          return distance <= radiusKm;
-        })
-        .slice(0, limit);
+      const nearbyUsers: NearbyUser[] = [];
+      for (const { distance, ...user } of users) {
+        if (excludeIds.has(user.id) || nearbyUsers.length >= limit) continue;
 
-      const publicUsers: PublicUser[] = [];
-      for (const user of nearbyUsers) {
         const result = safeParse(PublicUserSchema, user);
         if (result.success) {
-          publicUsers.push(result.output);
+          nearbyUsers.push({ ...result.output, distance });
         }
       }
 
-      return publicUsers;
+      return nearbyUsers;
     } catch (error) {
       console.error("Failed to get users near location: ", error);
       throw error;
@@ -515,12 +489,14 @@ export class UserService {
    *
    * @param query - Search query string
    * @param limit - Maximum number of results (default: 20)
+   * @param excludeIds - Users to leave out, such as blocked users
    * @returns Promise resolving to array of PublicUser objects
    * IF IT NEED TO ESCALATE (USER COUNT MORE THAT 200) NEED TO CHANGE THE QUERY METHOD OR APPROACH
    */
   static async searchUser(
     query: string,
-    limit: number = 20
+    limit: number = 20,
+    excludeIds: Set<string> = new Set()
   ): Promise<PublicUser[]> {
     try {
       const searchQuery = query.toLowerCase().trim();
@@ -555,7 +531,7 @@ export class UserService {
       });
 
       const filteredAndSorted = scoredUsers
-        .filter((item) => item.score > 0)
+        .filter((item) => item.score > 0 && !excludeIds.has(item.user.id))
         .sort((a, b) => b.score - a.score)
         .map((item) => item.user)
         .slice(0, limit);
@@ -581,6 +557,21 @@ export class UserService {
    * ================================================
    */
 
+  /**
+   * Checks whether moderation suspended a user and the suspension still
+   * runs.
+   *
+   * @param user - User to check
+   * @param now - Reference time in ms (default: now)
+   * @returns True if the user is suspended
+   */
+  static isSuspended(
+    user: Pick<User, "suspendedUntil">,
+    now: number = Date.now()
+  ): boolean {
+    return user.suspendedUntil !== undefined && user.suspendedUntil > now;
+  }
+
   /**
    * Verifies a plain password against a hashed password.
    *
@@ -644,48 +635,6 @@ export class UserService {
     }
   }
 
-  /**
-   * Calculates distance between two geographic points using Haversine formula.
-   *
-   * @param lat1 - First point latitude
-   * @param lon1 - First point longitude
-   * @param lat2 - Second point latitude
-   * @param lon2 - Second point longitude
-   * @returns Distance in kilometers
-   */
-  private static calculateHaversineDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLon = this.deg2rad(lon2 - lon1);
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.deg2rad(lat1)) *
-        Math.cos(this.deg2rad(lat2)) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const distance = R * c; // Distance in kilometers
-
-    return distance;
-  }
-
-  /**
-   * Converts degrees to radians.
-   *
-   * @param deg - Angle in degrees
-   * @returns Angle in radians
-   */
-  private static deg2rad(deg: number): number {
-    return deg * (Math.PI / 180);
-  }
-
   private static isValidUrl(url: string): boolean {
   try {
     new URL(url);
@@ -0,0 +1,228 @@
+import { FieldValue, type Transaction } from "firebase-admin/firestore";
+import { safeParse } from "valibot";
+import { UserStatsSchema } from "../../models/schema/userStats";
+import type { Conversation } from "../../models/schema/chat";
+import type {
+  UserStats,
+  UserStatsDelta,
+  UserStatsSummary,
+} from "../../models/types/userStats";
+import type { User } from "../../models/types/user";
+import { firestoreService } from "../Firebase/firebase.service";
+
+/**
+ * Activity statistics of users. Counters are incremented by the services
+ * that complete transactions, change publication statuses or send messages,
+ * so reading them costs a single document.
+ *
+ * Response statistics only count direct conversations: the first message
+ * a user receives after their own last message calls for a reply, and
+ * their next message answers it.
+ */
+export class UserStatsService {
+  private static readonly COLLECTION_NAME = "user_stats";
+  private static readonly CONVERSATIONS_COLLECTION = "conversations";
+
+  /**
+   * ================================================
+   *                     UPDATES
+   * ================================================
+   */
+
+  /**
+   * Increments the counters of a user. Inside a transaction the increments
+   * are written with it; otherwise they are written right away.
+   *
+   * @param userId - ID of the user
+   * @param delta - Counter increments, negative to decrement
+   * @param transaction - Optional transaction to write with
+   */
+  static async record(
+    userId: string,
+    delta: UserStatsDelta,
+    transaction?: Transaction
+  ): Promise<void> {
+    const reference = firestoreService.getDocumentReference(
+      this.COLLECTION_NAME,
+      userId
+    );
+    const data = this.toIncrements(userId, delta);
+
+    if (transaction) {
+      transaction.set(reference, data, { merge: true });
+      return;
+    }
+
+    try {
+      await reference.set(data, { merge: true });
+    } catch (error) {
+      // Statistics never fail the write that produced them
+      console.error(`Stats out of sync for user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Updates the response statistics after a direct message was sent: the
+   * recipient now owes a reply, and the sender answered if they owed one.
+   *
+   * @param conversationId - ID of the conversation
+   * @param senderId - ID of the sender
+   * @param sentAt - Time the message was sent (ms)
+   */
+  static async recordMessage(
+    conversationId: string,
+    senderId: string,
+    sentAt: number = Date.now()
+  ): Promise<void> {
+    try {
+      await firestoreService.runTransaction(async (transaction) => {
+        const reference = firestoreService.getDocumentReference(
+          this.CONVERSATIONS_COLLECTION,
+          conversationId
+        );
+        const snapshot = await transaction.get(reference);
+        const conversation = snapshot.data() as Conversation | undefined;
+
+        if (!conversation || conversation.type !== "direct") return;
+
+        const recipientId = conversation.participants.find(
+          (id) => id !== senderId
+        );
+        if (!recipientId) return;
+
+        const awaiting = conversation.awaitingReply;
+
+        // Follow-up messages don't call for another reply
+        if (awaiting?.userId === recipientId) return;
+
+        if (awaiting?.userId === senderId) {
+          await this.record(
+            senderId,
+            {
+              messagesAnswered: 1,
+              totalResponseTime: Math.max(0, sentAt - awaiting.since),
+            },
+            transaction
+          );
+        }
+
+        await this.record(recipientId, { messagesToAnswer: 1 }, transaction);
+
+        transaction.update(reference, {
+          awaitingReply: { userId: recipientId, since: sentAt },
+        });
+      });
+    } catch (error) {
+      console.error(
+        `Response stats out of sync for conversation ${conversationId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * ================================================
+   *                      GETS
+   * ================================================
+   */
+
+  /**
+   * Retrieves the raw counters of a user. Users without activity get
+   * zeroed counters.
+   *
+   * @param userId - ID of the user
+   * @returns User counters
+   */
+  static async getStats(userId: string): Promise<UserStats> {
+    try {
+      const stats = await firestoreService.getById<UserStats>(
+        this.COLLECTION_NAME,
+        userId
+      );
+
+      const result = safeParse(UserStatsSchema, { ...stats, userId });
+      if (!result.success) {
+        console.error("User stats schema validation failed:", result.issues);
+        throw new Error("INVALID_USER_STATS_DATA");
+      }
+
+      return result.output;
+    } catch (error) {
+      console.error(`Failed to get stats for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Summarizes a user's statistics for their profile.
+   *
+   * @param user - User to summarize
+   * @returns Donations, exchanges, active publications, chat responsiveness
+   * and donated quantities per category
+   */
+  static async getSummary(user: User): Promise<UserStatsSummary> {
+    const stats = await this.getStats(user.id);
+
+    const { activePublications } = stats;
+    const byCategory = Object.fromEntries(
+      Object.entries(stats.impact).filter(([, quantity]) => quantity > 0)
+    );
+
+    return {
+      rating: user.rating || { average: 0, count: 0 },
+      donations: {
+        given: stats.donationsGiven,
+        received: stats.donationsReceived,
+      },
+      itemsExchanged: stats.itemsExchanged,
+      pledgesFulfilled: stats.pledgesFulfilled,
+      activePublications: {
+        ...activePublications,
+        total: Object.values(activePublications).reduce((a, b) => a + b, 0),
+      },
+      responseRate:
+        stats.messagesToAnswer > 0
+          ? Math.round(
+              (stats.messagesAnswered / stats.messagesToAnswer) * 1000
+            ) / 10
+          : null,
+      averageResponseTime:
+        stats.messagesAnswered > 0
+          ? Math.round(
+              stats.totalResponseTime / stats.messagesAnswered / 60000
+            )
+          : null,
+      impact: {
+        totalQuantity: Object.values(byCategory).reduce((a, b) => a + b, 0),
+        byCategory,
+      },
+    };
+  }
+
+  /**
+   * ================================================
+   *                      UTILS
+   * ================================================
+   */
+
+  /**
+   * Turns counter increments into a document merge.
+   */
+  private static toIncrements(userId: string, delta: UserStatsDelta) {
+    const { activePublications = {}, impact = {}, ...counters } = delta;
+    const increment = (values: Record<string, number | undefined>) =>
+      Object.fromEntries(
+        Object.entries(values)
+          .filter(([, value]) => value)
+          .map(([key, value]) => [key, FieldValue.increment(value!)])
+      );
+
+    return {
+      userId,
+      ...increment(counters),
+      activePublications: increment(activePublications),
+      impact: increment(impact),
+      updatedAt: new Date(),
+    };
+  }
+}